@@ -0,0 +1,21 @@
+/**
+ * Build Case Vectors
+ *
+ * Build step: embeds the bundled case studies with the default embedding
+ * provider and writes dist/case-library/case-vectors.json, so the server
+ * starts with vectors ready instead of embedding every case on first use.
+ *
+ *   node dist/case-library/build-vectors.js
+ */
+
+import { getCaseVectorPath, writeCaseVectors } from "./embeddings.js";
+
+// Run if executed directly
+if (process.argv[1]?.endsWith("build-vectors.js")) {
+  writeCaseVectors()
+    .then((count) => console.log(`Embedded ${count} case studies → ${getCaseVectorPath()}`))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
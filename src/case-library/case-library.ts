@@ -0,0 +1,177 @@
+/**
+ * Case Library
+ *
+ * The single source of case studies for every tool, prompt and resource.
+ * Each case is a YAML or JSON file identified by its file name
+ * (steel_minimills.yaml → steel_minimills). Bundled cases live in the
+ * cases/ directory next to this module (the build copies them to
+ * dist/case-library/cases/); user-supplied directories are layered on
+ * top, and a user file replaces the bundled case with the same key.
+ * Files are validated when the library loads.
+ */
+
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import { z } from "zod";
+import { parseYamlWithSchema } from "../yaml-schema.js";
+import { innovationTypeSchema } from "../frameworks/schemas.js";
+import type { InnovationType } from "../frameworks/types.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * A case study as defined in its data file, plus its key
+ */
+export interface CaseStudyDefinition {
+  /** Case identifier (file name without extension) */
+  key: string;
+  name: string;
+  pattern: string;
+  story: string;
+  signals: string[];
+  lessonsForToday: string;
+  keyTakeaways: string[];
+  commonMisapplications: string[];
+  questionsToAsk: string[];
+  /** Industry tags, e.g. "steel", "healthcare" */
+  industries: string[];
+  /** Year the pattern became visible */
+  year?: number;
+  /** How the case classifies under disruption theory */
+  innovationType?: InnovationType;
+}
+
+// ============================================================
+// Schema
+// ============================================================
+
+const text = z.string().trim().min(1, "must not be empty");
+const textList = z.array(text).min(1, "at least one entry is required");
+
+/**
+ * Schema for a case study data file (the key comes from the file name)
+ */
+export const caseStudyFileSchema = z
+  .object({
+    name: text,
+    pattern: text,
+    story: text,
+    signals: textList,
+    lessonsForToday: text,
+    keyTakeaways: textList,
+    commonMisapplications: textList,
+    questionsToAsk: textList,
+    industries: z.array(text).default([]),
+    year: z.number().int().min(1000).max(9999).optional(),
+    innovationType: innovationTypeSchema.optional(),
+  })
+  .strict() satisfies z.ZodType<Omit<CaseStudyDefinition, "key">, z.ZodTypeDef, unknown>;
+
+// ============================================================
+// Loading
+// ============================================================
+
+const CASE_FILE_PATTERN = /^([\w-]+)\.(ya?ml|json)$/;
+
+/**
+ * Directory of case study files shipped with the package
+ */
+export function getBundledCaseDirectory(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), "cases");
+}
+
+/**
+ * Loaded library (read once, on first use)
+ */
+let caseLibrary: Map<string, CaseStudyDefinition> | undefined;
+
+/**
+ * User-supplied case directories, lowest precedence first
+ */
+let userCaseDirectories: string[] = [];
+
+/**
+ * Add user directories of case files on top of the bundled cases.
+ * Later directories win when two define the same case key.
+ */
+export function setCaseDirectories(directories: string[]): void {
+  for (const directory of directories) {
+    if (!existsSync(directory)) {
+      throw new Error(`Case directory not found: ${directory}`);
+    }
+  }
+  userCaseDirectories = [...directories];
+  caseLibrary = undefined;
+}
+
+/**
+ * Directories searched for case files, lowest precedence first
+ */
+export function getCaseDirectories(): string[] {
+  return [getBundledCaseDirectory(), ...userCaseDirectories];
+}
+
+/**
+ * Load and validate every case file, keyed by case key
+ */
+function loadCaseLibrary(): Map<string, CaseStudyDefinition> {
+  const cases = new Map<string, CaseStudyDefinition>();
+
+  for (const directory of getCaseDirectories()) {
+    for (const file of readdirSync(directory).sort()) {
+      const match = file.match(CASE_FILE_PATTERN);
+      if (!match) continue;
+
+      // JSON is a subset of YAML, so one parser gives positions for both
+      const key = match[1];
+      const definition = parseYamlWithSchema(
+        readFileSync(join(directory, file), "utf-8"),
+        caseStudyFileSchema,
+        `Invalid case study ${join(directory, file)}`
+      );
+      cases.set(key, { key, ...definition });
+    }
+  }
+
+  return new Map([...cases.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function getLibrary(): Map<string, CaseStudyDefinition> {
+  caseLibrary ??= loadCaseLibrary();
+  return caseLibrary;
+}
+
+// ============================================================
+// Library Access
+// ============================================================
+
+/**
+ * All case studies, ordered by key
+ */
+export function listCases(): CaseStudyDefinition[] {
+  return [...getLibrary().values()];
+}
+
+/**
+ * Keys of all case studies, ordered
+ */
+export function getCaseKeys(): string[] {
+  return [...getLibrary().keys()];
+}
+
+/**
+ * Get a case study by key
+ */
+export function getCase(key: string): CaseStudyDefinition | undefined {
+  return getLibrary().get(key);
+}
+
+/**
+ * Find a case study by its display name
+ */
+export function findCaseByName(name: string): CaseStudyDefinition | undefined {
+  return listCases().find((c) => c.name === name);
+}
@@ -0,0 +1,393 @@
+/**
+ * Case Embeddings
+ *
+ * Semantic side of case matching. Case signals and stories are embedded
+ * by a pluggable EmbeddingProvider and compared with a query by cosine
+ * similarity, so a situation can find its analogy without sharing words
+ * with the case. The default provider is a local hashed n-gram model -
+ * no network, no model download - and the build precomputes its vectors
+ * for the bundled cases (dist/case-library/case-vectors.json). Cases the
+ * file doesn't cover (user cases, edited cases, another provider) are
+ * embedded on first use.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import { listCases } from "./case-library.js";
+import type { CaseStudyDefinition } from "./case-library.js";
+import { SYNONYM_GROUPS, stem, tokenize } from "./retrieval.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface EmbeddingProvider {
+  /** Model identifier, stored with precomputed vectors */
+  readonly id: string;
+
+  /** Embed each text as a vector; all vectors share one dimension */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embedded form of one case
+ */
+export interface CaseVectors {
+  /** Hash of the embedded text, to detect stale precomputed vectors */
+  contentHash: string;
+  /** One vector per signal, in case order */
+  signals: number[][];
+  story: number[];
+}
+
+/**
+ * Precomputed vector file written at build time
+ */
+export interface CaseVectorFile {
+  provider: string;
+  cases: Record<string, CaseVectors>;
+}
+
+/**
+ * Semantic similarity of one case to a query
+ */
+export interface SemanticCaseMatch {
+  caseStudy: CaseStudyDefinition;
+  /** Blend of the closest signal and story similarity, 0-1 */
+  similarity: number;
+  /** The case signal closest to the query */
+  closestSignal: string;
+  signalSimilarity: number;
+  storySimilarity: number;
+}
+
+// ============================================================
+// Hashed N-gram Provider
+// ============================================================
+
+/**
+ * Theory concepts the local model recognizes across wordings. A text
+ * containing any phrase gets the concept as a feature, so "customers are
+ * overserved" and "performance oversupply" land close. Phrases are terms
+ * of the theories themselves, not everyday words ("job", "margin") that
+ * would pull unrelated situations toward a case.
+ */
+export const THEORY_CONCEPTS: Record<string, string[]> = {
+  overshooting: [
+    "overshoot", "overshot", "overserved", "overserving", "oversupply", "good enough", "bells and whistles",
+  ],
+  nonconsumption: [
+    "non-consumption", "nonconsumption", "non-consumer", "nonconsumer", "unserved",
+  ],
+  lowEndFoothold: [
+    "low-end", "lowest-margin", "least profitable", "low-end foothold", "low-cost entrant",
+  ],
+  asymmetricMotivation: [
+    "asymmetric motivation", "cede", "relieved to exit", "retreat upmarket", "flee upmarket",
+  ],
+  businessModelConflict: [
+    "business model", "profit formula", "cannibalize", "razor and blade",
+  ],
+  jobToBeDone: [
+    "job to be done", "jobs to be done", "jobs-to-be-done", "hire the product", "hired the product",
+  ],
+  capabilities: [
+    "resource allocation", "resources processes priorities", "capabilities processes priorities",
+  ],
+  emergentStrategy: [
+    "emergent strategy", "deliberate strategy", "emergent",
+  ],
+  improvementTrajectory: [
+    "trajectory", "upmarket", "sustaining innovation", "sustaining improvement",
+  ],
+  commoditization: [
+    "commoditize", "commoditization", "commodity", "modular", "modularity", "interchangeable", "value chain",
+  ],
+};
+
+/** Feature weights: concepts dominate, character trigrams only nudge */
+const FEATURE_WEIGHTS = {
+  concept: 2,
+  synonymGroup: 1,
+  word: 1,
+  bigram: 0.5,
+  trigram: 0.2,
+};
+
+const DEFAULT_DIMENSIONS = 512;
+
+/**
+ * Stem sequences for each concept phrase
+ */
+const CONCEPT_PHRASES: [string, string[]][] = Object.entries(THEORY_CONCEPTS).flatMap(
+  ([concept, phrases]) => phrases.map((phrase): [string, string[]] => [concept, tokenize(phrase)])
+);
+
+/**
+ * Synonym group index for each stem
+ */
+const SYNONYM_GROUP_OF: Map<string, number> = new Map(
+  SYNONYM_GROUPS.flatMap((group, i) => group.map((word): [string, number] => [stem(word), i]))
+);
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (sequence.length === 0) return false;
+  for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    if (sequence.every((token, j) => tokens[i + j] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Weighted features of a text
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) =>
+    features.set(feature, (features.get(feature) ?? 0) + weight);
+
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    add(`w:${token}`, FEATURE_WEIGHTS.word);
+    if (i > 0) add(`b:${tokens[i - 1]} ${token}`, FEATURE_WEIGHTS.bigram);
+    const padded = `<${token}>`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`t:${padded.slice(j, j + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+    const group = SYNONYM_GROUP_OF.get(token);
+    if (group !== undefined) add(`s:${group}`, FEATURE_WEIGHTS.synonymGroup);
+  });
+
+  const concepts = new Set(
+    CONCEPT_PHRASES.filter(([, sequence]) => containsSequence(tokens, sequence)).map(([concept]) => concept)
+  );
+  for (const concept of concepts) {
+    add(`c:${concept}`, FEATURE_WEIGHTS.concept);
+  }
+
+  return features;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local embedding model: words, word bigrams, character trigrams, synonym
+ * groups and theory concepts hashed into a fixed-size signed vector
+ * (the "hashing trick"), L2-normalized. Deterministic and offline.
+ */
+export function createHashedNgramEmbedder(dimensions = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: `hashed-ngram-v1/${dimensions}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const [feature, weight] of extractFeatures(text)) {
+          const hash = fnv1a(feature);
+          vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+// ============================================================
+// Vector Math
+// ============================================================
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Cosine similarity of two vectors (0 if either is empty)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ============================================================
+// Provider Selection
+// ============================================================
+
+let embeddingProvider: EmbeddingProvider = createHashedNgramEmbedder();
+
+/**
+ * Provider used for case matching
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return embeddingProvider;
+}
+
+/**
+ * Replace the embedding provider (e.g. with a hosted model). Case vectors
+ * are re-embedded with the new provider on next use.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+  vectorCache = undefined;
+}
+
+// ============================================================
+// Case Vectors
+// ============================================================
+
+/**
+ * Where the build writes precomputed vectors for the bundled cases
+ */
+export function getCaseVectorPath(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), "case-vectors.json");
+}
+
+/**
+ * Hash of the case text that gets embedded
+ */
+function caseContentHash(caseStudy: CaseStudyDefinition): string {
+  return createHash("sha256")
+    .update(JSON.stringify([caseStudy.signals, caseStudy.story]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Embed the signals and story of each case in one provider call
+ */
+export async function embedCases(
+  cases: CaseStudyDefinition[],
+  provider: EmbeddingProvider = embeddingProvider
+): Promise<Record<string, CaseVectors>> {
+  const texts = cases.flatMap((c) => [c.story, ...c.signals]);
+  const vectors = await provider.embed(texts);
+
+  const result: Record<string, CaseVectors> = {};
+  let offset = 0;
+  for (const caseStudy of cases) {
+    const [story, ...signals] = vectors.slice(offset, offset + 1 + caseStudy.signals.length);
+    offset += 1 + caseStudy.signals.length;
+    result[caseStudy.key] = { contentHash: caseContentHash(caseStudy), signals, story };
+  }
+  return result;
+}
+
+/**
+ * Precomputed vectors for the current provider, if the build wrote them
+ */
+function loadPrecomputedVectors(): Record<string, CaseVectors> {
+  const path = getCaseVectorPath();
+  if (!existsSync(path)) return {};
+
+  const file = JSON.parse(readFileSync(path, "utf-8")) as CaseVectorFile;
+  return file.provider === embeddingProvider.id ? file.cases : {};
+}
+
+/**
+ * Embed the bundled cases and write the vector file (run by the build)
+ */
+export async function writeCaseVectors(path: string = getCaseVectorPath()): Promise<number> {
+  const cases = listCases();
+  const file: CaseVectorFile = {
+    provider: embeddingProvider.id,
+    cases: await embedCases(cases),
+  };
+  writeFileSync(path, JSON.stringify(file, (_key, value) =>
+    typeof value === "number" ? Math.round(value * 1e5) / 1e5 : value
+  ));
+  return cases.length;
+}
+
+interface VectorCache {
+  cases: CaseStudyDefinition[];
+  vectors: Map<string, CaseVectors>;
+}
+
+let vectorCache: VectorCache | undefined;
+
+/**
+ * Vectors for every case in the library: precomputed where still
+ * current, embedded now otherwise. Rebuilt when the library reloads.
+ */
+async function getCaseVectors(): Promise<Map<string, CaseVectors>> {
+  const cases = listCases();
+  if (vectorCache && vectorCache.cases.length === cases.length && vectorCache.cases.every((c, i) => c === cases[i])) {
+    return vectorCache.vectors;
+  }
+
+  const precomputed = loadPrecomputedVectors();
+  const vectors = new Map<string, CaseVectors>();
+  const missing: CaseStudyDefinition[] = [];
+  for (const caseStudy of cases) {
+    const entry = precomputed[caseStudy.key];
+    if (entry && entry.contentHash === caseContentHash(caseStudy)) {
+      vectors.set(caseStudy.key, entry);
+    } else {
+      missing.push(caseStudy);
+    }
+  }
+  if (missing.length > 0) {
+    for (const [key, entry] of Object.entries(await embedCases(missing))) {
+      vectors.set(key, entry);
+    }
+  }
+
+  vectorCache = { cases, vectors };
+  return vectors;
+}
+
+// ============================================================
+// Semantic Search
+// ============================================================
+
+/** Blend of closest-signal and story similarity */
+const SIGNAL_SIMILARITY_WEIGHT = 0.6;
+const STORY_SIMILARITY_WEIGHT = 0.4;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Semantic similarity of every case to the query, most similar first
+ */
+export async function semanticCaseSearch(query: string): Promise<SemanticCaseMatch[]> {
+  const vectors = await getCaseVectors();
+  const [queryVector] = await embeddingProvider.embed([query]);
+
+  const matches = listCases().map((caseStudy): SemanticCaseMatch => {
+    const entry = vectors.get(caseStudy.key);
+    const signalScores = (entry?.signals ?? []).map((v) => cosineSimilarity(queryVector, v));
+    const best = signalScores.reduce((bestIndex, score, i) => (score > signalScores[bestIndex] ? i : bestIndex), 0);
+    const signalSimilarity = Math.max(0, signalScores[best] ?? 0);
+    const storySimilarity = Math.max(0, entry ? cosineSimilarity(queryVector, entry.story) : 0);
+
+    return {
+      caseStudy,
+      similarity: round(SIGNAL_SIMILARITY_WEIGHT * signalSimilarity + STORY_SIMILARITY_WEIGHT * storySimilarity),
+      closestSignal: caseStudy.signals[best] ?? "",
+      signalSimilarity: round(signalSimilarity),
+      storySimilarity: round(storySimilarity),
+    };
+  });
+
+  return matches.sort((a, b) => b.similarity - a.similarity || a.caseStudy.key.localeCompare(b.caseStudy.key));
+}
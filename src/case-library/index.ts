@@ -0,0 +1,43 @@
+/**
+ * Case Library Module - Barrel Export
+ */
+
+export {
+  caseStudyFileSchema,
+  getBundledCaseDirectory,
+  getCaseDirectories,
+  setCaseDirectories,
+  listCases,
+  getCaseKeys,
+  getCase,
+  findCaseByName,
+} from "./case-library.js";
+export type { CaseStudyDefinition } from "./case-library.js";
+
+export {
+  SYNONYM_GROUPS,
+  SYNONYM_WEIGHT,
+  CONTEXTUAL_TERMS,
+  MIN_MATCH_SCORE,
+  stem,
+  tokenize,
+  searchCases,
+  describeMatchedTerm,
+} from "./retrieval.js";
+export type { IndexedCaseField, MatchedTerm, CaseMatch, CaseSearchOptions } from "./retrieval.js";
+
+export {
+  THEORY_CONCEPTS,
+  createHashedNgramEmbedder,
+  cosineSimilarity,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  getCaseVectorPath,
+  embedCases,
+  writeCaseVectors,
+  semanticCaseSearch,
+} from "./embeddings.js";
+export type { EmbeddingProvider, CaseVectors, CaseVectorFile, SemanticCaseMatch } from "./embeddings.js";
+
+export { LEXICAL_WEIGHT, SEMANTIC_WEIGHT, MIN_RANKED_SCORE, rankCases } from "./ranking.js";
+export type { RankedCaseMatch, CaseRankingOptions } from "./ranking.js";
@@ -0,0 +1,92 @@
+/**
+ * Case Ranking
+ *
+ * Combines lexical (BM25) and semantic (embedding) relevance into one
+ * ranking. Lexical scores are unbounded, so they are squashed to 0-1
+ * before blending with cosine similarity; a case can rank on shared
+ * words, on meaning, or - most strongly - on both.
+ */
+
+import type { CaseStudyDefinition } from "./case-library.js";
+import { searchCases } from "./retrieval.js";
+import type { MatchedTerm } from "./retrieval.js";
+import { semanticCaseSearch } from "./embeddings.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * A case ranked by combined lexical and semantic relevance
+ */
+export interface RankedCaseMatch {
+  caseStudy: CaseStudyDefinition;
+  /** Combined relevance, 0-1 */
+  score: number;
+  /** BM25 score (0 if no terms matched) */
+  lexicalScore: number;
+  /** Embedding similarity, 0-1 */
+  semanticScore: number;
+  /** Terms behind the lexical score, strongest first */
+  matchedTerms: MatchedTerm[];
+  /** The case signal closest in meaning to the query */
+  closestSignal: string;
+}
+
+export interface CaseRankingOptions {
+  /** Maximum number of matches (default: all) */
+  limit?: number;
+  /** Drop matches scoring below this (default: MIN_RANKED_SCORE) */
+  minScore?: number;
+}
+
+// ============================================================
+// Ranking
+// ============================================================
+
+/** Share of the combined score from each side */
+export const LEXICAL_WEIGHT = 0.5;
+export const SEMANTIC_WEIGHT = 0.5;
+
+/**
+ * BM25 score that maps to 0.5 when squashed
+ */
+const LEXICAL_HALF_SCORE = 5;
+
+/**
+ * Default minimum combined score for a match
+ */
+export const MIN_RANKED_SCORE = 0.2;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Rank case studies against free text by lexical and semantic relevance
+ */
+export async function rankCases(query: string, options: CaseRankingOptions = {}): Promise<RankedCaseMatch[]> {
+  const lexical = new Map(searchCases(query, { minScore: 0 }).map((m) => [m.caseStudy.key, m]));
+  const semantic = await semanticCaseSearch(query);
+  const minScore = options.minScore ?? MIN_RANKED_SCORE;
+
+  const matches = semantic
+    .map(({ caseStudy, similarity, closestSignal }): RankedCaseMatch => {
+      const lexicalMatch = lexical.get(caseStudy.key);
+      const lexicalScore = lexicalMatch?.score ?? 0;
+      const squashed = lexicalScore / (lexicalScore + LEXICAL_HALF_SCORE);
+
+      return {
+        caseStudy,
+        score: round(LEXICAL_WEIGHT * squashed + SEMANTIC_WEIGHT * similarity),
+        lexicalScore,
+        semanticScore: similarity,
+        matchedTerms: lexicalMatch?.matchedTerms ?? [],
+        closestSignal,
+      };
+    })
+    .filter((m) => m.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.caseStudy.key.localeCompare(b.caseStudy.key));
+
+  return options.limit === undefined ? matches : matches.slice(0, options.limit);
+}
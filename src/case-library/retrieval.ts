@@ -0,0 +1,432 @@
+/**
+ * Case Retrieval
+ *
+ * Local BM25 index over the case library, so situations and signals are
+ * matched to cases by ranked lexical relevance instead of substring checks.
+ * Text is tokenized, stop words dropped and words reduced to stems; query
+ * terms are expanded with domain synonyms ("cheaper" also finds "low-cost"),
+ * at a discount so direct hits still rank first. Everything runs in-process
+ * with no external services.
+ */
+
+import { listCases } from "./case-library.js";
+import type { CaseStudyDefinition } from "./case-library.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * Case fields that are indexed for retrieval
+ */
+export type IndexedCaseField =
+  | "name"
+  | "pattern"
+  | "story"
+  | "signals"
+  | "lessonsForToday"
+  | "keyTakeaways"
+  | "questionsToAsk";
+
+/**
+ * One index term that contributed to a match
+ */
+export interface MatchedTerm {
+  /** Stemmed index term */
+  term: string;
+  /** The term as it first appears in the case */
+  caseWord: string;
+  /** Query word that led to the term */
+  queryWord: string;
+  /** True if the term was reached through a synonym of the query word */
+  viaSynonym: boolean;
+  /** Case fields containing the term */
+  fields: IndexedCaseField[];
+  /** Share of the case's score from this term */
+  contribution: number;
+}
+
+/**
+ * A case ranked against a query
+ */
+export interface CaseMatch {
+  caseStudy: CaseStudyDefinition;
+  /** BM25 score (higher is more relevant) */
+  score: number;
+  /** Terms behind the score, strongest first */
+  matchedTerms: MatchedTerm[];
+}
+
+export interface CaseSearchOptions {
+  /** Maximum number of matches (default: all) */
+  limit?: number;
+  /** Drop matches scoring below this (default: MIN_MATCH_SCORE) */
+  minScore?: number;
+}
+
+// ============================================================
+// Text Processing
+// ============================================================
+
+const STOP_WORDS = new Set(
+  (
+    "a about after again all also am an and any are as at be because been before being between both but by " +
+    "can could did do does doing down during each few for from further had has have having he her here hers " +
+    "him his how i if in into is it its itself just me more most my no nor not now of off on once only or " +
+    "other our ours out over own same she should so some such than that the their them then there these they " +
+    "this those through to too under until up very was we were what when where which while who whom why will " +
+    "with would you your yours us let lets get gets got one two three many much every ever yet still cannot"
+  ).split(" ")
+);
+
+/**
+ * Suffixes stripped by the stemmer, longest first
+ */
+const SUFFIXES = [
+  "izations", "ization", "ational", "fulness", "iveness", "ousness",
+  "ations", "ation", "ments", "ment", "nesses", "ness", "ities", "ity",
+  "ively", "ive", "ions", "ion", "ings", "ing", "edly", "ers", "er",
+  "est", "ies", "ied", "ed", "ly", "es", "s",
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Light suffix-stripping stemmer. Not full Porter: it only needs to map
+ * inflections of the same word ("pricing", "prices", "priced") to one stem.
+ */
+export function stem(word: string): string {
+  let result = word.replace(/-/g, "");
+  if (result.length > MIN_STEM_LENGTH + 1) {
+    for (const suffix of SUFFIXES) {
+      if (result.endsWith(suffix) && result.length - suffix.length >= MIN_STEM_LENGTH) {
+        if (suffix === "s" && /(ss|us|is)$/.test(result)) break;
+        result = result.slice(0, -suffix.length);
+        if (suffix === "ies" || suffix === "ied") result += "y";
+        break;
+      }
+    }
+  }
+  if (result.length > MIN_STEM_LENGTH && result.endsWith("e")) {
+    result = result.slice(0, -1);
+  }
+  if (/([^aeioulsz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/**
+ * Lowercase words of the text, minus stop words and contractions.
+ * Hyphenated compounds yield their parts and the compound itself
+ * ("low-end" → low, end, low-end), which stems to the joined word.
+ */
+function words(text: string): string[] {
+  const result: string[] = [];
+  const cleaned = text
+    .toLowerCase()
+    .replace(/\bcan['’]t\b/g, "cannot")
+    .replace(/['’](s|re|ve|ll|d|m)\b|n['’]t\b/g, "");
+  for (const match of cleaned.match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? []) {
+    const parts = match.split("-");
+    result.push(...parts);
+    if (parts.length > 1) result.push(match);
+  }
+  return result.filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+}
+
+/**
+ * Stemmed tokens of the text
+ */
+export function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+// ============================================================
+// Synonyms
+// ============================================================
+
+/**
+ * Groups of words treated as equivalent in queries. Entries are single
+ * words; hyphenated entries match the joined compound.
+ */
+export const SYNONYM_GROUPS: string[][] = [
+  ["cheap", "cheaper", "cost", "inexpensive", "affordable", "budget", "price", "discount", "low-end", "low-cost", "undercut"],
+  ["pressure", "threat", "threaten", "undercut", "squeeze"],
+  ["entrant", "rival", "competitor", "challenger", "startup", "upstart", "newcomer", "attacker"],
+  ["incumbent", "leader", "established", "dominant", "legacy"],
+  ["customer", "client", "user", "buyer", "consumer", "patient", "student"],
+  ["profit", "margin", "profitability", "earnings", "revenue"],
+  ["simple", "simpler", "easier", "convenient", "convenience", "accessible", "good-enough"],
+  ["improve", "better", "upgrade", "enhance", "advance", "trajectory"],
+  ["job", "circumstance"],
+  ["capability", "skill", "competence", "expertise"],
+  ["upmarket", "premium", "high-end", "enterprise", "demanding", "mainstream"],
+  ["ignore", "dismiss", "overlook", "cede", "retreat", "relieved", "niche"],
+  ["nonconsumer", "non-consumer", "non-consumption", "underserved", "unserved"],
+  ["pivot", "emergent", "unexpected", "surprise", "learning", "experiment"],
+  ["subscription", "pay-per-use", "pay-as-you-go", "razor", "fee", "fees"],
+  ["healthcare", "health", "medical", "clinic", "hospital", "physician", "doctor"],
+  ["education", "school", "college", "university", "degree", "tuition"],
+  ["cloud", "saas", "hosted", "server", "datacenter", "on-premise", "on-prem"],
+  ["photo", "photography", "camera", "image", "picture"],
+  ["video", "movie", "streaming", "rental", "dvd"],
+];
+
+/**
+ * Everyday words that name a theory concept only in the theory's own
+ * phrasing. Outside it they are dropped from the query, so "hire a new
+ * sales team" is not matched to a case about hiring a product for a job,
+ * nor "fix the alarm before the margin review" to one about fixed costs
+ * and low-margin tiers.
+ */
+export const CONTEXTUAL_TERMS: { words: string[]; phrasing: RegExp }[] = [
+  {
+    words: ["job", "hire", "fire", "task", "progress"],
+    phrasing:
+      /\bjobs?[- ]to[- ]be[- ]done\b|\bjtbd\b|\b(?:hire|hires|hired|hiring|fire|fires|fired|firing)\s+(?:(?:a|an|the|our|their|your|this|that|its)\s+)?(?:\w+\s+)?(?:product|service|solution|offering|app|tool)s?\b|\bjobs?\b[^.;]{0,40}\b(?:done|hire|hires|hired|hiring)\b/i,
+  },
+  {
+    words: ["exit"],
+    phrasing: /\b(?:exit|exits|exited|exiting)\s+(?:(?:the|a|an|our|their|its)\s+)?(?:[\w-]+\s+)?(?:market|segment|tier|business|product|category|end)s?\b/i,
+  },
+  {
+    words: ["margin"],
+    phrasing:
+      /\b(?:low|lower|lowest|high|higher|highest|thin|thinner|gross|profit|operating)[- ]margins?\b|\bmargins?\b[^.;]{0,30}\b(?:fall|fell|falling|shrink|shrinking|erod\w*|squeez\w*|pressure|thin\w*)/i,
+  },
+  {
+    words: ["fix"],
+    phrasing: /\bfixed[- ]costs?\b/i,
+  },
+];
+
+/**
+ * Stems of the contextual words whose phrasing the query does not use
+ */
+function offContextStems(query: string): Set<string> {
+  return new Set(
+    CONTEXTUAL_TERMS.filter(({ phrasing }) => !phrasing.test(query)).flatMap(({ words }) => words.map(stem))
+  );
+}
+
+/**
+ * Discount applied to terms reached through a synonym
+ */
+export const SYNONYM_WEIGHT = 0.4;
+
+/**
+ * Stem → stems of its synonyms
+ */
+const SYNONYMS: Map<string, Set<string>> = (() => {
+  const map = new Map<string, Set<string>>();
+  for (const group of SYNONYM_GROUPS) {
+    const stems = new Set(group.map(stem));
+    for (const s of stems) {
+      const related = map.get(s) ?? new Set<string>();
+      for (const other of stems) {
+        if (other !== s) related.add(other);
+      }
+      map.set(s, related);
+    }
+  }
+  return map;
+})();
+
+// ============================================================
+// Index
+// ============================================================
+
+/**
+ * Field weights: pattern and signals describe the case most directly, the
+ * story carries its competitive mechanics (who undercut whom on price),
+ * and the one-line lesson is general advice that matches many queries
+ */
+const FIELD_WEIGHTS: Record<IndexedCaseField, number> = {
+  name: 1,
+  pattern: 2,
+  story: 1.5,
+  signals: 2,
+  lessonsForToday: 0.5,
+  keyTakeaways: 1,
+  questionsToAsk: 1,
+};
+
+/** BM25 term-frequency saturation */
+const K1 = 1.2;
+/** BM25 document-length normalization */
+const B = 0.75;
+
+/**
+ * Default minimum score for a match; filters cases that share only a
+ * single common word with the query
+ */
+export const MIN_MATCH_SCORE = 1.5;
+
+interface IndexedDocument {
+  caseStudy: CaseStudyDefinition;
+  /** Weighted term frequency */
+  termFrequency: Map<string, number>;
+  /** Fields each term appears in */
+  termFields: Map<string, IndexedCaseField[]>;
+  /** First surface word for each term */
+  termWords: Map<string, string>;
+  length: number;
+}
+
+interface CaseIndex {
+  cases: CaseStudyDefinition[];
+  documents: IndexedDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+let caseIndex: CaseIndex | undefined;
+
+function fieldText(caseStudy: CaseStudyDefinition, field: IndexedCaseField): string {
+  const value = caseStudy[field];
+  return Array.isArray(value) ? value.join("\n") : value;
+}
+
+function indexDocument(caseStudy: CaseStudyDefinition): IndexedDocument {
+  const termFrequency = new Map<string, number>();
+  const termFields = new Map<string, IndexedCaseField[]>();
+  const termWords = new Map<string, string>();
+  let length = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as IndexedCaseField[]) {
+    const weight = FIELD_WEIGHTS[field];
+    for (const word of words(fieldText(caseStudy, field))) {
+      const term = stem(word);
+      if (!termWords.has(term)) termWords.set(term, word);
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + weight);
+      const fields = termFields.get(term) ?? [];
+      if (!fields.includes(field)) fields.push(field);
+      termFields.set(term, fields);
+      length += weight;
+    }
+  }
+
+  return { caseStudy, termFrequency, termFields, termWords, length };
+}
+
+/**
+ * Index for the current library; rebuilt when the library is reloaded
+ */
+function getCaseIndex(): CaseIndex {
+  const cases = listCases();
+  if (caseIndex && caseIndex.cases.length === cases.length && caseIndex.cases.every((c, i) => c === cases[i])) {
+    return caseIndex;
+  }
+
+  const documents = cases.map(indexDocument);
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of doc.termFrequency.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const totalLength = documents.reduce((sum, doc) => sum + doc.length, 0);
+
+  caseIndex = {
+    cases,
+    documents,
+    documentFrequency,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+  return caseIndex;
+}
+
+// ============================================================
+// Search
+// ============================================================
+
+interface QueryTerm {
+  term: string;
+  queryWord: string;
+  weight: number;
+  viaSynonym: boolean;
+}
+
+/**
+ * Stem the query and expand it with synonyms. A term reached both
+ * directly and through a synonym keeps the direct (full) weight.
+ * Contextual words outside their phrasing are left out.
+ */
+function buildQuery(query: string): QueryTerm[] {
+  const terms = new Map<string, QueryTerm>();
+  const offContext = offContextStems(query);
+
+  for (const word of words(query)) {
+    const term = stem(word);
+    if (offContext.has(term)) continue;
+    terms.set(term, { term, queryWord: word, weight: 1, viaSynonym: false });
+  }
+  for (const direct of [...terms.values()]) {
+    for (const synonym of SYNONYMS.get(direct.term) ?? []) {
+      if (!terms.has(synonym)) {
+        terms.set(synonym, { term: synonym, queryWord: direct.queryWord, weight: SYNONYM_WEIGHT, viaSynonym: true });
+      }
+    }
+  }
+
+  return [...terms.values()];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Rank case studies against free text (a situation, signals or both)
+ */
+export function searchCases(query: string, options: CaseSearchOptions = {}): CaseMatch[] {
+  const { documents, documentFrequency, averageLength } = getCaseIndex();
+  const queryTerms = buildQuery(query);
+  const minScore = options.minScore ?? MIN_MATCH_SCORE;
+  const total = documents.length;
+
+  const matches: CaseMatch[] = [];
+  for (const doc of documents) {
+    const matchedTerms: MatchedTerm[] = [];
+    let score = 0;
+
+    for (const { term, queryWord, weight, viaSynonym } of queryTerms) {
+      const tf = doc.termFrequency.get(term);
+      if (!tf) continue;
+
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const contribution =
+        (weight * idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / averageLength));
+
+      score += contribution;
+      matchedTerms.push({
+        term,
+        caseWord: doc.termWords.get(term) ?? term,
+        queryWord,
+        viaSynonym,
+        fields: doc.termFields.get(term) ?? [],
+        contribution: round(contribution),
+      });
+    }
+
+    if (score >= minScore) {
+      matches.push({
+        caseStudy: doc.caseStudy,
+        score: round(score),
+        matchedTerms: matchedTerms.sort((a, b) => b.contribution - a.contribution),
+      });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.caseStudy.key.localeCompare(b.caseStudy.key));
+  return options.limit === undefined ? matches : matches.slice(0, options.limit);
+}
+
+/**
+ * Short explanation of a matched term, e.g. "low-cost (via cheaper)"
+ */
+export function describeMatchedTerm(matched: MatchedTerm): string {
+  return matched.viaSynonym ? `${matched.caseWord} (via ${matched.queryWord})` : matched.caseWord;
+}
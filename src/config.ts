@@ -0,0 +1,104 @@
+/**
+ * Server Configuration
+ *
+ * Resolves runtime options from CLI flags and environment variables.
+ * CLI flags take precedence over environment variables, which take
+ * precedence over defaults.
+ *
+ *   --transport <stdio|http>   CHRISTENSEN_TRANSPORT   (default: stdio)
+ *   --port <number>            CHRISTENSEN_PORT        (default: 3000)
+ *   --host <address>           CHRISTENSEN_HOST        (default: 127.0.0.1)
+ *   --persona-dir <path>       CHRISTENSEN_PERSONA_DIR (default: bundled personas only)
+ *   --watch-personas           CHRISTENSEN_WATCH_PERSONAS=1 (default: off)
+ *   --case-dir <path>          CHRISTENSEN_CASE_DIRS   (default: bundled cases only)
+ *
+ * --case-dir may be repeated; CHRISTENSEN_CASE_DIRS takes a list separated
+ * by the platform path delimiter (":" or ";").
+ */
+
+import { parseArgs } from "util";
+import { delimiter, resolve } from "path";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type TransportMode = "stdio" | "http";
+
+export interface ServerConfig {
+  transport: TransportMode;
+  port: number;
+  host: string;
+  /** Directory of persona YAML files that override the bundled ones */
+  personaDir?: string;
+  /** Hot-reload persona files when they change on disk */
+  watchPersonas: boolean;
+  /** Directories of case study files layered over the bundled cases */
+  caseDirs: string[];
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  transport: "stdio",
+  port: 3000,
+  host: "127.0.0.1",
+  watchPersonas: false,
+  caseDirs: [],
+};
+
+// ============================================================
+// Config Loading
+// ============================================================
+
+/**
+ * Interpret a boolean environment variable ("1", "true", "yes", "on")
+ */
+function isTruthy(value: string): boolean {
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Load configuration from CLI arguments and environment
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+      "persona-dir": { type: "string" },
+      "watch-personas": { type: "boolean" },
+      "case-dir": { type: "string", multiple: true },
+    },
+    strict: true,
+  });
+
+  const transport = values.transport ?? env.CHRISTENSEN_TRANSPORT ?? DEFAULT_CONFIG.transport;
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport: ${transport} (expected "stdio" or "http")`);
+  }
+
+  const rawPort = values.port ?? env.CHRISTENSEN_PORT;
+  const port = rawPort === undefined ? DEFAULT_CONFIG.port : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${rawPort}`);
+  }
+
+  const personaDir = values["persona-dir"] ?? env.CHRISTENSEN_PERSONA_DIR;
+  const caseDirs =
+    values["case-dir"] ?? env.CHRISTENSEN_CASE_DIRS?.split(delimiter).filter(Boolean) ?? DEFAULT_CONFIG.caseDirs;
+
+  return {
+    transport,
+    port,
+    host: values.host ?? env.CHRISTENSEN_HOST ?? DEFAULT_CONFIG.host,
+    personaDir: personaDir ? resolve(personaDir) : undefined,
+    watchPersonas:
+      values["watch-personas"] ??
+      (env.CHRISTENSEN_WATCH_PERSONAS ? isTruthy(env.CHRISTENSEN_WATCH_PERSONAS) : DEFAULT_CONFIG.watchPersonas),
+    caseDirs: caseDirs.map((dir) => resolve(dir)),
+  };
+}
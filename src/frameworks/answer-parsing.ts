@@ -0,0 +1,956 @@
+/**
+ * Answer Parsing
+ *
+ * Turns the free-text answers a model gives to the framework prompts
+ * (generateJTBDAnalysisPrompt and friends) back into typed analyses.
+ * Answers are split on the prompts' section headings - "1. THE JOB",
+ * "LAYER 2: PROCESSES" - however they are numbered or decorated, and
+ * the labeled lines and bullet lists inside each section fill the
+ * fields of the framework's empty template. Sections that are missing,
+ * empty or not part of the prompt are reported instead of guessed at.
+ */
+
+import { listCases } from "../case-library/index.js";
+import { createEmptyJTBDAnalysis } from "./jobs-to-be-done.js";
+import { createEmptyDisruptionAnalysis } from "./disruption.js";
+import {
+  createEmptyCPPAnalysis,
+  createEmptyResourceDependenceAnalysis,
+  diagnoseCapabilities,
+} from "./capabilities.js";
+import {
+  assessCPPConfidence,
+  assessDisruptionConfidence,
+  assessJobsToBeDoneConfidence,
+  assessResourceDependenceConfidence,
+} from "./confidence.js";
+import { findNegation } from "./negation.js";
+import type {
+  CaseStudyReference,
+  ConfidenceAssessment,
+  ConfidenceLevel,
+  CPPAnalysis,
+  DisruptionAnalysis,
+  InnovationType,
+  JTBDAnalysis,
+  MarketPosition,
+  ParsedFrameworkAnswer,
+  ResourceDependenceAnalysis,
+  ResourceProvider,
+  UnparsedSection,
+} from "./types.js";
+
+// ============================================================
+// Answer Structure
+// ============================================================
+
+/**
+ * A "Label: value" line, with the bullet items listed under it
+ */
+interface LabeledBlock {
+  label: string;
+  value: string;
+  items: string[];
+}
+
+/**
+ * The content under one recognized heading
+ */
+interface AnswerSection {
+  /** Paragraphs not attached to a label */
+  prose: string[];
+
+  /** Bullet items not attached to a label */
+  items: string[];
+
+  blocks: LabeledBlock[];
+}
+
+/**
+ * One section of a framework prompt and how it fills the analysis
+ */
+interface SectionSpec<T> {
+  /** Heading as the prompt writes it */
+  name: string;
+
+  /** Matches the lowercased heading once numbering and markup are removed */
+  heading: RegExp;
+
+  /** Answers may leave the section out without it being reported */
+  optional?: boolean;
+
+  /** Fill fields from the section; false when nothing was recognized */
+  parse: (section: AnswerSection, analysis: T) => boolean;
+}
+
+interface Heading {
+  title: string;
+
+  /** Text after a colon on the heading line ("CLASSIFICATION: Low-end") */
+  rest: string;
+
+  /** Set off by markdown, bold or capitals rather than just numbering */
+  strong: boolean;
+}
+
+const BULLET = /^(?:[-*•+]|\d+[.)])\s+/;
+
+/** "1.", "2)", "LAYER 2:", "Step 3 -" */
+const HEADING_NUMBER = /^(?:(?:layer|step|part|section)\s*)?\d+\s*[.):]?\s*[-–—:]?\s*/i;
+
+/** Longest heading title, in words */
+const MAX_HEADING_WORDS = 8;
+
+// ============================================================
+// Reading the Answer
+// ============================================================
+
+/**
+ * Strip emphasis markers and trailing punctuation from a fragment
+ */
+function clean(text: string): string {
+  return text
+    .replace(/\*\*|__|`/g, "")
+    .replace(/^[*_]+|[*_]+$/g, "")
+    .trim();
+}
+
+/**
+ * Read a line as a heading, if it could be one
+ */
+function readHeading(line: string): Heading | undefined {
+  let text = line.trim();
+  const marked = /^#{1,6}\s/.test(text);
+  text = text.replace(/^#{1,6}\s+/, "");
+  if (!marked && /^[-*•+]\s/.test(text)) return undefined;
+
+  const bold = /^(\*\*|__)(.+)\1:?$/.exec(text);
+  if (bold) text = bold[2];
+  const numbered = HEADING_NUMBER.test(text);
+  text = clean(text.replace(HEADING_NUMBER, ""));
+
+  const colon = text.indexOf(":");
+  const title = clean(colon === -1 ? text : text.slice(0, colon)).replace(/\s*\(.*\)$/, "");
+  const rest = colon === -1 ? "" : clean(text.slice(colon + 1));
+  if (!title || title.split(/\s+/).length > MAX_HEADING_WORDS) return undefined;
+
+  const capitals = /[A-Z]/.test(title) && title === title.toUpperCase();
+  if (!marked && !bold && !numbered && !capitals) return undefined;
+  return { title, rest, strong: marked || Boolean(bold) || capitals };
+}
+
+/**
+ * Split "Label: value", "**Label** - value" or "Question? answer"
+ */
+function splitLabel(text: string): { label: string; value: string } | undefined {
+  const bold = /^(\*\*|__)(.+?)\1(.*)$/.exec(text);
+  if (bold) {
+    const inner = bold[2].trim();
+    const after = bold[3].trim();
+    if (inner.endsWith(":") || after === "" || /^[:\-–—]/.test(after)) {
+      return { label: clean(inner.replace(/:$/, "")), value: clean(after.replace(/^[:\-–—]\s*/, "")) };
+    }
+  }
+
+  const colon = /^([^:]{2,60}):(?:\s+(.*))?$/.exec(text);
+  if (colon && colon[1].trim().split(/\s+/).length <= MAX_HEADING_WORDS && !/https?$/i.test(colon[1])) {
+    return { label: clean(colon[1]), value: clean(colon[2] ?? "") };
+  }
+
+  const question = /^([^?]{5,120}\?)\s*(.*)$/.exec(text);
+  if (question) return { label: clean(question[1]), value: clean(question[2]) };
+  return undefined;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Group a section's lines into labeled blocks, loose items and prose
+ */
+function readSection(lines: string[]): AnswerSection {
+  const section: AnswerSection = { prose: [], items: [], blocks: [] };
+  let block: LabeledBlock | undefined;
+  let blockIndent = 0;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const bullet = BULLET.test(trimmed);
+    const content = trimmed.replace(BULLET, "");
+    const labeled = splitLabel(content);
+
+    if (labeled) {
+      block = { ...labeled, items: [] };
+      blockIndent = indentOf(line);
+      section.blocks.push(block);
+    } else if (bullet) {
+      if (block && (block.value === "" || indentOf(line) > blockIndent)) {
+        block.items.push(clean(content));
+      } else {
+        section.items.push(clean(content));
+        block = undefined;
+      }
+    } else if (block && block.value === "" && block.items.length === 0) {
+      block.value = clean(content);
+    } else {
+      section.prose.push(clean(content));
+      block = undefined;
+    }
+  }
+
+  return section;
+}
+
+/**
+ * Split an answer into the sections of a framework prompt. Strong
+ * headings that match no section are returned as unrecognized; their
+ * content is skipped.
+ */
+function splitAnswer<T>(
+  text: string,
+  specs: SectionSpec<T>[]
+): { sections: Map<SectionSpec<T>, AnswerSection>; unrecognized: string[] } {
+  const lines = new Map<SectionSpec<T>, string[]>();
+  const unrecognized: string[] = [];
+  let current: string[] | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = readHeading(line);
+    const spec = heading && specs.find((s) => s.heading.test(heading.title.toLowerCase()));
+    if (heading && spec) {
+      current = lines.get(spec) ?? [];
+      lines.set(spec, current);
+      if (heading.rest) current.push(heading.rest);
+    } else if (heading?.strong && !heading.rest) {
+      unrecognized.push(heading.title);
+      current = undefined;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  const sections = new Map([...lines].map(([spec, body]) => [spec, readSection(body)] as const));
+  return { sections, unrecognized };
+}
+
+// ============================================================
+// Field Helpers
+// ============================================================
+
+/**
+ * Assign each labeled block to the first field whose pattern matches its
+ * label. Order matters: "How easily could missing resources be acquired?"
+ * belongs to acquirable, not missing.
+ */
+function sortBlocks<K extends string>(
+  section: AnswerSection,
+  fields: [K, RegExp][]
+): Record<K, LabeledBlock[]> {
+  const sorted = Object.fromEntries(fields.map(([key]) => [key, []])) as unknown as Record<K, LabeledBlock[]>;
+  for (const block of section.blocks) {
+    const field = fields.find(([, pattern]) => pattern.test(block.label.toLowerCase()));
+    if (field) sorted[field[0]].push(block);
+  }
+  return sorted;
+}
+
+/**
+ * Split an inline list: on semicolons, else on commas when every part
+ * is short enough to be a list entry
+ */
+function splitList(value: string): string[] {
+  if (!value) return [];
+  const parts = value
+    .split(value.includes(";") ? ";" : ",")
+    .map((p) => p.trim().replace(/^(and|or)\s+/i, "").replace(/\.$/, ""))
+    .filter(Boolean);
+  if (!value.includes(";") && parts.some((p) => p.split(/\s+/).length > 6)) return [value.replace(/\.$/, "")];
+  return parts;
+}
+
+/** A field's text: labeled values, else their items */
+function textOf(blocks: LabeledBlock[]): string {
+  return blocks
+    .map((b) => b.value || b.items.join("; "))
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** A field's list: inline values split, plus items */
+function listOf(blocks: LabeledBlock[]): string[] {
+  return blocks.flatMap((b) => [...splitList(b.value), ...b.items]);
+}
+
+/** Everything a section says, without its labels */
+function sectionText(section: AnswerSection): string {
+  return [...section.prose, ...section.items, ...section.blocks.flatMap((b) => [b.value, ...b.items])].join(
+    "\n"
+  );
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/**
+ * The first term mentioned in the text that is not negated ("not
+ * sustaining"). A negated term listed in `whenNegated` counts as its
+ * opposite instead ("doesn't fit" → misaligned).
+ */
+function pickTerm<T extends string>(
+  text: string,
+  terms: [T, RegExp][],
+  whenNegated: Partial<Record<T, T>> = {}
+): T | undefined {
+  let best: { value: T; index: number } | undefined;
+  for (const [value, pattern] of terms) {
+    const global = new RegExp(pattern.source, "gi");
+    for (const match of text.matchAll(global)) {
+      const index = match.index ?? 0;
+      const term = findNegation(text, index) ? whenNegated[value] : value;
+      if (term && (!best || index < best.index)) best = { value: term, index };
+      if (term) break;
+    }
+  }
+  return best?.value;
+}
+
+const CONFIDENCE_TERMS: [ConfidenceLevel, RegExp][] = [
+  ["uncertain", /\buncertain\b|\bunclear\b/],
+  ["high", /\bhigh\b/],
+  ["medium", /\bmedium\b|\bmoderate\b/],
+  ["low", /\blow\b/],
+];
+
+const INNOVATION_TERMS: [InnovationType, RegExp][] = [
+  ["hybrid", /\bhybrid\b/],
+  ["new-market-disruptive", /\bnew[- ]market\b/],
+  ["low-end-disruptive", /\blow[- ]end\b/],
+  ["sustaining", /\bsustaining\b/],
+];
+
+const SEGMENT_TERMS: [MarketPosition["segment"], RegExp][] = [
+  ["non-consumers", /\bnon-?consum/],
+  ["low-end", /\blow[- ]end\b/],
+  ["high-end", /\bhigh[- ]end\b|\bpremium\b/],
+  ["mainstream", /\bmainstream\b/],
+  ["mixed", /\bmixed\b|\bmultiple segments\b/],
+];
+
+/** Level words, where a hard change means a high level (rigidity) */
+const DIFFICULTY_TERMS: ["high" | "medium" | "low", RegExp][] = [
+  ["high", /\bhigh(ly)?\b|\bhard\b|\bdifficult\b|\brigid\b/],
+  ["medium", /\bmedium\b|\bmoderate(ly)?\b/],
+  ["low", /\blow\b|\beasy\b|\beasily\b|\bflexible\b/],
+];
+
+/** Level words, where an easy change means a high level (flexibility) */
+const EASE_TERMS: ["high" | "medium" | "low", RegExp][] = [
+  ["high", /\bhigh(ly)?\b|\beasy\b|\beasily\b|\bflexible\b/],
+  ["medium", /\bmedium\b|\bmoderate(ly)?\b/],
+  ["low", /\blow\b|\bhard\b|\bdifficult\b|\brigid\b/],
+];
+
+const ALIGNMENT_TERMS: [CPPAnalysis["priorities"]["alignment"], RegExp][] = [
+  ["misaligned", /\bmis-?aligned\b|\bunaligned\b|\bconflicts?\b|\bbelow\b|\bfails?\b|\bloses?\b|\blow priority\b/],
+  ["neutral", /\bneutral\b|\bmixed\b/],
+  ["aligned", /\baligned\b|\bfits?\b|\bmeets?\b|\bwins?\b|\bhigh priority\b/],
+];
+
+const BLOCKER_TERMS: [CPPAnalysis["overallAssessment"]["primaryBlocker"], RegExp][] = [
+  ["priorities", /\bpriorit(y|ies)\b|\bvalues\b/],
+  ["processes", /\bprocess(es)?\b/],
+  ["resources", /\bresources?\b/],
+  ["none", /\bnone\b|\bno (real |major )?blockers?\b|\bnothing\b/],
+];
+
+const EXECUTE_TERMS: ["yes" | "no", RegExp][] = [
+  ["no", /\bno\b|\bcannot\b|\bcan['’]t\b|\bunable\b|\binfeasible\b/],
+  ["yes", /\byes\b|\bcan\b|\bable\b|\bfeasible\b/],
+];
+
+const RISK_TERMS: [ResourceDependenceAnalysis["riskLevel"], RegExp][] = [
+  ["critical", /\bcritical\b|\bexistential\b|\bsevere\b/],
+  ["high", /\bhigh\b/],
+  ["medium", /\bmedium\b|\bmoderate\b/],
+  ["low", /\blow\b|\bminimal\b/],
+];
+
+const IMPACT_TERMS: [ResourceProvider["impactOnRelationship"], RegExp][] = [
+  ["threatening", /\bthreat/],
+  ["negative", /\bnegative\b|\bconcern|\bworr|\bupset|\bdistract|\boppose|\bresist/],
+  ["positive", /\bpositive\b|\bdelight|\bwelcome|\bsupport|\benthusias/],
+  ["neutral", /\bneutral\b|\bindifferent\b|\bunaffected\b/],
+];
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse an answer against a framework's sections. The analysis starts
+ * as a copy of the template; a confidence the answer states is kept,
+ * otherwise it is assessed from what was parsed.
+ */
+function parseAnswer<T extends { confidence: ConfidenceLevel }>(
+  text: string,
+  template: T,
+  specs: SectionSpec<T>[],
+  assess: (analysis: T) => ConfidenceAssessment,
+  finish?: (analysis: T, parsed: string[]) => void
+): ParsedFrameworkAnswer<T> {
+  const analysis = structuredClone(template);
+  const allSpecs = [...specs, confidenceSpec<T>()];
+  const { sections, unrecognized } = splitAnswer(text, allSpecs);
+  const parsed: string[] = [];
+  const unparsed: UnparsedSection[] = [];
+  let statedConfidence = false;
+
+  for (const spec of allSpecs) {
+    const section = sections.get(spec);
+    if (!section) {
+      if (!spec.optional) unparsed.push({ section: spec.name, reason: "section not found" });
+    } else if (spec.parse(section, analysis)) {
+      parsed.push(spec.name);
+      statedConfidence ||= spec.heading === CONFIDENCE_HEADING;
+    } else {
+      unparsed.push({ section: spec.name, reason: "no recognizable content" });
+    }
+  }
+  for (const title of unrecognized) {
+    unparsed.push({ section: title, reason: "not a section of this framework's prompt" });
+  }
+
+  finish?.(analysis, parsed);
+
+  const confidenceLine = CONFIDENCE_LINE.exec(text)?.[1] ?? "";
+  const stated = statedConfidence ? analysis.confidence : pickTerm(confidenceLine, CONFIDENCE_TERMS);
+  analysis.confidence = stated ?? assess(analysis).confidence;
+
+  return { analysis, parsed, unparsed };
+}
+
+const CONFIDENCE_HEADING = /^(overall\s+)?confidence\b/;
+
+/** "Confidence: medium" anywhere in the answer, even under an unrecognized heading */
+const CONFIDENCE_LINE = /^[\s#*_-]*(?:overall\s+)?confidence(?:\s+level)?[*_]*\s*[:\-–—]\s*(.+)$/im;
+
+/**
+ * A closing "Confidence" section, which any framework answer may add
+ */
+function confidenceSpec<T extends { confidence: ConfidenceLevel }>(): SectionSpec<T> {
+  return {
+    name: "CONFIDENCE",
+    heading: CONFIDENCE_HEADING,
+    optional: true,
+    parse: (section, analysis) => {
+      const level = pickTerm(sectionText(section), CONFIDENCE_TERMS);
+      if (level) analysis.confidence = level;
+      return level !== undefined;
+    },
+  };
+}
+
+// ============================================================
+// Jobs-to-Be-Done
+// ============================================================
+
+const JTBD_SECTIONS: SectionSpec<JTBDAnalysis>[] = [
+  {
+    name: "THE JOB",
+    heading: /^(the\s+)?(core\s+)?job(?!\s+dimensions)\b|^(the\s+)?progress\b/,
+    parse: (section, analysis) => {
+      const { job, progress } = sortBlocks(section, [
+        ["job", /job|hir/],
+        ["progress", /progress|trying/],
+      ]);
+      analysis.job = textOf(job) || textOf(progress) || section.prose.join(" ");
+      return analysis.job !== "";
+    },
+  },
+  {
+    name: "JOB DIMENSIONS",
+    heading: /^(the\s+)?(job\s+)?dimensions\b/,
+    parse: (section, analysis) => {
+      const { functional, emotional, social } = sortBlocks(section, [
+        ["functional", /function|accomplish|practical/],
+        ["emotional", /emotion|feel/],
+        ["social", /social|perceiv|seen/],
+      ]);
+      analysis.dimensions = {
+        functional: textOf(functional),
+        emotional: textOf(emotional),
+        social: textOf(social),
+      };
+      return Object.values(analysis.dimensions).some(Boolean);
+    },
+  },
+  {
+    name: "CIRCUMSTANCE",
+    heading: /^(the\s+)?circumstances?\b/,
+    parse: (section, analysis) => {
+      const { trigger, constraints, situation } = sortBlocks(section, [
+        ["trigger", /trigger|moment|when/],
+        ["constraints", /constrain|limit|barrier/],
+        ["situation", /situation|circumstance|context|where/],
+      ]);
+      analysis.circumstance = {
+        situation: textOf(situation) || section.prose.join(" "),
+        trigger: textOf(trigger),
+        constraints: unique([...listOf(constraints), ...section.items]),
+      };
+      const { situation: s, trigger: t, constraints: c } = analysis.circumstance;
+      return s !== "" || t !== "" || c.length > 0;
+    },
+  },
+  {
+    name: "COMPETITION",
+    heading: /^(the\s+)?(real\s+|true\s+)?competi(tion|tors?)\b|^hir(e|ing)\b|^fir(e|ing)\b/,
+    parse: (section, analysis) => {
+      const { risks, firing } = sortBlocks(section, [
+        ["risks", /risk|would cause|switch (back|away)|fire (this|it|us|the new)/],
+        ["firing", /hir|fir|compet|replac|instead|non-?consum|alternativ|using/],
+      ]);
+      analysis.firingFrom = unique([...listOf(firing), ...section.items]);
+      analysis.firingRisks = unique(listOf(risks));
+      return analysis.firingFrom.length > 0 || analysis.firingRisks.length > 0;
+    },
+  },
+  {
+    name: "UNDERSERVED",
+    heading: /^(the\s+)?under-?served\b|^non-?consum/,
+    parse: (section, analysis) => {
+      analysis.underservedSegments = unique([
+        ...listOf(section.blocks),
+        ...section.items,
+        ...(section.blocks.length + section.items.length === 0 ? section.prose : []),
+      ]);
+      return analysis.underservedSegments.length > 0;
+    },
+  },
+  {
+    name: "OPEN QUESTIONS",
+    heading: /^(open\s+|remaining\s+|key\s+)?questions\b|^unknowns\b/,
+    optional: true,
+    parse: (section, analysis) => {
+      const questions = [
+        ...section.blocks.map((b) => (b.label.endsWith("?") ? b.label : `${b.label}: ${b.value}`)),
+        ...section.items,
+        ...section.prose.filter((p) => p.endsWith("?")),
+      ];
+      analysis.openQuestions = unique(questions).map((question) => ({ question, importance: "important" }));
+      return analysis.openQuestions.length > 0;
+    },
+  },
+];
+
+/**
+ * Parse a free-text answer to generateJTBDAnalysisPrompt
+ */
+export function parseJTBDAnswer(
+  text: string,
+  template: JTBDAnalysis = createEmptyJTBDAnalysis()
+): ParsedFrameworkAnswer<JTBDAnalysis> {
+  return parseAnswer(text, template, JTBD_SECTIONS, assessJobsToBeDoneConfidence);
+}
+
+// ============================================================
+// Disruption
+// ============================================================
+
+/** Lowercase letters and digits only, for matching case names */
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Case study references for a case-parallels section: library cases
+ * mentioned anywhere, then labeled entries naming cases outside the
+ * library
+ */
+function readCaseParallels(section: AnswerSection): CaseStudyReference[] {
+  const entries = [
+    ...section.blocks.map((b) => ({ label: b.label, text: [b.label, b.value, ...b.items].join(" ") })),
+    ...[...section.items, ...section.prose].map((text) => ({ label: "", text })),
+  ];
+  const references: CaseStudyReference[] = [];
+
+  for (const { label, text } of entries) {
+    const mentioned = listCases().filter((c) => compact(text).includes(compact(c.name)));
+    for (const c of mentioned) {
+      if (references.some((r) => r.name === c.name)) continue;
+      references.push({ name: c.name, pattern: c.pattern, relevance: text, matchStrength: "medium" });
+    }
+    if (mentioned.length === 0 && label && !label.endsWith("?")) {
+      references.push({
+        name: label,
+        pattern: "",
+        relevance: text.slice(label.length).trim(),
+        matchStrength: "low",
+      });
+    }
+  }
+
+  // Library cases first: they carry the pattern behind the parallel
+  return references.sort((a, b) => Number(a.pattern === "") - Number(b.pattern === ""));
+}
+
+const DISRUPTION_SECTIONS: SectionSpec<DisruptionAnalysis>[] = [
+  {
+    name: "CLASSIFICATION",
+    heading: /^(innovation\s+)?(classification|type)\b/,
+    parse: (section, analysis) => {
+      const { rationale, type } = sortBlocks(section, [
+        ["rationale", /rational|why|reason|evidence/],
+        ["type", /./],
+      ]);
+      analysis.innovationType =
+        pickTerm(textOf(type), INNOVATION_TERMS) ?? pickTerm(sectionText(section), INNOVATION_TERMS) ?? "unclear";
+      analysis.classificationRationale = textOf(rationale) || section.prose.join(" ");
+      return analysis.innovationType !== "unclear" || analysis.classificationRationale !== "";
+    },
+  },
+  {
+    name: "MARKET POSITION",
+    heading: /^market(\s+position)?\b|^(target\s+)?segment\b/,
+    parse: (section, analysis) => {
+      const { overserved, underserved, incumbent, segment } = sortBlocks(section, [
+        ["overserved", /over-?serv|more than/],
+        ["underserved", /under-?serv|ignor|neglect/],
+        ["incumbent", /incumbent|focus/],
+        ["segment", /segment|target|position/],
+      ]);
+      const position = analysis.marketPosition;
+      position.segment = pickTerm(textOf(segment), SEGMENT_TERMS) ?? position.segment;
+      position.incumbentFocus = textOf(incumbent);
+      position.overservedDimensions = unique(listOf(overserved));
+      position.underservedDimensions = unique(listOf(underserved));
+      return (
+        segment.length > 0 ||
+        position.incumbentFocus !== "" ||
+        position.overservedDimensions.length > 0 ||
+        position.underservedDimensions.length > 0
+      );
+    },
+  },
+  {
+    name: "TRUE COMPETITION",
+    heading: /^(the\s+)?(true|real)\s+competi|^competi/,
+    parse: (section, analysis) => {
+      const { nonConsumption, competitors } = sortBlocks(section, [
+        ["nonConsumption", /non-?consum/],
+        ["competitors", /./],
+      ]);
+      const answer = textOf(nonConsumption);
+      const countsNonConsumption = answer !== "" && !/^(no|not)\b/i.test(answer);
+      analysis.trueCompetitors = unique([
+        ...listOf(competitors),
+        ...section.items,
+        ...(countsNonConsumption ? ["Non-consumption"] : []),
+      ]);
+      return analysis.trueCompetitors.length > 0;
+    },
+  },
+  {
+    name: "ASYMMETRIC MOTIVATION",
+    heading: /^asymmetric|^motivation\b/,
+    parse: (section, analysis) => {
+      const { entrant, incumbent } = sortBlocks(section, [
+        ["entrant", /entrant|newcomer|attacker|startup|persist/],
+        ["incumbent", /incumbent|respond|unattractive|why/],
+      ]);
+      analysis.asymmetricMotivation = {
+        incumbentMotivation: textOf(incumbent) || section.prose.join(" "),
+        entrantMotivation: textOf(entrant),
+      };
+      return Object.values(analysis.asymmetricMotivation).some(Boolean);
+    },
+  },
+  {
+    name: "TRAJECTORY",
+    heading: /^(the\s+)?trajectory\b|^(improvement\s+)?path\b/,
+    parse: (section, analysis) => {
+      const { factors, timeframe, mainstream, path, current } = sortBlocks(section, [
+        ["factors", /factor|accelerat|decelerat|speed|slow/],
+        ["timeframe", /time|when|years|horizon/],
+        ["mainstream", /mainstream|eventually|satisf/],
+        ["path", /path|improv|trajector|evolv|project/],
+        ["current", /current|today|now|position/],
+      ]);
+      analysis.trajectory = {
+        currentPosition: textOf(current),
+        projectedPath: [textOf(path), textOf(mainstream)].filter(Boolean).join(" ") || section.prose.join(" "),
+        timeframe: textOf(timeframe),
+        keyFactors: unique([...listOf(factors), ...section.items]),
+      };
+      const t = analysis.trajectory;
+      return t.currentPosition !== "" || t.projectedPath !== "" || t.timeframe !== "" || t.keyFactors.length > 0;
+    },
+  },
+  {
+    name: "CASE STUDY PARALLELS",
+    heading: /^case\s+stud|^(historical\s+)?(parallels|patterns|analog)/,
+    parse: (section, analysis) => {
+      analysis.caseStudyParallels = readCaseParallels(section);
+      return analysis.caseStudyParallels.length > 0;
+    },
+  },
+];
+
+/**
+ * Parse a free-text answer to generateDisruptionAnalysisPrompt
+ */
+export function parseDisruptionAnswer(
+  text: string,
+  template: DisruptionAnalysis = createEmptyDisruptionAnalysis()
+): ParsedFrameworkAnswer<DisruptionAnalysis> {
+  return parseAnswer(text, template, DISRUPTION_SECTIONS, assessDisruptionConfidence);
+}
+
+// ============================================================
+// Capabilities-Processes-Priorities
+// ============================================================
+
+const CPP_SECTIONS: SectionSpec<CPPAnalysis>[] = [
+  {
+    name: "LAYER 1: RESOURCES",
+    heading: /^resources\b/,
+    parse: (section, analysis) => {
+      const { flexibility, acquirable, missing, available } = sortBlocks(section, [
+        ["flexibility", /flexib|shift/],
+        ["acquirable", /acquir|buy|hire|obtain|could/],
+        ["missing", /missing|lack|gap|need/],
+        ["available", /avail|have|exist|strength|asset/],
+      ]);
+      const resources = analysis.resources;
+      resources.available = unique([...listOf(available), ...section.items]);
+      resources.missing = unique(listOf(missing));
+      resources.acquirable = unique(listOf(acquirable));
+      resources.flexibility =
+        pickTerm(textOf(flexibility), EASE_TERMS) ?? pickTerm(textOf(acquirable), EASE_TERMS) ?? resources.flexibility;
+      return resources.available.length + resources.missing.length + resources.acquirable.length > 0;
+    },
+  },
+  {
+    name: "LAYER 2: PROCESSES",
+    heading: /^processes\b/,
+    parse: (section, analysis) => {
+      const { rigidity, hindering, supporting, changes } = sortBlocks(section, [
+        ["rigidity", /rigid|how hard|difficult/],
+        ["hindering", /hinder|fight|against|block|imped|obstacle/],
+        ["supporting", /support|enabl|help|strength/],
+        ["changes", /change|required|need/],
+      ]);
+      const processes = analysis.processes;
+      processes.supporting = unique([...listOf(supporting), ...section.items]);
+      processes.hindering = unique(listOf(hindering));
+      processes.requiredChanges = unique(listOf(changes));
+      processes.rigidity = pickTerm(textOf(rigidity), DIFFICULTY_TERMS) ?? processes.rigidity;
+      return (
+        processes.supporting.length + processes.hindering.length + processes.requiredChanges.length > 0 ||
+        rigidity.length > 0
+      );
+    },
+  },
+  {
+    name: "LAYER 3: PRIORITIES",
+    heading: /^(priorities|values)\b/,
+    parse: (section, analysis) => {
+      const { shifts, alignment, current, rationale } = sortBlocks(section, [
+        ["shifts", /shift|would need|change/],
+        ["alignment", /align|rank|fit|threshold|win|battle|allocation/],
+        ["current", /current|criteria|priorit|value/],
+        ["rationale", /rational|why|because/],
+      ]);
+      const priorities = analysis.priorities;
+      priorities.currentPriorities = unique([...listOf(current), ...section.items]);
+      priorities.requiredShifts = unique(listOf(shifts));
+      priorities.alignment =
+        pickTerm(textOf(alignment) || sectionText(section), ALIGNMENT_TERMS, { aligned: "misaligned" }) ??
+        priorities.alignment;
+      priorities.alignmentRationale = textOf(rationale) || textOf(alignment) || section.prose.join(" ");
+      return (
+        priorities.currentPriorities.length + priorities.requiredShifts.length > 0 ||
+        priorities.alignmentRationale !== ""
+      );
+    },
+  },
+  {
+    name: "OVERALL ASSESSMENT",
+    heading: /^(overall|verdict|bottom\s+line|conclusion|assessment|can\s+(you|we)\s+execute)/,
+    optional: true,
+    parse: (section, analysis) => {
+      const { blocker, execute, explanation } = sortBlocks(section, [
+        ["blocker", /blocker|bottleneck|biggest|main (obstacle|constraint)|binding/],
+        ["execute", /execut|can (we|you|the)|feasib|verdict/],
+        ["explanation", /why|explan|because|rational/],
+      ]);
+      const overall = analysis.overallAssessment;
+      overall.primaryBlocker = pickTerm(textOf(blocker), BLOCKER_TERMS) ?? overall.primaryBlocker;
+      const canExecute = pickTerm(textOf(execute), EXECUTE_TERMS);
+      overall.canExecute = canExecute ? canExecute === "yes" : overall.canExecute;
+      overall.explanation = textOf(explanation) || section.prose.join(" ");
+      return blocker.length > 0 || canExecute !== undefined || overall.explanation !== "";
+    },
+  },
+  {
+    name: "RECOMMENDATIONS",
+    heading: /^recommendations?\b|^next\s+steps\b/,
+    optional: true,
+    parse: (section, analysis) => {
+      analysis.recommendations = unique([
+        ...section.blocks.map((b) => [b.label, b.value].filter(Boolean).join(": ")),
+        ...section.items,
+        ...section.prose,
+      ]);
+      return analysis.recommendations.length > 0;
+    },
+  },
+];
+
+/**
+ * Parse a free-text answer to generateCPPAnalysisPrompt. Without an
+ * overall assessment in the answer, the primary blocker is diagnosed
+ * from the three layers.
+ */
+export function parseCPPAnswer(
+  text: string,
+  template: CPPAnalysis = createEmptyCPPAnalysis()
+): ParsedFrameworkAnswer<CPPAnalysis> {
+  return parseAnswer(text, template, CPP_SECTIONS, assessCPPConfidence, (analysis, parsed) => {
+    if (parsed.includes("OVERALL ASSESSMENT") || parsed.length === 0) return;
+    const { primaryBlocker, canExecute, rationale } = diagnoseCapabilities(analysis);
+    analysis.overallAssessment.primaryBlocker = primaryBlocker;
+    analysis.overallAssessment.canExecute = canExecute;
+    analysis.overallAssessment.explanation ||= rationale;
+  });
+}
+
+// ============================================================
+// Resource Dependence
+// ============================================================
+
+/** Labels that ask about providers rather than name one */
+const PROVIDER_QUESTION = /\?|^(who|what|which)\b|^key\s/i;
+
+/**
+ * The provider a label names, matched loosely ("Enterprise customers"
+ * → "Enterprise customers (top 20 accounts)")
+ */
+function findProvider(providers: ResourceProvider[], label: string): ResourceProvider | undefined {
+  const key = compact(label);
+  return providers.find((p) => key.includes(compact(p.provider)) || compact(p.provider).includes(key));
+}
+
+/**
+ * Add a provider, or resources to one already listed, from an entry
+ * like "Enterprise customers: revenue, reference accounts"
+ */
+function addProvider(providers: ResourceProvider[], entry: string, resources: string[] = []): void {
+  const split = /^(.+?)\s*(?::|\s[-–—]\s)\s*(.+)$/.exec(entry);
+  const name = clean(split ? split[1] : entry);
+  const provided = [...(split ? splitList(split[2]) : []), ...resources];
+  const existing = findProvider(providers, name);
+  if (existing) {
+    existing.resources = unique([...existing.resources, ...provided]);
+  } else if (name) {
+    providers.push({ provider: name, resources: provided, expectations: [], impactOnRelationship: "neutral" });
+  }
+}
+
+const RESOURCE_DEPENDENCE_SECTIONS: SectionSpec<ResourceDependenceAnalysis>[] = [
+  {
+    name: "WHO PROVIDES RESOURCES?",
+    heading: /^who\s+provides|^(resource\s+|key\s+)?providers?\b/,
+    parse: (section, analysis) => {
+      for (const block of section.blocks) {
+        if (PROVIDER_QUESTION.test(block.label)) {
+          for (const entry of [...(block.items.length > 0 ? [] : splitList(block.value)), ...block.items]) {
+            addProvider(analysis.providers, entry);
+          }
+        } else {
+          addProvider(analysis.providers, block.label, listOf([block]));
+        }
+      }
+      for (const item of section.items) addProvider(analysis.providers, item);
+      return analysis.providers.length > 0;
+    },
+  },
+  {
+    name: "WHAT DO THEY WANT?",
+    heading: /^what\s+do\s+they\s+want|^(provider\s+)?(priorities|expectations)\b/,
+    parse: (section, analysis) => {
+      const wants: string[] = [...section.items];
+      for (const block of section.blocks) {
+        const values = listOf([block]);
+        const provider = findProvider(analysis.providers, block.label);
+        if (provider) provider.expectations = unique([...provider.expectations, ...values]);
+        wants.push(...values);
+      }
+      analysis.providerPriorities = unique(wants.length > 0 ? wants : section.prose);
+      return analysis.providerPriorities.length > 0;
+    },
+  },
+  {
+    name: "HOW DOES THIS OPPORTUNITY AFFECT THEM?",
+    heading: /^how\s+does\s+this|^(impact|effects?)\b/,
+    parse: (section, analysis) => {
+      const conflicts: string[] = [...section.items];
+      let recognized = false;
+      for (const block of section.blocks) {
+        const text = textOf([block]);
+        const impact = pickTerm(text, IMPACT_TERMS);
+        const provider = findProvider(analysis.providers, block.label);
+        if (/risk/i.test(block.label)) {
+          analysis.riskLevel = pickTerm(text, RISK_TERMS) ?? analysis.riskLevel;
+          recognized = true;
+          continue;
+        }
+        if (provider) {
+          provider.impactOnRelationship = impact ?? provider.impactOnRelationship;
+          recognized = true;
+        }
+        const harmful = impact === "negative" || impact === "threatening";
+        if (harmful || /compet|conflict|distract|tension/i.test(block.label)) {
+          conflicts.push(...listOf([block]));
+        }
+      }
+      analysis.conflicts = unique(conflicts);
+      return recognized || analysis.conflicts.length > 0;
+    },
+  },
+  {
+    name: "CAN YOU NAVIGATE THE DEPENDENCE?",
+    heading: /^can\s+(you|we)\s+navigate|^navigat|^(navigation\s+)?strateg/,
+    parse: (section, analysis) => {
+      analysis.navigationStrategy = unique([
+        ...section.prose,
+        ...section.blocks.map((b) => textOf([b])),
+        ...section.items,
+      ]).join(" ");
+      return analysis.navigationStrategy !== "";
+    },
+  },
+  {
+    name: "RISK LEVEL",
+    heading: /^(overall\s+)?risk\b/,
+    optional: true,
+    parse: (section, analysis) => {
+      const level = pickTerm(sectionText(section), RISK_TERMS);
+      if (level) analysis.riskLevel = level;
+      return level !== undefined;
+    },
+  },
+];
+
+/**
+ * Parse a free-text answer to generateResourceDependencePrompt
+ */
+export function parseResourceDependenceAnswer(
+  text: string,
+  template: ResourceDependenceAnalysis = createEmptyResourceDependenceAnalysis()
+): ParsedFrameworkAnswer<ResourceDependenceAnalysis> {
+  return parseAnswer(text, template, RESOURCE_DEPENDENCE_SECTIONS, assessResourceDependenceConfidence);
+}
@@ -0,0 +1,337 @@
+/**
+ * Law of Conservation of Attractive Profits Implementation
+ *
+ * Core insight: When one stage of a value chain becomes more than good
+ * enough and modularizes, it commoditizes - and attractive profits move
+ * to an adjacent stage where performance is not yet good enough and
+ * interdependence still matters. Profits are conserved; they migrate.
+ *
+ * This module provides:
+ * 1. Diagnostic questions about the value chain and its profit pools
+ * 2. Deterministic flagging of each described stage as commoditizing or
+ *    not good enough, from the interdependence vs modularity signals
+ * 3. Prediction of where attractive profits will shift
+ * 4. Prompts that guide Christensen-style inquiry
+ */
+
+import { MORE_THAN_GOOD_ENOUGH_SIGNALS, NOT_GOOD_ENOUGH_SIGNALS } from "./modularity.js";
+import { findNegation } from "./negation.js";
+import type {
+  AttractiveProfitsAnalysis,
+  DiagnosticQuestion,
+  ProfitShift,
+  StageDescription,
+  StageStatus,
+  ValueChainStage,
+} from "./types.js";
+
+// ============================================================
+// Diagnostic Questions
+// ============================================================
+
+/**
+ * Core diagnostic questions for the conservation of attractive profits
+ */
+export const ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "What are the stages of the value chain, from components to the end customer?",
+    importance: "critical",
+  },
+  {
+    question: "Which stages are becoming more than good enough, modular and commoditized?",
+    importance: "critical",
+  },
+  {
+    question: "Which adjacent stages are still not good enough, where interdependence matters?",
+    importance: "critical",
+  },
+  {
+    question: "Where are attractive profits earned today, and why?",
+    importance: "important",
+  },
+  {
+    question: "As this stage commoditizes, where will the money go?",
+    importance: "important",
+  },
+  {
+    question: "Are you positioned at the stage where performance will be hardest to get right?",
+    importance: "important",
+  },
+  {
+    question: "What would make a commoditized stage not good enough again?",
+    importance: "contextual",
+  },
+];
+
+// ============================================================
+// Stage Flagging
+// ============================================================
+
+/**
+ * Phrase patterns that flag a stage as commoditizing or not good enough,
+ * each tied to an interdependence vs modularity signal
+ */
+export const STAGE_STATUS_PATTERNS: { status: Exclude<StageStatus, "unclear">; signal: string; pattern: RegExp }[] = [
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[0],
+    // "Unwilling to pay extra" is the refusal signal below, not this one
+    pattern: /\b((?<!\b(won'?t|will not|unwilling to|refuse to) )pay (more|a premium|extra)|premium pric\w*|willing to pay)\b/i,
+  },
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[1],
+    pattern: /\bcompet\w* on (functionality|performance|reliability|features)\b|\b(reliability|performance) (problems|issues|limits?)\b/i,
+  },
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[2],
+    pattern: /\b(not good enough|falls? short|bottleneck|too slow|unreliable|hard to get right)\b/i,
+  },
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[3],
+    pattern: /\b(optimi[sz]\w* across|tightly coupled|interdependen\w*|co[- ]design\w*|custom[- ]engineered)\b/i,
+  },
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[4],
+    pattern: /\b(proprietary|interfaces? (keep )?chang\w*)\b/i,
+  },
+  {
+    status: "not-good-enough",
+    signal: NOT_GOOD_ENOUGH_SIGNALS[5],
+    pattern: /\b(in[- ]house|vertically integrated|make (it|them) (ourselves|themselves))\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[0],
+    pattern: /\b(won'?t|will not|unwilling to|refuse to) pay\b|\b(more than good enough|overshoot\w*|overserv\w*)\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[1],
+    pattern: /\bcompet\w* on (price|speed|convenience|customi[sz]ation)\b|\bprice wars?\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[2],
+    pattern: /\b(industry[- ]standard|standardi[sz]\w*|standard (interfaces?|components?|parts))\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[3],
+    pattern: /\b(interchangeable|commodit\w*|many (suppliers|vendors)|easy to switch)\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[4],
+    pattern: /\bmargins? (are )?(shrink\w*|erod\w*|collaps\w*|squeez\w*)|\bthin margins?\b|\bpric\w* (erosion|eroding|falling|pressure)\b/i,
+  },
+  {
+    status: "commoditizing",
+    signal: MORE_THAN_GOOD_ENOUGH_SIGNALS[5],
+    pattern: /\b(off[- ]the[- ]shelf|assembled from|modular)\b/i,
+  },
+];
+
+/**
+ * Flag one described stage as commoditizing or not good enough. Each
+ * signal counts once; negated phrases ("not modular") are skipped, and
+ * a tie leaves the stage unclear.
+ */
+export function flagValueChainStage({ stage, description = "" }: StageDescription): ValueChainStage {
+  const text = description ? `${stage}. ${description}` : stage;
+  const evidence: string[] = [];
+  const counts: Record<Exclude<StageStatus, "unclear">, number> = { commoditizing: 0, "not-good-enough": 0 };
+
+  for (const { status, signal, pattern } of STAGE_STATUS_PATTERNS) {
+    const global = new RegExp(pattern.source, `${pattern.flags}g`);
+    const match = [...text.matchAll(global)].find((m) => !findNegation(text, m.index ?? 0));
+    if (!match) continue;
+    counts[status]++;
+    evidence.push(`"${match[0]}" → ${signal}`);
+  }
+
+  const status: StageStatus =
+    counts.commoditizing > counts["not-good-enough"]
+      ? "commoditizing"
+      : counts["not-good-enough"] > counts.commoditizing
+        ? "not-good-enough"
+        : "unclear";
+
+  return { stage, description, status, evidence };
+}
+
+/**
+ * Flag every stage of a described value chain, keeping its order
+ */
+export function mapValueChain(stages: StageDescription[]): ValueChainStage[] {
+  return stages.map(flagValueChainStage);
+}
+
+// ============================================================
+// Profit Migration
+// ============================================================
+
+/**
+ * Indexes of the not-good-enough stages closest to a stage, and how far
+ * away they are
+ */
+function nearestNotGoodEnough(stages: ValueChainStage[], from: number): { indexes: number[]; distance: number } {
+  for (let distance = 1; distance < stages.length; distance++) {
+    const indexes = [from - distance, from + distance].filter((i) => stages[i]?.status === "not-good-enough");
+    if (indexes.length > 0) return { indexes, distance };
+  }
+  return { indexes: [], distance: 0 };
+}
+
+/**
+ * Predict where attractive profits move from each commoditizing stage:
+ * to the adjacent stages that are not good enough, or, when neither
+ * neighbor is, to the nearest ones. Stages are ordered upstream first.
+ */
+export function predictProfitShifts(stages: ValueChainStage[]): ProfitShift[] {
+  const shifts: ProfitShift[] = [];
+
+  stages.forEach((stage, from) => {
+    if (stage.status !== "commoditizing") return;
+    const { indexes, distance } = nearestNotGoodEnough(stages, from);
+
+    for (const to of indexes) {
+      const target = stages[to].stage;
+      const direction = to < from ? "upstream" : "downstream";
+      shifts.push({
+        from: stage.stage,
+        to: target,
+        rationale:
+          distance === 1
+            ? `${stage.stage} is commoditizing, so attractive profits move to the adjacent ${direction} stage, ${target}, where performance is not yet good enough.`
+            : `${stage.stage} is commoditizing and neither neighbor is short of good enough; the nearest stage that is, ${distance} stages ${direction}, is ${target}.`,
+      });
+    }
+  });
+
+  return shifts;
+}
+
+// ============================================================
+// Analysis Helpers
+// ============================================================
+
+/**
+ * Render flagged stages as a numbered list for prompts
+ */
+function renderStages(stages: ValueChainStage[]): string {
+  return stages
+    .map((s, i) => `${i + 1}. ${s.stage} - ${s.status}${s.evidence.length > 0 ? ` (${s.evidence.join("; ")})` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Generate the prompt for Claude to analyze where attractive profits
+ * will migrate. Stages already mapped from the user's description are
+ * included as a starting point.
+ */
+export function generateAttractiveProfitsAnalysisPrompt(
+  situation: string,
+  context?: string,
+  stages: ValueChainStage[] = []
+): string {
+  return `
+Analyze this situation through the Law of Conservation of Attractive Profits.
+
+SITUATION: ${situation}
+${context ? `CONTEXT: ${context}` : ""}
+${stages.length > 0 ? `\nVALUE CHAIN (as described, flagged from the description):\n${renderStages(stages)}\n` : ""}
+Think through these questions systematically:
+
+1. VALUE CHAIN STAGES
+   - What are the stages, in order from components to the end customer?
+
+2. COMMODITIZING STAGES
+   - Which stages are more than good enough, modular and competing on price?
+   - What evidence shows customers won't pay for further improvement there?
+
+3. NOT-GOOD-ENOUGH STAGES
+   - Which stages still fall short of what customers need?
+   - Where does interdependence still determine performance?
+
+4. PROFIT MIGRATION
+   - Where are attractive profits earned today?
+   - As stages commoditize, which adjacent stages will capture the profits?
+
+5. POSITIONING
+   - Is the organization positioned where the profits are going?
+   - What would it need to integrate, or let go of, to get there?
+
+Remember: Profits don't disappear when a stage commoditizes - they move to
+the adjacent stage where performance is not yet good enough. Look where it
+will be hardest to get things right.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+/**
+ * Create an empty conservation of attractive profits analysis structure
+ */
+export function createEmptyAttractiveProfitsAnalysis(): AttractiveProfitsAnalysis {
+  return {
+    stages: [],
+    profitShifts: [],
+    currentProfitPool: "",
+    futureProfitPool: "",
+    positioningImplications: [],
+    confidence: "uncertain",
+  };
+}
+
+/**
+ * Start an analysis from a described value chain: stages flagged, profit
+ * shifts predicted, and the future profit pool named from the shifts
+ */
+export function analyzeValueChain(stages: StageDescription[]): AttractiveProfitsAnalysis {
+  const mapped = mapValueChain(stages);
+  const profitShifts = predictProfitShifts(mapped);
+  return {
+    ...createEmptyAttractiveProfitsAnalysis(),
+    stages: mapped,
+    profitShifts,
+    futureProfitPool: [...new Set(profitShifts.map((s) => s.to))].join(", "),
+  };
+}
+
+// ============================================================
+// Christensen Voice Helpers
+// ============================================================
+
+/**
+ * Phrases Christensen would use when discussing profit migration
+ */
+export const ATTRACTIVE_PROFITS_VOICE_PHRASES = [
+  "Profits don't disappear - they move.",
+  "When one stage commoditizes, attractive profits shift to an adjacent stage.",
+  "Look for where performance is not yet good enough.",
+  "The money goes to whoever solves the problem that is hardest to get right.",
+  "Modularity in one stage creates the need for interdependence in another.",
+  "The theory would predict that margins will migrate, not vanish.",
+  "Ask where the profits will be in five years, not where they are today.",
+];
+
+/**
+ * Generate a Christensen-style response for profit migration inquiry
+ */
+export function generateAttractiveProfitsInquiry(situation: string): string {
+  return `
+Let me ask you to draw the value chain before we talk about margins.
+
+${situation}
+
+There's a pattern I call the law of conservation of attractive profits. When one stage of a value chain becomes more than good enough, it modularizes. Suppliers become interchangeable, competition shifts to price, and the profits there get competed away.
+
+But the profits don't vanish. They move to an adjacent stage where performance is not yet good enough - where you still have to integrate across interdependent pieces to get it right. That's where the money goes.
+
+So help me understand: Which stages in your chain are customers no longer willing to pay more for, and which ones are still hard to get right?
+`.trim();
+}
@@ -0,0 +1,368 @@
+/**
+ * Business Model Framework Implementation
+ *
+ * Core insight: A business model is four interlocking boxes - the
+ * customer value proposition, key resources, key processes and the
+ * profit formula. Once established, the profit formula and processes
+ * decide which opportunities the organization can pursue. An opportunity
+ * that needs a different profit formula or different processes needs a
+ * new business model, not a stretch of the old one.
+ *
+ * Where CPP asks what an organization can do, this framework asks what
+ * model a new opportunity requires and how far that is from the
+ * incumbent's.
+ *
+ * This module provides:
+ * 1. Diagnostic questions for each box
+ * 2. A deterministic comparison of the incumbent model with the required one
+ * 3. Prompts that guide Christensen-style inquiry
+ */
+
+import { tokenize } from "../case-library/index.js";
+import type {
+  BusinessModel,
+  BusinessModelComparison,
+  BusinessModelDifference,
+  BusinessModelElement,
+  BusinessModelFit,
+  DiagnosticQuestion,
+} from "./types.js";
+
+// ============================================================
+// Diagnostic Questions
+// ============================================================
+
+/**
+ * Core diagnostic questions across the four boxes
+ */
+export const BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "What job does the customer need done, and what offering does it?",
+    importance: "critical",
+  },
+  {
+    question: "What profit formula does the opportunity require - and is it the one you have?",
+    importance: "critical",
+  },
+  {
+    question: "Which key processes would the opportunity need that you don't run today?",
+    importance: "critical",
+  },
+  {
+    question: "Which key resources - people, technology, brand, channels - does it depend on?",
+    importance: "important",
+  },
+  {
+    question: "Would your existing processes and margin targets reshape this opportunity to fit the current model?",
+    importance: "important",
+  },
+  {
+    question: "Does this need a separate unit with its own business model?",
+    importance: "contextual",
+  },
+];
+
+/**
+ * Questions for each part of the profit formula
+ */
+export const PROFIT_FORMULA_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "Revenue model: What price, at what volume, earns the revenue?",
+    importance: "critical",
+  },
+  {
+    question: "Cost structure: What are the direct costs, overhead and scale economies?",
+    importance: "important",
+  },
+  {
+    question: "Margin model: What contribution must each transaction make?",
+    importance: "important",
+  },
+  {
+    question: "Resource velocity: How fast must inventory, assets and cash turn over?",
+    importance: "contextual",
+  },
+];
+
+// ============================================================
+// Business Model Comparison
+// ============================================================
+
+/**
+ * Below this similarity a field counts as changed, and a required list
+ * item counts as new
+ */
+export const BUSINESS_MODEL_CHANGE_THRESHOLD = 0.5;
+
+const ELEMENT_NAMES: Record<BusinessModelElement, string> = {
+  valueProposition: "customer value proposition",
+  keyResources: "key resources",
+  keyProcesses: "key processes",
+  profitFormula: "profit formula",
+};
+
+/**
+ * Elements that, when changed, call for a new business model rather
+ * than a stretch of the incumbent's
+ */
+const MODEL_DEFINING_ELEMENTS: BusinessModelElement[] = ["keyProcesses", "profitFormula"];
+
+/**
+ * Share of distinct stemmed words two texts have in common (0-1)
+ */
+function wordOverlap(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / new Set([...left, ...right]).size;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare one text field; fields left empty on either side are skipped
+ */
+function compareText(
+  element: BusinessModelElement,
+  field: string,
+  incumbent: string,
+  required: string
+): BusinessModelDifference | undefined {
+  if (!incumbent.trim() || !required.trim()) return undefined;
+  const similarity = round(wordOverlap(incumbent, required));
+  return {
+    element,
+    field,
+    incumbent,
+    required,
+    similarity,
+    changed: similarity < BUSINESS_MODEL_CHANGE_THRESHOLD,
+    newRequirements: [],
+  };
+}
+
+/**
+ * Compare a list field: each required item is matched against the
+ * incumbent's closest item, and unmatched items are new requirements
+ */
+function compareList(
+  element: BusinessModelElement,
+  incumbent: string[],
+  required: string[]
+): BusinessModelDifference | undefined {
+  if (incumbent.length === 0 || required.length === 0) return undefined;
+  const newRequirements = required.filter(
+    (item) => Math.max(...incumbent.map((have) => wordOverlap(have, item))) < BUSINESS_MODEL_CHANGE_THRESHOLD
+  );
+  return {
+    element,
+    field: element,
+    incumbent: incumbent.join("; "),
+    required: required.join("; "),
+    similarity: round((required.length - newRequirements.length) / required.length),
+    changed: newRequirements.length > 0,
+    newRequirements,
+  };
+}
+
+/**
+ * Explain the fit verdict from the changed elements
+ */
+function explainFit(fit: BusinessModelFit, changed: BusinessModelElement[], compared: number): string {
+  const names = changed.map((e) => ELEMENT_NAMES[e]).join(", ");
+  switch (fit) {
+    case "unclear":
+      return "Nothing to compare yet: describe the same boxes for both the incumbent model and the one the opportunity requires.";
+    case "fits":
+      return `All ${compared} compared fields match; the opportunity fits the incumbent business model.`;
+    case "stretch":
+      return `Only the ${names} change. Resources can be acquired and the value proposition extended while the existing processes and profit formula carry the opportunity.`;
+    case "new-model":
+      return `The opportunity changes the ${names}. The theory would predict that the incumbent's processes and profit formula will reshape it to fit the existing model - it likely needs a new business model, often in a separate unit.`;
+  }
+}
+
+/**
+ * Contrast the incumbent business model with the one an opportunity
+ * requires. Fields are compared by word overlap; changes to processes or
+ * the profit formula call for a new model, changes elsewhere only
+ * stretch the incumbent's.
+ */
+export function compareBusinessModels(incumbent: BusinessModel, required: BusinessModel): BusinessModelComparison {
+  const candidates = [
+    ...(["targetCustomer", "jobToBeDone", "offering"] as const).map((key) =>
+      compareText("valueProposition", `valueProposition.${key}`, incumbent.valueProposition[key], required.valueProposition[key])
+    ),
+    compareList("keyResources", incumbent.keyResources, required.keyResources),
+    compareList("keyProcesses", incumbent.keyProcesses, required.keyProcesses),
+    ...(["revenueModel", "costStructure", "marginModel", "resourceVelocity"] as const).map((key) =>
+      compareText("profitFormula", `profitFormula.${key}`, incumbent.profitFormula[key], required.profitFormula[key])
+    ),
+  ];
+  const differences = candidates.filter((d): d is BusinessModelDifference => d !== undefined);
+
+  const changedElements = (Object.keys(ELEMENT_NAMES) as BusinessModelElement[]).filter((element) =>
+    differences.some((d) => d.element === element && d.changed)
+  );
+
+  const fit: BusinessModelFit =
+    differences.length === 0
+      ? "unclear"
+      : changedElements.some((e) => MODEL_DEFINING_ELEMENTS.includes(e))
+        ? "new-model"
+        : changedElements.length > 0
+          ? "stretch"
+          : "fits";
+
+  return {
+    differences,
+    changedElements,
+    fit,
+    rationale: explainFit(fit, changedElements, differences.length),
+  };
+}
+
+// ============================================================
+// Analysis Helpers
+// ============================================================
+
+/**
+ * Generate the prompt for Claude to describe a business model in four boxes
+ */
+export function generateBusinessModelAnalysisPrompt(
+  situation: string,
+  context?: string
+): string {
+  return `
+Analyze the business model in this situation using the four-box framework.
+
+SITUATION: ${situation}
+${context ? `CONTEXT: ${context}` : ""}
+
+Think through these questions systematically:
+
+1. CUSTOMER VALUE PROPOSITION
+   - Who is the target customer?
+   - What job do they need done?
+   - What offering gets the job done?
+
+2. KEY RESOURCES
+   - Which people, technology, products, facilities, channels and brand deliver the value proposition?
+
+3. KEY PROCESSES
+   - Which recurring ways of working, rules and norms let the business deliver it repeatedly?
+
+4. PROFIT FORMULA
+   - Revenue model: What price, at what volume?
+   - Cost structure: What are the direct costs, overhead and scale economies?
+   - Margin model: What contribution must each transaction make?
+   - Resource velocity: How fast must inventory, assets and cash turn over?
+
+Remember: The boxes interlock. The profit formula, once set, decides which
+resources and processes the business will invest in - and which
+opportunities it will turn away.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+/**
+ * Generate the prompt for Claude to contrast the incumbent business model
+ * with the one a new opportunity requires
+ */
+export function generateBusinessModelComparisonPrompt(
+  opportunity: string,
+  context?: string
+): string {
+  return `
+Compare the incumbent business model with the one this opportunity requires.
+
+OPPORTUNITY: ${opportunity}
+${context ? `CONTEXT: ${context}` : ""}
+
+For BOTH the incumbent model and the model the opportunity requires, describe:
+
+1. CUSTOMER VALUE PROPOSITION
+   - Target customer, job to be done, offering
+
+2. KEY RESOURCES
+   - What each model depends on
+
+3. KEY PROCESSES
+   - How each model works, repeatedly
+
+4. PROFIT FORMULA
+   - Revenue model, cost structure, margin model, resource velocity
+
+Then assess:
+
+5. THE GAP
+   - Which boxes change? Pay particular attention to the profit formula and key processes.
+   - Would the incumbent's margin targets and processes reshape the opportunity to fit the old model?
+
+6. THE VERDICT
+   - Does the opportunity fit the incumbent model, stretch it, or require a new one?
+   - If a new one, does it need a separate unit?
+
+Remember: Resources can be acquired. A different profit formula or different
+processes usually cannot be run inside the existing model.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+/**
+ * Create an empty business model structure
+ */
+export function createEmptyBusinessModel(): BusinessModel {
+  return {
+    valueProposition: {
+      targetCustomer: "",
+      jobToBeDone: "",
+      offering: "",
+    },
+    keyResources: [],
+    keyProcesses: [],
+    profitFormula: {
+      revenueModel: "",
+      costStructure: "",
+      marginModel: "",
+      resourceVelocity: "",
+    },
+  };
+}
+
+// ============================================================
+// Christensen Voice Helpers
+// ============================================================
+
+/**
+ * Phrases Christensen would use when discussing business models
+ */
+export const BUSINESS_MODEL_VOICE_PHRASES = [
+  "Start with the customer value proposition - the job to be done.",
+  "The profit formula decides which opportunities get resources.",
+  "Resources can be bought; processes and profit formulas can't be borrowed.",
+  "An incumbent will cram a new opportunity into its existing business model.",
+  "A disruptive opportunity usually needs a new business model.",
+  "Help me understand the margin each transaction has to make.",
+  "The theory would predict that the old model will reshape the new opportunity.",
+];
+
+/**
+ * Generate a Christensen-style response for business model inquiry
+ */
+export function generateBusinessModelInquiry(situation: string): string {
+  return `
+Before we decide whether to pursue this, let me ask what business model it needs.
+
+${situation}
+
+I think of a business model as four boxes. There's the customer value proposition - the job you help someone do. There are the key resources and the key processes that deliver it. And there's the profit formula - how much you charge, what it costs, what margin each sale has to make, and how fast your assets have to turn.
+
+Here's what I've seen happen again and again: once a company has a profit formula, it shapes everything. Opportunities that need a different formula get squeezed until they fit the old one - and then they fail.
+
+So help me understand: Does this opportunity make money the same way your business does today? And would your current processes help it, or get in its way?
+`.trim();
+}
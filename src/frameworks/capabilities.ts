@@ -12,7 +12,13 @@
  */
 
 import type {
+  BlockerEvidence,
+  BlockerWeights,
+  CapabilityDiagnosis,
+  CapabilityLayer,
   CPPAnalysis,
+  DeepPartial,
+  LayerDiagnosis,
   ResourceAssessment,
   ProcessAssessment,
   PrioritiesAssessment,
@@ -311,39 +317,205 @@ export function createEmptyResourceDependenceAnalysis(): ResourceDependenceAnaly
   };
 }
 
+// ============================================================
+// Blocker Scoring
+// ============================================================
+
 /**
- * Assess which layer is the primary blocker
+ * Default blocker weights. Evidence against a layer adds to its score,
+ * evidence for it (supporting processes, acquirable resources) subtracts,
+ * and the layer weights follow the theory: resources are easiest to
+ * change, processes harder, priorities hardest of all.
  */
-export function identifyPrimaryBlocker(
-  analysis: CPPAnalysis
-): "resources" | "processes" | "priorities" | "none" {
-  // Check priorities first - hardest to change
-  if (analysis.priorities.alignment === "misaligned") {
-    return "priorities";
-  }
+export const DEFAULT_BLOCKER_WEIGHTS: BlockerWeights = {
+  layers: { resources: 1, processes: 1.5, priorities: 2 },
+  items: {
+    missingResource: 1,
+    acquirableResource: -0.5,
+    hinderingProcess: 1,
+    supportingProcess: -0.5,
+    requiredProcessChange: 0.25,
+    requiredPriorityShift: 0.5,
+  },
+  flexibility: { high: 0, medium: 0.25, low: 1 },
+  rigidity: { high: 1, medium: 0.25, low: 0 },
+  alignment: { aligned: 0, neutral: 0.5, misaligned: 3 },
+  blockingThreshold: 1.5,
+};
+
+/** Order for breaking ties: the harder layer to change comes first */
+const LAYER_DIFFICULTY: CapabilityLayer[] = ["priorities", "processes", "resources"];
+
+const LAYER_LABELS: Record<CapabilityLayer, string> = {
+  resources: "Resources",
+  processes: "Processes",
+  priorities: "Priorities",
+};
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
-  // Check processes next - hard to change
-  if (
-    analysis.processes.rigidity === "high" &&
-    analysis.processes.hindering.length > analysis.processes.supporting.length
-  ) {
-    return "processes";
-  }
+/**
+ * Drop keys whose value is undefined, so they do not mask a base weight
+ */
+function definedOnly<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
 
-  // Check resources - easiest to change but still can block
-  if (
-    analysis.resources.missing.length > 0 &&
-    analysis.resources.flexibility === "low"
-  ) {
-    return "resources";
-  }
+/**
+ * Fill in weights left out of an override from a base (the defaults
+ * unless given), so overrides can be layered
+ */
+export function resolveBlockerWeights(
+  overrides: DeepPartial<BlockerWeights> = {},
+  base: BlockerWeights = DEFAULT_BLOCKER_WEIGHTS
+): BlockerWeights {
+  return {
+    layers: { ...base.layers, ...definedOnly(overrides.layers) },
+    items: { ...base.items, ...definedOnly(overrides.items) },
+    flexibility: { ...base.flexibility, ...definedOnly(overrides.flexibility) },
+    rigidity: { ...base.rigidity, ...definedOnly(overrides.rigidity) },
+    alignment: { ...base.alignment, ...definedOnly(overrides.alignment) },
+    blockingThreshold: overrides.blockingThreshold ?? base.blockingThreshold,
+  };
+}
+
+/**
+ * Evidence for each listed item
+ */
+function itemEvidence(items: string[], field: string, label: string, weight: number): BlockerEvidence[] {
+  return weight === 0
+    ? []
+    : items.map((item, i) => ({ field: `${field}[${i}]`, evidence: `${label}: ${item}`, weight }));
+}
 
-  // If we got here with significant issues, processes is likely the blocker
-  if (analysis.processes.hindering.length > 0) {
-    return "processes";
+/**
+ * Evidence for an assessed level, when it carries weight
+ */
+function levelEvidence(level: string, field: string, label: string, weight: number): BlockerEvidence[] {
+  return weight === 0 ? [] : [{ field, evidence: `${label}: ${level}`, weight }];
+}
+
+/**
+ * Score one layer from its evidence
+ */
+function scoreLayer(evidence: BlockerEvidence[], layerWeight: number, threshold: number): LayerDiagnosis {
+  const rawScore = roundScore(Math.max(0, evidence.reduce((sum, e) => sum + e.weight, 0)));
+  const score = roundScore(rawScore * layerWeight);
+  return { rawScore, score, blocking: score >= threshold, evidence };
+}
+
+/**
+ * Score each CPP layer as a blocker. Every score is explained by the
+ * evidence behind it; layers at or above the blocking threshold are
+ * ranked, and the organization can execute when none is.
+ */
+export function diagnoseCapabilities(
+  analysis: CPPAnalysis,
+  weights: BlockerWeights = DEFAULT_BLOCKER_WEIGHTS
+): CapabilityDiagnosis {
+  const { resources, processes, priorities } = analysis;
+  const { items } = weights;
+
+  const evidence: Record<CapabilityLayer, BlockerEvidence[]> = {
+    resources: [
+      ...itemEvidence(resources.missing, "resources.missing", "Missing resource", items.missingResource),
+      ...itemEvidence(resources.acquirable, "resources.acquirable", "Acquirable resource", items.acquirableResource),
+      ...levelEvidence(
+        resources.flexibility,
+        "resources.flexibility",
+        "Resource flexibility",
+        weights.flexibility[resources.flexibility]
+      ),
+    ],
+    processes: [
+      ...itemEvidence(processes.hindering, "processes.hindering", "Hindering process", items.hinderingProcess),
+      ...itemEvidence(processes.supporting, "processes.supporting", "Supporting process", items.supportingProcess),
+      ...itemEvidence(
+        processes.requiredChanges,
+        "processes.requiredChanges",
+        "Required process change",
+        items.requiredProcessChange
+      ),
+      ...levelEvidence(processes.rigidity, "processes.rigidity", "Process rigidity", weights.rigidity[processes.rigidity]),
+    ],
+    priorities: [
+      ...levelEvidence(
+        priorities.alignment,
+        "priorities.alignment",
+        "Priority alignment",
+        weights.alignment[priorities.alignment]
+      ),
+      ...itemEvidence(
+        priorities.requiredShifts,
+        "priorities.requiredShifts",
+        "Required priority shift",
+        items.requiredPriorityShift
+      ),
+    ],
+  };
+
+  const layers = Object.fromEntries(
+    LAYER_DIFFICULTY.map((layer) => [
+      layer,
+      scoreLayer(evidence[layer], weights.layers[layer], weights.blockingThreshold),
+    ])
+  ) as Record<CapabilityLayer, LayerDiagnosis>;
+
+  // Stable sort keeps LAYER_DIFFICULTY order on ties
+  const blockers = LAYER_DIFFICULTY.filter((layer) => layers[layer].blocking).sort(
+    (a, b) => layers[b].score - layers[a].score
+  );
+  const primaryBlocker = blockers[0] ?? "none";
+
+  return {
+    layers,
+    blockers,
+    primaryBlocker,
+    canExecute: blockers.length === 0,
+    rationale: explainDiagnosis(layers, blockers, weights.blockingThreshold),
+    weights,
+  };
+}
+
+/**
+ * One-paragraph explanation of a diagnosis
+ */
+function explainDiagnosis(
+  layers: Record<CapabilityLayer, LayerDiagnosis>,
+  blockers: CapabilityLayer[],
+  threshold: number
+): string {
+  if (blockers.length === 0) {
+    const highest = [...LAYER_DIFFICULTY].sort((a, b) => layers[b].score - layers[a].score)[0];
+    return `No layer reaches the blocking threshold of ${threshold}; the highest is ${LAYER_LABELS[highest].toLowerCase()} at ${layers[highest].score}.`;
   }
 
-  return "none";
+  const [primary, ...others] = blockers;
+  const drivers = layers[primary].evidence
+    .filter((e) => e.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 2)
+    .map((e) => e.evidence);
+  return [
+    `${LAYER_LABELS[primary]} is the primary blocker (score ${layers[primary].score}, threshold ${threshold}), driven by ${drivers.join("; ")}.`,
+    others.length > 0
+      ? `Also blocking: ${others.map((l) => `${LAYER_LABELS[l].toLowerCase()} (${layers[l].score})`).join(", ")}.`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Assess which layer is the primary blocker
+ */
+export function identifyPrimaryBlocker(
+  analysis: CPPAnalysis,
+  weights: BlockerWeights = DEFAULT_BLOCKER_WEIGHTS
+): CPPAnalysis["overallAssessment"]["primaryBlocker"] {
+  return diagnoseCapabilities(analysis, weights).primaryBlocker;
 }
 
 // ============================================================
@@ -0,0 +1,589 @@
+/**
+ * Confidence Assessment
+ *
+ * Every framework analysis carries a confidence level; this module
+ * computes it instead of leaving it to whoever filled the analysis in.
+ * Each assessor scores completeness (which fields carry an answer) and
+ * consistency (whether those answers agree with each other), and lists
+ * every missing field or contradiction that cost points. Analyses may be
+ * partially filled - absent fields count as missing, never as errors.
+ */
+
+import type {
+  AnalysisConfidenceAssessment,
+  AnalysisSection,
+  AttractiveProfitsAnalysis,
+  ChristensenAnalysis,
+  ConfidenceAssessment,
+  ConfidenceIssue,
+  ConfidenceLevel,
+  CPPAnalysis,
+  DeepPartial,
+  DisruptionAnalysis,
+  EmergentStrategyAnalysis,
+  JTBDAnalysis,
+  ModularityAnalysis,
+  OptionalAnalysisSection,
+  ResourceDependenceAnalysis,
+} from "./types.js";
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * A field that should carry an answer
+ */
+interface CompletenessCheck {
+  field: string;
+  present: boolean;
+  weight: number;
+  message: string;
+}
+
+/**
+ * A pair of answers that should not both hold
+ */
+interface ConsistencyCheck {
+  field: string;
+  contradicted: boolean;
+  weight: number;
+  message: string;
+}
+
+/**
+ * Minimum score for each confidence level
+ */
+export const CONFIDENCE_THRESHOLDS: Record<Exclude<ConfidenceLevel, "uncertain">, number> = {
+  high: 0.9,
+  medium: 0.6,
+  low: 0.3,
+};
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function filled(value: string | undefined): boolean {
+  return (value ?? "").trim().length > 0;
+}
+
+function listed(values: unknown[] | undefined): boolean {
+  return (values ?? []).length > 0;
+}
+
+/**
+ * Confidence level for a score. An analysis that contradicts itself is
+ * never more than medium confidence, however complete it is.
+ */
+function levelFor(score: number, contradicted: boolean): ConfidenceLevel {
+  if (score >= CONFIDENCE_THRESHOLDS.high && !contradicted) return "high";
+  if (score >= CONFIDENCE_THRESHOLDS.medium) return "medium";
+  if (score >= CONFIDENCE_THRESHOLDS.low) return "low";
+  return "uncertain";
+}
+
+function need(field: string, present: boolean, message: string, weight = 1): CompletenessCheck {
+  return { field, present, weight, message };
+}
+
+function sortIssues(issues: ConfidenceIssue[]): ConfidenceIssue[] {
+  return issues.sort((a, b) => b.penalty - a.penalty);
+}
+
+/**
+ * Score completeness checks, subtract contradictions, and explain the
+ * points lost
+ */
+function scoreChecks(completeness: CompletenessCheck[], consistency: ConsistencyCheck[]): ConfidenceAssessment {
+  const possible = completeness.reduce((sum, c) => sum + c.weight, 0);
+  const issues: ConfidenceIssue[] = [];
+  let earned = 0;
+
+  for (const check of completeness) {
+    if (check.present) {
+      earned += check.weight;
+    } else {
+      issues.push({ field: check.field, kind: "missing", message: check.message, penalty: round(check.weight / possible) });
+    }
+  }
+
+  const contradictions = consistency.filter((c) => c.contradicted);
+  for (const check of contradictions) {
+    earned -= check.weight;
+    issues.push({ field: check.field, kind: "contradiction", message: check.message, penalty: round(check.weight / possible) });
+  }
+
+  const score = round(Math.max(0, earned) / possible);
+  return { confidence: levelFor(score, contradictions.length > 0), score, issues: sortIssues(issues) };
+}
+
+// ============================================================
+// Framework Assessors
+// ============================================================
+
+/**
+ * Assess confidence in a jobs-to-be-done analysis
+ */
+export function assessJobsToBeDoneConfidence(analysis: DeepPartial<JTBDAnalysis>): ConfidenceAssessment {
+  const { dimensions, circumstance } = analysis;
+
+  return scoreChecks(
+    [
+      // Core job identified
+      need("job", (analysis.job ?? "").length > 20, "The core job is missing or too vague to act on", 2),
+
+      // All dimensions filled
+      need("dimensions.functional", filled(dimensions?.functional), "No functional dimension of the job"),
+      need("dimensions.emotional", filled(dimensions?.emotional), "No emotional dimension of the job"),
+      need("dimensions.social", filled(dimensions?.social), "No social dimension of the job"),
+
+      // Circumstance understood
+      need("circumstance.situation", filled(circumstance?.situation), "The circumstance the job arises in is not described"),
+      need("circumstance.trigger", filled(circumstance?.trigger), "Nothing identifies what triggers the job"),
+
+      // Competition understood
+      need("firingFrom", listed(analysis.firingFrom), "No idea what customers fire to hire this"),
+      need("firingRisks", listed(analysis.firingRisks), "No idea what would get this fired"),
+
+      // Segments identified
+      need("underservedSegments", listed(analysis.underservedSegments), "No underserved segments identified"),
+    ],
+    []
+  );
+}
+
+/**
+ * Assess confidence in a disruption analysis
+ */
+export function assessDisruptionConfidence(analysis: DeepPartial<DisruptionAnalysis>): ConfidenceAssessment {
+  const { innovationType, marketPosition, trajectory, asymmetricMotivation } = analysis;
+  const segment = marketPosition?.segment;
+
+  return scoreChecks(
+    [
+      {
+        field: "innovationType",
+        present: innovationType !== undefined && innovationType !== "unclear",
+        weight: 2,
+        message: innovationType === "unclear" ? "The innovation is classified as unclear" : "The innovation is not classified",
+      },
+      need("classificationRationale", filled(analysis.classificationRationale), "No rationale for the classification"),
+      need("marketPosition.segment", segment !== undefined, "No target segment"),
+      need("marketPosition.incumbentFocus", filled(marketPosition?.incumbentFocus), "What incumbents are focused on is not described"),
+      need("marketPosition.overservedDimensions", listed(marketPosition?.overservedDimensions), "No overserved dimensions - where are incumbents overshooting?"),
+      need("trueCompetitors", listed(analysis.trueCompetitors), "No true competitors identified"),
+      need("trajectory.projectedPath", filled(trajectory?.projectedPath), "No projected trajectory"),
+      need("trajectory.keyFactors", listed(trajectory?.keyFactors), "No factors that would speed up or slow down the trajectory"),
+      need("asymmetricMotivation.incumbentMotivation", filled(asymmetricMotivation?.incumbentMotivation), "Nothing explains why incumbents won't respond"),
+      need("asymmetricMotivation.entrantMotivation", filled(asymmetricMotivation?.entrantMotivation), "Nothing explains why the entrant will persist"),
+      need("caseStudyParallels", listed(analysis.caseStudyParallels), "No case study parallels"),
+    ],
+    [
+      {
+        field: "marketPosition.segment",
+        contradicted: innovationType === "sustaining" && (segment === "low-end" || segment === "non-consumers"),
+        weight: 2,
+        message: `Classified as sustaining, but it targets ${segment} - sustaining innovations serve the incumbents' best customers`,
+      },
+      {
+        field: "marketPosition.segment",
+        contradicted: innovationType === "low-end-disruptive" && (segment === "high-end" || segment === "non-consumers"),
+        weight: 2,
+        message: `Classified as low-end disruption, but it targets ${segment} rather than overserved low-end customers`,
+      },
+      {
+        field: "marketPosition.segment",
+        contradicted: innovationType === "new-market-disruptive" && (segment === "high-end" || segment === "mainstream"),
+        weight: 2,
+        message: `Classified as new-market disruption, but it targets ${segment} customers rather than non-consumers`,
+      },
+    ]
+  );
+}
+
+/**
+ * Assess confidence in a capabilities-processes-priorities analysis
+ */
+export function assessCPPConfidence(analysis: DeepPartial<CPPAnalysis>): ConfidenceAssessment {
+  const { resources, processes, priorities, overallAssessment } = analysis;
+  const blocker = overallAssessment?.primaryBlocker;
+  const canExecute = overallAssessment?.canExecute;
+
+  return scoreChecks(
+    [
+      need("resources.available", listed(resources?.available), "No available resources listed"),
+      need("resources.flexibility", resources?.flexibility !== undefined, "Resource flexibility not rated"),
+      {
+        field: "processes",
+        present: listed(processes?.supporting) || listed(processes?.hindering),
+        weight: 1,
+        message: "No supporting or hindering processes listed",
+      },
+      need("processes.rigidity", processes?.rigidity !== undefined, "Process rigidity not rated"),
+      need("priorities.currentPriorities", listed(priorities?.currentPriorities), "Current priorities not listed"),
+      need("priorities.alignment", priorities?.alignment !== undefined, "Alignment with priorities not rated"),
+      need("priorities.alignmentRationale", filled(priorities?.alignmentRationale), "No rationale for the priorities alignment"),
+      need("overallAssessment.canExecute", canExecute !== undefined, "No verdict on whether the organization can execute"),
+      need("overallAssessment.primaryBlocker", blocker !== undefined, "No primary blocker named (or \"none\")"),
+      need("overallAssessment.explanation", filled(overallAssessment?.explanation), "The capability verdict is not explained"),
+      need("recommendations", listed(analysis.recommendations), "No recommendations"),
+    ],
+    [
+      {
+        field: "overallAssessment.primaryBlocker",
+        contradicted: priorities?.alignment === "misaligned" && canExecute === true && blocker === "none",
+        weight: 2,
+        message: "Priorities are misaligned, yet nothing is named as blocking execution",
+      },
+      {
+        field: "overallAssessment.primaryBlocker",
+        contradicted: canExecute === false && blocker === "none",
+        weight: 2,
+        message: "Concludes the organization can't execute, but names no blocker",
+      },
+      {
+        field: "resources.missing",
+        contradicted: blocker === "resources" && !listed(resources?.missing),
+        weight: 1,
+        message: "Resources are named as the blocker, but no missing resources are listed",
+      },
+      {
+        field: "processes.hindering",
+        contradicted: blocker === "processes" && !listed(processes?.hindering),
+        weight: 1,
+        message: "Processes are named as the blocker, but no hindering processes are listed",
+      },
+      {
+        field: "priorities.alignment",
+        contradicted: blocker === "priorities" && priorities?.alignment === "aligned",
+        weight: 1,
+        message: "Priorities are named as the blocker, but the opportunity is rated as aligned with them",
+      },
+    ]
+  );
+}
+
+/**
+ * Assess confidence in a resource dependence analysis
+ */
+export function assessResourceDependenceConfidence(
+  analysis: DeepPartial<ResourceDependenceAnalysis>
+): ConfidenceAssessment {
+  const providers = analysis.providers ?? [];
+  const withoutExpectations = providers.findIndex((p) => !listed(p.expectations));
+  const riskLevel = analysis.riskLevel;
+  const pressured =
+    listed(analysis.conflicts) ||
+    providers.some((p) => p.impactOnRelationship === "negative" || p.impactOnRelationship === "threatening");
+
+  return scoreChecks(
+    [
+      need("providers", providers.length > 0, "No resource providers identified", 2),
+      {
+        field: withoutExpectations >= 0 ? `providers[${withoutExpectations}].expectations` : "providers",
+        present: providers.length > 0 && withoutExpectations < 0,
+        weight: 1,
+        message:
+          withoutExpectations >= 0
+            ? `What ${providers[withoutExpectations].provider || "this provider"} expects in return is not listed`
+            : "No provider expectations to weigh the opportunity against",
+      },
+      need("providerPriorities", listed(analysis.providerPriorities), "What providers want the organization to focus on is not listed"),
+      need("riskLevel", riskLevel !== undefined, "Risk to resource access not rated"),
+      need("navigationStrategy", filled(analysis.navigationStrategy), "No strategy for navigating the dependence"),
+    ],
+    [
+      {
+        field: "riskLevel",
+        contradicted: riskLevel === "low" && providers.some((p) => p.impactOnRelationship === "threatening"),
+        weight: 2,
+        message: "Risk is rated low, but a provider relationship is threatened",
+      },
+      {
+        field: "riskLevel",
+        contradicted: (riskLevel === "high" || riskLevel === "critical") && !pressured,
+        weight: 2,
+        message: `Risk is rated ${riskLevel}, but no conflicts or negatively affected providers explain why`,
+      },
+    ]
+  );
+}
+
+/**
+ * Assess confidence in an interdependence vs modularity analysis
+ */
+export function assessModularityConfidence(analysis: DeepPartial<ModularityAnalysis>): ConfidenceAssessment {
+  const { performanceGap: gap, favoredArchitecture: favored, interfaces } = analysis;
+
+  return scoreChecks(
+    [
+      {
+        field: "performanceGap",
+        present: gap !== undefined && gap !== "unclear",
+        weight: 2,
+        message: gap === "unclear" ? "The performance gap is classified as unclear" : "The performance gap is not classified",
+      },
+      need("gapRationale", filled(analysis.gapRationale), "No rationale for the performance gap"),
+      need("basisOfCompetition", filled(analysis.basisOfCompetition), "What customers choose on is not described"),
+      {
+        field: "dimensions",
+        present: listed(analysis.notGoodEnoughDimensions) || listed(analysis.overshotDimensions),
+        weight: 1,
+        message: "No not-good-enough or overshot dimensions listed",
+      },
+      {
+        field: "interfaces",
+        present: listed(interfaces?.modular) || listed(interfaces?.interdependent),
+        weight: 1,
+        message: "No modular or interdependent interfaces listed",
+      },
+      need("currentArchitecture", analysis.currentArchitecture !== undefined && analysis.currentArchitecture !== "unclear", "How the product is built today is not classified"),
+      need("favoredArchitecture", favored !== undefined && favored !== "unclear", "No architecture is predicted to win"),
+      need("valueChainEvolution", filled(analysis.valueChainEvolution), "Where the value chain is heading is not described"),
+      need("strategicImplications", listed(analysis.strategicImplications), "No strategic implications"),
+    ],
+    [
+      {
+        field: "favoredArchitecture",
+        contradicted: gap === "not-good-enough" && favored === "modular",
+        weight: 2,
+        message: "Performance is not good enough, yet a modular architecture is favored - interdependence wins until it is",
+      },
+      {
+        field: "favoredArchitecture",
+        contradicted: gap === "more-than-good-enough" && favored === "interdependent",
+        weight: 2,
+        message: "Performance is more than good enough, yet an interdependent architecture is favored - modularity wins once it is",
+      },
+      {
+        field: "notGoodEnoughDimensions",
+        contradicted: gap === "not-good-enough" && !listed(analysis.notGoodEnoughDimensions),
+        weight: 1,
+        message: "Performance is not good enough, but no dimension where customers need more is listed",
+      },
+      {
+        field: "overshotDimensions",
+        contradicted: gap === "more-than-good-enough" && !listed(analysis.overshotDimensions),
+        weight: 1,
+        message: "Performance is more than good enough, but no overshot dimension is listed",
+      },
+    ]
+  );
+}
+
+/**
+ * Assess confidence in a conservation of attractive profits analysis
+ */
+export function assessAttractiveProfitsConfidence(analysis: DeepPartial<AttractiveProfitsAnalysis>): ConfidenceAssessment {
+  const stages = analysis.stages ?? [];
+  const unflagged = stages.findIndex((s) => s.status === undefined || s.status === "unclear");
+  const statusOf = (name: string | undefined) => stages.find((s) => s.stage === name)?.status;
+  const shifts = analysis.profitShifts ?? [];
+  const fromIndex = shifts.findIndex((shift) => statusOf(shift.from) !== "commoditizing");
+  const toIndex = shifts.findIndex((shift) => statusOf(shift.to) !== "not-good-enough");
+
+  return scoreChecks(
+    [
+      need("stages", stages.length > 0, "No value chain stages described", 2),
+      {
+        field: unflagged >= 0 ? `stages[${unflagged}].status` : "stages",
+        present: stages.length > 0 && unflagged < 0,
+        weight: 1,
+        message:
+          unflagged >= 0
+            ? `Whether ${stages[unflagged].stage || "this stage"} is commoditizing or not good enough is unclear`
+            : "No stages to flag as commoditizing or not good enough",
+      },
+      need("profitShifts", shifts.length > 0, "No profit migration predicted"),
+      need("currentProfitPool", filled(analysis.currentProfitPool), "Where profits are earned today is not stated"),
+      need("futureProfitPool", filled(analysis.futureProfitPool), "Where profits will be earned is not stated"),
+      need("positioningImplications", listed(analysis.positioningImplications), "No positioning implications"),
+    ],
+    [
+      {
+        field: `profitShifts[${fromIndex}].from`,
+        contradicted: fromIndex >= 0,
+        weight: 1,
+        message: `Profits are predicted to leave ${shifts[fromIndex]?.from || "a stage"}, but it is not flagged as commoditizing`,
+      },
+      {
+        field: `profitShifts[${toIndex}].to`,
+        contradicted: toIndex >= 0,
+        weight: 1,
+        message: `Profits are predicted to move to ${shifts[toIndex]?.to || "a stage"}, but it is not flagged as not good enough`,
+      },
+    ]
+  );
+}
+
+/**
+ * Assess confidence in a deliberate vs emergent strategy analysis
+ */
+export function assessEmergentStrategyConfidence(analysis: DeepPartial<EmergentStrategyAnalysis>): ConfidenceAssessment {
+  const { resourceAllocation, tracker } = analysis;
+  const assumptions = tracker?.assumptions ?? [];
+  const count = (status: string) => assumptions.filter((a) => a.status === status).length;
+  const contradicted = count("contradicted");
+  const confirmed = count("confirmed");
+  const mode = tracker?.recommendedMode;
+
+  return scoreChecks(
+    [
+      need("intendedStrategy", filled(analysis.intendedStrategy), "The deliberate strategy is not stated", 2),
+      need("anticipatedOpportunities", listed(analysis.anticipatedOpportunities), "No opportunities the plan anticipated"),
+      need("resourceAllocation.statedPriorities", listed(resourceAllocation?.statedPriorities), "The plan's stated priorities are not listed"),
+      need("resourceAllocation.actualAllocation", listed(resourceAllocation?.actualAllocation), "Where resources actually go is not listed"),
+      need("tracker.assumptions", assumptions.length > 0, "No plan assumptions tracked"),
+      need(
+        "tracker.assumptions",
+        assumptions.some((a) => a.status !== undefined && a.status !== "untested"),
+        "No assumption has been tested against market behavior"
+      ),
+      need("strategicImplications", listed(analysis.strategicImplications), "No strategic implications"),
+    ],
+    [
+      {
+        field: "tracker.recommendedMode",
+        contradicted: mode === "deliberate" && contradicted > 0 && contradicted >= confirmed,
+        weight: 2,
+        message: "Recommends sticking to the plan, but at least as many assumptions are contradicted as confirmed",
+      },
+      {
+        field: "tracker.recommendedMode",
+        contradicted:
+          mode === "emergent" &&
+          contradicted === 0 &&
+          count("contested") === 0 &&
+          !listed(tracker?.unanticipated) &&
+          !listed(analysis.unanticipatedOpportunities),
+        weight: 2,
+        message: "Recommends following emergent signals, but no assumption is contradicted and nothing unanticipated was observed",
+      },
+    ]
+  );
+}
+
+// ============================================================
+// Combined Analysis
+// ============================================================
+
+const SECTION_TITLES: Record<AnalysisSection, string> = {
+  theJob: "jobs-to-be-done",
+  theLandscape: "disruption",
+  theCapabilities: "capabilities",
+  theConstraints: "resource dependence",
+};
+
+const OPTIONAL_SECTION_TITLES: Record<OptionalAnalysisSection, string> = {
+  theArchitecture: "interdependence vs modularity",
+  theProfits: "attractive profits",
+  theStrategy: "emergent strategy",
+};
+
+/**
+ * Assess one framework section, or report it missing
+ */
+function assessSection(analysis: DeepPartial<ChristensenAnalysis>, name: AnalysisSection): ConfidenceAssessment {
+  const section = analysis[name];
+  if (!section) {
+    return {
+      confidence: "uncertain",
+      score: 0,
+      issues: [{ field: name, kind: "missing", message: `No ${SECTION_TITLES[name]} analysis`, penalty: 1 }],
+    };
+  }
+
+  switch (name) {
+    case "theJob":
+      return assessJobsToBeDoneConfidence(analysis.theJob ?? {});
+    case "theLandscape":
+      return assessDisruptionConfidence(analysis.theLandscape ?? {});
+    case "theCapabilities":
+      return assessCPPConfidence(analysis.theCapabilities ?? {});
+    case "theConstraints":
+      return assessResourceDependenceConfidence(analysis.theConstraints ?? {});
+  }
+}
+
+/**
+ * Assess an optional framework section, which only counts when present
+ */
+function assessOptionalSection(
+  analysis: DeepPartial<ChristensenAnalysis>,
+  name: OptionalAnalysisSection
+): ConfidenceAssessment | undefined {
+  switch (name) {
+    case "theArchitecture":
+      return analysis.theArchitecture && assessModularityConfidence(analysis.theArchitecture);
+    case "theProfits":
+      return analysis.theProfits && assessAttractiveProfitsConfidence(analysis.theProfits);
+    case "theStrategy":
+      return analysis.theStrategy && assessEmergentStrategyConfidence(analysis.theStrategy);
+  }
+}
+
+/**
+ * Assess confidence in a combined analysis. Each framework section is
+ * assessed on its own - the architecture, profits and strategy sections
+ * only when present; the pattern, the prediction and contradictions
+ * between sections form one more part, and the overall score is the
+ * average of the parts. This is the roll-up for thePrediction.confidence.
+ */
+export function assessAnalysisConfidence(analysis: DeepPartial<ChristensenAnalysis>): AnalysisConfidenceAssessment {
+  const sections: AnalysisConfidenceAssessment["sections"] = Object.fromEntries(
+    (Object.keys(SECTION_TITLES) as AnalysisSection[]).map((name) => [name, assessSection(analysis, name)])
+  ) as Record<AnalysisSection, ConfidenceAssessment>;
+  for (const name of Object.keys(OPTIONAL_SECTION_TITLES) as OptionalAnalysisSection[]) {
+    const assessment = assessOptionalSection(analysis, name);
+    if (assessment) sections[name] = assessment;
+  }
+
+  const sectionNames = Object.keys(sections) as (AnalysisSection | OptionalAnalysisSection)[];
+  const parts = sectionNames.length + 1;
+
+  const { thePattern, thePrediction, theCapabilities, theConstraints } = analysis;
+  const matchStrength = thePattern?.primaryCase?.matchStrength;
+  const riskLevel = theConstraints?.riskLevel;
+
+  const whole = scoreChecks(
+    [
+      need("context", filled(analysis.context), "The decision being analyzed is not stated"),
+      need("thePattern.primaryCase", filled(thePattern?.primaryCase?.name), "No primary case study"),
+      {
+        field: "thePattern.primaryCase.matchStrength",
+        present: matchStrength === "high" || matchStrength === "medium",
+        weight: 1,
+        message: matchStrength ? `The primary case is only a ${matchStrength} match` : "No strength given for the primary case match",
+      },
+      need("thePattern.patternSummary", filled(thePattern?.patternSummary), "The historical pattern is not summarized"),
+      need("thePrediction.mostLikelyOutcome", filled(thePrediction?.mostLikelyOutcome), "No prediction of the most likely outcome", 2),
+      need("thePrediction.keyAssumptions", listed(thePrediction?.keyAssumptions), "The prediction's assumptions are not stated"),
+      need("thePrediction.whatCouldChange", listed(thePrediction?.whatCouldChange), "Nothing says what could change the prediction"),
+    ],
+    [
+      {
+        field: "theCapabilities.overallAssessment.canExecute",
+        contradicted: theCapabilities?.overallAssessment?.canExecute === true && (riskLevel === "high" || riskLevel === "critical"),
+        weight: 1,
+        message: `The capabilities analysis says the organization can execute, but resource dependence rates the risk ${riskLevel}`,
+      },
+    ]
+  );
+
+  const issues = [
+    ...sectionNames.flatMap((name) =>
+      (sections[name]?.issues ?? []).map((issue) => ({
+        ...issue,
+        field: issue.field === name ? name : `${name}.${issue.field}`,
+        penalty: round(issue.penalty / parts),
+      }))
+    ),
+    ...whole.issues.map((issue) => ({ ...issue, penalty: round(issue.penalty / parts) })),
+  ];
+
+  const score = round((sectionNames.reduce((sum, name) => sum + (sections[name]?.score ?? 0), 0) + whole.score) / parts);
+  const contradicted = issues.some((issue) => issue.kind === "contradiction");
+
+  return { confidence: levelFor(score, contradicted), score, issues: sortIssues(issues), sections };
+}
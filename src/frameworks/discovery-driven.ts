@@ -0,0 +1,455 @@
+/**
+ * Discovery-Driven Planning Framework Implementation
+ *
+ * Core insight: A new venture's plan is mostly assumptions, and
+ * conventional planning treats them as facts. Discovery-driven planning
+ * starts from the profit the venture must make, works the income
+ * statement backwards to what would have to be true to make it, and
+ * then tests the assumptions that matter most - cheaply, at milestones,
+ * before committing more.
+ *
+ * Where the other frameworks diagnose a decision, this one plans the
+ * learning a new-growth venture has to do.
+ *
+ * This module provides:
+ * 1. Diagnostic questions for planning a new venture
+ * 2. A deterministic reverse income statement and the operational
+ *    requirements it implies
+ * 3. A ranked assumption checklist with milestones, recalculated as
+ *    assumptions are updated
+ * 4. Prompts that guide Christensen-style inquiry
+ */
+
+import type {
+  AssumptionChecklistItem,
+  AssumptionRevision,
+  AssumptionUpdate,
+  DiagnosticQuestion,
+  DiscoveryDrivenPlan,
+  DiscoveryPlanInput,
+  OperationalDriver,
+  OperationalRequirement,
+  PlanMilestone,
+  PlanningAssumptionKind,
+  ReverseIncomeStatement,
+} from "./types.js";
+
+// ============================================================
+// Diagnostic Questions
+// ============================================================
+
+/**
+ * Core diagnostic questions for discovery-driven planning
+ */
+export const DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "What profit must this venture make to be worth doing?",
+    importance: "critical",
+  },
+  {
+    question: "What would have to be true for that profit to materialize?",
+    importance: "critical",
+  },
+  {
+    question: "Which assumptions matter most if they turn out wrong?",
+    importance: "critical",
+  },
+  {
+    question: "How many units, customers and resources does the target imply?",
+    importance: "important",
+  },
+  {
+    question: "What is the cheapest way to test each assumption before committing more?",
+    importance: "important",
+  },
+  {
+    question: "At which milestone would you revise the plan, or stop?",
+    importance: "contextual",
+  },
+];
+
+// ============================================================
+// Reverse Income Statement
+// ============================================================
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Round up to a whole number, ignoring floating-point noise
+ */
+const roundUp = (value: number) => Math.ceil(Math.round(value * 1e6) / 1e6);
+
+/**
+ * Format an amount for assumption and rationale text
+ */
+const amount = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+/**
+ * Work the income statement backwards from the required profit: the
+ * revenue the required return on sales implies, the costs it allows,
+ * the units to sell, and what each resource has to be scaled to
+ */
+function reverseIncomeStatement(input: DiscoveryPlanInput): {
+  statement: ReverseIncomeStatement;
+  requirements: OperationalRequirement[];
+} {
+  const { targetProfit, returnOnSales, unitEconomics, operations, fixedCosts } = input;
+  const requiredRevenue = round(targetProfit / returnOnSales);
+  const requiredUnits = roundUp(requiredRevenue / unitEconomics.unitPrice);
+
+  const requirements = operations.map((driver) => {
+    const required = roundUp(requiredUnits / driver.unitsPerResource);
+    return {
+      resource: driver.resource,
+      required,
+      cost: round(required * driver.costPerResource),
+      derivation: `${amount(requiredUnits)} units ÷ ${amount(driver.unitsPerResource)} units each`,
+    };
+  });
+
+  const allowableCosts = round(requiredRevenue - targetProfit);
+  const variableCosts = round(requiredUnits * unitEconomics.unitCost);
+  const operatingCosts = round(requirements.reduce((sum, r) => sum + r.cost, 0));
+  const fixed = round(fixedCosts.reduce((sum, c) => sum + c.amount, 0));
+  const totalCosts = round(variableCosts + operatingCosts + fixed);
+
+  return {
+    statement: {
+      requiredProfit: targetProfit,
+      returnOnSales,
+      requiredRevenue,
+      allowableCosts,
+      requiredUnits,
+      variableCosts,
+      operatingCosts,
+      fixedCosts: fixed,
+      totalCosts,
+      headroom: round(allowableCosts - totalCosts),
+    },
+    requirements,
+  };
+}
+
+/**
+ * Build the reverse income statement for a plan
+ */
+export function buildReverseIncomeStatement(input: DiscoveryPlanInput): ReverseIncomeStatement {
+  return reverseIncomeStatement(input).statement;
+}
+
+/**
+ * Derive the resources needed to deliver the units the target requires
+ */
+export function deriveOperationalRequirements(input: DiscoveryPlanInput): OperationalRequirement[] {
+  return reverseIncomeStatement(input).requirements;
+}
+
+// ============================================================
+// Assumption Checklist
+// ============================================================
+
+/**
+ * How much worse each assumption is made to rank it: the checklist
+ * ranks assumptions by the headroom lost if they turn out 10% worse
+ */
+export const ASSUMPTION_STRESS = 0.1;
+
+/**
+ * Milestones in the order a venture reaches them, each testing the
+ * assumptions it can first measure
+ */
+export const DISCOVERY_MILESTONES: { milestone: string; test: string; kinds: PlanningAssumptionKind[] }[] = [
+  {
+    milestone: "Market test",
+    test: "Do customers commit to buy at the planned price?",
+    kinds: ["unit-price"],
+  },
+  {
+    milestone: "Prototype",
+    test: "What does a working unit actually cost to deliver?",
+    kinds: ["unit-cost"],
+  },
+  {
+    milestone: "Pilot",
+    test: "How many units can each resource handle, and what does each cost?",
+    kinds: ["capacity", "resource-cost"],
+  },
+  {
+    milestone: "Launch",
+    test: "Are the fixed commitments quoted within what the plan allows?",
+    kinds: ["fixed-cost"],
+  },
+];
+
+/**
+ * Assumptions for which a lower value is worse for the plan
+ */
+const HIGHER_IS_BETTER: PlanningAssumptionKind[] = ["unit-price", "capacity"];
+
+/**
+ * An assumption in a plan, and the plan with it set to another value
+ */
+interface PlanningAssumption {
+  id: string;
+  kind: PlanningAssumptionKind;
+  assumption: string;
+  value: number;
+  withValue: (value: number) => DiscoveryPlanInput;
+}
+
+/**
+ * Identifier-safe form of a resource or cost name
+ */
+function slug(name: string, fallback: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback;
+}
+
+/**
+ * Every number in the plan that is an assumption, with its checklist id
+ */
+function listAssumptions(input: DiscoveryPlanInput): PlanningAssumption[] {
+  const { unitEconomics, operations, fixedCosts } = input;
+  const withDriver = (i: number, changes: Partial<OperationalDriver>) => ({
+    ...input,
+    operations: operations.map((d, j) => (j === i ? { ...d, ...changes } : d)),
+  });
+
+  const assumptions: PlanningAssumption[] = [
+    {
+      id: "unit-price",
+      kind: "unit-price",
+      assumption: `Price: ${amount(unitEconomics.unitPrice)} per unit`,
+      value: unitEconomics.unitPrice,
+      withValue: (unitPrice) => ({ ...input, unitEconomics: { ...unitEconomics, unitPrice } }),
+    },
+    {
+      id: "unit-cost",
+      kind: "unit-cost",
+      assumption: `Variable cost: ${amount(unitEconomics.unitCost)} per unit`,
+      value: unitEconomics.unitCost,
+      withValue: (unitCost) => ({ ...input, unitEconomics: { ...unitEconomics, unitCost } }),
+    },
+    ...operations.flatMap((driver, i): PlanningAssumption[] => {
+      const key = `resource-${slug(driver.resource, String(i + 1))}`;
+      return [
+        {
+          id: `${key}-capacity`,
+          kind: "capacity",
+          assumption: `${driver.resource}: ${amount(driver.unitsPerResource)} units each`,
+          value: driver.unitsPerResource,
+          withValue: (unitsPerResource) => withDriver(i, { unitsPerResource }),
+        },
+        {
+          id: `${key}-cost`,
+          kind: "resource-cost",
+          assumption: `${driver.resource}: ${amount(driver.costPerResource)} each`,
+          value: driver.costPerResource,
+          withValue: (costPerResource) => withDriver(i, { costPerResource }),
+        },
+      ];
+    }),
+    ...fixedCosts.map((cost, i): PlanningAssumption => ({
+      id: `fixed-${slug(cost.item, String(i + 1))}`,
+      kind: "fixed-cost",
+      assumption: `${cost.item}: ${amount(cost.amount)}`,
+      value: cost.amount,
+      withValue: (value) => ({
+        ...input,
+        fixedCosts: fixedCosts.map((c, j) => (j === i ? { ...c, amount: value } : c)),
+      }),
+    })),
+  ];
+
+  const ids = assumptions.map((a) => a.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Duplicate assumption id: ${duplicate}; give each resource and fixed cost a distinct name`);
+  }
+  return assumptions;
+}
+
+/**
+ * Set assumptions to the values learned at milestones, by checklist id,
+ * in order. Each revision records the value its update replaced, so a
+ * second update to the same assumption replaces the first.
+ */
+export function reviseAssumptions(
+  input: DiscoveryPlanInput,
+  updates: AssumptionUpdate[]
+): { input: DiscoveryPlanInput; revisions: AssumptionRevision[] } {
+  let plan = input;
+  const revisions = updates.map((update) => {
+    const assumption = listAssumptions(plan).find((a) => a.id === update.id);
+    if (!assumption) {
+      throw new Error(`Unknown assumption: ${update.id}`);
+    }
+    plan = assumption.withValue(update.value);
+    return { ...update, previousValue: assumption.value };
+  });
+  return { input: plan, revisions };
+}
+
+/**
+ * Set assumptions to the values learned at milestones, by checklist id
+ */
+export function applyAssumptionUpdates(input: DiscoveryPlanInput, updates: AssumptionUpdate[]): DiscoveryPlanInput {
+  return reviseAssumptions(input, updates).input;
+}
+
+/**
+ * Rank the plan's assumptions by the headroom lost if each turns out
+ * 10% worse, and name the milestone at which each gets tested. Ties
+ * keep the plan's order.
+ */
+export function rankAssumptions(input: DiscoveryPlanInput): AssumptionChecklistItem[] {
+  const { headroom } = buildReverseIncomeStatement(input);
+
+  return listAssumptions(input)
+    .map(({ id, kind, assumption, value, withValue }) => {
+      const stressed = value * (HIGHER_IS_BETTER.includes(kind) ? 1 - ASSUMPTION_STRESS : 1 + ASSUMPTION_STRESS);
+      return {
+        id,
+        kind,
+        assumption,
+        value,
+        impact: round(headroom - buildReverseIncomeStatement(withValue(stressed)).headroom),
+        milestone: DISCOVERY_MILESTONES.find((m) => m.kinds.includes(kind))?.milestone ?? "",
+      };
+    })
+    .sort((a, b) => b.impact - a.impact)
+    .map((item, i) => ({ rank: i + 1, ...item }));
+}
+
+/**
+ * Explain whether the assumptions can deliver the required profit. The
+ * verdict is the headroom check that decides viability; unit economics
+ * only explain a shortfall.
+ */
+function explainPlan(
+  input: DiscoveryPlanInput,
+  statement: ReverseIncomeStatement,
+  viable: boolean,
+  top?: AssumptionChecklistItem
+): string {
+  const { unitPrice, unitCost } = input.unitEconomics;
+  const contribution = (unitPrice - unitCost) / unitPrice;
+  const next = top ? ` The assumption that matters most is ${top.assumption}, tested at the ${top.milestone} milestone.` : "";
+
+  if (viable) {
+    return `The assumptions leave ${amount(statement.headroom)} of the ${amount(statement.allowableCosts)} allowable costs unspent - if they hold.${next}`;
+  }
+  if (contribution < statement.returnOnSales) {
+    return `Each unit contributes ${Math.round(contribution * 100)}% of its price, less than the ${Math.round(statement.returnOnSales * 100)}% return on sales required, so no volume reaches the target at these unit economics.${next}`;
+  }
+  return `The assumptions imply ${amount(-statement.headroom)} more cost than the ${amount(statement.allowableCosts)} the target allows. Either the assumptions improve or the venture can't make ${amount(statement.requiredProfit)} in profit.${next}`;
+}
+
+/**
+ * Build a discovery-driven plan: the reverse income statement, the
+ * operational requirements, the ranked assumption checklist and the
+ * milestones that test it. Recomputed from scratch, so updated
+ * assumptions give an updated plan.
+ */
+export function buildDiscoveryDrivenPlan(input: DiscoveryPlanInput): DiscoveryDrivenPlan {
+  const { statement, requirements } = reverseIncomeStatement(input);
+  const checklist = rankAssumptions(input);
+
+  const milestones: PlanMilestone[] = DISCOVERY_MILESTONES.map(({ milestone, test }) => ({
+    milestone,
+    test,
+    assumptions: checklist.filter((item) => item.milestone === milestone).map((item) => item.id),
+  })).filter((m) => m.assumptions.length > 0);
+
+  const viable = statement.headroom >= 0;
+  return {
+    statement,
+    requirements,
+    checklist,
+    milestones,
+    viable,
+    rationale: explainPlan(input, statement, viable, checklist[0]),
+  };
+}
+
+// ============================================================
+// Analysis Helpers
+// ============================================================
+
+/**
+ * Generate the prompt for Claude to plan a new venture the
+ * discovery-driven way
+ */
+export function generateDiscoveryDrivenPlanningPrompt(
+  situation: string,
+  context?: string
+): string {
+  return `
+Plan this new venture using discovery-driven planning.
+
+SITUATION: ${situation}
+${context ? `CONTEXT: ${context}` : ""}
+
+Think through these questions systematically:
+
+1. REQUIRED PROFIT
+   - What profit must the venture make to be worth doing?
+   - What return on sales is required?
+
+2. REVERSE INCOME STATEMENT
+   - What revenue does that imply, and what costs does it allow?
+   - How many units must be sold at the planned price?
+
+3. OPERATIONAL REQUIREMENTS
+   - What does delivering those units take: people, equipment, channels?
+   - What does each cost, and what fixed costs come with them?
+
+4. ASSUMPTION CHECKLIST
+   - List every assumption behind the numbers.
+   - Which ones would hurt most if they were 10% worse?
+
+5. MILESTONES
+   - At which milestone does each assumption get tested?
+   - What would you revise, or stop, if it fails?
+
+Remember: In a new venture, most of the plan is assumptions. Plan to learn
+what is true before committing more - test the assumptions that matter
+most, cheaply and early.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+// ============================================================
+// Christensen Voice Helpers
+// ============================================================
+
+/**
+ * Phrases Christensen would use when discussing planning new ventures
+ */
+export const DISCOVERY_DRIVEN_VOICE_PHRASES = [
+  "Start with the profit you need, and ask what would have to be true.",
+  "In a new market, the numbers in the plan are assumptions, not facts.",
+  "Which assumptions matter most - and how can you test them cheaply?",
+  "Plan to learn, not to execute.",
+  "Don't commit the next dollar until the milestone has tested the assumption.",
+  "Help me understand what you'd have to believe for this to work.",
+  "The theory would predict that the first plan is wrong - the question is how fast you find out.",
+];
+
+/**
+ * Generate a Christensen-style response for discovery-driven planning
+ * inquiry
+ */
+export function generateDiscoveryDrivenInquiry(situation: string): string {
+  return `
+Before we build the spreadsheet, let me ask what would have to be true.
+
+${situation}
+
+Most plans for new ventures start with the market and work forward to a profit. In a market that doesn't exist yet, every number on that path is a guess - and once the guesses are in a plan, people start treating them as facts.
+
+Discovery-driven planning turns it around. Start with the profit the venture must make to be worth doing. Work backwards to the revenue that implies, the units you'd have to sell, and the people and equipment it would take. Then list every assumption behind those numbers and ask which ones would hurt most if they were wrong.
+
+So help me understand: What would you have to believe for this to work - and what's the cheapest way to find out whether it's true before you commit more?
+`.trim();
+}
@@ -6,21 +6,31 @@
  * they displace incumbents who were rationally serving their best customers.
  *
  * This module provides:
- * 1. Classification logic for innovation types
+ * 1. Classification logic for innovation types, including a
+ *    deterministic signal-scoring classifier
  * 2. Diagnostic questions for disruption analysis
- * 3. Case study pattern matching
+ * 3. Case study pattern matching (cases come from the case library)
  * 4. Christensen-style predictions with appropriate uncertainty
  */
 
 import type {
   DisruptionAnalysis,
   InnovationType,
+  InnovationClassification,
+  InnovationClassificationInput,
+  ClassificationAnswer,
+  ClassificationQuestionId,
+  SignalEvidence,
+  SignalFamily,
+  NegatedSignal,
   MarketPosition,
   DisruptionTrajectory,
   CaseStudyReference,
   DiagnosticQuestion,
   ConfidenceLevel,
 } from "./types.js";
+import { describeMatchedTerm, rankCases } from "../case-library/index.js";
+import { CLAUSE_BOUNDARY, findNegation } from "./negation.js";
 
 // ============================================================
 // Diagnostic Questions
@@ -169,175 +179,393 @@ Provide your classification with rationale.
 }
 
 // ============================================================
-// Case Study Patterns
+// Deterministic Classification
 // ============================================================
 
-export interface CaseStudyPattern {
-  name: string;
-  pattern: string;
-  story: string;
-  signals: string[];
-  lessonsForToday: string;
+interface SignalRef {
+  family: SignalFamily;
+  signal: string;
 }
 
-export const CANONICAL_CASES: Record<string, CaseStudyPattern> = {
-  steel_minimills: {
-    name: "Steel Mini-Mills",
-    pattern: "Low-end disruption with asymmetric motivation",
-    story: `
-Integrated steel mills (US Steel, Bethlehem) dominated the industry but
-had high fixed costs. Mini-mills (Nucor) entered making rebar - the
-lowest-margin product. Integrated mills were RELIEVED to exit rebar.
-
-Mini-mills improved and moved to angle iron. Integrated mills were again
-relieved. Then structural steel. Then sheet steel. At each tier, the
-rational response for integrated mills was to retreat upmarket.
-
-By the time mini-mills threatened their core products, integrated mills
-had neither the cost structure nor the capabilities to respond.
-    `.trim(),
-    signals: [
-      "Incumbent has high fixed-cost structure",
-      "Low-end segments are unattractive margin-wise",
-      "Entrant has fundamentally different cost structure",
-      "Entrant quality improves over time",
-      "Incumbent 'rationally' cedes each tier",
-    ],
-    lessonsForToday:
-      "Watch for entrants that incumbents are happy to ignore. Their improvement trajectory may lead straight to your core.",
-  },
-
-  disk_drives: {
-    name: "Disk Drive Generations",
-    pattern: "New-market disruption with different value network",
-    story: `
-Each generation of smaller disk drives was 'worse' by existing metrics
-(capacity, cost per megabyte) but enabled entirely new applications.
-
-14" drives → mainframes
-8" drives → minicomputers
-5.25" drives → desktop PCs
-3.5" drives → laptops
-2.5" and smaller → portable devices
-
-Each time, incumbents saw the new format as inferior. Their customers
-didn't want smaller drives with less capacity. But new customers in
-new applications valued portability, power efficiency, and form factor
-over raw capacity.
-    `.trim(),
-    signals: [
-      "New form factor or approach",
-      "Different performance dimensions valued",
-      "Enables new use cases existing solutions can't serve",
-      "Existing customers explicitly don't want it",
-      "New value network with different profit formula",
+interface ClassificationAnswerRule {
+  question: DiagnosticQuestion;
+  /** Signals implied by "yes" (half weight for "partly") */
+  yes: SignalRef[];
+  /** Signals implied by "no" */
+  no: SignalRef[];
+}
+
+/**
+ * How each classification question maps onto the signal families.
+ * A question's weight is split across the signals its answer implies.
+ */
+export const CLASSIFICATION_ANSWER_RULES: Record<ClassificationQuestionId, ClassificationAnswerRule> = {
+  improvesExistingDimensions: {
+    question: CLASSIFICATION_QUESTIONS[0],
+    yes: [{ family: "sustaining", signal: SUSTAINING_SIGNALS[0] }],
+    no: [{ family: "new-market", signal: NEW_MARKET_DISRUPTION_SIGNALS[4] }],
+  },
+  worseOnTraditionalMetrics: {
+    question: CLASSIFICATION_QUESTIONS[1],
+    yes: [
+      { family: "low-end", signal: LOW_END_DISRUPTION_SIGNALS[1] },
+      { family: "new-market", signal: NEW_MARKET_DISRUPTION_SIGNALS[4] },
     ],
-    lessonsForToday:
-      "Your best customers telling you they don't want something may be a signal it will disrupt you, not a signal it's irrelevant.",
-  },
-
-  honda_motorcycles: {
-    name: "Honda Motorcycles in America",
-    pattern: "Emergent strategy through market learning",
-    story: `
-Honda came to America in 1959 planning to sell large motorcycles to
-compete with Harley-Davidson. Sales were poor - Americans saw Japanese
-bikes as inferior for highway riding.
-
-Honda executives rode small 50cc Supercubs around Los Angeles for
-personal errands. People kept asking where to buy them. Sears wanted
-to carry them. Honda initially resisted - these weren't 'real' motorcycles.
-
-Eventually they recognized the market was teaching them their strategy.
-The Supercub created a new market of people who would never buy a
-Harley - and Honda built capabilities that later let them move upmarket.
-    `.trim(),
-    signals: [
-      "Initial strategy hypothesis doesn't match market reality",
-      "Unexpected customer segment emerges",
-      "Product finds use cases different from intended",
-      "Willingness to learn and adapt",
-      "Creates new category rather than competing in existing one",
+    no: [{ family: "sustaining", signal: SUSTAINING_SIGNALS[0] }],
+  },
+  bestCustomersWantIt: {
+    question: CLASSIFICATION_QUESTIONS[2],
+    yes: [{ family: "sustaining", signal: SUSTAINING_SIGNALS[3] }],
+    no: [
+      { family: "low-end", signal: LOW_END_DISRUPTION_SIGNALS[5] },
+      { family: "new-market", signal: NEW_MARKET_DISRUPTION_SIGNALS[1] },
     ],
-    lessonsForToday:
-      "The market often knows your strategy better than you do. Pay attention to who actually buys - especially unexpected customers.",
-  },
-
-  intel_microprocessors: {
-    name: "Intel's Pivot to Microprocessors",
-    pattern: "Capability migration through process investment",
-    story: `
-Intel dominated memory chips in the 1970s but faced brutal competition
-from Japanese manufacturers who had lower costs and higher quality.
-Andy Grove and Gordon Moore recognized memory was becoming a commodity.
-
-Intel survived by migrating to microprocessors - not because they had
-unique resources (Japanese firms could acquire those) but because their
-PROCESSES for chip design and manufacturing transferred to processors.
-
-The key insight: Resources are acquirable. Processes are developed
-over years and can't be bought. Intel's survival came from recognizing
-which of their capabilities (processes) were transferable.
-    `.trim(),
-    signals: [
-      "Core business facing commoditization or decline",
-      "Adjacent opportunity emerging",
-      "Process capabilities (not just resources) are transferable",
-      "Requires fundamental priority shift",
-      "New market values same underlying capabilities differently",
+  },
+  needsDifferentBusinessModel: {
+    question: CLASSIFICATION_QUESTIONS[3],
+    yes: [
+      { family: "low-end", signal: LOW_END_DISRUPTION_SIGNALS[2] },
+      { family: "new-market", signal: NEW_MARKET_DISRUPTION_SIGNALS[1] },
     ],
-    lessonsForToday:
-      "When your market is dying, ask what processes you've built that could transfer to new opportunities. Don't just count your resources.",
+    no: [{ family: "sustaining", signal: SUSTAINING_SIGNALS[4] }],
   },
 };
 
 /**
- * Match a situation to relevant case studies
+ * Simplicity claims, and the trade-offs that make them a disruption signal
+ * rather than a feature of any product description
  */
-export function matchToCaseStudies(
-  signals: string[]
-): CaseStudyReference[] {
-  const matches: CaseStudyReference[] = [];
-
-  for (const [key, caseStudy] of Object.entries(CANONICAL_CASES)) {
-    let matchCount = 0;
-    const matchedSignals: string[] = [];
-
-    for (const userSignal of signals) {
-      const userLower = userSignal.toLowerCase();
-      for (const caseSignal of caseStudy.signals) {
-        if (
-          userLower.includes(caseSignal.toLowerCase().slice(0, 20)) ||
-          caseSignal.toLowerCase().includes(userLower.slice(0, 20))
-        ) {
-          matchCount++;
-          matchedSignals.push(caseSignal);
-          break;
+const SIMPLICITY = "(simpl(er|icity|ified)|simple to use|easier( to use)?|ease of use)";
+const COST_OR_PERFORMANCE_TRADE_OFF =
+  "(cheaper|less expensive|(more )?affordable|lower[- ](price|cost)\\w*|fraction of the (cost|price)|good enough|" +
+  "less (powerful|capable)|fewer features|(more|rather) than (raw )?(power|performance|features)|" +
+  "non-?experts?|novices?|beginners?|untrained|without (training|expertise))";
+
+/** Up to 60 characters within one clause, so a pairing can't reach past "but" */
+const SAME_CLAUSE_GAP = `(?:(?!${CLAUSE_BOUNDARY.source}).){0,60}?`;
+
+/**
+ * Phrase patterns that detect each signal in free text. Each pattern
+ * lists the synonyms and multi-word forms of its signal; they are shared
+ * by the classifier and by signal extraction (signal-extraction.ts).
+ */
+export const CLASSIFICATION_SIGNAL_PATTERNS: (SignalRef & { pattern: RegExp })[] = [
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[0],
+    pattern: /\b(better|faster|more powerful|higher[- ]performance|next[- ]generation|upgrade|improv\w* (performance|quality|accuracy|speed))\b/i,
+  },
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[1],
+    pattern: /\b(existing|current|incumbents?'?|core|mainstream) (customers|clients|users|accounts)\b|\benterprise (customers|clients|accounts|buyers)\b/i,
+  },
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[2],
+    pattern: /\b(premium|high[- ]end|higher[- ]priced?|luxury|top[- ]tier)\b/i,
+  },
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[3],
+    pattern: /\b(best|most demanding|most profitable|top) (customers|clients)\b.*\b(want|ask|demand|request)\w*|\bcustomers (are )?(asking|demanding) for\b/i,
+  },
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[4],
+    pattern: /\b(fits|integrat\w*|add[- ]on|bolt[- ]on|feature of)\b.*\b(existing|current) (business model|product|offering|platform)\b/i,
+  },
+  {
+    family: "sustaining",
+    signal: SUSTAINING_SIGNALS[5],
+    pattern: /\b(same|similar) (cost structure|margins|costs)\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[0],
+    pattern: /\b(overlooked|ignored|underserved|least profitable|low[- ](margin|profit|end)|price[- ]sensitive|budget[- ]conscious|bottom of the market)\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[1],
+    pattern: /\b(good enough|cheap(er|est)?|lower[- ]price\w*|low[- ](cost|priced)|affordable|inexpensive|less expensive|budget (option|version|tier|product)s?|no[- ]frills|bare[- ]bones|stripped[- ]down|fraction of the (cost|price))\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[2],
+    pattern: /\b(lower|leaner|lean|much lower) (cost structure|costs?|overhead|operating costs)\b|\bcosts? (are|is) (much |far |significantly )?lower\b|\b(cost advantage|asset[- ]light)\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[3],
+    pattern: /\b(relieved|happy to (cede|exit|abandon)|cede|retreat\w* upmarket|not worth (their|the) (time|effort))\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[4],
+    pattern: /\b(improv\w* (over time|rapidly|quickly|every year)|getting better|catching up|mov\w* upmarket)\b/i,
+  },
+  {
+    family: "low-end",
+    signal: LOW_END_DISRUPTION_SIGNALS[5],
+    pattern: /\b(can'?t justify|cannot justify|margins? (are )?too (low|thin)|asymmetric motivation|cannibali[sz]\w*)\b/i,
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[0],
+    pattern: /\bnon-?consumers?\b|\bcould(n'?t| not) (afford|access|use)\b|\bfor the first time\b|\bnever (used|bought|had access)\b/i,
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[1],
+    pattern: /\b(new value network|new ecosystem|new (sales |distribution )?channels?|different (customers|channels?|value network|business model))\b/i,
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[2],
+    pattern: /\bnon-?consumption\b|\b(doing nothing|do nothing|nothing at all)\b/i,
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[3],
+    pattern: /\b(toy|hobbyists?|not serious|dismiss\w*|irrelevant|inferior)\b/i,
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[4],
+    pattern: new RegExp(
+      `\\b(convenien\\w*|portab\\w*|accessib\\w*|self[- ]serve)\\b` +
+        // Simpler or easier is only a different metric next to a cost or performance trade-off
+        `|\\b${SIMPLICITY}\\b${SAME_CLAUSE_GAP}\\b${COST_OR_PERFORMANCE_TRADE_OFF}\\b` +
+        `|\\b${COST_OR_PERFORMANCE_TRADE_OFF}\\b${SAME_CLAUSE_GAP}\\b${SIMPLICITY}\\b`,
+      "i"
+    ),
+  },
+  {
+    family: "new-market",
+    signal: NEW_MARKET_DISRUPTION_SIGNALS[5],
+    pattern: /\b(new use cases?|new (markets?|category|context|applications?|segments?)|new kinds? of (customers|users)|(customers|users) who (never|didn'?t))\b/i,
+  },
+];
+
+const QUESTION_WEIGHTS: Record<DiagnosticQuestion["importance"], number> = {
+  critical: 2,
+  important: 1,
+  contextual: 0.5,
+};
+
+/** Weight of one observation matching one signal */
+const OBSERVATION_WEIGHT = 1;
+
+/** Low-end and new-market scores this close are treated as a hybrid */
+const HYBRID_RATIO = 0.75;
+
+const FAMILY_LABELS: Record<SignalFamily, string> = {
+  sustaining: "sustaining",
+  "low-end": "low-end disruption",
+  "new-market": "new-market disruption",
+};
+
+const TYPE_EXPLANATIONS: Record<InnovationType, string> = {
+  sustaining:
+    "It improves performance along dimensions incumbents' best customers already value. The theory would predict incumbents almost always win these battles.",
+  "low-end-disruptive":
+    "It offers good-enough performance to customers incumbents are happy to cede. The theory would predict incumbents retreat upmarket rather than fight.",
+  "new-market-disruptive":
+    "It competes against non-consumption, letting people who couldn't participate before do the job. Incumbents rarely see it as a threat until it improves.",
+  hybrid:
+    "It shows both low-end and new-market dynamics. Watch which foothold grows faster; the theory would predict incumbents ignore both at first.",
+  unclear:
+    "There is not yet enough evidence to place it. Answer the classification questions or describe who buys it and what incumbents are doing.",
+};
+
+/**
+ * Round a score for display and comparison (weights are multiples of 0.25)
+ */
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Evidence implied by the classification question answers
+ */
+function scoreAnswers(
+  answers: Partial<Record<ClassificationQuestionId, ClassificationAnswer>>
+): SignalEvidence[] {
+  const evidence: SignalEvidence[] = [];
+
+  for (const [id, rule] of Object.entries(CLASSIFICATION_ANSWER_RULES) as [
+    ClassificationQuestionId,
+    ClassificationAnswerRule,
+  ][]) {
+    const answer = answers[id];
+    if (!answer || answer === "unknown") continue;
+
+    const signals = answer === "no" ? rule.no : rule.yes;
+    const scale = answer === "partly" ? 0.5 : 1;
+    const weight = (QUESTION_WEIGHTS[rule.question.importance] * scale) / signals.length;
+
+    for (const { family, signal } of signals) {
+      evidence.push({
+        family,
+        signal,
+        source: "answer",
+        evidence: `${rule.question.question} → ${answer}`,
+        weight: roundScore(weight),
+      });
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * Evidence found in free-text fields; each signal counts once per field.
+ * Negated phrases ("not cheaper") are set aside instead of scored.
+ */
+function scoreObservations(fields: [string, string][]): { evidence: SignalEvidence[]; negated: NegatedSignal[] } {
+  const evidence: SignalEvidence[] = [];
+  const negated: NegatedSignal[] = [];
+
+  for (const [field, text] of fields) {
+    for (const { family, signal, pattern } of CLASSIFICATION_SIGNAL_PATTERNS) {
+      const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+      let counted = false;
+      for (const match of text.matchAll(global)) {
+        const start = match.index ?? 0;
+        const negation = findNegation(text, start);
+        if (negation) {
+          negated.push({ family, signal, span: { field, start, end: start + match[0].length, text: match[0] }, negation });
+          continue;
         }
+        if (counted) continue;
+        counted = true;
+        evidence.push({
+          family,
+          signal,
+          source: "observation",
+          evidence: `"${match[0]}" in: ${text}`,
+          weight: OBSERVATION_WEIGHT,
+        });
       }
     }
+  }
 
-    if (matchCount > 0) {
-      const matchStrength: ConfidenceLevel =
-        matchCount >= 3 ? "high" : matchCount >= 2 ? "medium" : "low";
+  return { evidence, negated };
+}
 
-      matches.push({
-        name: caseStudy.name,
-        pattern: caseStudy.pattern,
-        relevance: `Matches ${matchCount} signals: ${matchedSignals.join("; ")}`,
-        matchStrength,
-      });
-    }
+/**
+ * Pick the innovation type from family scores
+ */
+function decideInnovationType(scores: Record<SignalFamily, number>): InnovationType {
+  const disruptive = scores["low-end"] + scores["new-market"];
+  if (scores.sustaining === 0 && disruptive === 0) return "unclear";
+  if (scores.sustaining === disruptive) return "unclear";
+  if (scores.sustaining > disruptive) return "sustaining";
+
+  const lowEnd = scores["low-end"];
+  const newMarket = scores["new-market"];
+  if (Math.min(lowEnd, newMarket) / Math.max(lowEnd, newMarket) >= HYBRID_RATIO) {
+    return "hybrid";
   }
+  return lowEnd > newMarket ? "low-end-disruptive" : "new-market-disruptive";
+}
+
+/**
+ * Confidence from how decisively one side wins and how much evidence there is
+ */
+function assessClassificationConfidence(
+  innovationType: InnovationType,
+  scores: Record<SignalFamily, number>,
+  evidenceCount: number
+): ConfidenceLevel {
+  if (innovationType === "unclear") return "uncertain";
+
+  const disruptive = scores["low-end"] + scores["new-market"];
+  const total = scores.sustaining + disruptive;
+  const margin = Math.abs(scores.sustaining - disruptive) / total;
+
+  if (margin >= 0.5 && evidenceCount >= 5 && innovationType !== "hybrid") return "high";
+  if (margin >= 0.3 && evidenceCount >= 3) return "medium";
+  return "low";
+}
+
+/**
+ * Classify an innovation from question answers and observations.
+ * Deterministic: the same input always produces the same classification,
+ * giving a reproducible baseline to compare LLM judgments against.
+ */
+export function classifyInnovationBySignals(input: InnovationClassificationInput): InnovationClassification {
+  const observed = scoreObservations([
+    ["innovation", input.innovation],
+    ...(input.observations ?? []).map((text, i): [string, string] => [`observations[${i}]`, text]),
+  ]);
+  const evidence = [...scoreAnswers(input.answers ?? {}), ...observed.evidence];
+
+  const scores: Record<SignalFamily, number> = { sustaining: 0, "low-end": 0, "new-market": 0 };
+  for (const item of evidence) {
+    scores[item.family] += item.weight;
+  }
+  for (const family of Object.keys(scores) as SignalFamily[]) {
+    scores[family] = roundScore(scores[family]);
+  }
+
+  const innovationType = decideInnovationType(scores);
+  const confidence = assessClassificationConfidence(innovationType, scores, evidence.length);
+
+  const strongest = (Object.keys(scores) as SignalFamily[])
+    .filter((family) => scores[family] > 0)
+    .sort((a, b) => scores[b] - scores[a])
+    .map((family) => `${FAMILY_LABELS[family]} ${scores[family]}`);
 
-  return matches.sort((a, b) => {
-    const order: Record<ConfidenceLevel, number> = {
-      high: 0,
-      medium: 1,
-      low: 2,
-      uncertain: 3,
+  const rationale = [
+    strongest.length > 0
+      ? `Signal scores: ${strongest.join(", ")} (${evidence.length} pieces of evidence).`
+      : "No classification signals found.",
+    ...(observed.negated.length > 0 ? [`Negated phrases set aside: ${observed.negated.length}.`] : []),
+    TYPE_EXPLANATIONS[innovationType],
+  ].join(" ");
+
+  return { innovationType, scores, evidence, negated: observed.negated, rationale, confidence };
+}
+
+// ============================================================
+// Case Study Matching
+// ============================================================
+
+/**
+ * Combined (lexical + semantic) scores at which a case match counts as
+ * strong or moderate
+ */
+const HIGH_MATCH_SCORE = 0.5;
+const MEDIUM_MATCH_SCORE = 0.35;
+
+/**
+ * Match a situation to relevant case studies, ranked by the lexical and
+ * semantic relevance of the signals (or situation text) to each case
+ */
+export async function matchToCaseStudies(
+  signals: string[]
+): Promise<CaseStudyReference[]> {
+  if (signals.length === 0) return [];
+
+  const ranked = await rankCases(signals.join("\n"));
+  return ranked.map((match) => {
+    const matchedTerms = match.matchedTerms.map(describeMatchedTerm);
+    const matchStrength: ConfidenceLevel =
+      match.score >= HIGH_MATCH_SCORE ? "high" : match.score >= MEDIUM_MATCH_SCORE ? "medium" : "low";
+    const terms = matchedTerms.length > 0 ? `matched on: ${matchedTerms.slice(0, 6).join(", ")}; ` : "";
+
+    return {
+      name: match.caseStudy.name,
+      pattern: match.caseStudy.pattern,
+      relevance: `Score ${match.score} (lexical ${match.lexicalScore}, semantic ${match.semanticScore}); ${terms}closest signal: "${match.closestSignal}"`,
+      matchStrength,
+      score: match.score,
+      lexicalScore: match.lexicalScore,
+      semanticScore: match.semanticScore,
+      matchedTerms,
     };
-    return order[a.matchStrength] - order[b.matchStrength];
   });
 }
 
@@ -0,0 +1,341 @@
+/**
+ * Deliberate vs Emergent Strategy Framework Implementation
+ *
+ * Core insight: Strategy is made by two processes at once. The
+ * deliberate process is the plan - conscious, analytical, built on
+ * assumptions about the market. The emergent process is everything the
+ * plan did not anticipate: problems, opportunities and signals that
+ * bubble up from daily decisions. What actually gets funded through the
+ * resource allocation process is the real strategy, whatever the plan
+ * says.
+ *
+ * A deliberate strategy works when its assumptions hold. When the market
+ * contradicts them - as it did for Honda in America - the market is
+ * teaching you a different strategy.
+ *
+ * This module provides:
+ * 1. Diagnostic questions about anticipated and unanticipated
+ *    opportunities and resource allocation
+ * 2. A deterministic tracker of plan assumptions versus observed market
+ *    behavior
+ * 3. Prompts that guide Christensen-style inquiry
+ */
+
+import { getCase } from "../case-library/index.js";
+import type {
+  AssumptionStatus,
+  DiagnosticQuestion,
+  EmergentStrategyAnalysis,
+  MarketObservation,
+  StrategyMode,
+  StrategyRecord,
+  StrategyTracker,
+  TrackedAssumption,
+} from "./types.js";
+
+// ============================================================
+// Diagnostic Questions
+// ============================================================
+
+/**
+ * Core diagnostic questions for deliberate vs emergent strategy
+ */
+export const EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "What assumptions does the plan rest on, and which have been tested in the market?",
+    importance: "critical",
+  },
+  {
+    question: "Which opportunities did the plan anticipate, and which showed up unexpectedly?",
+    importance: "critical",
+  },
+  {
+    question: "Who is buying, or using the product, in ways you did not expect?",
+    importance: "critical",
+  },
+  {
+    question: "Do the plan's details cover what matters, and does everyone who must act on it share the same view?",
+    importance: "important",
+  },
+  {
+    question: "Can the future be read well enough to commit to a deliberate strategy?",
+    importance: "important",
+  },
+  {
+    question: "What would you need to see to abandon the plan and follow the signals?",
+    importance: "contextual",
+  },
+];
+
+/**
+ * Questions about the resource allocation process - where the real
+ * strategy is made
+ */
+export const RESOURCE_ALLOCATION_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "Where are money, people and management attention actually going?",
+    importance: "critical",
+  },
+  {
+    question: "Which projects win resources, and by what criteria?",
+    importance: "critical",
+  },
+  {
+    question: "Do the stated priorities match what gets funded?",
+    importance: "important",
+  },
+  {
+    question: "Who decides which emergent opportunities get resources, and how early?",
+    importance: "contextual",
+  },
+];
+
+// ============================================================
+// Strategy Tracking
+// ============================================================
+
+/**
+ * At or above this share of tested assumptions contradicted, the market
+ * is teaching a different strategy; a contested assumption counts half
+ */
+export const EMERGENT_STRATEGY_THRESHOLD = 0.5;
+
+/**
+ * Key of the Honda motorcycles case - Christensen's canonical example
+ * of emergent strategy - in the case library
+ */
+export const HONDA_CASE_KEY = "honda_motorcycles";
+
+/**
+ * How an assumption has held up: confirmed or contradicted when every
+ * decisive observation agrees, contested when they disagree, untested
+ * when there are none. Inconclusive observations don't count.
+ */
+export function assessAssumption(observations: MarketObservation[]): AssumptionStatus {
+  const supports = observations.filter((o) => o.verdict === "supports").length;
+  const contradicts = observations.filter((o) => o.verdict === "contradicts").length;
+  if (supports > 0 && contradicts > 0) return "contested";
+  if (contradicts > 0) return "contradicted";
+  if (supports > 0) return "confirmed";
+  return "untested";
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Choose the strategy process the tracked evidence favors, and explain why
+ */
+function recommendMode(
+  assumptions: TrackedAssumption[],
+  unanticipated: MarketObservation[]
+): { recommendedMode: StrategyMode; rationale: string } {
+  const count = (status: AssumptionStatus) => assumptions.filter((a) => a.status === status).length;
+  const tested = assumptions.length - count("untested");
+  const contradicted = count("contradicted");
+  const contested = count("contested");
+  const findings = [
+    contradicted > 0 && `${contradicted} of ${plural(tested, "tested assumption")} contradicted`,
+    contested > 0 && `${contested} contested`,
+    unanticipated.length > 0 && `${plural(unanticipated.length, "observation")} the plan did not anticipate`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  if (tested === 0 && unanticipated.length === 0) {
+    return {
+      recommendedMode: "unclear",
+      rationale:
+        "No market behavior has tested the plan yet. Keep the deliberate strategy, but decide now what you would need to see to conclude an assumption is wrong.",
+    };
+  }
+
+  if (tested > 0 && (contradicted + contested / 2) / tested >= EMERGENT_STRATEGY_THRESHOLD) {
+    return {
+      recommendedMode: "emergent",
+      rationale: `Evidence so far: ${findings}. The market is teaching you a different strategy - let resources follow what is working rather than defending the plan.`,
+    };
+  }
+
+  if (contradicted === 0 && contested === 0 && unanticipated.length === 0) {
+    const untested = assumptions.length - tested;
+    return {
+      recommendedMode: "deliberate",
+      rationale: `The ${plural(tested, "tested assumption")} ${tested === 1 ? "holds" : "hold"}${untested > 0 ? `, with ${untested} still untested` : ""}. Stay with the deliberate strategy, and keep testing.`,
+    };
+  }
+
+  return {
+    recommendedMode: "balanced",
+    rationale: `Evidence so far: ${findings}. Keep the deliberate strategy where its assumptions hold, but give the emergent signals resources of their own so they can prove themselves.`,
+  };
+}
+
+/**
+ * Track a strategy record: attach each observation to the assumption it
+ * tests, assess every assumption, set aside observations the plan did
+ * not anticipate, and recommend sticking to the plan or following the
+ * signals. Recomputed from scratch, so an updated record gives an
+ * updated tracker.
+ */
+export function trackStrategy(record: StrategyRecord): StrategyTracker {
+  const ids = record.assumptions.map((a, i) => a.id ?? `A${i + 1}`);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Duplicate assumption id: ${duplicate}`);
+  }
+
+  const unknown = record.observations.find((o) => o.assumptionId !== undefined && !ids.includes(o.assumptionId));
+  if (unknown) {
+    throw new Error(`Observation refers to unknown assumption: ${unknown.assumptionId}`);
+  }
+
+  const assumptions: TrackedAssumption[] = record.assumptions.map((a, i) => {
+    const observations = record.observations.filter((o) => o.assumptionId === ids[i]);
+    return {
+      id: ids[i],
+      assumption: a.assumption,
+      expected: a.expected ?? "",
+      observations,
+      status: assessAssumption(observations),
+    };
+  });
+  const unanticipated = record.observations.filter((o) => o.assumptionId === undefined);
+
+  return { assumptions, unanticipated, ...recommendMode(assumptions, unanticipated) };
+}
+
+// ============================================================
+// Analysis Helpers
+// ============================================================
+
+/**
+ * Render a tracker as lists for prompts
+ */
+function renderTracker(tracker: StrategyTracker): string {
+  const assumptions = tracker.assumptions.map(
+    (a) =>
+      `- ${a.id}: ${a.assumption} - ${a.status}${a.observations.length > 0 ? ` (${a.observations.map((o) => o.observed).join("; ")})` : ""}`
+  );
+  const unanticipated = tracker.unanticipated.map((o) => `- ${o.observed}`);
+  return [
+    ...(assumptions.length > 0 ? ["PLAN ASSUMPTIONS (as tracked against the market):", ...assumptions] : []),
+    ...(unanticipated.length > 0 ? ["UNANTICIPATED MARKET BEHAVIOR:", ...unanticipated] : []),
+    `TRACKER RECOMMENDATION: ${tracker.recommendedMode} - ${tracker.rationale}`,
+  ].join("\n");
+}
+
+/**
+ * Generate the prompt for Claude to analyze deliberate vs emergent
+ * strategy. A tracked strategy record is included as a starting point.
+ */
+export function generateEmergentStrategyAnalysisPrompt(
+  situation: string,
+  context?: string,
+  tracker?: StrategyTracker
+): string {
+  const tracked = tracker && (tracker.assumptions.length > 0 || tracker.unanticipated.length > 0);
+  return `
+Analyze this situation through the Deliberate vs Emergent Strategy lens.
+
+SITUATION: ${situation}
+${context ? `CONTEXT: ${context}` : ""}
+${tracked ? `\n${renderTracker(tracker)}\n` : ""}
+Think through these questions systematically:
+
+1. THE DELIBERATE STRATEGY
+   - What is the plan, and which assumptions about the market does it rest on?
+   - Do the plan's details cover what matters, and does everyone share the view?
+
+2. ANTICIPATED VS UNANTICIPATED OPPORTUNITIES
+   - Which opportunities did the plan anticipate?
+   - What has the market presented that nobody planned for?
+   - Who is buying, or using the product, in unexpected ways?
+
+3. RESOURCE ALLOCATION
+   - Where are money, people and attention actually going?
+   - Do the stated priorities match what gets funded?
+   - What strategy does the allocation reveal?
+
+4. ASSUMPTIONS VS MARKET BEHAVIOR
+   - Which assumptions has the market confirmed, and which has it contradicted?
+   - Which remain untested?
+
+5. STICK TO THE PLAN OR FOLLOW THE SIGNALS?
+   - Can the future be read well enough for a deliberate strategy?
+   - Which emergent signals deserve resources of their own?
+
+Remember: Strategy is what gets funded, not what the plan says. When the
+plan's assumptions fail, the market is teaching you your strategy - if
+you're willing to learn.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+/**
+ * Create an empty deliberate vs emergent strategy analysis structure
+ */
+export function createEmptyEmergentStrategyAnalysis(): EmergentStrategyAnalysis {
+  return {
+    intendedStrategy: "",
+    anticipatedOpportunities: [],
+    unanticipatedOpportunities: [],
+    resourceAllocation: {
+      statedPriorities: [],
+      actualAllocation: [],
+      misalignments: [],
+    },
+    tracker: trackStrategy({ assumptions: [], observations: [] }),
+    strategicImplications: [],
+    confidence: "uncertain",
+  };
+}
+
+/**
+ * Start an analysis from a strategy record: the tracker filled in, the
+ * plan's assumptions listed as the anticipated opportunities and the
+ * unanticipated observations as the unanticipated ones
+ */
+export function analyzeStrategyRecord(record: StrategyRecord): EmergentStrategyAnalysis {
+  const tracker = trackStrategy(record);
+  return {
+    ...createEmptyEmergentStrategyAnalysis(),
+    anticipatedOpportunities: tracker.assumptions.map((a) => a.assumption),
+    unanticipatedOpportunities: tracker.unanticipated.map((o) => o.observed),
+    tracker,
+  };
+}
+
+// ============================================================
+// Christensen Voice Helpers
+// ============================================================
+
+/**
+ * Phrases Christensen would use when discussing strategy process
+ */
+export const EMERGENT_STRATEGY_VOICE_PHRASES = [
+  "Strategy is what you fund, not what you say.",
+  "The resource allocation process is where the real strategy gets made.",
+  "The market often knows your strategy better than you do.",
+  "Pay attention to who actually buys - especially the customers you didn't expect.",
+  "A deliberate strategy works when its assumptions hold.",
+  "Help me understand which of your assumptions the market has tested.",
+  "The theory would predict that the unanticipated opportunity is easy to ignore.",
+];
+
+/**
+ * Generate a Christensen-style response for strategy process inquiry
+ */
+export function generateEmergentStrategyInquiry(situation: string): string {
+  return `
+Before we decide whether to stick to the plan, let me ask what the market has told you since you made it.
+
+${situation}
+
+I think about strategy as two processes running at once. There's the deliberate strategy - the plan, built on assumptions about what customers will do. And there's the emergent strategy - the opportunities and problems nobody anticipated, which bubble up as people make daily decisions. What actually gets funded decides which one wins.
+
+Honda came to America to sell big motorcycles. What sold were the little Supercubs their own people rode around Los Angeles. ${getCase(HONDA_CASE_KEY)?.lessonsForToday ?? ""}
+
+So help me understand: Which of your plan's assumptions has the market tested - and what has it shown you that you didn't expect?
+`.trim();
+}
@@ -12,7 +12,7 @@ export {
   JTBD_DIAGNOSTIC_QUESTIONS,
   JTBD_FOLLOWUP_QUESTIONS,
   JTBD_VOICE_PHRASES,
-  MILKSHAKE_STORY,
+  MILKSHAKE_CASE_KEY,
   generateJTBDAnalysisPrompt,
   generateJTBDInquiry,
   createEmptyJTBDAnalysis,
@@ -27,14 +27,21 @@ export {
   LOW_END_DISRUPTION_SIGNALS,
   NEW_MARKET_DISRUPTION_SIGNALS,
   DISRUPTION_VOICE_PHRASES,
-  CANONICAL_CASES,
+  CLASSIFICATION_ANSWER_RULES,
+  CLASSIFICATION_SIGNAL_PATTERNS,
+  classifyInnovationBySignals,
   generateClassificationPrompt,
   generateDisruptionAnalysisPrompt,
   generateDisruptionInquiry,
   createEmptyDisruptionAnalysis,
   matchToCaseStudies,
 } from "./disruption.js";
-export type { CaseStudyPattern } from "./disruption.js";
+
+// Negation of signal phrases
+export { NEGATION_WORDS, findNegation } from "./negation.js";
+
+// Signal extraction from decision text
+export { extractSignals, getSignalTexts } from "./signal-extraction.js";
 
 // Capabilities-Processes-Priorities Framework
 export {
@@ -51,5 +58,171 @@ export {
   generateResourceDependenceInquiry,
   createEmptyCPPAnalysis,
   createEmptyResourceDependenceAnalysis,
+  DEFAULT_BLOCKER_WEIGHTS,
+  resolveBlockerWeights,
+  diagnoseCapabilities,
   identifyPrimaryBlocker,
 } from "./capabilities.js";
+
+// Interdependence vs Modularity Framework
+export {
+  MODULARITY_DIAGNOSTIC_QUESTIONS,
+  NOT_GOOD_ENOUGH_SIGNALS,
+  MORE_THAN_GOOD_ENOUGH_SIGNALS,
+  MODULARITY_VOICE_PHRASES,
+  generateModularityAnalysisPrompt,
+  generateModularityInquiry,
+  createEmptyModularityAnalysis,
+} from "./modularity.js";
+
+// Conservation of Attractive Profits Framework
+export {
+  ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS,
+  STAGE_STATUS_PATTERNS,
+  ATTRACTIVE_PROFITS_VOICE_PHRASES,
+  flagValueChainStage,
+  mapValueChain,
+  predictProfitShifts,
+  analyzeValueChain,
+  generateAttractiveProfitsAnalysisPrompt,
+  generateAttractiveProfitsInquiry,
+  createEmptyAttractiveProfitsAnalysis,
+} from "./attractive-profits.js";
+
+// Business Model Framework
+export {
+  BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS,
+  PROFIT_FORMULA_QUESTIONS,
+  BUSINESS_MODEL_VOICE_PHRASES,
+  BUSINESS_MODEL_CHANGE_THRESHOLD,
+  compareBusinessModels,
+  generateBusinessModelAnalysisPrompt,
+  generateBusinessModelComparisonPrompt,
+  generateBusinessModelInquiry,
+  createEmptyBusinessModel,
+} from "./business-model.js";
+
+// Deliberate vs Emergent Strategy Framework
+export {
+  EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS,
+  RESOURCE_ALLOCATION_QUESTIONS,
+  EMERGENT_STRATEGY_VOICE_PHRASES,
+  EMERGENT_STRATEGY_THRESHOLD,
+  HONDA_CASE_KEY,
+  assessAssumption,
+  trackStrategy,
+  analyzeStrategyRecord,
+  generateEmergentStrategyAnalysisPrompt,
+  generateEmergentStrategyInquiry,
+  createEmptyEmergentStrategyAnalysis,
+} from "./emergent-strategy.js";
+
+// Discovery-Driven Planning Framework
+export {
+  DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS,
+  DISCOVERY_DRIVEN_VOICE_PHRASES,
+  DISCOVERY_MILESTONES,
+  ASSUMPTION_STRESS,
+  buildReverseIncomeStatement,
+  deriveOperationalRequirements,
+  reviseAssumptions,
+  applyAssumptionUpdates,
+  rankAssumptions,
+  buildDiscoveryDrivenPlan,
+  generateDiscoveryDrivenPlanningPrompt,
+  generateDiscoveryDrivenInquiry,
+} from "./discovery-driven.js";
+
+// Confidence assessment for each framework and the combined analysis
+export {
+  CONFIDENCE_THRESHOLDS,
+  assessJobsToBeDoneConfidence,
+  assessDisruptionConfidence,
+  assessCPPConfidence,
+  assessResourceDependenceConfidence,
+  assessModularityConfidence,
+  assessAttractiveProfitsConfidence,
+  assessEmergentStrategyConfidence,
+  assessAnalysisConfidence,
+} from "./confidence.js";
+
+// Cross-framework synthesis into a ChristensenAnalysis
+export { detectTensions, synthesizeFrameworkAnalyses } from "./synthesis.js";
+export type { SynthesisOptions } from "./synthesis.js";
+
+// Parsing free-text framework answers into typed analyses
+export {
+  parseJTBDAnswer,
+  parseDisruptionAnswer,
+  parseCPPAnswer,
+  parseResourceDependenceAnswer,
+} from "./answer-parsing.js";
+
+// Zod schemas mirroring the framework types
+export {
+  confidenceLevelSchema,
+  diagnosticQuestionSchema,
+  caseStudyReferenceSchema,
+  jtbdAnalysisSchema,
+  innovationTypeSchema,
+  disruptionAnalysisSchema,
+  classificationAnswerSchema,
+  signalFamilySchema,
+  signalEvidenceSchema,
+  innovationClassificationSchema,
+  signalSpanSchema,
+  extractedSignalSchema,
+  negatedSignalSchema,
+  signalExtractionSchema,
+  cppAnalysisSchema,
+  capabilityLayerSchema,
+  blockerWeightsSchema,
+  blockerEvidenceSchema,
+  layerDiagnosisSchema,
+  capabilityDiagnosisSchema,
+  resourceDependenceAnalysisSchema,
+  performanceGapSchema,
+  architectureTypeSchema,
+  interfaceAssessmentSchema,
+  modularityAnalysisSchema,
+  stageStatusSchema,
+  stageDescriptionSchema,
+  valueChainStageSchema,
+  profitShiftSchema,
+  attractiveProfitsAnalysisSchema,
+  businessModelElementSchema,
+  customerValuePropositionSchema,
+  profitFormulaSchema,
+  businessModelSchema,
+  businessModelDifferenceSchema,
+  businessModelFitSchema,
+  businessModelComparisonSchema,
+  strategyModeSchema,
+  assumptionStatusSchema,
+  observationVerdictSchema,
+  planAssumptionSchema,
+  marketObservationSchema,
+  strategyRecordSchema,
+  trackedAssumptionSchema,
+  strategyTrackerSchema,
+  resourceAllocationAssessmentSchema,
+  emergentStrategyAnalysisSchema,
+  unitEconomicsSchema,
+  operationalDriverSchema,
+  fixedCostSchema,
+  discoveryPlanInputSchema,
+  reverseIncomeStatementSchema,
+  operationalRequirementSchema,
+  planningAssumptionKindSchema,
+  assumptionChecklistItemSchema,
+  planMilestoneSchema,
+  assumptionUpdateSchema,
+  discoveryDrivenPlanSchema,
+  christensenAnalysisSchema,
+  confidenceIssueSchema,
+  confidenceAssessmentSchema,
+  analysisSectionSchema,
+  analysisConfidenceAssessmentSchema,
+  analysisTensionSchema,
+  unparsedSectionSchema,
+} from "./schemas.js";
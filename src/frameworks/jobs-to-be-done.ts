@@ -17,6 +17,7 @@ import type {
   DiagnosticQuestion,
   ConfidenceLevel,
 } from "./types.js";
+import { getCase } from "../case-library/index.js";
 
 // ============================================================
 // Diagnostic Questions
@@ -254,36 +255,10 @@ export const JTBD_VOICE_PHRASES = [
 ];
 
 /**
- * The milkshake story - Christensen's canonical JTBD example
+ * Key of the milkshake story - Christensen's canonical JTBD example -
+ * in the case library
  */
-export const MILKSHAKE_STORY = {
-  name: "The Milkshake Story",
-  pattern: "Jobs-to-be-done discovery through circumstance",
-  story: `
-A fast-food chain wanted to improve milkshake sales. Traditional market
-research segmented by demographics and asked what would make a better
-milkshake - thicker? more chocolate? cheaper?
-
-When researchers observed actual buyers, they discovered two completely
-different jobs:
-
-MORNING COMMUTERS hired the milkshake to:
-- Functional: Have something to do during a long, boring commute
-- Emotional: Feel like the commute wasn't wasted
-- Social: Not make a mess in the car
-The real competition was bagels, bananas, and boredom.
-
-AFTERNOON PARENTS hired the milkshake to:
-- Functional: Give their child a treat after a long week
-- Emotional: Feel like a good parent
-- Social: Have a bonding moment
-The real competition was going to the toy store.
-
-Same product. Completely different jobs. Completely different competitors.
-  `.trim(),
-  lesson:
-    "Don't ask what would make a better product. Ask what job the customer is hiring it to do.",
-};
+export const MILKSHAKE_CASE_KEY = "milkshake";
 
 /**
  * Generate a Christensen-style response for JTBD inquiry
@@ -298,7 +273,7 @@ Let me ask: What job are your customers hiring this solution to do? And I don't
 
 The mistake most companies make is focusing on the customer demographic rather than the job. But the same person in different circumstances might hire completely different products for similar underlying jobs.
 
-${MILKSHAKE_STORY.lesson}
+${getCase(MILKSHAKE_CASE_KEY)?.lessonsForToday ?? ""}
 
 What circumstance triggers the need for this job to be done?
   `.trim();
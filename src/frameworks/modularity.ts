@@ -0,0 +1,193 @@
+/**
+ * Interdependence vs Modularity Framework Implementation
+ *
+ * Core insight: The right architecture depends on whether performance is
+ * good enough. When it is not good enough, interdependent (integrated)
+ * architectures win - you have to control every piece to push the
+ * frontier. When it is more than good enough, competition shifts to
+ * speed, convenience and customization, and modular architectures with
+ * specifiable interfaces win. Value chains evolve as the line moves.
+ *
+ * This module provides:
+ * 1. Diagnostic questions about the performance gap and interfaces
+ * 2. Signals for "not good enough" vs "more than good enough"
+ * 3. Prompts that guide Christensen-style inquiry
+ */
+
+import type { DiagnosticQuestion, ModularityAnalysis } from "./types.js";
+
+// ============================================================
+// Diagnostic Questions
+// ============================================================
+
+/**
+ * Core diagnostic questions for interdependence vs modularity
+ */
+export const MODULARITY_DIAGNOSTIC_QUESTIONS: DiagnosticQuestion[] = [
+  {
+    question: "Is the product's performance not good enough, or more than good enough, for what customers can use?",
+    importance: "critical",
+  },
+  {
+    question: "What is the basis of competition today - functionality, reliability, convenience, or price?",
+    importance: "critical",
+  },
+  {
+    question: "Which interfaces in the product or value chain can be specified, verified and predicted?",
+    importance: "critical",
+  },
+  {
+    question: "Where does the design of one piece depend on the design of another?",
+    importance: "important",
+  },
+  {
+    question: "Are customers still willing to pay for improvements, or are they overshot?",
+    importance: "important",
+  },
+  {
+    question: "Who controls the interdependent interfaces, and is that where the hard problems are?",
+    importance: "important",
+  },
+  {
+    question: "Could specialized suppliers build to a standard interface and mix-and-match?",
+    importance: "contextual",
+  },
+  {
+    question: "Where in the value chain has performance become not good enough?",
+    importance: "contextual",
+  },
+];
+
+// ============================================================
+// Performance Gap Signals
+// ============================================================
+
+/**
+ * Signals that performance is not good enough - interdependence wins
+ */
+export const NOT_GOOD_ENOUGH_SIGNALS = [
+  "Customers readily pay more for each improvement",
+  "Competition is on functionality and reliability",
+  "Products fail or fall short in ways customers notice",
+  "Engineers must optimize across component boundaries",
+  "Interfaces change with each product generation",
+  "Leading firms design and make the critical components themselves",
+];
+
+/**
+ * Signals that performance is more than good enough - modularity wins
+ */
+export const MORE_THAN_GOOD_ENOUGH_SIGNALS = [
+  "Customers won't pay a premium for further improvements",
+  "Competition has shifted to speed, convenience and customization",
+  "Industry standards define how components fit together",
+  "Specialized suppliers sell interchangeable components",
+  "Price erodes while features accumulate",
+  "Products are assembled from off-the-shelf subsystems",
+];
+
+// ============================================================
+// Analysis Helpers
+// ============================================================
+
+/**
+ * Generate the prompt for Claude to analyze interdependence vs modularity
+ */
+export function generateModularityAnalysisPrompt(
+  situation: string,
+  context?: string
+): string {
+  return `
+Analyze this situation through the Interdependence vs Modularity lens.
+
+SITUATION: ${situation}
+${context ? `CONTEXT: ${context}` : ""}
+
+Think through these questions systematically:
+
+1. PERFORMANCE GAP
+   - Is performance NOT good enough, or MORE than good enough, for what customers can use?
+   - Which dimensions still fall short? Which have overshot?
+
+2. BASIS OF COMPETITION
+   - What do customers choose on today: functionality, reliability, convenience, or price?
+   - Are they still paying for improvements?
+
+3. INTERFACES
+   - Which interfaces are modular (specifiable, verifiable, predictable)?
+   - Which are interdependent (the design of one piece depends on another)?
+
+4. ARCHITECTURE
+   - Is the product or value chain integrated, modular, or mixed today?
+   - Which architecture does the performance gap favor?
+
+5. VALUE CHAIN EVOLUTION
+   - Where is the chain modularizing, and where is performance becoming not good enough?
+   - What does this mean for integrating, outsourcing, or building a platform?
+
+Remember: Integration is not inherently better than modularity, or the
+reverse. The circumstance - whether performance is good enough - determines
+which architecture wins, and the circumstance changes over time.
+
+Provide your analysis in a structured format.
+`.trim();
+}
+
+/**
+ * Create an empty interdependence vs modularity analysis structure
+ */
+export function createEmptyModularityAnalysis(): ModularityAnalysis {
+  return {
+    performanceGap: "unclear",
+    gapRationale: "",
+    basisOfCompetition: "",
+    notGoodEnoughDimensions: [],
+    overshotDimensions: [],
+    interfaces: {
+      modular: [],
+      interdependent: [],
+    },
+    currentArchitecture: "unclear",
+    favoredArchitecture: "unclear",
+    valueChainEvolution: "",
+    strategicImplications: [],
+    confidence: "uncertain",
+  };
+}
+
+// ============================================================
+// Christensen Voice Helpers
+// ============================================================
+
+/**
+ * Phrases Christensen would use when discussing interdependence and modularity
+ */
+export const MODULARITY_VOICE_PHRASES = [
+  "Is performance good enough yet?",
+  "When performance isn't good enough, you have to integrate.",
+  "When it's more than good enough, modularity wins on speed and cost.",
+  "The basis of competition changes once customers are overshot.",
+  "Modular interfaces have to be specifiable, verifiable and predictable.",
+  "Integration isn't good or bad - it depends on the circumstance.",
+  "Watch where performance becomes not good enough next - that's where the money goes.",
+  "The theory would predict that the value chain will modularize here.",
+];
+
+/**
+ * Generate a Christensen-style response for interdependence vs modularity inquiry
+ */
+export function generateModularityInquiry(situation: string): string {
+  return `
+Let me ask about the architecture before we talk about strategy.
+
+${situation}
+
+The question I'd start with: Is the performance of this product good enough for what your customers can actually use? Not for your most demanding customers - for the mainstream.
+
+When performance isn't good enough, the companies that win are integrated. Engineers have to optimize across every component, because the way one piece is designed depends on how the others are designed. You can't outsource what you can't specify.
+
+But once performance overshoots what customers can use, the basis of competition shifts to speed, convenience and customization. Then interfaces become specifiable, specialists can build to them, and modular competitors move faster and cheaper than the integrated firm.
+
+So help me understand: Where do your customers still need more, and where have you given them more than they can use?
+`.trim();
+}
@@ -0,0 +1,60 @@
+/**
+ * Negation
+ *
+ * Finds the word that negates a phrase in free text ("we are not
+ * cheaper"), so signal extraction, the classifier and the stage and
+ * answer parsers can set negated phrases aside instead of counting them.
+ * Negation reaches a few words back and stops at clause boundaries.
+ */
+
+// ============================================================
+// Negation
+// ============================================================
+
+/**
+ * Words that negate a signal phrase shortly after them
+ */
+export const NEGATION_WORDS = [
+  "not", "no", "never", "without", "hardly", "neither", "nor", "cannot", "nothing",
+  "isn't", "aren't", "wasn't", "weren't", "don't", "doesn't", "didn't",
+  "won't", "can't", "couldn't", "wouldn't", "shouldn't", "lack", "lacks", "lacking",
+];
+
+/** How many words before a phrase a negation reaches */
+const NEGATION_WINDOW = 3;
+
+/** Negation does not cross a clause boundary */
+export const CLAUSE_BOUNDARY = /[.;:!?()\n]|,\s*(but|yet|while|although|though)\b|\b(but|however|although|though|whereas)\b/gi;
+
+const NEGATION_SET = new Set(NEGATION_WORDS.map((w) => w.replace(/'/g, "")));
+
+/**
+ * Word pairs that look negated but intensify ("not only cheaper",
+ * "never been cheaper")
+ */
+const NOT_NEGATING: Record<string, string[]> = {
+  not: ["only", "just", "merely"],
+  never: ["been"],
+};
+
+/**
+ * The negating word governing the phrase at `start`, if any
+ */
+export function findNegation(text: string, start: number): string | undefined {
+  const before = text.slice(0, start);
+  let clauseStart = 0;
+  for (const boundary of before.matchAll(CLAUSE_BOUNDARY)) {
+    clauseStart = (boundary.index ?? 0) + boundary[0].length;
+  }
+
+  const words = (before.slice(clauseStart).toLowerCase().match(/[a-z]+(?:['’][a-z]+)?/g) ?? []).map((w) =>
+    w.replace(/['’]/g, "")
+  );
+  const window = words.slice(-NEGATION_WINDOW);
+  for (let i = window.length - 1; i >= 0; i--) {
+    if (NEGATION_SET.has(window[i]) && !NOT_NEGATING[window[i]]?.includes(window[i + 1])) {
+      return NEGATION_WORDS.find((w) => w.replace(/'/g, "") === window[i]);
+    }
+  }
+  return undefined;
+}
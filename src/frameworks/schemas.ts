@@ -0,0 +1,699 @@
+/**
+ * Zod schemas for Christensen framework analyses
+ *
+ * These mirror the interfaces in types.ts so tools can declare
+ * output schemas and validate structured content. Each schema is
+ * checked against its interface with `satisfies`, so the two
+ * cannot drift apart without a compile error.
+ */
+
+import { z } from "zod";
+import type {
+  ConfidenceLevel,
+  DiagnosticQuestion,
+  CaseStudyReference,
+  JTBDAnalysis,
+  InnovationType,
+  DisruptionAnalysis,
+  ClassificationAnswer,
+  SignalFamily,
+  SignalEvidence,
+  InnovationClassification,
+  SignalSpan,
+  ExtractedSignal,
+  NegatedSignal,
+  SignalExtraction,
+  CPPAnalysis,
+  CapabilityLayer,
+  BlockerWeights,
+  BlockerEvidence,
+  LayerDiagnosis,
+  CapabilityDiagnosis,
+  ResourceDependenceAnalysis,
+  PerformanceGap,
+  ArchitectureType,
+  InterfaceAssessment,
+  ModularityAnalysis,
+  StageStatus,
+  StageDescription,
+  ValueChainStage,
+  ProfitShift,
+  AttractiveProfitsAnalysis,
+  BusinessModelElement,
+  CustomerValueProposition,
+  ProfitFormula,
+  BusinessModel,
+  BusinessModelDifference,
+  BusinessModelFit,
+  BusinessModelComparison,
+  StrategyMode,
+  AssumptionStatus,
+  ObservationVerdict,
+  PlanAssumption,
+  MarketObservation,
+  StrategyRecord,
+  TrackedAssumption,
+  StrategyTracker,
+  ResourceAllocationAssessment,
+  EmergentStrategyAnalysis,
+  UnitEconomics,
+  OperationalDriver,
+  FixedCost,
+  DiscoveryPlanInput,
+  ReverseIncomeStatement,
+  OperationalRequirement,
+  PlanningAssumptionKind,
+  AssumptionChecklistItem,
+  PlanMilestone,
+  AssumptionUpdate,
+  DiscoveryDrivenPlan,
+  ChristensenAnalysis,
+  ConfidenceIssue,
+  ConfidenceAssessment,
+  AnalysisSection,
+  AnalysisConfidenceAssessment,
+  AnalysisTension,
+  UnparsedSection,
+} from "./types.js";
+
+// ============================================================
+// Common Schemas
+// ============================================================
+
+export const confidenceLevelSchema = z
+  .enum(["high", "medium", "low", "uncertain"])
+  .describe("Confidence level for the assessment") satisfies z.ZodType<ConfidenceLevel>;
+
+export const diagnosticQuestionSchema = z.object({
+  question: z.string(),
+  answer: z.string().optional(),
+  importance: z.enum(["critical", "important", "contextual"]),
+}) satisfies z.ZodType<DiagnosticQuestion>;
+
+export const caseStudyReferenceSchema = z.object({
+  name: z.string(),
+  pattern: z.string(),
+  relevance: z.string(),
+  matchStrength: confidenceLevelSchema,
+  score: z.number().optional(),
+  lexicalScore: z.number().optional(),
+  semanticScore: z.number().optional(),
+  matchedTerms: z.array(z.string()).optional(),
+}) satisfies z.ZodType<CaseStudyReference>;
+
+// ============================================================
+// Jobs-to-Be-Done Framework
+// ============================================================
+
+export const jtbdAnalysisSchema = z.object({
+  job: z.string().describe("The core job being hired for"),
+  dimensions: z.object({
+    functional: z.string(),
+    emotional: z.string(),
+    social: z.string(),
+  }),
+  circumstance: z.object({
+    situation: z.string(),
+    trigger: z.string(),
+    constraints: z.array(z.string()),
+  }),
+  firingFrom: z.array(z.string()),
+  firingRisks: z.array(z.string()),
+  underservedSegments: z.array(z.string()),
+  openQuestions: z.array(diagnosticQuestionSchema),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<JTBDAnalysis>;
+
+// ============================================================
+// Disruption Theory Framework
+// ============================================================
+
+export const innovationTypeSchema = z.enum([
+  "sustaining",
+  "low-end-disruptive",
+  "new-market-disruptive",
+  "hybrid",
+  "unclear",
+]) satisfies z.ZodType<InnovationType>;
+
+export const disruptionAnalysisSchema = z.object({
+  innovationType: innovationTypeSchema,
+  classificationRationale: z.string(),
+  marketPosition: z.object({
+    segment: z.enum(["low-end", "mainstream", "high-end", "non-consumers", "mixed"]),
+    incumbentFocus: z.string(),
+    overservedDimensions: z.array(z.string()),
+    underservedDimensions: z.array(z.string()),
+  }),
+  trueCompetitors: z.array(z.string()),
+  trajectory: z.object({
+    currentPosition: z.string(),
+    projectedPath: z.string(),
+    timeframe: z.string(),
+    keyFactors: z.array(z.string()),
+  }),
+  asymmetricMotivation: z.object({
+    incumbentMotivation: z.string(),
+    entrantMotivation: z.string(),
+  }),
+  caseStudyParallels: z.array(caseStudyReferenceSchema),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<DisruptionAnalysis>;
+
+export const classificationAnswerSchema = z.enum([
+  "yes",
+  "partly",
+  "no",
+  "unknown",
+]) satisfies z.ZodType<ClassificationAnswer>;
+
+export const signalFamilySchema = z.enum([
+  "sustaining",
+  "low-end",
+  "new-market",
+]) satisfies z.ZodType<SignalFamily>;
+
+export const signalEvidenceSchema = z.object({
+  family: signalFamilySchema,
+  signal: z.string(),
+  source: z.enum(["answer", "observation"]),
+  evidence: z.string(),
+  weight: z.number(),
+}) satisfies z.ZodType<SignalEvidence>;
+
+export const signalSpanSchema = z.object({
+  field: z.string(),
+  start: z.number().int(),
+  end: z.number().int(),
+  text: z.string(),
+}) satisfies z.ZodType<SignalSpan>;
+
+export const extractedSignalSchema = z.object({
+  family: signalFamilySchema,
+  signal: z.string(),
+  spans: z.array(signalSpanSchema),
+}) satisfies z.ZodType<ExtractedSignal>;
+
+export const negatedSignalSchema = z.object({
+  family: signalFamilySchema,
+  signal: z.string(),
+  span: signalSpanSchema,
+  negation: z.string(),
+}) satisfies z.ZodType<NegatedSignal>;
+
+export const innovationClassificationSchema = z.object({
+  innovationType: innovationTypeSchema,
+  scores: z.object({
+    sustaining: z.number(),
+    "low-end": z.number(),
+    "new-market": z.number(),
+  }),
+  evidence: z.array(signalEvidenceSchema),
+  negated: z.array(negatedSignalSchema),
+  rationale: z.string(),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<InnovationClassification>;
+
+export const signalExtractionSchema = z.object({
+  signals: z.array(extractedSignalSchema),
+  negated: z.array(negatedSignalSchema),
+}) satisfies z.ZodType<SignalExtraction>;
+
+// ============================================================
+// Capabilities-Processes-Priorities (CPP) Framework
+// ============================================================
+
+const levelSchema = z.enum(["high", "medium", "low"]);
+
+export const cppAnalysisSchema = z.object({
+  resources: z.object({
+    available: z.array(z.string()),
+    missing: z.array(z.string()),
+    acquirable: z.array(z.string()),
+    flexibility: levelSchema,
+  }),
+  processes: z.object({
+    supporting: z.array(z.string()),
+    hindering: z.array(z.string()),
+    rigidity: levelSchema,
+    requiredChanges: z.array(z.string()),
+  }),
+  priorities: z.object({
+    currentPriorities: z.array(z.string()),
+    alignment: z.enum(["aligned", "neutral", "misaligned"]),
+    alignmentRationale: z.string(),
+    requiredShifts: z.array(z.string()),
+  }),
+  overallAssessment: z.object({
+    canExecute: z.boolean(),
+    primaryBlocker: z.enum(["resources", "processes", "priorities", "none"]),
+    explanation: z.string(),
+  }),
+  recommendations: z.array(z.string()),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<CPPAnalysis>;
+
+export const capabilityLayerSchema = z.enum([
+  "resources",
+  "processes",
+  "priorities",
+]) satisfies z.ZodType<CapabilityLayer>;
+
+const weightSchema = z.number().finite();
+
+export const blockerWeightsSchema = z.object({
+  layers: z.object({
+    resources: weightSchema.nonnegative(),
+    processes: weightSchema.nonnegative(),
+    priorities: weightSchema.nonnegative(),
+  }),
+  items: z.object({
+    missingResource: weightSchema,
+    acquirableResource: weightSchema,
+    hinderingProcess: weightSchema,
+    supportingProcess: weightSchema,
+    requiredProcessChange: weightSchema,
+    requiredPriorityShift: weightSchema,
+  }),
+  flexibility: z.object({ high: weightSchema, medium: weightSchema, low: weightSchema }),
+  rigidity: z.object({ high: weightSchema, medium: weightSchema, low: weightSchema }),
+  alignment: z.object({ aligned: weightSchema, neutral: weightSchema, misaligned: weightSchema }),
+  blockingThreshold: weightSchema.positive(),
+}) satisfies z.ZodType<BlockerWeights>;
+
+export const blockerEvidenceSchema = z.object({
+  field: z.string(),
+  evidence: z.string(),
+  weight: z.number().describe("Contribution to the layer's raw score"),
+}) satisfies z.ZodType<BlockerEvidence>;
+
+export const layerDiagnosisSchema = z.object({
+  rawScore: z.number(),
+  score: z.number().describe("Raw score times the layer weight"),
+  blocking: z.boolean(),
+  evidence: z.array(blockerEvidenceSchema),
+}) satisfies z.ZodType<LayerDiagnosis>;
+
+export const capabilityDiagnosisSchema = z.object({
+  layers: z.object({
+    resources: layerDiagnosisSchema,
+    processes: layerDiagnosisSchema,
+    priorities: layerDiagnosisSchema,
+  }),
+  blockers: z.array(capabilityLayerSchema).describe("Blocking layers, highest score first"),
+  primaryBlocker: z.enum(["resources", "processes", "priorities", "none"]),
+  canExecute: z.boolean(),
+  rationale: z.string(),
+  weights: blockerWeightsSchema,
+}) satisfies z.ZodType<CapabilityDiagnosis>;
+
+// ============================================================
+// Resource Dependence Framework
+// ============================================================
+
+export const resourceDependenceAnalysisSchema = z.object({
+  providers: z.array(
+    z.object({
+      provider: z.string(),
+      resources: z.array(z.string()),
+      expectations: z.array(z.string()),
+      impactOnRelationship: z.enum(["positive", "neutral", "negative", "threatening"]),
+    })
+  ),
+  providerPriorities: z.array(z.string()),
+  conflicts: z.array(z.string()),
+  riskLevel: z.enum(["low", "medium", "high", "critical"]),
+  navigationStrategy: z.string(),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<ResourceDependenceAnalysis>;
+
+// ============================================================
+// Interdependence vs Modularity Framework
+// ============================================================
+
+export const performanceGapSchema = z.enum([
+  "not-good-enough",
+  "more-than-good-enough",
+  "unclear",
+]) satisfies z.ZodType<PerformanceGap>;
+
+export const architectureTypeSchema = z.enum([
+  "interdependent",
+  "modular",
+  "mixed",
+  "unclear",
+]) satisfies z.ZodType<ArchitectureType>;
+
+export const interfaceAssessmentSchema = z.object({
+  modular: z.array(z.string()),
+  interdependent: z.array(z.string()),
+}) satisfies z.ZodType<InterfaceAssessment>;
+
+export const modularityAnalysisSchema = z.object({
+  performanceGap: performanceGapSchema,
+  gapRationale: z.string(),
+  basisOfCompetition: z.string(),
+  notGoodEnoughDimensions: z.array(z.string()),
+  overshotDimensions: z.array(z.string()),
+  interfaces: interfaceAssessmentSchema,
+  currentArchitecture: architectureTypeSchema,
+  favoredArchitecture: architectureTypeSchema,
+  valueChainEvolution: z.string(),
+  strategicImplications: z.array(z.string()),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<ModularityAnalysis>;
+
+// ============================================================
+// Conservation of Attractive Profits Framework
+// ============================================================
+
+export const stageStatusSchema = z.enum([
+  "commoditizing",
+  "not-good-enough",
+  "unclear",
+]) satisfies z.ZodType<StageStatus>;
+
+export const stageDescriptionSchema = z.object({
+  stage: z.string().min(1).describe("Name of the value chain stage"),
+  description: z.string().optional().describe("What is known about the stage"),
+}) satisfies z.ZodType<StageDescription>;
+
+export const valueChainStageSchema = z.object({
+  stage: z.string(),
+  description: z.string(),
+  status: stageStatusSchema,
+  evidence: z.array(z.string()).describe("Matched phrases and the signal each points to"),
+}) satisfies z.ZodType<ValueChainStage>;
+
+export const profitShiftSchema = z.object({
+  from: z.string().describe("Commoditizing stage profits leave"),
+  to: z.string().describe("Not-good-enough stage profits move to"),
+  rationale: z.string(),
+}) satisfies z.ZodType<ProfitShift>;
+
+export const attractiveProfitsAnalysisSchema = z.object({
+  stages: z.array(valueChainStageSchema).describe("Value chain stages in order, upstream first"),
+  profitShifts: z.array(profitShiftSchema),
+  currentProfitPool: z.string(),
+  futureProfitPool: z.string(),
+  positioningImplications: z.array(z.string()),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<AttractiveProfitsAnalysis>;
+
+// ============================================================
+// Business Model Framework
+// ============================================================
+
+export const businessModelElementSchema = z.enum([
+  "valueProposition",
+  "keyResources",
+  "keyProcesses",
+  "profitFormula",
+]) satisfies z.ZodType<BusinessModelElement>;
+
+export const customerValuePropositionSchema = z.object({
+  targetCustomer: z.string(),
+  jobToBeDone: z.string(),
+  offering: z.string(),
+}) satisfies z.ZodType<CustomerValueProposition>;
+
+export const profitFormulaSchema = z.object({
+  revenueModel: z.string().describe("Price x volume"),
+  costStructure: z.string().describe("Direct costs, overhead and scale economies"),
+  marginModel: z.string().describe("Contribution each transaction must make"),
+  resourceVelocity: z.string().describe("How fast inventory, assets and cash must turn over"),
+}) satisfies z.ZodType<ProfitFormula>;
+
+export const businessModelSchema = z.object({
+  valueProposition: customerValuePropositionSchema,
+  keyResources: z.array(z.string()),
+  keyProcesses: z.array(z.string()),
+  profitFormula: profitFormulaSchema,
+}) satisfies z.ZodType<BusinessModel>;
+
+export const businessModelDifferenceSchema = z.object({
+  element: businessModelElementSchema,
+  field: z.string().describe("Field path within the model"),
+  incumbent: z.string(),
+  required: z.string(),
+  similarity: z.number().describe("Word overlap for text, share of required items matched for lists (0-1)"),
+  changed: z.boolean(),
+  newRequirements: z.array(z.string()).describe("Required list items the incumbent model lacks"),
+}) satisfies z.ZodType<BusinessModelDifference>;
+
+export const businessModelFitSchema = z.enum([
+  "fits",
+  "stretch",
+  "new-model",
+  "unclear",
+]) satisfies z.ZodType<BusinessModelFit>;
+
+export const businessModelComparisonSchema = z.object({
+  differences: z.array(businessModelDifferenceSchema),
+  changedElements: z.array(businessModelElementSchema),
+  fit: businessModelFitSchema,
+  rationale: z.string(),
+}) satisfies z.ZodType<BusinessModelComparison>;
+
+// ============================================================
+// Deliberate vs Emergent Strategy Framework
+// ============================================================
+
+export const strategyModeSchema = z.enum([
+  "deliberate",
+  "emergent",
+  "balanced",
+  "unclear",
+]) satisfies z.ZodType<StrategyMode>;
+
+export const assumptionStatusSchema = z.enum([
+  "untested",
+  "confirmed",
+  "contradicted",
+  "contested",
+]) satisfies z.ZodType<AssumptionStatus>;
+
+export const observationVerdictSchema = z.enum([
+  "supports",
+  "contradicts",
+  "inconclusive",
+]) satisfies z.ZodType<ObservationVerdict>;
+
+export const planAssumptionSchema = z.object({
+  id: z.string().min(1).optional().describe("Identifier observations refer to (default: A1, A2, ...)"),
+  assumption: z.string().min(1).describe("An assumption the deliberate plan rests on"),
+  expected: z.string().optional().describe("What the market should do if the assumption holds"),
+}) satisfies z.ZodType<PlanAssumption>;
+
+export const marketObservationSchema = z.object({
+  assumptionId: z.string().optional().describe("The assumption this tests; leave out for behavior the plan did not anticipate"),
+  observed: z.string().min(1).describe("Market behavior observed since the plan was made"),
+  verdict: observationVerdictSchema.optional().describe("Whether it supports or contradicts the assumption (default: inconclusive)"),
+  observedAt: z.string().optional().describe("When it was observed"),
+}) satisfies z.ZodType<MarketObservation>;
+
+export const strategyRecordSchema = z.object({
+  assumptions: z.array(planAssumptionSchema),
+  observations: z.array(marketObservationSchema),
+}) satisfies z.ZodType<StrategyRecord>;
+
+export const trackedAssumptionSchema = z.object({
+  id: z.string(),
+  assumption: z.string(),
+  expected: z.string(),
+  observations: z.array(marketObservationSchema),
+  status: assumptionStatusSchema,
+}) satisfies z.ZodType<TrackedAssumption>;
+
+export const strategyTrackerSchema = z.object({
+  assumptions: z.array(trackedAssumptionSchema),
+  unanticipated: z.array(marketObservationSchema).describe("Observations no assumption anticipated"),
+  recommendedMode: strategyModeSchema,
+  rationale: z.string(),
+}) satisfies z.ZodType<StrategyTracker>;
+
+export const resourceAllocationAssessmentSchema = z.object({
+  statedPriorities: z.array(z.string()),
+  actualAllocation: z.array(z.string()).describe("Where money, people and attention actually go"),
+  misalignments: z.array(z.string()),
+}) satisfies z.ZodType<ResourceAllocationAssessment>;
+
+export const emergentStrategyAnalysisSchema = z.object({
+  intendedStrategy: z.string(),
+  anticipatedOpportunities: z.array(z.string()),
+  unanticipatedOpportunities: z.array(z.string()),
+  resourceAllocation: resourceAllocationAssessmentSchema,
+  tracker: strategyTrackerSchema,
+  strategicImplications: z.array(z.string()),
+  confidence: confidenceLevelSchema,
+}) satisfies z.ZodType<EmergentStrategyAnalysis>;
+
+// ============================================================
+// Discovery-Driven Planning Framework
+// ============================================================
+
+export const unitEconomicsSchema = z.object({
+  unitPrice: z.number().positive().describe("Revenue per unit sold"),
+  unitCost: z.number().nonnegative().describe("Variable cost to deliver one unit"),
+}) satisfies z.ZodType<UnitEconomics>;
+
+export const operationalDriverSchema = z.object({
+  resource: z.string().min(1).describe("What the venture needs more of as volume grows"),
+  unitsPerResource: z.number().positive().describe("Units each one can handle"),
+  costPerResource: z.number().nonnegative().describe("Cost of each one"),
+}) satisfies z.ZodType<OperationalDriver>;
+
+export const fixedCostSchema = z.object({
+  item: z.string().min(1),
+  amount: z.number().nonnegative(),
+}) satisfies z.ZodType<FixedCost>;
+
+export const discoveryPlanInputSchema = z.object({
+  targetProfit: z.number().positive().describe("Profit the venture must make to be worth doing"),
+  returnOnSales: z.number().positive().max(1).describe("Required return on sales (0-1)"),
+  unitEconomics: unitEconomicsSchema,
+  operations: z.array(operationalDriverSchema),
+  fixedCosts: z.array(fixedCostSchema),
+}) satisfies z.ZodType<DiscoveryPlanInput>;
+
+export const reverseIncomeStatementSchema = z.object({
+  requiredProfit: z.number(),
+  returnOnSales: z.number(),
+  requiredRevenue: z.number(),
+  allowableCosts: z.number(),
+  requiredUnits: z.number(),
+  variableCosts: z.number(),
+  operatingCosts: z.number(),
+  fixedCosts: z.number(),
+  totalCosts: z.number(),
+  headroom: z.number().describe("Allowable costs less the costs the assumptions imply"),
+}) satisfies z.ZodType<ReverseIncomeStatement>;
+
+export const operationalRequirementSchema = z.object({
+  resource: z.string(),
+  required: z.number(),
+  cost: z.number(),
+  derivation: z.string(),
+}) satisfies z.ZodType<OperationalRequirement>;
+
+export const planningAssumptionKindSchema = z.enum([
+  "unit-price",
+  "unit-cost",
+  "capacity",
+  "resource-cost",
+  "fixed-cost",
+]) satisfies z.ZodType<PlanningAssumptionKind>;
+
+export const assumptionChecklistItemSchema = z.object({
+  rank: z.number().int().describe("1 is the assumption that matters most"),
+  id: z.string(),
+  kind: planningAssumptionKindSchema,
+  assumption: z.string(),
+  value: z.number(),
+  impact: z.number().describe("Headroom lost if the assumption turns out 10% worse"),
+  milestone: z.string(),
+}) satisfies z.ZodType<AssumptionChecklistItem>;
+
+export const planMilestoneSchema = z.object({
+  milestone: z.string(),
+  test: z.string(),
+  assumptions: z.array(z.string()),
+}) satisfies z.ZodType<PlanMilestone>;
+
+export const assumptionUpdateSchema = z.object({
+  id: z.string().min(1).describe("Checklist id of the assumption"),
+  value: z.number().describe("New value learned at a milestone"),
+}) satisfies z.ZodType<AssumptionUpdate>;
+
+export const discoveryDrivenPlanSchema = z.object({
+  statement: reverseIncomeStatementSchema,
+  requirements: z.array(operationalRequirementSchema),
+  checklist: z.array(assumptionChecklistItemSchema),
+  milestones: z.array(planMilestoneSchema),
+  viable: z.boolean(),
+  rationale: z.string(),
+}) satisfies z.ZodType<DiscoveryDrivenPlan>;
+
+// ============================================================
+// Combined Decision Analysis
+// ============================================================
+
+export const christensenAnalysisSchema = z.object({
+  context: z.string(),
+  theJob: jtbdAnalysisSchema,
+  theLandscape: disruptionAnalysisSchema,
+  theCapabilities: cppAnalysisSchema,
+  theConstraints: resourceDependenceAnalysisSchema,
+  theArchitecture: modularityAnalysisSchema.optional(),
+  theProfits: attractiveProfitsAnalysisSchema.optional(),
+  theStrategy: emergentStrategyAnalysisSchema.optional(),
+  thePattern: z.object({
+    primaryCase: caseStudyReferenceSchema,
+    secondaryCases: z.array(caseStudyReferenceSchema),
+    patternSummary: z.string(),
+  }),
+  thePrediction: z.object({
+    mostLikelyOutcome: z.string(),
+    confidence: confidenceLevelSchema,
+    keyAssumptions: z.array(z.string()),
+    whatCouldChange: z.array(z.string()),
+  }),
+  theConsideration: z.array(z.string()),
+  narrativeSummary: z.string(),
+}) satisfies z.ZodType<ChristensenAnalysis>;
+
+// ============================================================
+// Confidence Assessment
+// ============================================================
+
+export const confidenceIssueSchema = z.object({
+  field: z.string().describe("Field path the issue is about"),
+  kind: z.enum(["missing", "contradiction"]),
+  message: z.string(),
+  penalty: z.number().describe("Share of the 0-1 score this issue cost"),
+}) satisfies z.ZodType<ConfidenceIssue>;
+
+export const confidenceAssessmentSchema = z.object({
+  confidence: confidenceLevelSchema,
+  score: z.number().describe("Completeness after contradiction penalties, 0-1"),
+  issues: z.array(confidenceIssueSchema),
+}) satisfies z.ZodType<ConfidenceAssessment>;
+
+export const analysisSectionSchema = z.enum([
+  "theJob",
+  "theLandscape",
+  "theCapabilities",
+  "theConstraints",
+]) satisfies z.ZodType<AnalysisSection>;
+
+export const analysisConfidenceAssessmentSchema = confidenceAssessmentSchema.extend({
+  sections: z.object({
+    theJob: confidenceAssessmentSchema,
+    theLandscape: confidenceAssessmentSchema,
+    theCapabilities: confidenceAssessmentSchema,
+    theConstraints: confidenceAssessmentSchema,
+    theArchitecture: confidenceAssessmentSchema.optional(),
+    theProfits: confidenceAssessmentSchema.optional(),
+    theStrategy: confidenceAssessmentSchema.optional(),
+  }),
+}) satisfies z.ZodType<AnalysisConfidenceAssessment>;
+
+// ============================================================
+// Synthesis
+// ============================================================
+
+export const analysisTensionSchema = z.object({
+  id: z.string(),
+  sections: z.array(analysisSectionSchema).describe("Sections whose findings conflict"),
+  description: z.string(),
+  question: z.string().describe("The question that would resolve it"),
+}) satisfies z.ZodType<AnalysisTension>;
+
+// ============================================================
+// Answer Parsing
+// ============================================================
+
+export const unparsedSectionSchema = z.object({
+  section: z.string(),
+  reason: z.string(),
+}) satisfies z.ZodType<UnparsedSection>;
@@ -0,0 +1,79 @@
+/**
+ * Signal Extraction
+ *
+ * Reads a decision and everything around it - context, organization and
+ * market details - and maps phrases to the canonical disruption signals.
+ * Phrases come from CLASSIFICATION_SIGNAL_PATTERNS (each pattern lists the
+ * synonyms and multi-word forms of one signal), every occurrence is
+ * reported with the input span that produced it, and negated phrases
+ * ("we are not cheaper") are set aside instead of counted.
+ */
+
+import { CLASSIFICATION_SIGNAL_PATTERNS } from "./disruption.js";
+import { findNegation } from "./negation.js";
+import type {
+  ExtractedSignal,
+  NegatedSignal,
+  SignalExtraction,
+  SignalExtractionInput,
+  SignalSpan,
+} from "./types.js";
+
+// ============================================================
+// Extraction
+// ============================================================
+
+/**
+ * Every free-text field of the input with its path
+ */
+function inputFields(input: SignalExtractionInput): [string, string][] {
+  const fields: [string, string][] = [["decision", input.decision]];
+  if (input.context) fields.push(["context", input.context]);
+  for (const [key, value] of Object.entries(input.organization ?? {})) {
+    if (value) fields.push([`organization.${key}`, value]);
+  }
+  for (const [key, values] of Object.entries(input.market ?? {})) {
+    (values ?? []).forEach((value, i) => fields.push([`market.${key}[${i}]`, value]));
+  }
+  return fields;
+}
+
+/**
+ * Find disruption signals in a decision and its context. Each signal is
+ * listed once, strongest evidence first (most spans); negated phrases are
+ * returned separately.
+ */
+export function extractSignals(input: SignalExtractionInput): SignalExtraction {
+  const found = new Map<string, ExtractedSignal>();
+  const negated: NegatedSignal[] = [];
+
+  for (const [field, text] of inputFields(input)) {
+    for (const { family, signal, pattern } of CLASSIFICATION_SIGNAL_PATTERNS) {
+      const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+      for (const match of text.matchAll(global)) {
+        const start = match.index ?? 0;
+        const span: SignalSpan = { field, start, end: start + match[0].length, text: match[0] };
+
+        const negation = findNegation(text, start);
+        if (negation) {
+          negated.push({ family, signal, span, negation });
+          continue;
+        }
+
+        const entry = found.get(signal) ?? { family, signal, spans: [] };
+        entry.spans.push(span);
+        found.set(signal, entry);
+      }
+    }
+  }
+
+  const signals = [...found.values()].sort((a, b) => b.spans.length - a.spans.length);
+  return { signals, negated };
+}
+
+/**
+ * Canonical signal texts from an extraction, for case matching
+ */
+export function getSignalTexts(extraction: SignalExtraction): string[] {
+  return extraction.signals.map((s) => s.signal);
+}
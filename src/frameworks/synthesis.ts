@@ -0,0 +1,413 @@
+/**
+ * Cross-Framework Synthesis
+ *
+ * Assembles the framework sections into a ChristensenAnalysis: looks
+ * for tensions between them (a new-market disruption that fits current
+ * priorities perfectly is a finding in itself), picks the historical
+ * pattern from case matching, and derives the prediction, the
+ * considerations and a narrative summary. Deterministic - the same
+ * sections always synthesize to the same analysis.
+ */
+
+import { findCaseByName } from "../case-library/index.js";
+import { createEmptyJTBDAnalysis } from "./jobs-to-be-done.js";
+import { createEmptyDisruptionAnalysis, matchToCaseStudies } from "./disruption.js";
+import { createEmptyCPPAnalysis, createEmptyResourceDependenceAnalysis } from "./capabilities.js";
+import { assessAnalysisConfidence } from "./confidence.js";
+import type {
+  AnalysisSection,
+  AnalysisTension,
+  CaseStudyReference,
+  ChristensenAnalysis,
+  InnovationType,
+  SynthesisInput,
+  SynthesisResult,
+} from "./types.js";
+
+// ============================================================
+// Tensions
+// ============================================================
+
+type FrameworkSections = Pick<ChristensenAnalysis, AnalysisSection>;
+
+const TYPE_LABELS: Record<InnovationType, string> = {
+  sustaining: "a sustaining innovation",
+  "low-end-disruptive": "a low-end disruption",
+  "new-market-disruptive": "a new-market disruption",
+  hybrid: "a hybrid disruption",
+  unclear: "not yet classified",
+};
+
+const SECTION_TITLES: Record<AnalysisSection, string> = {
+  theJob: "jobs-to-be-done",
+  theLandscape: "disruption",
+  theCapabilities: "capabilities",
+  theConstraints: "resource dependence",
+};
+
+/**
+ * A pair of findings that should not comfortably hold together
+ */
+interface TensionRule {
+  id: string;
+  sections: AnalysisSection[];
+  applies: (s: FrameworkSections) => boolean;
+  describe: (s: FrameworkSections) => string;
+  question: string;
+}
+
+function isDisruptive(type: InnovationType): boolean {
+  return type === "low-end-disruptive" || type === "new-market-disruptive" || type === "hybrid";
+}
+
+const TENSION_RULES: TensionRule[] = [
+  {
+    id: "disruption-vs-priorities",
+    sections: ["theLandscape", "theCapabilities"],
+    applies: (s) => isDisruptive(s.theLandscape.innovationType) && s.theCapabilities.priorities.alignment === "aligned",
+    describe: (s) =>
+      `Classified as ${TYPE_LABELS[s.theLandscape.innovationType]}, yet rated aligned with current priorities - disruptive opportunities usually look unattractive against an established business's margins and customers.`,
+    question: "Is this really disruptive to this organization's business model, or are the priorities being judged by an entrant's criteria?",
+  },
+  {
+    id: "sustaining-vs-priorities",
+    sections: ["theLandscape", "theCapabilities"],
+    applies: (s) => s.theLandscape.innovationType === "sustaining" && s.theCapabilities.priorities.alignment === "misaligned",
+    describe: () =>
+      "Classified as sustaining, yet misaligned with current priorities - sustaining innovations usually fit the priorities that got the organization here.",
+    question: "What does the priorities analysis see that the classification doesn't: a different business model, margin structure or customer?",
+  },
+  {
+    id: "new-market-without-nonconsumers",
+    sections: ["theLandscape", "theJob"],
+    applies: (s) =>
+      s.theLandscape.innovationType === "new-market-disruptive" &&
+      s.theLandscape.marketPosition.segment !== "non-consumers" &&
+      s.theJob.underservedSegments.length === 0,
+    describe: () =>
+      "Classified as new-market disruption, but neither the market position nor the job analysis identifies non-consumers to serve.",
+    question: "Who can't get this job done today because existing solutions are too expensive or too complicated?",
+  },
+  {
+    id: "capabilities-vs-constraints",
+    sections: ["theCapabilities", "theConstraints"],
+    applies: (s) =>
+      s.theCapabilities.overallAssessment.canExecute &&
+      (s.theConstraints.riskLevel === "high" || s.theConstraints.riskLevel === "critical"),
+    describe: (s) =>
+      `The capabilities analysis says the organization can execute, but resource providers put the opportunity at ${s.theConstraints.riskLevel} risk.`,
+    question: "Will customers and investors let the resources flow, or does this need an autonomous unit?",
+  },
+  {
+    id: "priorities-vs-constraints",
+    sections: ["theCapabilities", "theConstraints"],
+    applies: (s) => s.theCapabilities.overallAssessment.primaryBlocker === "priorities" && s.theConstraints.riskLevel === "low",
+    describe: () =>
+      "Priorities are named as the blocker, yet resource dependence sees little risk - priorities usually reflect what customers and investors reward.",
+    question: "Whose expectations are the current priorities serving, if not the resource providers'?",
+  },
+];
+
+/**
+ * Find findings that pull against each other across framework sections.
+ * Only rules whose sections were all provided are checked.
+ */
+export function detectTensions(
+  sections: FrameworkSections,
+  provided: AnalysisSection[] = Object.keys(SECTION_TITLES) as AnalysisSection[]
+): AnalysisTension[] {
+  return TENSION_RULES.filter((rule) => rule.sections.every((s) => provided.includes(s)) && rule.applies(sections)).map(
+    (rule) => ({ id: rule.id, sections: rule.sections, description: rule.describe(sections), question: rule.question })
+  );
+}
+
+// ============================================================
+// Pattern
+// ============================================================
+
+/** Most case matches carried into the pattern */
+const MAX_CASE_MATCHES = 3;
+
+const NO_CASE: CaseStudyReference = { name: "", pattern: "", relevance: "", matchStrength: "uncertain" };
+
+/**
+ * Match the findings against the case library. Among the matches as
+ * strong as the best one, a case of the same innovation type becomes the
+ * primary case.
+ */
+async function matchPattern(context: string, s: FrameworkSections): Promise<CaseStudyReference[]> {
+  const texts = [
+    context,
+    s.theJob.job,
+    ...s.theJob.underservedSegments,
+    s.theLandscape.classificationRationale,
+    s.theLandscape.marketPosition.incumbentFocus,
+    ...s.theLandscape.marketPosition.overservedDimensions,
+    ...s.theLandscape.marketPosition.underservedDimensions,
+  ].filter((text) => text.trim().length > 0);
+
+  const matches = (await matchToCaseStudies(texts)).slice(0, MAX_CASE_MATCHES);
+  const type = s.theLandscape.innovationType;
+  const sameType = matches.find(
+    (m) => m.matchStrength === matches[0].matchStrength && findCaseByName(m.name)?.innovationType === type
+  );
+
+  return sameType ? [sameType, ...matches.filter((m) => m !== sameType)] : matches;
+}
+
+/**
+ * How the primary case fits, and its first lesson
+ */
+function summarizePattern(primaryCase: CaseStudyReference, type: InnovationType): string {
+  if (!primaryCase.name) return "";
+
+  const definition = findCaseByName(primaryCase.name);
+  const caseType = definition?.innovationType;
+  const label = `${primaryCase.name}${definition?.year ? ` (${definition.year})` : ""}`;
+
+  let fit = `${label} is the closest historical pattern.`;
+  if (caseType && type !== "unclear") {
+    fit =
+      caseType === type
+        ? `Like this decision, ${label} was ${TYPE_LABELS[type]}.`
+        : `${label} was ${TYPE_LABELS[caseType]}, while this decision looks like ${TYPE_LABELS[type]} - the analogy is partial.`;
+  }
+
+  const lesson = definition?.keyTakeaways[0];
+  return lesson ? `${fit} ${sentence(lesson)}` : fit;
+}
+
+// ============================================================
+// Prediction
+// ============================================================
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function sentence(text: string): string {
+  const trimmed = text.trim();
+  return /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+const FOOTHOLDS: Record<ChristensenAnalysis["theLandscape"]["marketPosition"]["segment"], string> = {
+  "low-end": "among overserved low-end customers",
+  "non-consumers": "among non-consumers",
+  mainstream: "in the mainstream market",
+  "high-end": "at the high end",
+  mixed: "in a segment incumbents don't prize",
+};
+
+/**
+ * The predicted outcome as a noun phrase, plus caveats from the
+ * capabilities and constraints
+ */
+function predictOutcome(s: FrameworkSections, provided: AnalysisSection[]): { claim: string; caveats: string[] } {
+  const { innovationType, marketPosition, trajectory } = s.theLandscape;
+  const { canExecute, primaryBlocker } = s.theCapabilities.overallAssessment;
+  const hasCapabilities = provided.includes("theCapabilities");
+  const caveats: string[] = [];
+
+  let claim: string;
+  if (!provided.includes("theLandscape") || innovationType === "unclear") {
+    claim = "no confident outcome until the innovation is classified as sustaining or disruptive";
+  } else if (innovationType === "sustaining") {
+    claim = "a win for the best-resourced incumbents, as sustaining battles almost always are";
+    if (hasCapabilities) {
+      claim += canExecute
+        ? " - and this organization has the capabilities to be one of them"
+        : " - and this organization is not yet organized to be one of them";
+    }
+  } else if (hasCapabilities && (primaryBlocker === "priorities" || s.theCapabilities.priorities.alignment === "misaligned")) {
+    claim =
+      "slow starvation inside the mainstream organization: the opportunity fits an entrant's economics, not the current priorities, and succeeds only in an autonomous unit with its own cost structure";
+  } else {
+    claim = `a foothold ${FOOTHOLDS[marketPosition.segment]}, then steady movement upmarket as performance improves${
+      trajectory.projectedPath ? ` (${trajectory.projectedPath.replace(/\.$/, "")})` : ""
+    }, while incumbents rationally retreat rather than fight`;
+    if (hasCapabilities && (primaryBlocker === "resources" || primaryBlocker === "processes")) {
+      caveats.push(`${capitalize(primaryBlocker)} stand in the way and must be built or acquired first.`);
+    }
+  }
+
+  const risk = s.theConstraints.riskLevel;
+  if (provided.includes("theConstraints") && (risk === "high" || risk === "critical")) {
+    caveats.push(`Expect resource providers to pull against it: dependence risk is ${risk}.`);
+  }
+
+  return { claim, caveats };
+}
+
+/**
+ * What the prediction takes for granted
+ */
+function listAssumptions(s: FrameworkSections, provided: AnalysisSection[], primaryCase: CaseStudyReference): string[] {
+  const assumptions: string[] = [];
+  const { innovationType, classificationRationale } = s.theLandscape;
+  const { canExecute, primaryBlocker } = s.theCapabilities.overallAssessment;
+
+  if (provided.includes("theLandscape") && innovationType !== "unclear") {
+    assumptions.push(`It is ${TYPE_LABELS[innovationType]}${classificationRationale ? `: ${classificationRationale}` : ""}`);
+  }
+  if (provided.includes("theJob") && s.theJob.job) {
+    assumptions.push(`The job to be done: ${s.theJob.job}`);
+  }
+  if (provided.includes("theCapabilities")) {
+    assumptions.push(
+      `The organization ${canExecute ? "can" : "cannot yet"} execute${
+        primaryBlocker !== "none" ? `, with ${primaryBlocker} as the primary blocker` : ""
+      }`
+    );
+  }
+  if (provided.includes("theConstraints")) {
+    assumptions.push(`Resource dependence risk is ${s.theConstraints.riskLevel}`);
+  }
+  if (primaryCase.name) {
+    assumptions.push(`${primaryCase.name} is a fair analogy`);
+  }
+  return assumptions;
+}
+
+/**
+ * What makes this case potentially different from the theory's script
+ */
+function listConsiderations(
+  tensions: AnalysisTension[],
+  provided: AnalysisSection[],
+  primaryCase: CaseStudyReference
+): string[] {
+  const considerations = tensions.map((t) => t.description);
+
+  if (!primaryCase.name) {
+    considerations.push("No case study matches closely - this may be a situation the canonical cases don't cover.");
+  } else {
+    if (primaryCase.matchStrength === "low") {
+      considerations.push(`The closest case, ${primaryCase.name}, is only a weak match - this situation may be genuinely different.`);
+    }
+    const question = findCaseByName(primaryCase.name)?.questionsToAsk[0];
+    if (question) considerations.push(`From ${primaryCase.name}: ${question}`);
+  }
+
+  for (const section of Object.keys(SECTION_TITLES) as AnalysisSection[]) {
+    if (!provided.includes(section)) {
+      considerations.push(`No ${SECTION_TITLES[section]} analysis yet - the synthesis rests on the other frameworks.`);
+    }
+  }
+  return considerations;
+}
+
+// ============================================================
+// Narrative
+// ============================================================
+
+/**
+ * Open with a voice phrase that trails off ("The theory would
+ * predict..."), or with a plain fallback
+ */
+function lead(phrases: string[], pattern: RegExp, fallback: string, rest: string): string {
+  const phrase = phrases.find((p) => pattern.test(p) && p.endsWith("..."));
+  return `${phrase ? phrase.slice(0, -3) : fallback} ${rest}`;
+}
+
+/**
+ * Short summary in the persona's voice, built from its characteristic
+ * phrases
+ */
+function narrate(
+  analysis: ChristensenAnalysis,
+  tensions: AnalysisTension[],
+  claim: string,
+  caveats: string[],
+  phrases: string[]
+): string {
+  const paragraphs: string[] = [];
+  const { primaryCase } = analysis.thePattern;
+
+  if (primaryCase.name) {
+    paragraphs.push(sentence(lead(phrases, /pattern|seen this/i, "This reminds me of", `${primaryCase.name} - ${primaryCase.pattern.toLowerCase()}`)));
+  }
+
+  const jobQuestion = phrases.find((p) => /job/i.test(p) && p.endsWith("?")) ?? "What job is the customer hiring this to do?";
+  paragraphs.push(analysis.theJob.job ? `${jobQuestion} Here: ${sentence(analysis.theJob.job)}` : `${jobQuestion} That is still the open question.`);
+
+  paragraphs.push([sentence(lead(phrases, /predict/i, "The theory suggests", claim)), ...caveats].join(" "));
+
+  if (tensions.length > 0) {
+    const nuance = phrases.find((p) => /nuance|interpretation/i.test(p));
+    paragraphs.push([nuance ? sentence(nuance) : "", tensions[0].description, tensions[0].question].filter(Boolean).join(" "));
+  } else {
+    const closing = phrases.find((p) => /good theory/i.test(p));
+    if (closing) paragraphs.push(sentence(closing));
+  }
+
+  return paragraphs.join("\n\n");
+}
+
+// ============================================================
+// Synthesis
+// ============================================================
+
+export interface SynthesisOptions {
+  /** Characteristic phrases of the persona narrating the summary */
+  voicePhrases?: string[];
+}
+
+/**
+ * Assemble a ChristensenAnalysis from whichever framework sections are
+ * available. Missing sections start from their empty templates and are
+ * treated as absent: they don't trigger tensions, and they count against
+ * confidence. Each section's confidence, and the prediction's, is computed
+ * by the confidence assessors.
+ */
+export async function synthesizeFrameworkAnalyses(input: SynthesisInput, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+  const provided = (Object.keys(SECTION_TITLES) as AnalysisSection[]).filter((s) => input[s] !== undefined);
+  const sections: FrameworkSections = structuredClone({
+    theJob: input.theJob ?? createEmptyJTBDAnalysis(),
+    theLandscape: input.theLandscape ?? createEmptyDisruptionAnalysis(),
+    theCapabilities: input.theCapabilities ?? createEmptyCPPAnalysis(),
+    theConstraints: input.theConstraints ?? createEmptyResourceDependenceAnalysis(),
+  });
+
+  const tensions = detectTensions(sections, provided);
+  const [primaryCase = NO_CASE, ...secondaryCases] = await matchPattern(input.context, sections);
+  if (sections.theLandscape.caseStudyParallels.length === 0 && primaryCase.name) {
+    sections.theLandscape.caseStudyParallels = [primaryCase, ...secondaryCases];
+  }
+
+  const { claim, caveats } = predictOutcome(sections, provided);
+  const whatCouldChange = [...new Set([...sections.theLandscape.trajectory.keyFactors, ...sections.theJob.firingRisks])];
+
+  const analysis: ChristensenAnalysis = {
+    context: input.context,
+    ...sections,
+    thePattern: {
+      primaryCase,
+      secondaryCases,
+      patternSummary: summarizePattern(primaryCase, sections.theLandscape.innovationType),
+    },
+    thePrediction: {
+      mostLikelyOutcome: [sentence(capitalize(claim)), ...caveats].join(" "),
+      confidence: "uncertain",
+      keyAssumptions: listAssumptions(sections, provided, primaryCase),
+      whatCouldChange,
+    },
+    theConsideration: listConsiderations(tensions, provided, primaryCase),
+    narrativeSummary: "",
+  };
+
+  // Absent sections are assessed as missing, not as their empty templates
+  const confidence = assessAnalysisConfidence({
+    ...analysis,
+    ...Object.fromEntries((Object.keys(SECTION_TITLES) as AnalysisSection[]).map((s) => [s, provided.includes(s) ? analysis[s] : undefined])),
+  });
+  for (const section of provided) {
+    analysis[section].confidence = confidence.sections[section].confidence;
+  }
+  // Unresolved tensions rule out high confidence in the prediction
+  analysis.thePrediction.confidence =
+    tensions.length > 0 && confidence.confidence === "high" ? "medium" : confidence.confidence;
+
+  analysis.narrativeSummary = narrate(analysis, tensions, claim, caveats, options.voicePhrases ?? []);
+
+  return { analysis, tensions, confidence };
+}
@@ -33,6 +33,14 @@ export interface CaseStudyReference {
   pattern: string;
   relevance: string;
   matchStrength: ConfidenceLevel;
+  /** Combined retrieval score (0-1), when matched by the case index */
+  score?: number;
+  /** BM25 component of the score */
+  lexicalScore?: number;
+  /** Embedding-similarity component of the score */
+  semanticScore?: number;
+  /** Terms the lexical match was based on */
+  matchedTerms?: string[];
 }
 
 // ============================================================
@@ -166,6 +174,110 @@ export interface DisruptionAnalysis {
   confidence: ConfidenceLevel;
 }
 
+/**
+ * Answer to one of the classification questions
+ */
+export type ClassificationAnswer = "yes" | "partly" | "no" | "unknown";
+
+/**
+ * Identifiers for the classification questions (CLASSIFICATION_QUESTIONS)
+ */
+export type ClassificationQuestionId =
+  | "improvesExistingDimensions" // Better on dimensions incumbents compete on?
+  | "worseOnTraditionalMetrics" // Worse on traditional metrics, better on new ones?
+  | "bestCustomersWantIt" // Would the incumbent's best customers want it?
+  | "needsDifferentBusinessModel"; // Needs a different business model to profit?
+
+/**
+ * Signal families scored by the innovation classifier
+ */
+export type SignalFamily = "sustaining" | "low-end" | "new-market";
+
+/**
+ * One piece of evidence behind a classification
+ */
+export interface SignalEvidence {
+  family: SignalFamily;
+
+  /** Signal from the family's signal list */
+  signal: string;
+
+  /** Whether it came from a question answer or a free-text observation */
+  source: "answer" | "observation";
+
+  /** The answer or observation text that triggered the signal */
+  evidence: string;
+
+  /** Contribution to the family score */
+  weight: number;
+}
+
+/**
+ * Deterministic innovation classification
+ */
+export interface InnovationClassification {
+  innovationType: InnovationType;
+
+  /** Total weight per signal family */
+  scores: Record<SignalFamily, number>;
+
+  evidence: SignalEvidence[];
+
+  /** Signal phrases negated in the innovation or observations; not scored */
+  negated: NegatedSignal[];
+
+  rationale: string;
+
+  confidence: ConfidenceLevel;
+}
+
+/**
+ * Where a signal phrase was found in the input
+ */
+export interface SignalSpan {
+  /** Input field, e.g. "decision" or "market.customerSegments[0]" */
+  field: string;
+
+  /** Character offsets of the phrase within the field */
+  start: number;
+  end: number;
+
+  /** The matched phrase */
+  text: string;
+}
+
+/**
+ * A disruption signal found in free text, with every span that produced it
+ */
+export interface ExtractedSignal {
+  family: SignalFamily;
+
+  /** Signal from the family's signal list */
+  signal: string;
+
+  spans: SignalSpan[];
+}
+
+/**
+ * A signal phrase that was negated in the input ("not cheaper")
+ */
+export interface NegatedSignal {
+  family: SignalFamily;
+  signal: string;
+  span: SignalSpan;
+
+  /** The negating word */
+  negation: string;
+}
+
+/**
+ * Result of extracting signals from a decision and its context
+ */
+export interface SignalExtraction {
+  signals: ExtractedSignal[];
+  negated: NegatedSignal[];
+}
+
 // ============================================================
 // Capabilities-Processes-Priorities (CPP) Framework
 // ============================================================
@@ -248,6 +360,82 @@ export interface CPPAnalysis {
   confidence: ConfidenceLevel;
 }
 
+/**
+ * A layer of the CPP model
+ */
+export type CapabilityLayer = "resources" | "processes" | "priorities";
+
+/**
+ * Weights for the capability blocker scoring model
+ */
+export interface BlockerWeights {
+  /** Multiplier on each layer's score - harder-to-change layers count for more */
+  layers: Record<CapabilityLayer, number>;
+
+  /** Per listed item; negative weights count in the layer's favor */
+  items: {
+    missingResource: number;
+    acquirableResource: number;
+    hinderingProcess: number;
+    supportingProcess: number;
+    requiredProcessChange: number;
+    requiredPriorityShift: number;
+  };
+
+  /** By assessed level */
+  flexibility: Record<ResourceAssessment["flexibility"], number>;
+  rigidity: Record<ProcessAssessment["rigidity"], number>;
+  alignment: Record<PrioritiesAssessment["alignment"], number>;
+
+  /** Weighted score at or above which a layer blocks execution */
+  blockingThreshold: number;
+}
+
+/**
+ * One piece of evidence behind a layer's blocker score
+ */
+export interface BlockerEvidence {
+  /** Analysis field, e.g. "processes.hindering[0]" */
+  field: string;
+
+  /** What was found, e.g. "Hindering process: annual planning cycle" */
+  evidence: string;
+
+  /** Contribution to the layer's raw score */
+  weight: number;
+}
+
+/**
+ * Blocker score for one layer
+ */
+export interface LayerDiagnosis {
+  /** Sum of evidence weights, never below 0 */
+  rawScore: number;
+
+  /** Raw score times the layer weight */
+  score: number;
+
+  blocking: boolean;
+  evidence: BlockerEvidence[];
+}
+
+/**
+ * Explainable verdict on which CPP layer blocks execution
+ */
+export interface CapabilityDiagnosis {
+  layers: Record<CapabilityLayer, LayerDiagnosis>;
+
+  /** Blocking layers, highest score first */
+  blockers: CapabilityLayer[];
+
+  primaryBlocker: CPPAnalysis["overallAssessment"]["primaryBlocker"];
+  canExecute: boolean;
+  rationale: string;
+
+  /** The weights the scores were computed with */
+  weights: BlockerWeights;
+}
+
 // ============================================================
 // Resource Dependence Framework
 // ============================================================
@@ -292,6 +480,516 @@ export interface ResourceDependenceAnalysis {
   confidence: ConfidenceLevel;
 }
 
+// ============================================================
+// Interdependence vs Modularity Framework
+// ============================================================
+
+/**
+ * Whether the product's performance satisfies what customers can use
+ */
+export type PerformanceGap = "not-good-enough" | "more-than-good-enough" | "unclear";
+
+/**
+ * How the product or value chain is put together
+ */
+export type ArchitectureType = "interdependent" | "modular" | "mixed" | "unclear";
+
+/**
+ * Interfaces between the components or stages of the value chain
+ */
+export interface InterfaceAssessment {
+  /** Interfaces that are specifiable, verifiable and predictable */
+  modular: string[];
+
+  /** Interfaces where each side's design depends on the other */
+  interdependent: string[];
+}
+
+/**
+ * Complete interdependence vs modularity analysis
+ */
+export interface ModularityAnalysis {
+  /** Is performance not good enough, or more than good enough? */
+  performanceGap: PerformanceGap;
+
+  /** Why the gap is what it is */
+  gapRationale: string;
+
+  /** What customers currently choose on (functionality, reliability, speed, price...) */
+  basisOfCompetition: string;
+
+  /** Dimensions where customers still need more */
+  notGoodEnoughDimensions: string[];
+
+  /** Dimensions that have overshot what customers can use */
+  overshotDimensions: string[];
+
+  /** Interfaces in the product or value chain */
+  interfaces: InterfaceAssessment;
+
+  /** How the product or chain is built today */
+  currentArchitecture: ArchitectureType;
+
+  /** The architecture the theory would predict wins in this circumstance */
+  favoredArchitecture: ArchitectureType;
+
+  /** Where integration or modularization is heading in the value chain */
+  valueChainEvolution: string;
+
+  /** What this means for platform and integration decisions */
+  strategicImplications: string[];
+
+  /** Confidence in this analysis */
+  confidence: ConfidenceLevel;
+}
+
+// ============================================================
+// Conservation of Attractive Profits Framework
+// ============================================================
+
+/**
+ * Whether a value chain stage is commoditizing or still not good enough
+ */
+export type StageStatus = "commoditizing" | "not-good-enough" | "unclear";
+
+/**
+ * A value chain stage as described, before it is flagged
+ */
+export interface StageDescription {
+  /** Name of the stage (e.g. "Microprocessors", "PC assembly") */
+  stage: string;
+
+  /** What is known about the stage */
+  description?: string;
+}
+
+/**
+ * A value chain stage flagged from its description
+ */
+export interface ValueChainStage {
+  stage: string;
+  description: string;
+  status: StageStatus;
+
+  /** Matched phrases and the signal each points to */
+  evidence: string[];
+}
+
+/**
+ * A predicted move of attractive profits between stages
+ */
+export interface ProfitShift {
+  /** The commoditizing stage profits leave */
+  from: string;
+
+  /** The not-good-enough stage profits move to */
+  to: string;
+
+  rationale: string;
+}
+
+/**
+ * Complete conservation of attractive profits analysis
+ */
+export interface AttractiveProfitsAnalysis {
+  /** Value chain stages in order, upstream first */
+  stages: ValueChainStage[];
+
+  /** Predicted profit migration */
+  profitShifts: ProfitShift[];
+
+  /** Where attractive profits are earned today */
+  currentProfitPool: string;
+
+  /** Where attractive profits will be earned as the chain evolves */
+  futureProfitPool: string;
+
+  /** What this means for where to compete in the chain */
+  positioningImplications: string[];
+
+  /** Confidence in this analysis */
+  confidence: ConfidenceLevel;
+}
+
+// ============================================================
+// Business Model Framework
+// ============================================================
+
+/**
+ * The four boxes of a business model
+ */
+export type BusinessModelElement = "valueProposition" | "keyResources" | "keyProcesses" | "profitFormula";
+
+/**
+ * What the business offers, to whom, for which job
+ */
+export interface CustomerValueProposition {
+  /** Who the customer is */
+  targetCustomer: string;
+
+  /** The job the customer needs done */
+  jobToBeDone: string;
+
+  /** What is offered to get the job done */
+  offering: string;
+}
+
+/**
+ * How the business makes money for itself
+ */
+export interface ProfitFormula {
+  /** Price x volume: how revenue is earned */
+  revenueModel: string;
+
+  /** Direct costs, overhead and scale economies */
+  costStructure: string;
+
+  /** Contribution each transaction must make to cover costs and profit */
+  marginModel: string;
+
+  /** How fast resources must turn over (inventory, assets, cash) */
+  resourceVelocity: string;
+}
+
+/**
+ * A four-box business model
+ */
+export interface BusinessModel {
+  valueProposition: CustomerValueProposition;
+
+  /** People, technology, products, facilities, brand, cash */
+  keyResources: string[];
+
+  /** Recurring ways of working, rules and norms */
+  keyProcesses: string[];
+
+  profitFormula: ProfitFormula;
+}
+
+/**
+ * How one field differs between the incumbent and the required model
+ */
+export interface BusinessModelDifference {
+  element: BusinessModelElement;
+
+  /** Field path within the model (e.g. "profitFormula.marginModel") */
+  field: string;
+
+  incumbent: string;
+  required: string;
+
+  /** Word overlap for text, share of required items matched for lists (0-1) */
+  similarity: number;
+
+  changed: boolean;
+
+  /** Required list items the incumbent model lacks */
+  newRequirements: string[];
+}
+
+/**
+ * Whether an opportunity fits the incumbent business model
+ */
+export type BusinessModelFit = "fits" | "stretch" | "new-model" | "unclear";
+
+/**
+ * Contrast of the incumbent business model with the one an opportunity requires
+ */
+export interface BusinessModelComparison {
+  /** Fields filled in on both sides, compared */
+  differences: BusinessModelDifference[];
+
+  /** Elements with at least one changed field */
+  changedElements: BusinessModelElement[];
+
+  fit: BusinessModelFit;
+  rationale: string;
+}
+
+// ============================================================
+// Deliberate vs Emergent Strategy Framework
+// ============================================================
+
+/**
+ * Which strategy process the evidence favors
+ */
+export type StrategyMode = "deliberate" | "emergent" | "balanced" | "unclear";
+
+/**
+ * How a plan assumption has held up against observed market behavior
+ */
+export type AssumptionStatus = "untested" | "confirmed" | "contradicted" | "contested";
+
+/**
+ * What an observation says about the assumption it tests
+ */
+export type ObservationVerdict = "supports" | "contradicts" | "inconclusive";
+
+/**
+ * An assumption the deliberate plan rests on, as stated
+ */
+export interface PlanAssumption {
+  /** Identifier observations refer to; defaults to its position ("A1", "A2", ...) */
+  id?: string;
+
+  assumption: string;
+
+  /** What the market should do if the assumption holds */
+  expected?: string;
+}
+
+/**
+ * Market behavior observed since the plan was made
+ */
+export interface MarketObservation {
+  /** The assumption this tests; without one, the plan did not anticipate it */
+  assumptionId?: string;
+
+  observed: string;
+
+  /** Whether it supports or contradicts the assumption (default: inconclusive) */
+  verdict?: ObservationVerdict;
+
+  /** When it was observed */
+  observedAt?: string;
+}
+
+/**
+ * Structured record of plan assumptions and observed market behavior
+ */
+export interface StrategyRecord {
+  assumptions: PlanAssumption[];
+  observations: MarketObservation[];
+}
+
+/**
+ * A plan assumption with the observations that tested it
+ */
+export interface TrackedAssumption {
+  id: string;
+  assumption: string;
+  expected: string;
+  observations: MarketObservation[];
+  status: AssumptionStatus;
+}
+
+/**
+ * Plan assumptions versus observed market behavior, and the strategy
+ * process the comparison favors
+ */
+export interface StrategyTracker {
+  assumptions: TrackedAssumption[];
+
+  /** Observations no assumption anticipated */
+  unanticipated: MarketObservation[];
+
+  recommendedMode: StrategyMode;
+  rationale: string;
+}
+
+/**
+ * Where resources are said to go versus where they actually go
+ */
+export interface ResourceAllocationAssessment {
+  /** Priorities as stated in the plan */
+  statedPriorities: string[];
+
+  /** Where money, people and attention actually go */
+  actualAllocation: string[];
+
+  /** Gaps between the two - the strategy actually being pursued */
+  misalignments: string[];
+}
+
+/**
+ * Complete deliberate vs emergent strategy analysis
+ */
+export interface EmergentStrategyAnalysis {
+  /** The deliberate strategy as planned */
+  intendedStrategy: string;
+
+  /** Opportunities the plan anticipated */
+  anticipatedOpportunities: string[];
+
+  /** Opportunities the market presented that the plan did not */
+  unanticipatedOpportunities: string[];
+
+  /** The resource allocation process - the real strategy */
+  resourceAllocation: ResourceAllocationAssessment;
+
+  /** Plan assumptions versus observed market behavior */
+  tracker: StrategyTracker;
+
+  /** What this means for sticking to the plan or following the signals */
+  strategicImplications: string[];
+
+  /** Confidence in this analysis */
+  confidence: ConfidenceLevel;
+}
+
+// ============================================================
+// Discovery-Driven Planning Framework
+// ============================================================
+
+/**
+ * Key unit economics of a new venture
+ */
+export interface UnitEconomics {
+  /** Revenue per unit sold */
+  unitPrice: number;
+
+  /** Variable cost to deliver one unit */
+  unitCost: number;
+}
+
+/**
+ * A resource the venture needs more of as volume grows
+ */
+export interface OperationalDriver {
+  /** What is needed (e.g. "Salespeople", "Delivery vans") */
+  resource: string;
+
+  /** Units each one can handle */
+  unitsPerResource: number;
+
+  /** Cost of each one */
+  costPerResource: number;
+}
+
+/**
+ * A cost that does not grow with volume
+ */
+export interface FixedCost {
+  item: string;
+  amount: number;
+}
+
+/**
+ * What a discovery-driven plan starts from: the profit the venture must
+ * make and the assumptions that are supposed to deliver it
+ */
+export interface DiscoveryPlanInput {
+  /** Profit the venture must make to be worth doing */
+  targetProfit: number;
+
+  /** Required return on sales (0-1) */
+  returnOnSales: number;
+
+  unitEconomics: UnitEconomics;
+  operations: OperationalDriver[];
+  fixedCosts: FixedCost[];
+}
+
+/**
+ * Income statement worked backwards from the required profit
+ */
+export interface ReverseIncomeStatement {
+  requiredProfit: number;
+  returnOnSales: number;
+
+  /** Required profit divided by the required return on sales */
+  requiredRevenue: number;
+
+  /** Required revenue less required profit */
+  allowableCosts: number;
+
+  /** Units to sell at the assumed price */
+  requiredUnits: number;
+
+  /** Costs the assumptions imply */
+  variableCosts: number;
+  operatingCosts: number;
+  fixedCosts: number;
+  totalCosts: number;
+
+  /** Allowable costs less the costs the assumptions imply; negative when the target is out of reach */
+  headroom: number;
+}
+
+/**
+ * What the venture must put in place to deliver the required units
+ */
+export interface OperationalRequirement {
+  resource: string;
+
+  /** How many are needed */
+  required: number;
+
+  cost: number;
+
+  /** How the requirement was derived */
+  derivation: string;
+}
+
+/**
+ * Which number in the plan an assumption sets
+ */
+export type PlanningAssumptionKind = "unit-price" | "unit-cost" | "capacity" | "resource-cost" | "fixed-cost";
+
+/**
+ * One assumption on the checklist, ranked by how much it matters
+ */
+export interface AssumptionChecklistItem {
+  /** 1 is the assumption that matters most */
+  rank: number;
+
+  /** Identifier used to update the assumption */
+  id: string;
+
+  kind: PlanningAssumptionKind;
+  assumption: string;
+  value: number;
+
+  /** Headroom lost if the assumption turns out 10% worse */
+  impact: number;
+
+  /** Milestone at which the assumption gets tested */
+  milestone: string;
+}
+
+/**
+ * A checkpoint at which assumptions are tested before more is committed
+ */
+export interface PlanMilestone {
+  milestone: string;
+
+  /** What the milestone tests */
+  test: string;
+
+  /** Ids of the assumptions tested here, highest ranked first */
+  assumptions: string[];
+}
+
+/**
+ * A new value for an assumption, learned at a milestone
+ */
+export interface AssumptionUpdate {
+  id: string;
+  value: number;
+}
+
+/**
+ * An applied update, with the value it replaced
+ */
+export interface AssumptionRevision extends AssumptionUpdate {
+  previousValue: number;
+}
+
+/**
+ * Complete discovery-driven plan
+ */
+export interface DiscoveryDrivenPlan {
+  statement: ReverseIncomeStatement;
+  requirements: OperationalRequirement[];
+  checklist: AssumptionChecklistItem[];
+  milestones: PlanMilestone[];
+
+  /** Whether the assumptions can deliver the required profit */
+  viable: boolean;
+
+  rationale: string;
+}
+
 // ============================================================
 // Combined Decision Analysis
 // ============================================================
@@ -316,6 +1014,15 @@ export interface ChristensenAnalysis {
   /** Resource dependence constraints */
   theConstraints: ResourceDependenceAnalysis;
 
+  /** Interdependence vs modularity, when that focus area was requested */
+  theArchitecture?: ModularityAnalysis;
+
+  /** Conservation of attractive profits, when that focus area was requested */
+  theProfits?: AttractiveProfitsAnalysis;
+
+  /** Deliberate vs emergent strategy, when that focus area was requested */
+  theStrategy?: EmergentStrategyAnalysis;
+
   /** Historical pattern match */
   thePattern: {
     primaryCase: CaseStudyReference;
@@ -338,6 +1045,125 @@ export interface ChristensenAnalysis {
   narrativeSummary: string;
 }
 
+// ============================================================
+// Confidence Assessment
+// ============================================================
+
+/**
+ * An analysis as filled in so far - every field optional, at any depth
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Something that lowered confidence in an analysis
+ */
+export interface ConfidenceIssue {
+  /** Field path, e.g. "marketPosition.incumbentFocus" */
+  field: string;
+
+  /** A field left empty, or fields that disagree with each other */
+  kind: "missing" | "contradiction";
+
+  message: string;
+
+  /** Share of the 0-1 score this issue cost */
+  penalty: number;
+}
+
+/**
+ * Confidence in an analysis, with the reasons it isn't higher
+ */
+export interface ConfidenceAssessment {
+  confidence: ConfidenceLevel;
+
+  /** Completeness after contradiction penalties, 0-1 */
+  score: number;
+
+  /** Issues that lowered the score, costliest first */
+  issues: ConfidenceIssue[];
+}
+
+/**
+ * Framework sections of a combined analysis
+ */
+export type AnalysisSection = "theJob" | "theLandscape" | "theCapabilities" | "theConstraints";
+
+/**
+ * Framework sections a combined analysis carries only when their focus
+ * area was requested
+ */
+export type OptionalAnalysisSection = "theArchitecture" | "theProfits" | "theStrategy";
+
+/**
+ * Confidence in a combined analysis, rolled up from its sections
+ */
+export interface AnalysisConfidenceAssessment extends ConfidenceAssessment {
+  /** Assessment of each framework section on its own; optional sections only when present */
+  sections: Record<AnalysisSection, ConfidenceAssessment> &
+    Partial<Record<OptionalAnalysisSection, ConfidenceAssessment>>;
+}
+
+// ============================================================
+// Synthesis
+// ============================================================
+
+/**
+ * Findings from two or more frameworks that pull against each other
+ */
+export interface AnalysisTension {
+  /** Stable identifier, e.g. "disruption-vs-priorities" */
+  id: string;
+
+  /** Sections whose findings conflict */
+  sections: AnalysisSection[];
+
+  description: string;
+
+  /** The question that would resolve it */
+  question: string;
+}
+
+/**
+ * A combined analysis assembled from the framework sections
+ */
+export interface SynthesisResult {
+  analysis: ChristensenAnalysis;
+  tensions: AnalysisTension[];
+
+  /** Confidence roll-up behind thePrediction.confidence */
+  confidence: AnalysisConfidenceAssessment;
+}
+
+// ============================================================
+// Answer Parsing
+// ============================================================
+
+/**
+ * A section of an answer that could not be turned into structure
+ */
+export interface UnparsedSection {
+  section: string;
+  reason: string;
+}
+
+/**
+ * A framework analysis parsed from a free-text answer
+ */
+export interface ParsedFrameworkAnswer<T> {
+  /** The analysis, starting from the framework's empty template */
+  analysis: T;
+
+  /** Prompt sections that filled at least one field */
+  parsed: string[];
+
+  /** Sections that were missing, empty or not part of the prompt */
+  unparsed: UnparsedSection[];
+}
+
 // ============================================================
 // Input Types for Tools
 // ============================================================
@@ -367,8 +1193,22 @@ export interface DecisionAnalysisInput {
     customerSegments?: string[];
   };
 
+  /** Value chain stages in order, upstream first */
+  valueChain?: StageDescription[];
+
+  /** Plan assumptions and observed market behavior */
+  strategyRecord?: StrategyRecord;
+
   /** Specific aspects to focus on */
-  focusAreas?: ("jtbd" | "disruption" | "cpp" | "resource-dependence")[];
+  focusAreas?: (
+    | "jtbd"
+    | "disruption"
+    | "cpp"
+    | "resource-dependence"
+    | "modularity"
+    | "attractive-profits"
+    | "emergent-strategy"
+  )[];
 }
 
 /**
@@ -384,3 +1224,44 @@ export interface CaseStudyInput {
   /** Industry or domain */
   industry?: string;
 }
+
+/**
+ * Input for innovation classification tool
+ */
+export interface InnovationClassificationInput {
+  /** The innovation to classify */
+  innovation: string;
+
+  /** Answers to the classification questions */
+  answers?: Partial<Record<ClassificationQuestionId, ClassificationAnswer>>;
+
+  /** Free-text observations about the market, customers or incumbents */
+  observations?: string[];
+}
+
+export interface SignalExtractionInput {
+  /** The decision or situation */
+  decision: string;
+
+  /** Additional free-text context */
+  context?: string;
+
+  /** Organization details, e.g. type, industry, current focus */
+  organization?: Record<string, string | undefined>;
+
+  /** Market details, e.g. incumbents, competitors, customer segments */
+  market?: Record<string, string[] | undefined>;
+}
+
+/**
+ * Input for the synthesis engine: whichever framework sections are done
+ */
+export interface SynthesisInput {
+  /** The decision or situation being analyzed */
+  context: string;
+
+  theJob?: JTBDAnalysis;
+  theLandscape?: DisruptionAnalysis;
+  theCapabilities?: CPPAnalysis;
+  theConstraints?: ResourceDependenceAnalysis;
+}
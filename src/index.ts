@@ -11,146 +11,94 @@
  * - analyze_decision: Full strategic analysis using all frameworks
  * - case_study: Find and explore relevant case studies
  * - get_framework: Learn about specific frameworks
+ * - classify_innovation: Deterministic sustaining/disruptive classification
+ * - assess_confidence: Completeness/consistency confidence for an analysis
+ * - synthesize_analysis: Combine framework analyses into one Christensen analysis
+ * - parse_framework_answer: Free-text framework answers into structured analyses
+ * - diagnose_capabilities: Explainable, weighted CPP blocker diagnosis
+ * - compare_business_models: Incumbent vs required four-box business model
+ * - plan_discovery: Discovery-driven plan with a ranked assumption checklist
+ *
+ * Prompts:
+ * - christensen_persona, decision_analysis, per-framework analysis
+ *   prompts and Christensen-style inquiries
+ *
+ * Resources:
+ * - christensen://case/{caseName}
+ * - christensen://framework/{framework}/{detail}
+ * - christensen://persona/{personaId}
+ *
+ * Transports:
+ * - stdio (default)
+ * - Streamable HTTP: --transport http [--port 3000] [--host 127.0.0.1]
+ *   or CHRISTENSEN_TRANSPORT / CHRISTENSEN_PORT / CHRISTENSEN_HOST
+ *
+ * Personas:
+ * - Bundled in dist/personas; override or add personas with
+ *   --persona-dir <path> or CHRISTENSEN_PERSONA_DIR
+ * - Hot reload on file changes: --watch-personas or CHRISTENSEN_WATCH_PERSONAS=1
+ *
+ * Case studies:
+ * - Bundled in dist/case-library/cases; add or replace cases with
+ *   --case-dir <path> (repeatable) or CHRISTENSEN_CASE_DIRS
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
 
-import {
-  analyzeDecision,
-  getAnalyzeDecisionToolDefinition,
-  findCaseStudy,
-  getCaseStudyToolDefinition,
-  listCaseStudies,
-  getFramework,
-  getFrameworkToolDefinition,
-} from "./tools/index.js";
+import { createServer } from "./server.js";
+import { loadConfig } from "./config.js";
+import { startHttpServer, MCP_PATH, HEALTH_PATH } from "./transports/http.js";
+import { listPrompts } from "./prompts/index.js";
+import { listPersonaIds, setPersonaOverrideDirectory } from "./persona-loader.js";
+import { watchPersonas } from "./persona-watcher.js";
+import { listCases, setCaseDirectories } from "./case-library/index.js";
 
 // ============================================================
-// Server Setup
+// Server Startup
 // ============================================================
 
-const server = new Server(
-  {
-    name: "christensen-mcp",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+async function main() {
+  const config = loadConfig();
+  setPersonaOverrideDirectory(config.personaDir);
+  setCaseDirectories(config.caseDirs);
+  // Load (and validate) the case library up front so bad files fail at startup
+  const cases = listCases();
+  if (config.watchPersonas) {
+    watchPersonas();
   }
-);
-
-// ============================================================
-// Tool Definitions
-// ============================================================
-
-const TOOLS = [
-  getAnalyzeDecisionToolDefinition(),
-  getCaseStudyToolDefinition(),
-  getFrameworkToolDefinition(),
-];
-
-// ============================================================
-// Request Handlers
-// ============================================================
-
-/**
- * Handle tools/list requests
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TOOLS,
-  };
-});
-
-/**
- * Handle tools/call requests
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "analyze_decision": {
-        const result = await analyzeDecision(args as any);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: result,
-            },
-          ],
-        };
-      }
-
-      case "case_study": {
-        // Handle special case: no situation provided = list all
-        if (!args || (!args.situation && !args.caseName)) {
-          const result = listCaseStudies();
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: result,
-              },
-            ],
-          };
-        }
-        const result = await findCaseStudy(args as any);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: result,
-            },
-          ],
-        };
-      }
 
-      case "get_framework": {
-        const result = await getFramework(args as any);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: result,
-            },
-          ],
-        };
-      }
+  if (config.transport === "http") {
+    const httpServer = await startHttpServer(config);
+    const base = `http://${config.host}:${config.port}`;
+    console.error(`Christensen MCP server running on ${base}${MCP_PATH}`);
+    console.error(`Health check: ${base}${HEALTH_PATH}`);
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Error: ${message}`,
-        },
-      ],
-      isError: true,
+    const shutdown = () => {
+      httpServer.close(() => process.exit(0));
+      httpServer.closeAllConnections();
     };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } else {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error("Christensen MCP server running on stdio");
   }
-});
 
-// ============================================================
-// Server Startup
-// ============================================================
-
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Christensen MCP server running on stdio");
-  console.error("Available tools: analyze_decision, case_study, get_framework");
+  console.error("Available tools: analyze_decision, case_study, get_framework, classify_innovation, assess_confidence, synthesize_analysis, parse_framework_answer, diagnose_capabilities, compare_business_models, plan_discovery");
+  console.error(`Available prompts: ${listPrompts().map((p) => p.name).join(", ")}`);
+  console.error(
+    `Available personas: ${listPersonaIds().join(", ")}` +
+      (config.personaDir ? ` (overrides from ${config.personaDir})` : "")
+  );
+  console.error(
+    `Case studies: ${cases.length}` +
+      (config.caseDirs.length > 0 ? ` (including ${config.caseDirs.join(", ")})` : "")
+  );
+  if (config.watchPersonas) {
+    console.error("Watching persona files for changes");
+  }
 }
 
 main().catch((error) => {
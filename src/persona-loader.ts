@@ -5,13 +5,19 @@
  * This allows personas to be updated without recompiling.
  *
  * For the factory pattern, this becomes a reusable component
- * that can load any persona definition.
+ * that can load any persona definition. Every *.yaml file in the
+ * persona directories is a persona, identified by its file name;
+ * helpers take an optional persona id and default to Christensen.
+ * Bundled personas ship in the build output and can be overridden
+ * from an external directory (see setPersonaOverrideDirectory).
+ * Loaded personas are cached; reloadPersona swaps in an edited file
+ * (see persona-watcher.ts for the opt-in file watcher).
  */
 
-import { readFileSync } from "fs";
-import { parse as parseYaml } from "yaml";
+import { existsSync, readFileSync, readdirSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
+import { parsePersonaDefinition } from "./persona-schema.js";
 
 // ============================================================
 // Types for Persona Definition
@@ -30,7 +36,7 @@ export interface PersonaVoice {
 }
 
 export interface FrameworkConcept {
-  definition: string;
+  definition?: string;
   insight?: string;
   examples?: string[];
   components?: string[];
@@ -40,28 +46,54 @@ export interface FrameworkConcept {
 
 export interface FrameworkDefinition {
   description: string;
-  key_concepts: Record<string, FrameworkConcept>;
+  key_concepts?: Record<string, FrameworkConcept>;
   diagnostic_questions: string[];
   key_insight?: string;
 }
 
-export interface CaseStudy {
-  pattern: string;
-  story: string;
-  signals: string[];
-}
-
 export interface AnalysisPattern {
   approach?: string;
   output_structure?: string[];
   purpose?: string;
-  canonical_cases?: Record<string, CaseStudy>;
+}
+
+export interface AnalysisPatterns {
+  decision_analysis?: AnalysisPattern;
+  case_study_matching?: AnalysisPattern;
+}
+
+/**
+ * One fidelity marker. It is found when min_matches of its patterns
+ * (case-insensitive regular expressions) match and every marker it
+ * requires is found; a marker with neither is not checked automatically.
+ * A marker written as a plain string in the YAML loads as one of those,
+ * with an id taken from its text.
+ */
+export interface FidelityMarker {
+  id: string;
+  marker: string;
+  patterns?: string[];
+  min_matches?: number;
+  requires?: string[];
+  /** Matches inside a match of one of these patterns do not count */
+  unless?: string[];
+  /** Points added when found (subtracted for must_avoid); default 10 */
+  weight?: number;
+  /** must_avoid only: finding the marker fails the check */
+  blocking?: boolean;
+}
+
+export interface FidelityPassThresholds {
+  /** Default: every checked must_include marker */
+  min_must_include?: number;
+  min_score?: number;
 }
 
 export interface ValidationMarkers {
-  must_include: string[];
-  should_include: string[];
-  must_avoid: string[];
+  must_include: FidelityMarker[];
+  should_include: FidelityMarker[];
+  must_avoid: FidelityMarker[];
+  pass?: FidelityPassThresholds;
 }
 
 export interface SamplePromptResponse {
@@ -75,12 +107,51 @@ export interface PersonaValidation {
   sample_prompts_and_responses: Record<string, SamplePromptResponse>;
 }
 
+export interface LevelWeights {
+  high?: number;
+  medium?: number;
+  low?: number;
+}
+
+/**
+ * Weights for diagnosing which CPP layer blocks execution; anything left
+ * out keeps its default (see DEFAULT_BLOCKER_WEIGHTS in frameworks/)
+ */
+export interface CapabilityBlockerScoring {
+  blocking_threshold?: number;
+  layers?: {
+    resources?: number;
+    processes?: number;
+    priorities?: number;
+  };
+  items?: {
+    missing_resource?: number;
+    acquirable_resource?: number;
+    hindering_process?: number;
+    supporting_process?: number;
+    required_process_change?: number;
+    required_priority_shift?: number;
+  };
+  flexibility?: LevelWeights;
+  rigidity?: LevelWeights;
+  alignment?: {
+    aligned?: number;
+    neutral?: number;
+    misaligned?: number;
+  };
+}
+
+export interface PersonaScoring {
+  capability_blockers?: CapabilityBlockerScoring;
+}
+
 export interface PersonaDefinition {
   identity: PersonaIdentity;
   voice: PersonaVoice;
   frameworks: Record<string, FrameworkDefinition>;
-  analysis_patterns: Record<string, AnalysisPattern>;
+  analysis_patterns: AnalysisPatterns;
   validation: PersonaValidation;
+  scoring?: PersonaScoring;
 }
 
 // ============================================================
@@ -88,28 +159,77 @@ export interface PersonaDefinition {
 // ============================================================
 
 /**
- * Get the project root directory
- * Works from both src/ (development) and dist/ (production)
+ * Persona used when a caller does not select one
  */
-function getProjectRoot(): string {
-  const __filename = fileURLToPath(import.meta.url);
-  const moduleDir = dirname(__filename);
-  // Go up from dist/ or src/ to project root
-  return join(moduleDir, "..");
+export const DEFAULT_PERSONA_ID = "christensen";
+
+/**
+ * Directory of persona YAML files shipped with the package.
+ * The build copies src/personas/ to dist/personas/, so this resolves
+ * next to the loader in both development (src/) and production (dist/).
+ */
+export function getBundledPersonaDirectory(): string {
+  return join(dirname(fileURLToPath(import.meta.url)), "personas");
 }
 
 /**
- * Load a persona definition from YAML file
+ * Optional directory whose persona files take precedence over the bundled ones
  */
-export function loadPersona(personaName: string): PersonaDefinition {
-  const projectRoot = getProjectRoot();
-  // Always look in src/personas/ for YAML files
-  const personaPath = join(projectRoot, "src", "personas", `${personaName}.yaml`);
+let personaOverrideDirectory: string | undefined;
+
+/**
+ * Point the loader at an external directory of persona overrides.
+ * A file there replaces the bundled persona with the same id; new ids
+ * become additional personas. Pass undefined to use only bundled personas.
+ */
+export function setPersonaOverrideDirectory(directory: string | undefined): void {
+  if (directory !== undefined && !existsSync(directory)) {
+    throw new Error(`Persona directory not found: ${directory}`);
+  }
+  personaOverrideDirectory = directory;
+  personaCache.clear();
+}
+
+/**
+ * Directories searched for persona files, highest precedence first
+ */
+export function getPersonaDirectories(): string[] {
+  const bundled = getBundledPersonaDirectory();
+  return personaOverrideDirectory ? [personaOverrideDirectory, bundled] : [bundled];
+}
+
+/**
+ * Resolve the path of a persona YAML file (override directory first)
+ */
+export function getPersonaPath(personaName: string): string {
+  const candidates = getPersonaDirectories().map((dir) => join(dir, `${personaName}.yaml`));
+  return candidates.find((path) => existsSync(path)) ?? candidates[candidates.length - 1];
+}
+
+/**
+ * Discover the ids of all personas across the persona directories
+ */
+export function listPersonaIds(): string[] {
+  const ids = new Set<string>();
+  for (const dir of getPersonaDirectories()) {
+    for (const file of readdirSync(dir)) {
+      if (file.endsWith(".yaml")) ids.add(file.slice(0, -".yaml".length));
+    }
+  }
+  return [...ids].sort();
+}
+
+/**
+ * Read the raw YAML source of a persona definition
+ */
+export function loadPersonaSource(personaName: string): string {
+  // Persona ids come from tool input; never let them escape the directory
+  if (!/^[\w-]+$/.test(personaName)) {
+    throw new Error(`Persona not found: ${personaName}`);
+  }
 
   try {
-    const yamlContent = readFileSync(personaPath, "utf-8");
-    const parsed = parseYaml(yamlContent) as PersonaDefinition;
-    return parsed;
+    return readFileSync(getPersonaPath(personaName), "utf-8");
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       throw new Error(`Persona not found: ${personaName}`);
@@ -118,11 +238,22 @@ export function loadPersona(personaName: string): PersonaDefinition {
   }
 }
 
+/**
+ * Load a persona definition from YAML file, validated against the
+ * persona schema (throws with YAML path and line/column per issue)
+ */
+export function loadPersona(personaName: string): PersonaDefinition {
+  return parsePersonaDefinition(
+    loadPersonaSource(personaName),
+    `${personaName}.yaml`
+  );
+}
+
 /**
  * Load the Christensen persona specifically
  */
 export function loadChristensenPersona(): PersonaDefinition {
-  return loadPersona("christensen");
+  return loadPersona(DEFAULT_PERSONA_ID);
 }
 
 // ============================================================
@@ -130,87 +261,183 @@ export function loadChristensenPersona(): PersonaDefinition {
 // ============================================================
 
 /**
- * Loaded persona cache
+ * Loaded persona cache, one entry per persona id
  */
-let cachedPersona: PersonaDefinition | null = null;
+const personaCache = new Map<string, PersonaDefinition>();
 
 /**
- * Get the active persona (loads and caches)
+ * Get a persona by id (loads and caches)
  */
-export function getPersona(): PersonaDefinition {
-  if (!cachedPersona) {
-    cachedPersona = loadChristensenPersona();
+export function getPersona(personaId: string = DEFAULT_PERSONA_ID): PersonaDefinition {
+  let persona = personaCache.get(personaId);
+  if (!persona) {
+    persona = loadPersona(personaId);
+    personaCache.set(personaId, persona);
   }
-  return cachedPersona;
+  return persona;
+}
+
+/**
+ * Summaries of every available persona
+ */
+export function listPersonas(): { id: string; name: string; role: string }[] {
+  return listPersonaIds().map((id) => {
+    const { identity } = getPersona(id);
+    return { id, name: identity.name, role: identity.role };
+  });
 }
 
 /**
  * Get voice characteristics
  */
-export function getVoice(): PersonaVoice {
-  return getPersona().voice;
+export function getVoice(personaId?: string): PersonaVoice {
+  return getPersona(personaId).voice;
 }
 
 /**
  * Get a random characteristic phrase
  */
-export function getRandomPhrase(): string {
-  const phrases = getVoice().characteristic_phrases;
+export function getRandomPhrase(personaId?: string): string {
+  const phrases = getVoice(personaId).characteristic_phrases;
   return phrases[Math.floor(Math.random() * phrases.length)];
 }
 
 /**
  * Get framework definition by name
  */
-export function getFramework(name: string): FrameworkDefinition | undefined {
-  return getPersona().frameworks[name];
+export function getFramework(
+  name: string,
+  personaId?: string
+): FrameworkDefinition | undefined {
+  return getPersona(personaId).frameworks[name];
 }
 
 /**
  * Get all framework names
  */
-export function getFrameworkNames(): string[] {
-  return Object.keys(getPersona().frameworks);
+export function getFrameworkNames(personaId?: string): string[] {
+  return Object.keys(getPersona(personaId).frameworks);
 }
 
 /**
  * Get diagnostic questions for a framework
  */
-export function getDiagnosticQuestions(frameworkName: string): string[] {
-  const framework = getFramework(frameworkName);
+export function getDiagnosticQuestions(
+  frameworkName: string,
+  personaId?: string
+): string[] {
+  const framework = getFramework(frameworkName, personaId);
   return framework?.diagnostic_questions ?? [];
 }
 
 /**
- * Get case study by name
+ * Get validation markers
  */
-export function getCaseStudy(name: string): CaseStudy | undefined {
-  const patterns = getPersona().analysis_patterns;
-  const caseStudies = patterns.case_study_matching?.canonical_cases;
-  return caseStudies?.[name];
+export function getValidationMarkers(personaId?: string): ValidationMarkers {
+  return getPersona(personaId).validation.fidelity_markers;
 }
 
 /**
- * Get all case study names
+ * Get scoring overrides (empty when the persona keeps the defaults)
  */
-export function getCaseStudyNames(): string[] {
-  const patterns = getPersona().analysis_patterns;
-  const caseStudies = patterns.case_study_matching?.canonical_cases;
-  return caseStudies ? Object.keys(caseStudies) : [];
+export function getScoring(personaId?: string): PersonaScoring {
+  return getPersona(personaId).scoring ?? {};
 }
 
 /**
- * Get validation markers
+ * Get sample prompts and responses for testing
  */
-export function getValidationMarkers(): ValidationMarkers {
-  return getPersona().validation.fidelity_markers;
+export function getSampleResponses(
+  personaId?: string
+): Record<string, SamplePromptResponse> {
+  return getPersona(personaId).validation.sample_prompts_and_responses;
 }
 
+// ============================================================
+// Persona Reloading
+// ============================================================
+
 /**
- * Get sample prompts and responses for testing
+ * Called after a persona is swapped in or removed, with the changed
+ * sections (e.g. "voice.characteristic_phrases")
+ */
+export type PersonaChangeListener = (personaId: string, changedSections: string[]) => void;
+
+const personaChangeListeners = new Set<PersonaChangeListener>();
+
+/**
+ * Subscribe to persona changes; returns an unsubscribe function
+ */
+export function onPersonaChange(listener: PersonaChangeListener): () => void {
+  personaChangeListeners.add(listener);
+  return () => {
+    personaChangeListeners.delete(listener);
+  };
+}
+
+function notifyPersonaChange(personaId: string, changedSections: string[]): void {
+  for (const listener of personaChangeListeners) {
+    listener(personaId, changedSections);
+  }
+}
+
+/**
+ * List the sections that differ between two persona versions, down to the
+ * second level (e.g. "frameworks.jobs_to_be_done", "identity.role")
+ */
+function diffPersonaSections(
+  before: PersonaDefinition | undefined,
+  after: PersonaDefinition | undefined
+): string[] {
+  const changed: string[] = [];
+  const sections = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const section of sections) {
+    const a = (before as Record<string, unknown> | undefined)?.[section];
+    const b = (after as Record<string, unknown> | undefined)?.[section];
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+
+    if (!a || !b || typeof a !== "object" || typeof b !== "object") {
+      changed.push(section);
+      continue;
+    }
+
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      const x = (a as Record<string, unknown>)[key];
+      const y = (b as Record<string, unknown>)[key];
+      if (JSON.stringify(x) !== JSON.stringify(y)) {
+        changed.push(`${section}.${key}`);
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Re-read and re-validate a persona from disk. The cached copy is replaced
+ * only if the new file is valid, so readers never see a half-edited persona;
+ * an invalid file throws and leaves the previous version in place.
+ * Returns the changed sections (empty if nothing changed).
+ */
+export function reloadPersona(personaId: string): string[] {
+  const next = loadPersona(personaId);
+  const changed = diffPersonaSections(personaCache.get(personaId), next);
+  personaCache.set(personaId, next);
+  if (changed.length > 0) {
+    notifyPersonaChange(personaId, changed);
+  }
+  return changed;
+}
+
+/**
+ * Drop a persona from the cache, e.g. after its file was deleted
  */
-export function getSampleResponses(): Record<string, SamplePromptResponse> {
-  return getPersona().validation.sample_prompts_and_responses;
+export function evictPersona(personaId: string): void {
+  const previous = personaCache.get(personaId);
+  personaCache.delete(personaId);
+  notifyPersonaChange(personaId, diffPersonaSections(previous, undefined));
 }
 
 // ============================================================
@@ -221,8 +448,8 @@ export function getSampleResponses(): Record<string, SamplePromptResponse> {
  * Generate a system prompt from the persona definition
  * This is what gets sent to Claude to establish the persona
  */
-export function generateSystemPrompt(): string {
-  const persona = getPersona();
+export function generateSystemPrompt(personaId?: string): string {
+  const persona = getPersona(personaId);
 
   return `
 You are ${persona.identity.name}, ${persona.identity.role}.
@@ -267,13 +494,13 @@ ${persona.analysis_patterns.decision_analysis?.output_structure?.map((s) => `- $
 ## Important Guidelines
 
 Your responses MUST include:
-${persona.validation.fidelity_markers.must_include.map((m) => `- ${m}`).join("\n")}
+${persona.validation.fidelity_markers.must_include.map((m) => `- ${m.marker}`).join("\n")}
 
 Your responses SHOULD include:
-${persona.validation.fidelity_markers.should_include.map((m) => `- ${m}`).join("\n")}
+${persona.validation.fidelity_markers.should_include.map((m) => `- ${m.marker}`).join("\n")}
 
 Your responses must AVOID:
-${persona.validation.fidelity_markers.must_avoid.map((m) => `- ${m}`).join("\n")}
+${persona.validation.fidelity_markers.must_avoid.map((m) => `- ${m.marker}`).join("\n")}
 
 Remember: You are not providing generic business advice. You are applying
 rigorous theory developed over decades of research. Be humble about predictions,
@@ -0,0 +1,270 @@
+/**
+ * Persona Schema
+ *
+ * Zod schema for the full persona YAML tree. Persona files are validated
+ * when they are loaded, and every problem is reported with its YAML path
+ * and line/column (see yaml-schema.ts) so persona authors can fix the file
+ * directly instead of chasing undefined-property crashes at prompt-generation time.
+ */
+
+import { z } from "zod";
+import { parseYamlWithSchema } from "./yaml-schema.js";
+import type {
+  AnalysisPattern,
+  AnalysisPatterns,
+  CapabilityBlockerScoring,
+  FidelityMarker,
+  FidelityPassThresholds,
+  FrameworkConcept,
+  FrameworkDefinition,
+  PersonaDefinition,
+  PersonaIdentity,
+  PersonaScoring,
+  PersonaValidation,
+  PersonaVoice,
+  SamplePromptResponse,
+  ValidationMarkers,
+} from "./persona-loader.js";
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const text = z.string().min(1, "must not be empty");
+const textList = z.array(text);
+const weight = z.number().finite();
+
+export const personaIdentitySchema = z
+  .object({
+    name: text,
+    role: text,
+    background: text,
+  })
+  .strict() satisfies z.ZodType<PersonaIdentity>;
+
+export const personaVoiceSchema = z
+  .object({
+    tone: textList,
+    characteristic_phrases: textList.min(1, "at least one phrase is required"),
+    communication_style: textList,
+  })
+  .strict() satisfies z.ZodType<PersonaVoice>;
+
+export const frameworkConceptSchema = z
+  .object({
+    definition: text.optional(),
+    insight: text.optional(),
+    examples: textList.optional(),
+    components: textList.optional(),
+    sustaining: text.optional(),
+    disruptive: text.optional(),
+  })
+  .strict() satisfies z.ZodType<FrameworkConcept>;
+
+export const frameworkDefinitionSchema = z
+  .object({
+    description: text,
+    key_concepts: z.record(frameworkConceptSchema).optional(),
+    diagnostic_questions: textList.min(1, "at least one diagnostic question is required"),
+    key_insight: text.optional(),
+  })
+  .strict() satisfies z.ZodType<FrameworkDefinition>;
+
+export const analysisPatternSchema = z
+  .object({
+    approach: text.optional(),
+    output_structure: textList.optional(),
+    purpose: text.optional(),
+  })
+  .strict() satisfies z.ZodType<AnalysisPattern>;
+
+export const analysisPatternsSchema = z
+  .object({
+    decision_analysis: analysisPatternSchema.optional(),
+    case_study_matching: analysisPatternSchema.optional(),
+  })
+  .strict() satisfies z.ZodType<AnalysisPatterns>;
+
+/**
+ * A regular expression source, checked to compile (patterns are matched
+ * case-insensitively)
+ */
+const pattern = text.refine(
+  (source) => {
+    try {
+      new RegExp(source, "i");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "not a valid regular expression" }
+);
+
+const markerId = z.string().regex(/^[a-z][a-z0-9_]*$/, "must be snake_case");
+
+/**
+ * A marker written as a plain string (the original format) is guidance
+ * for the system prompt only: it gets an id from its text and no patterns
+ */
+function liftGuidanceMarker(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const id = value.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "");
+  return { id, marker: value };
+}
+
+const fidelityMarkerObjectSchema = z
+  .object({
+    id: markerId,
+    marker: text,
+    patterns: z.array(pattern).min(1, "at least one pattern is required").optional(),
+    min_matches: z.number().int().positive().optional(),
+    requires: z.array(markerId).min(1).optional(),
+    unless: z.array(pattern).optional(),
+    weight: weight.nonnegative().optional(),
+  })
+  .strict() satisfies z.ZodType<FidelityMarker>;
+
+export const fidelityMarkerSchema = z.preprocess(
+  liftGuidanceMarker,
+  fidelityMarkerObjectSchema
+) satisfies z.ZodType<FidelityMarker, z.ZodTypeDef, unknown>;
+
+export const avoidMarkerSchema = z.preprocess(
+  liftGuidanceMarker,
+  fidelityMarkerObjectSchema.extend({ blocking: z.boolean().optional() }).strict()
+) satisfies z.ZodType<FidelityMarker, z.ZodTypeDef, unknown>;
+
+export const fidelityPassThresholdsSchema = z
+  .object({
+    min_must_include: z.number().int().nonnegative().optional(),
+    min_score: weight.optional(),
+  })
+  .strict() satisfies z.ZodType<FidelityPassThresholds>;
+
+export const validationMarkersSchema = z
+  .object({
+    must_include: z.array(fidelityMarkerSchema),
+    should_include: z.array(fidelityMarkerSchema),
+    must_avoid: z.array(avoidMarkerSchema),
+    pass: fidelityPassThresholdsSchema.optional(),
+  })
+  .strict()
+  .superRefine((markers, ctx) => {
+    const categories = ["must_include", "should_include", "must_avoid"] as const;
+    const withPatterns = new Set<string>();
+    const seen = new Set<string>();
+
+    for (const category of categories) {
+      markers[category].forEach((m, i) => {
+        if (seen.has(m.id)) {
+          ctx.addIssue({ code: "custom", path: [category, i, "id"], message: `duplicate marker id "${m.id}"` });
+        }
+        seen.add(m.id);
+        if (m.patterns) withPatterns.add(m.id);
+      });
+    }
+
+    // Required markers must be decided by their own patterns, which rules out chains and cycles
+    for (const category of categories) {
+      markers[category].forEach((m, i) => {
+        m.requires?.forEach((id, j) => {
+          if (!withPatterns.has(id)) {
+            ctx.addIssue({
+              code: "custom",
+              path: [category, i, "requires", j],
+              message: `"${id}" is not a marker with patterns`,
+            });
+          }
+        });
+      });
+    }
+
+    const checkable = markers.must_include.filter((m) => m.patterns || m.requires).length;
+    if ((markers.pass?.min_must_include ?? 0) > checkable) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["pass", "min_must_include"],
+        message: `exceeds the ${checkable} must_include markers that can be checked`,
+      });
+    }
+  }) satisfies z.ZodType<ValidationMarkers, z.ZodTypeDef, unknown>;
+
+export const samplePromptResponseSchema = z
+  .object({
+    user: text,
+    good_response: text,
+    bad_response: text,
+  })
+  .strict() satisfies z.ZodType<SamplePromptResponse>;
+
+export const personaValidationSchema = z
+  .object({
+    fidelity_markers: validationMarkersSchema,
+    sample_prompts_and_responses: z.record(samplePromptResponseSchema),
+  })
+  .strict() satisfies z.ZodType<PersonaValidation, z.ZodTypeDef, unknown>;
+
+const levelWeightsSchema = z
+  .object({ high: weight.optional(), medium: weight.optional(), low: weight.optional() })
+  .strict();
+
+export const capabilityBlockerScoringSchema = z
+  .object({
+    blocking_threshold: weight.positive().optional(),
+    layers: z
+      .object({
+        resources: weight.nonnegative().optional(),
+        processes: weight.nonnegative().optional(),
+        priorities: weight.nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    items: z
+      .object({
+        missing_resource: weight.optional(),
+        acquirable_resource: weight.optional(),
+        hindering_process: weight.optional(),
+        supporting_process: weight.optional(),
+        required_process_change: weight.optional(),
+        required_priority_shift: weight.optional(),
+      })
+      .strict()
+      .optional(),
+    flexibility: levelWeightsSchema.optional(),
+    rigidity: levelWeightsSchema.optional(),
+    alignment: z
+      .object({ aligned: weight.optional(), neutral: weight.optional(), misaligned: weight.optional() })
+      .strict()
+      .optional(),
+  })
+  .strict() satisfies z.ZodType<CapabilityBlockerScoring>;
+
+export const personaScoringSchema = z
+  .object({
+    capability_blockers: capabilityBlockerScoringSchema.optional(),
+  })
+  .strict() satisfies z.ZodType<PersonaScoring>;
+
+export const personaDefinitionSchema = z
+  .object({
+    identity: personaIdentitySchema,
+    voice: personaVoiceSchema,
+    frameworks: z.record(frameworkDefinitionSchema),
+    analysis_patterns: analysisPatternsSchema,
+    validation: personaValidationSchema,
+    scoring: personaScoringSchema.optional(),
+  })
+  .strict() satisfies z.ZodType<PersonaDefinition, z.ZodTypeDef, unknown>;
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse and validate persona YAML. `source` names the file in error
+ * messages. Throws with every YAML syntax or schema issue listed.
+ */
+export function parsePersonaDefinition(yamlSource: string, source: string): PersonaDefinition {
+  return parseYamlWithSchema(yamlSource, personaDefinitionSchema, `Invalid persona ${source}`);
+}
@@ -0,0 +1,80 @@
+/**
+ * Persona Watcher
+ *
+ * Opt-in hot reload for persona YAML. Watches the persona directories and,
+ * when a file changes, re-parses and re-validates it through the loader.
+ * Valid edits are swapped in atomically and the changed sections logged;
+ * invalid edits are reported and the previous version keeps serving.
+ * Servers learn about changes through onPersonaChange (see server.ts).
+ */
+
+import { existsSync, watch } from "fs";
+import type { FSWatcher } from "fs";
+import {
+  evictPersona,
+  getPersonaDirectories,
+  getPersonaPath,
+  reloadPersona,
+} from "./persona-loader.js";
+
+// ============================================================
+// Watcher
+// ============================================================
+
+/**
+ * Editors often write a file in several steps; wait for them to settle
+ */
+const DEBOUNCE_MS = 200;
+
+/**
+ * Reload (or evict) one persona after its file changed
+ */
+function handlePersonaFileChange(personaId: string): void {
+  if (!existsSync(getPersonaPath(personaId))) {
+    evictPersona(personaId);
+    console.error(`Persona removed: ${personaId}`);
+    return;
+  }
+
+  try {
+    const changed = reloadPersona(personaId);
+    if (changed.length > 0) {
+      console.error(`Persona reloaded: ${personaId} (changed: ${changed.join(", ")})`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Persona ${personaId} not reloaded; keeping the previous version.\n${message}`);
+  }
+}
+
+/**
+ * Watch every persona directory for YAML changes.
+ * Returns a function that stops watching.
+ */
+export function watchPersonas(): () => void {
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const watchers: FSWatcher[] = getPersonaDirectories().map((directory) =>
+    // Not persistent: watching alone should never keep the process alive
+    watch(directory, { persistent: false }, (_event, filename) => {
+      const match = filename?.match(/^([\w-]+)\.yaml$/);
+      if (!match) return;
+
+      const personaId = match[1];
+      clearTimeout(pending.get(personaId));
+      pending.set(
+        personaId,
+        setTimeout(() => {
+          pending.delete(personaId);
+          handlePersonaFileChange(personaId);
+        }, DEBOUNCE_MS)
+      );
+    })
+  );
+
+  return () => {
+    for (const watcher of watchers) watcher.close();
+    for (const timer of pending.values()) clearTimeout(timer);
+    pending.clear();
+  };
+}
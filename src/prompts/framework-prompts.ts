@@ -0,0 +1,371 @@
+/**
+ * Framework Prompts
+ *
+ * Exposes the persona system prompt, the per-framework analysis prompts,
+ * the combined decision-analysis prompt and the Christensen-style inquiries
+ * as named MCP prompts, so clients can offer them directly (e.g. as slash
+ * commands) instead of routing through a tool call.
+ */
+
+import { z } from "zod";
+import {
+  generateJTBDAnalysisPrompt,
+  generateJTBDInquiry,
+  generateDisruptionAnalysisPrompt,
+  generateDisruptionInquiry,
+  generateClassificationPrompt,
+  generateCPPAnalysisPrompt,
+  generateCPPInquiry,
+  generateResourceDependencePrompt,
+  generateResourceDependenceInquiry,
+  generateModularityAnalysisPrompt,
+  generateModularityInquiry,
+  generateAttractiveProfitsAnalysisPrompt,
+  generateAttractiveProfitsInquiry,
+  generateBusinessModelAnalysisPrompt,
+  generateBusinessModelComparisonPrompt,
+  generateBusinessModelInquiry,
+  generateEmergentStrategyAnalysisPrompt,
+  generateEmergentStrategyInquiry,
+  generateDiscoveryDrivenPlanningPrompt,
+  generateDiscoveryDrivenInquiry,
+} from "../frameworks/index.js";
+import { DEFAULT_PERSONA_ID, generateSystemPrompt } from "../persona-loader.js";
+import {
+  analyzeDecisionSchema,
+  buildAnalysisPrompt,
+} from "../tools/analyze-decision.js";
+
+// ============================================================
+// Prompt Types
+// ============================================================
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** Render the prompt text from raw (string) prompt arguments */
+  render: (args: Record<string, string>) => string;
+}
+
+// ============================================================
+// Argument Schemas
+// ============================================================
+
+const situationArgsSchema = z.object({
+  situation: z.string().min(1, "situation is required"),
+  context: z.string().optional(),
+});
+
+const inquiryArgsSchema = z.object({
+  situation: z.string().min(1, "situation is required"),
+});
+
+const FOCUS_AREAS = [
+  "jtbd",
+  "disruption",
+  "cpp",
+  "resource-dependence",
+  "modularity",
+  "attractive-profits",
+  "emergent-strategy",
+] as const;
+
+const SITUATION_ARGUMENTS: PromptArgumentDefinition[] = [
+  {
+    name: "situation",
+    description: "The decision, opportunity or situation to analyze",
+    required: true,
+  },
+  {
+    name: "context",
+    description: "Additional context about the organization or market",
+    required: false,
+  },
+];
+
+const INQUIRY_ARGUMENTS: PromptArgumentDefinition[] = [
+  {
+    name: "situation",
+    description: "The situation Christensen should respond to",
+    required: true,
+  },
+];
+
+/**
+ * Split a comma-separated focus area argument into the analyze_decision enum
+ */
+function parseFocusAreas(raw: string | undefined): string[] | undefined {
+  if (!raw) return undefined;
+  const areas = raw
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter((a) => a.length > 0);
+  return areas.length > 0 ? areas : undefined;
+}
+
+/**
+ * Build a prompt definition for a framework analysis prompt
+ */
+function frameworkPrompt(
+  name: string,
+  title: string,
+  description: string,
+  generate: (situation: string, context?: string) => string
+): PromptDefinition {
+  return {
+    name,
+    title,
+    description,
+    arguments: SITUATION_ARGUMENTS,
+    render: (args) => {
+      const { situation, context } = situationArgsSchema.parse(args);
+      return generate(situation, context);
+    },
+  };
+}
+
+/**
+ * Build a prompt definition for a Christensen-style inquiry
+ */
+function inquiryPrompt(
+  name: string,
+  title: string,
+  description: string,
+  generate: (situation: string) => string
+): PromptDefinition {
+  return {
+    name,
+    title,
+    description,
+    arguments: INQUIRY_ARGUMENTS,
+    render: (args) => generate(inquiryArgsSchema.parse(args).situation),
+  };
+}
+
+// ============================================================
+// Prompt Registry
+// ============================================================
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: "christensen_persona",
+    title: "Christensen Persona",
+    description:
+      "System prompt that establishes the Clayton Christensen persona (or a sibling persona): voice, frameworks and fidelity guidelines",
+    arguments: [
+      {
+        name: "persona",
+        description: `Persona id (default: ${DEFAULT_PERSONA_ID})`,
+        required: false,
+      },
+    ],
+    render: (args) => generateSystemPrompt(args.persona || undefined),
+  },
+  {
+    name: "decision_analysis",
+    title: "Full Decision Analysis",
+    description:
+      "Analyze a business decision through all Christensen frameworks, with a synthesis of patterns and predictions",
+    arguments: [
+      {
+        name: "decision",
+        description: "The business decision or situation to analyze",
+        required: true,
+      },
+      {
+        name: "context",
+        description: "Additional context about the organization, market, or situation",
+        required: false,
+      },
+      {
+        name: "focusAreas",
+        description: `Comma-separated frameworks to focus on (${FOCUS_AREAS.join(", ")}; default: jtbd, disruption, cpp, resource-dependence)`,
+        required: false,
+      },
+    ],
+    render: (args) => {
+      const validated = analyzeDecisionSchema.parse({
+        decision: args.decision,
+        context: args.context,
+        focusAreas: parseFocusAreas(args.focusAreas),
+      });
+      return buildAnalysisPrompt(validated);
+    },
+  },
+  frameworkPrompt(
+    "jtbd_analysis",
+    "Jobs-to-Be-Done Analysis",
+    "Analyze a situation through the Jobs-to-Be-Done lens",
+    generateJTBDAnalysisPrompt
+  ),
+  frameworkPrompt(
+    "disruption_analysis",
+    "Disruption Theory Analysis",
+    "Analyze a situation through the disruption theory lens",
+    generateDisruptionAnalysisPrompt
+  ),
+  frameworkPrompt(
+    "innovation_classification",
+    "Innovation Classification",
+    "Classify an innovation as sustaining, low-end or new-market disruptive",
+    generateClassificationPrompt
+  ),
+  frameworkPrompt(
+    "cpp_analysis",
+    "Capabilities-Processes-Priorities Analysis",
+    "Assess organizational capability for an opportunity across resources, processes and priorities",
+    generateCPPAnalysisPrompt
+  ),
+  frameworkPrompt(
+    "resource_dependence_analysis",
+    "Resource Dependence Analysis",
+    "Analyze the constraints customers and investors place on an opportunity",
+    generateResourceDependencePrompt
+  ),
+  frameworkPrompt(
+    "modularity_analysis",
+    "Interdependence vs Modularity Analysis",
+    "Analyze whether integrated or modular architectures win, given whether performance is good enough",
+    generateModularityAnalysisPrompt
+  ),
+  frameworkPrompt(
+    "attractive_profits_analysis",
+    "Conservation of Attractive Profits Analysis",
+    "Map the value chain and predict where attractive profits will shift as stages commoditize",
+    (situation, context) => generateAttractiveProfitsAnalysisPrompt(situation, context)
+  ),
+  frameworkPrompt(
+    "business_model_analysis",
+    "Business Model Analysis",
+    "Describe a business model in four boxes: value proposition, key resources, key processes and profit formula",
+    generateBusinessModelAnalysisPrompt
+  ),
+  frameworkPrompt(
+    "business_model_comparison",
+    "Business Model Comparison",
+    "Contrast the incumbent business model with the one a new opportunity requires",
+    generateBusinessModelComparisonPrompt
+  ),
+  frameworkPrompt(
+    "emergent_strategy_analysis",
+    "Deliberate vs Emergent Strategy Analysis",
+    "Weigh the plan's assumptions against observed market behavior and decide whether to stick to the plan or follow the signals",
+    (situation, context) => generateEmergentStrategyAnalysisPrompt(situation, context)
+  ),
+  frameworkPrompt(
+    "discovery_driven_planning",
+    "Discovery-Driven Planning",
+    "Work a new venture's income statement backwards from the required profit and list the assumptions to test at each milestone",
+    generateDiscoveryDrivenPlanningPrompt
+  ),
+  inquiryPrompt(
+    "jtbd_inquiry",
+    "Ask About the Job",
+    "Christensen-style opening questions about the job to be done",
+    generateJTBDInquiry
+  ),
+  inquiryPrompt(
+    "disruption_inquiry",
+    "Ask About Disruption",
+    "Christensen-style opening questions about sustaining vs disruptive dynamics",
+    generateDisruptionInquiry
+  ),
+  inquiryPrompt(
+    "cpp_inquiry",
+    "Ask About Capabilities",
+    "Christensen-style opening questions about resources, processes and priorities",
+    generateCPPInquiry
+  ),
+  inquiryPrompt(
+    "resource_dependence_inquiry",
+    "Ask About Resource Providers",
+    "Christensen-style opening questions about resource dependence",
+    generateResourceDependenceInquiry
+  ),
+  inquiryPrompt(
+    "modularity_inquiry",
+    "Ask About Architecture",
+    "Christensen-style opening questions about interdependence, modularity and the performance gap",
+    generateModularityInquiry
+  ),
+  inquiryPrompt(
+    "attractive_profits_inquiry",
+    "Ask Where the Profits Are Going",
+    "Christensen-style opening questions about commoditization and profit migration",
+    generateAttractiveProfitsInquiry
+  ),
+  inquiryPrompt(
+    "business_model_inquiry",
+    "Ask About the Business Model",
+    "Christensen-style opening questions about the profit formula and processes a new opportunity needs",
+    generateBusinessModelInquiry
+  ),
+  inquiryPrompt(
+    "emergent_strategy_inquiry",
+    "Ask What the Market Is Teaching",
+    "Christensen-style opening questions about anticipated and unanticipated opportunities and where resources go",
+    generateEmergentStrategyInquiry
+  ),
+  inquiryPrompt(
+    "discovery_driven_inquiry",
+    "Ask What Would Have to Be True",
+    "Christensen-style opening questions about the profit a new venture needs and the assumptions behind it",
+    generateDiscoveryDrivenInquiry
+  ),
+];
+
+// ============================================================
+// Prompt Access
+// ============================================================
+
+/**
+ * List prompts in the shape expected by prompts/list
+ */
+export function listPrompts() {
+  return PROMPT_DEFINITIONS.map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args,
+  }));
+}
+
+/**
+ * Render a prompt in the shape expected by prompts/get
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const definition = PROMPT_DEFINITIONS.find((p) => p.name === name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = definition.arguments
+    .filter((a) => a.required && !args[a.name])
+    .map((a) => a.name);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required argument${missing.length > 1 ? "s" : ""} for prompt ${name}: ${missing.join(", ")}`
+    );
+  }
+
+  return {
+    description: definition.description,
+    messages: [
+      {
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text: definition.render(args),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Prompts Module - Barrel Export
+ *
+ * Exports all MCP prompts for the Christensen agent.
+ */
+
+export {
+  PROMPT_DEFINITIONS,
+  listPrompts,
+  getPrompt,
+} from "./framework-prompts.js";
+export type {
+  PromptDefinition,
+  PromptArgumentDefinition,
+} from "./framework-prompts.js";
@@ -0,0 +1,181 @@
+/**
+ * Christensen Resources
+ *
+ * Publishes case studies, framework reference material and the persona
+ * definition as MCP resources with stable URIs, so clients can attach
+ * them as context and cache them instead of calling tools.
+ *
+ * URI scheme:
+ * - christensen://case/{caseName}
+ * - christensen://framework/{framework}/{detail}
+ * - christensen://persona/{personaId}
+ */
+
+import { getCase, getCaseKeys, listCases } from "../case-library/index.js";
+import { listPersonaIds, loadPersonaSource } from "../persona-loader.js";
+import { getCaseStudyDetail } from "../tools/case-study.js";
+import { getFramework } from "../tools/get-framework.js";
+import type { GetFrameworkInput } from "../tools/get-framework.js";
+
+// ============================================================
+// Resource Catalogue
+// ============================================================
+
+export const RESOURCE_SCHEME = "christensen";
+
+const FRAMEWORK_NAMES: GetFrameworkInput["framework"][] = [
+  "jtbd",
+  "disruption",
+  "cpp",
+  "resource-dependence",
+  "modularity",
+  "attractive-profits",
+  "business-model",
+  "emergent-strategy",
+  "discovery-driven",
+  "all",
+];
+
+const FRAMEWORK_DETAILS: NonNullable<GetFrameworkInput["detail"]>[] = [
+  "summary",
+  "full",
+  "questions-only",
+];
+
+const FRAMEWORK_TITLES: Record<GetFrameworkInput["framework"], string> = {
+  jtbd: "Jobs-to-Be-Done",
+  disruption: "Disruption Theory",
+  cpp: "Capabilities-Processes-Priorities",
+  "resource-dependence": "Resource Dependence",
+  modularity: "Interdependence vs Modularity",
+  "attractive-profits": "Conservation of Attractive Profits",
+  "business-model": "Business Model",
+  "emergent-strategy": "Deliberate vs Emergent Strategy",
+  "discovery-driven": "Discovery-Driven Planning",
+  all: "All Frameworks",
+};
+
+// ============================================================
+// Resource Listing
+// ============================================================
+
+/**
+ * List concrete resources in the shape expected by resources/list
+ */
+export function listResources() {
+  const cases = listCases().map(({ key, name, pattern }) => ({
+    uri: `${RESOURCE_SCHEME}://case/${key}`,
+    name: `case-${key}`,
+    title: name,
+    description: `Case study: ${pattern}`,
+    mimeType: "text/markdown",
+  }));
+
+  const frameworks = FRAMEWORK_NAMES.flatMap((framework) =>
+    FRAMEWORK_DETAILS.map((detail) => ({
+      uri: `${RESOURCE_SCHEME}://framework/${framework}/${detail}`,
+      name: `framework-${framework}-${detail}`,
+      title: `${FRAMEWORK_TITLES[framework]} (${detail})`,
+      description: `${FRAMEWORK_TITLES[framework]} reference at ${detail} detail`,
+      mimeType: "text/markdown",
+    }))
+  );
+
+  const personas = listPersonaIds().map((personaId) => ({
+    uri: `${RESOURCE_SCHEME}://persona/${personaId}`,
+    name: `persona-${personaId}`,
+    title: `Persona definition: ${personaId}`,
+    description: "Persona YAML: identity, voice, frameworks, analysis patterns and validation markers",
+    mimeType: "application/yaml",
+  }));
+
+  return [...cases, ...frameworks, ...personas];
+}
+
+/**
+ * List resource templates in the shape expected by resources/templates/list
+ */
+export function listResourceTemplates() {
+  return [
+    {
+      uriTemplate: `${RESOURCE_SCHEME}://case/{caseName}`,
+      name: "case",
+      title: "Case Study",
+      description: `Canonical case study detail. Cases: ${getCaseKeys().join(", ")}`,
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: `${RESOURCE_SCHEME}://framework/{framework}/{detail}`,
+      name: "framework",
+      title: "Framework Reference",
+      description: `Framework reference. Frameworks: ${FRAMEWORK_NAMES.join(", ")}. Detail: ${FRAMEWORK_DETAILS.join(", ")}`,
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: `${RESOURCE_SCHEME}://persona/{personaId}`,
+      name: "persona",
+      title: "Persona Definition",
+      description: `Raw persona YAML definition. Personas: ${listPersonaIds().join(", ")}`,
+      mimeType: "application/yaml",
+    },
+  ];
+}
+
+// ============================================================
+// Resource Reading
+// ============================================================
+
+/**
+ * Read a resource in the shape expected by resources/read
+ */
+export async function readResource(uri: string) {
+  const match = uri.match(new RegExp(`^${RESOURCE_SCHEME}://([^/]+)/(.+)$`));
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const [, kind, path] = match;
+  const segments = path.split("/").map(decodeURIComponent);
+
+  switch (kind) {
+    case "case": {
+      const [caseName] = segments;
+      if (segments.length !== 1 || !getCase(caseName)) {
+        throw new Error(`Unknown case study: ${path}`);
+      }
+      const text = getCaseStudyDetail(caseName);
+      return { contents: [{ uri, mimeType: "text/markdown", text }] };
+    }
+
+    case "framework": {
+      const [framework, detail = "summary"] = segments;
+      if (
+        segments.length > 2 ||
+        !FRAMEWORK_NAMES.includes(framework as GetFrameworkInput["framework"]) ||
+        !FRAMEWORK_DETAILS.includes(detail as NonNullable<GetFrameworkInput["detail"]>)
+      ) {
+        throw new Error(`Unknown framework resource: ${path}`);
+      }
+      const { text } = await getFramework({
+        framework: framework as GetFrameworkInput["framework"],
+        detail: detail as NonNullable<GetFrameworkInput["detail"]>,
+      });
+      return { contents: [{ uri, mimeType: "text/markdown", text }] };
+    }
+
+    case "persona": {
+      const [personaId] = segments;
+      if (segments.length !== 1 || !listPersonaIds().includes(personaId)) {
+        throw new Error(`Unknown persona: ${path}`);
+      }
+      return {
+        contents: [
+          { uri, mimeType: "application/yaml", text: loadPersonaSource(personaId) },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown resource: ${uri}`);
+  }
+}
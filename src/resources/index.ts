@@ -0,0 +1,12 @@
+/**
+ * Resources Module - Barrel Export
+ *
+ * Exports all MCP resources for the Christensen agent.
+ */
+
+export {
+  RESOURCE_SCHEME,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from "./christensen-resources.js";
@@ -0,0 +1,16 @@
+/**
+ * Sampling Module - Barrel Export
+ *
+ * MCP sampling support: lets the server run framework prompts through
+ * the client's model and return completed analyses.
+ */
+
+export { createServerSampler } from "./sampler.js";
+export type { Sampler, SamplingRequest } from "./sampler.js";
+
+export { runSampledAnalysis, mergeWithTemplate } from "./sampled-analysis.js";
+export type {
+  FocusArea,
+  SampledAnalysisOptions,
+  SampledAnalysisResult,
+} from "./sampled-analysis.js";
@@ -0,0 +1,335 @@
+/**
+ * Sampled Analysis
+ *
+ * Runs each framework prompt through MCP sampling, parses the model's
+ * JSON answers into the typed framework structures, then asks for a
+ * synthesis to complete the ChristensenAnalysis. Framework answers
+ * written as prose instead of JSON go through the answer parsers. Any
+ * section whose answer cannot be parsed keeps its empty template and
+ * is reported.
+ */
+
+import { z } from "zod";
+import {
+  jtbdAnalysisSchema,
+  disruptionAnalysisSchema,
+  cppAnalysisSchema,
+  resourceDependenceAnalysisSchema,
+  modularityAnalysisSchema,
+  attractiveProfitsAnalysisSchema,
+  emergentStrategyAnalysisSchema,
+  christensenAnalysisSchema,
+  createEmptyModularityAnalysis,
+  createEmptyAttractiveProfitsAnalysis,
+  createEmptyEmergentStrategyAnalysis,
+  parseJTBDAnswer,
+  parseDisruptionAnswer,
+  parseCPPAnswer,
+  parseResourceDependenceAnswer,
+} from "../frameworks/index.js";
+import type {
+  ChristensenAnalysis,
+  CPPAnalysis,
+  DisruptionAnalysis,
+  JTBDAnalysis,
+  ParsedFrameworkAnswer,
+  ResourceDependenceAnalysis,
+  UnparsedSection,
+} from "../frameworks/index.js";
+import { toOutputSchema } from "../tools/structured-output.js";
+import type { Sampler } from "./sampler.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type FocusArea =
+  | "jtbd"
+  | "disruption"
+  | "cpp"
+  | "resource-dependence"
+  | "modularity"
+  | "attractive-profits"
+  | "emergent-strategy";
+
+export interface SampledAnalysisOptions {
+  /** Persona system prompt sent with every request */
+  systemPrompt: string;
+
+  /** Framework prompt text for each focus area to analyze */
+  frameworkPrompts: Partial<Record<FocusArea, string>>;
+}
+
+export interface SampledAnalysisResult {
+  /** The completed analysis */
+  analysis: ChristensenAnalysis;
+
+  /** Sections whose sampled answer could not be parsed, with the reason */
+  unparsed: UnparsedSection[];
+}
+
+// ============================================================
+// Section Definitions
+// ============================================================
+
+/**
+ * Where each focus area lands in the analysis, its schema, and the
+ * parser for answers that come back as prose instead of JSON. Optional
+ * sections carry the empty template used when the analysis has none.
+ */
+const FRAMEWORK_SECTIONS: Record<
+  FocusArea,
+  {
+    key:
+      | "theJob"
+      | "theLandscape"
+      | "theCapabilities"
+      | "theConstraints"
+      | "theArchitecture"
+      | "theProfits"
+      | "theStrategy";
+    schema: z.ZodTypeAny;
+    parseText?: (text: string, template: unknown) => ParsedFrameworkAnswer<unknown>;
+    createEmpty?: () => unknown;
+  }
+> = {
+  jtbd: {
+    key: "theJob",
+    schema: jtbdAnalysisSchema,
+    parseText: (text, template) => parseJTBDAnswer(text, template as JTBDAnalysis),
+  },
+  disruption: {
+    key: "theLandscape",
+    schema: disruptionAnalysisSchema,
+    parseText: (text, template) => parseDisruptionAnswer(text, template as DisruptionAnalysis),
+  },
+  cpp: {
+    key: "theCapabilities",
+    schema: cppAnalysisSchema,
+    parseText: (text, template) => parseCPPAnswer(text, template as CPPAnalysis),
+  },
+  "resource-dependence": {
+    key: "theConstraints",
+    schema: resourceDependenceAnalysisSchema,
+    parseText: (text, template) => parseResourceDependenceAnswer(text, template as ResourceDependenceAnalysis),
+  },
+  modularity: {
+    key: "theArchitecture",
+    schema: modularityAnalysisSchema,
+    createEmpty: createEmptyModularityAnalysis,
+  },
+  "attractive-profits": {
+    key: "theProfits",
+    schema: attractiveProfitsAnalysisSchema,
+    createEmpty: createEmptyAttractiveProfitsAnalysis,
+  },
+  "emergent-strategy": {
+    key: "theStrategy",
+    schema: emergentStrategyAnalysisSchema,
+    createEmpty: createEmptyEmergentStrategyAnalysis,
+  },
+};
+
+const synthesisSchema = christensenAnalysisSchema.pick({
+  thePattern: true,
+  thePrediction: true,
+  theConsideration: true,
+  narrativeSummary: true,
+});
+
+// ============================================================
+// JSON Helpers
+// ============================================================
+
+/**
+ * Instruction appended to a prompt asking for JSON matching a schema
+ */
+function jsonInstruction(schema: z.ZodTypeAny): string {
+  return `
+---
+
+Respond with a single JSON object and nothing else. It must match this JSON Schema:
+
+\`\`\`json
+${JSON.stringify(toOutputSchema(schema), null, 2)}
+\`\`\`
+`.trim();
+}
+
+const NO_JSON_OBJECT = "no JSON object in response";
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences
+ * and surrounding prose
+ */
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error(NO_JSON_OBJECT);
+  }
+  return JSON.parse(body.slice(start, end + 1));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Overlay a parsed answer onto a template so fields the model omitted
+ * (or left empty) keep their template values
+ */
+export function mergeWithTemplate(template: unknown, value: unknown): unknown {
+  if (isPlainObject(template) && isPlainObject(value)) {
+    const merged: Record<string, unknown> = { ...template };
+    for (const [key, field] of Object.entries(value)) {
+      merged[key] = key in template ? mergeWithTemplate(template[key], field) : field;
+    }
+    return merged;
+  }
+  if (value === undefined || value === null || value === "") return template;
+  if (Array.isArray(value) && value.length === 0) return template;
+  return value;
+}
+
+/**
+ * Parse a sampled response against a schema, starting from a template
+ */
+function parseSection<T>(
+  text: string,
+  schema: z.ZodTypeAny,
+  template: T
+): { value: T; error?: string } {
+  try {
+    const merged = mergeWithTemplate(template, extractJson(text));
+    const result = schema.safeParse(merged);
+    if (result.success) {
+      return { value: result.data as T };
+    }
+    return {
+      value: template,
+      error: result.error.issues
+        .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+        .join("; "),
+    };
+  } catch (error) {
+    return {
+      value: template,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Parse an answer given in prose instead of JSON with the framework's
+ * answer parser. Prompt sections it could not fill are reported under
+ * the focus area; with none filled, or no parser for the framework,
+ * the template is kept.
+ */
+function parseProse(
+  area: FocusArea,
+  text: string,
+  template: unknown
+): { value: unknown; unparsed: UnparsedSection[] } {
+  const { parseText } = FRAMEWORK_SECTIONS[area];
+  if (!parseText) {
+    return { value: template, unparsed: [{ section: area, reason: NO_JSON_OBJECT }] };
+  }
+  const { analysis, parsed, unparsed } = parseText(text, template);
+  if (parsed.length === 0) {
+    return {
+      value: template,
+      unparsed: [{ section: area, reason: "no JSON object or framework sections in response" }],
+    };
+  }
+  return {
+    value: FRAMEWORK_SECTIONS[area].schema.parse(analysis),
+    unparsed: unparsed.map((u) => ({ section: `${area}: ${u.section}`, reason: u.reason })),
+  };
+}
+
+// ============================================================
+// Sampled Analysis
+// ============================================================
+
+/**
+ * Complete a ChristensenAnalysis by sampling each framework prompt and
+ * then a synthesis across them
+ */
+export async function runSampledAnalysis(
+  sampler: Sampler,
+  template: ChristensenAnalysis,
+  options: SampledAnalysisOptions
+): Promise<SampledAnalysisResult> {
+  const analysis: ChristensenAnalysis = structuredClone(template);
+  const unparsed: SampledAnalysisResult["unparsed"] = [];
+
+  for (const [area, prompt] of Object.entries(options.frameworkPrompts) as [FocusArea, string][]) {
+    const { key, schema, createEmpty } = FRAMEWORK_SECTIONS[area];
+    const template = analysis[key] ?? createEmpty?.();
+    const response = await sampler.sample({
+      systemPrompt: options.systemPrompt,
+      prompt: `${prompt}\n\n${jsonInstruction(schema)}`,
+    });
+
+    const { value, error } = parseSection(response, schema, template);
+    if (error === NO_JSON_OBJECT) {
+      const prose = parseProse(area, response, template);
+      (analysis as unknown as Record<string, unknown>)[key] = prose.value;
+      unparsed.push(...prose.unparsed);
+      continue;
+    }
+    (analysis as unknown as Record<string, unknown>)[key] = value;
+    if (error) unparsed.push({ section: area, reason: error });
+  }
+
+  const synthesisPrompt = `
+You have analyzed this decision through Christensen's frameworks.
+
+DECISION: ${analysis.context}
+
+FRAMEWORK FINDINGS:
+\`\`\`json
+${JSON.stringify(
+  {
+    theJob: analysis.theJob,
+    theLandscape: analysis.theLandscape,
+    theCapabilities: analysis.theCapabilities,
+    theConstraints: analysis.theConstraints,
+    ...(analysis.theArchitecture && { theArchitecture: analysis.theArchitecture }),
+    ...(analysis.theProfits && { theProfits: analysis.theProfits }),
+    ...(analysis.theStrategy && { theStrategy: analysis.theStrategy }),
+  },
+  null,
+  2
+)}
+\`\`\`
+
+CANDIDATE CASE PATTERN: ${analysis.thePattern.patternSummary || "none matched yet"}
+
+Synthesize these findings: choose the historical case that best matches,
+offer a theory-based prediction with appropriate uncertainty, note what
+might make this case different, and write a short narrative summary in
+Christensen's voice.
+
+${jsonInstruction(synthesisSchema)}
+`.trim();
+
+  const synthesisResponse = await sampler.sample({
+    systemPrompt: options.systemPrompt,
+    prompt: synthesisPrompt,
+  });
+
+  const { value: synthesis, error } = parseSection(synthesisResponse, synthesisSchema, {
+    thePattern: analysis.thePattern,
+    thePrediction: analysis.thePrediction,
+    theConsideration: analysis.theConsideration,
+    narrativeSummary: analysis.narrativeSummary,
+  });
+  Object.assign(analysis, synthesis);
+  if (error) unparsed.push({ section: "synthesis", reason: error });
+
+  return { analysis, unparsed };
+}
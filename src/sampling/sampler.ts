@@ -0,0 +1,64 @@
+/**
+ * Sampler
+ *
+ * Thin abstraction over MCP sampling (sampling/createMessage) so the
+ * analysis code can ask the client's model to do the work without
+ * depending on the Server class. A fake sampler can be substituted
+ * for validation runs.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SamplingRequest {
+  /** Persona or task framing for the model */
+  systemPrompt?: string;
+
+  /** The user message to send */
+  prompt: string;
+
+  /** Upper bound on tokens to generate */
+  maxTokens?: number;
+}
+
+export interface Sampler {
+  /** Run one sampling request and return the model's text response */
+  sample(request: SamplingRequest): Promise<string>;
+}
+
+const DEFAULT_MAX_TOKENS = 2000;
+
+// ============================================================
+// Server-backed Sampler
+// ============================================================
+
+/**
+ * Create a sampler that routes requests through the connected client.
+ * Returns undefined when the client did not advertise sampling support.
+ */
+export function createServerSampler(server: Server): Sampler | undefined {
+  if (!server.getClientCapabilities()?.sampling) {
+    return undefined;
+  }
+
+  return {
+    async sample({ systemPrompt, prompt, maxTokens = DEFAULT_MAX_TOKENS }) {
+      const result = await server.createMessage({
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: prompt },
+          },
+        ],
+        systemPrompt,
+        includeContext: "none",
+        maxTokens,
+      });
+
+      return result.content.type === "text" ? result.content.text : "";
+    },
+  };
+}
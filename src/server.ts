@@ -0,0 +1,328 @@
+/**
+ * Christensen MCP Server Factory
+ *
+ * Builds the MCP server with its tools, prompts and resources.
+ * Kept separate from the entry point so the same server can be
+ * connected to different transports or to an in-memory client.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  analyzeDecision,
+  getAnalyzeDecisionToolDefinition,
+  findCaseStudy,
+  getCaseStudyToolDefinition,
+  listCaseStudies,
+  getFramework,
+  getFrameworkToolDefinition,
+  classifyInnovation,
+  getClassifyInnovationToolDefinition,
+  assessConfidence,
+  getAssessConfidenceToolDefinition,
+  synthesizeAnalysis,
+  getSynthesizeAnalysisToolDefinition,
+  parseFrameworkAnswer,
+  getParseFrameworkAnswerToolDefinition,
+  diagnoseCapabilityBlockers,
+  getDiagnoseCapabilitiesToolDefinition,
+  compareBusinessModelsTool,
+  getCompareBusinessModelsToolDefinition,
+  planDiscovery,
+  getPlanDiscoveryToolDefinition,
+} from "./tools/index.js";
+import { listPrompts, getPrompt } from "./prompts/index.js";
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from "./resources/index.js";
+import { createServerSampler } from "./sampling/index.js";
+import { onPersonaChange } from "./persona-loader.js";
+
+// ============================================================
+// Server Identity
+// ============================================================
+
+export const SERVER_NAME = "christensen-mcp";
+export const SERVER_VERSION = "0.1.0";
+
+// ============================================================
+// Tool Definitions
+// ============================================================
+
+/**
+ * Tool definitions, built on request: the case_study enum is generated
+ * from the case library, which loads its data files on first use
+ */
+function getToolDefinitions() {
+  return [
+    getAnalyzeDecisionToolDefinition(),
+    getCaseStudyToolDefinition(),
+    getFrameworkToolDefinition(),
+    getClassifyInnovationToolDefinition(),
+    getAssessConfidenceToolDefinition(),
+    getSynthesizeAnalysisToolDefinition(),
+    getParseFrameworkAnswerToolDefinition(),
+    getDiagnoseCapabilitiesToolDefinition(),
+    getCompareBusinessModelsToolDefinition(),
+    getPlanDiscoveryToolDefinition(),
+  ];
+}
+
+// ============================================================
+// Server Setup
+// ============================================================
+
+/**
+ * Create a Christensen MCP server with all handlers registered.
+ * Transport-agnostic: the caller connects it to stdio or another transport.
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        prompts: { listChanged: true },
+        resources: { listChanged: true },
+      },
+    }
+  );
+
+  /**
+   * Handle tools/list requests
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: getToolDefinitions(),
+    };
+  });
+
+  /**
+   * Handle tools/call requests
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      switch (name) {
+        case "analyze_decision": {
+          const result = await analyzeDecision(args as any, {
+            sampler: createServerSampler(server),
+          });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "case_study": {
+          // Handle special case: no situation provided = list all
+          const result =
+            !args || (!args.situation && !args.caseName)
+              ? listCaseStudies()
+              : await findCaseStudy(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "get_framework": {
+          const result = await getFramework(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "classify_innovation": {
+          const result = await classifyInnovation(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "assess_confidence": {
+          const result = await assessConfidence(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "synthesize_analysis": {
+          const result = await synthesizeAnalysis(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "parse_framework_answer": {
+          const result = await parseFrameworkAnswer(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "diagnose_capabilities": {
+          const result = await diagnoseCapabilityBlockers(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "compare_business_models": {
+          const result = await compareBusinessModelsTool(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        case "plan_discovery": {
+          const result = await planDiscovery(args as any);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: result.text,
+              },
+            ],
+            structuredContent: result.structured,
+          };
+        }
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: ${message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  /**
+   * Handle prompts/list requests
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: listPrompts(),
+    };
+  });
+
+  /**
+   * Handle prompts/get requests
+   */
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(name, args ?? {});
+  });
+
+  /**
+   * Handle resources/list requests
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listResources(),
+    };
+  });
+
+  /**
+   * Handle resources/templates/list requests
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: listResourceTemplates(),
+    };
+  });
+
+  /**
+   * Handle resources/read requests
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri);
+  });
+
+  /**
+   * Prompts and resources are derived from persona data; when a persona
+   * is reloaded, tell the client to refetch them
+   */
+  const unsubscribe = onPersonaChange(() => {
+    server.sendPromptListChanged().catch(() => undefined);
+    server.sendResourceListChanged().catch(() => undefined);
+  });
+  server.onclose = unsubscribe;
+
+  return server;
+}
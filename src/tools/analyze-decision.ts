@@ -11,18 +11,65 @@ import {
   generateDisruptionAnalysisPrompt,
   generateCPPAnalysisPrompt,
   generateResourceDependencePrompt,
+  generateModularityAnalysisPrompt,
+  generateAttractiveProfitsAnalysisPrompt,
+  mapValueChain,
+  analyzeValueChain,
+  generateEmergentStrategyAnalysisPrompt,
+  trackStrategy,
+  analyzeStrategyRecord,
   matchToCaseStudies,
+  extractSignals,
+  getSignalTexts,
   JTBD_VOICE_PHRASES,
   DISRUPTION_VOICE_PHRASES,
   CPP_VOICE_PHRASES,
-  CANONICAL_CASES,
+  createEmptyJTBDAnalysis,
+  createEmptyDisruptionAnalysis,
+  createEmptyCPPAnalysis,
+  createEmptyResourceDependenceAnalysis,
+  createEmptyModularityAnalysis,
+  caseStudyReferenceSchema,
+  stageDescriptionSchema,
+  strategyRecordSchema,
+  christensenAnalysisSchema,
+  signalExtractionSchema,
+  unparsedSectionSchema,
 } from "../frameworks/index.js";
-import { generateSystemPrompt, getRandomPhrase } from "../persona-loader.js";
+import type {
+  ChristensenAnalysis,
+  CaseStudyReference,
+  SignalExtraction,
+  StageDescription,
+  StrategyRecord,
+} from "../frameworks/index.js";
+import {
+  DEFAULT_PERSONA_ID,
+  generateSystemPrompt,
+  getRandomPhrase,
+  listPersonaIds,
+} from "../persona-loader.js";
+import { listCases } from "../case-library/index.js";
+import { runSampledAnalysis } from "../sampling/index.js";
+import type { Sampler, FocusArea } from "../sampling/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+import { renderCompletedAnalysis } from "./render-analysis.js";
 
 // ============================================================
 // Tool Schema
 // ============================================================
 
+const focusAreaSchema = z.enum([
+  "jtbd",
+  "disruption",
+  "cpp",
+  "resource-dependence",
+  "modularity",
+  "attractive-profits",
+  "emergent-strategy",
+]);
+
 export const analyzeDecisionSchema = z.object({
   decision: z
     .string()
@@ -48,30 +95,82 @@ export const analyzeDecisionSchema = z.object({
     })
     .optional()
     .describe("Information about the market"),
+  valueChain: z
+    .array(stageDescriptionSchema)
+    .optional()
+    .describe("Value chain stages in order, upstream first, for the attractive-profits focus area"),
+  strategyRecord: strategyRecordSchema
+    .optional()
+    .describe("Plan assumptions and observed market behavior, for the emergent-strategy focus area"),
   focusAreas: z
-    .array(z.enum(["jtbd", "disruption", "cpp", "resource-dependence"]))
+    .array(focusAreaSchema)
+    .optional()
+    .describe("Specific frameworks to focus on (default: jtbd, disruption, cpp, resource-dependence)"),
+  persona: z
+    .string()
     .optional()
-    .describe("Specific frameworks to focus on (default: all)"),
+    .describe(`Persona id to advise with (default: ${DEFAULT_PERSONA_ID})`),
 });
 
 export type AnalyzeDecisionInput = z.infer<typeof analyzeDecisionSchema>;
 
+export const analyzeDecisionOutputSchema = z.object({
+  mode: z
+    .enum(["prompt", "sampled"])
+    .describe(
+      "sampled: the analysis was completed via client sampling; prompt: the text is a prompt for the calling model to answer"
+    ),
+  decision: z.string().describe("The decision that was analyzed"),
+  persona: z.string().describe("Persona id that shaped the analysis"),
+  focusAreas: z.array(focusAreaSchema).describe("Frameworks applied"),
+  signals: signalExtractionSchema.describe(
+    "Disruption signals found in the decision, context, organization and market, with the input spans behind them"
+  ),
+  caseMatches: z
+    .array(caseStudyReferenceSchema)
+    .describe("Case studies matched from signals in the input"),
+  analysis: christensenAnalysisSchema.describe(
+    "Christensen analysis structure: completed in sampled mode, a template in prompt mode"
+  ),
+  unparsed: z
+    .array(unparsedSectionSchema)
+    .describe("Sections whose sampled answer could not be parsed (sampled mode only)"),
+  samplingError: z
+    .string()
+    .optional()
+    .describe("Why sampling failed, when the analysis fell back to prompt mode"),
+});
+
+export interface AnalyzeDecisionOptions {
+  /** When provided, the analysis is completed through sampling */
+  sampler?: Sampler;
+}
+
+export type AnalyzeDecisionOutput = z.infer<typeof analyzeDecisionOutputSchema>;
+
 // ============================================================
 // Tool Implementation
 // ============================================================
 
+const ALL_FOCUS_AREAS: FocusArea[] = [...focusAreaSchema.options];
+
 /**
- * Build the analysis prompt combining all frameworks
+ * Frameworks applied when no focus areas are given; the others are
+ * applied only on request
+ */
+const DEFAULT_FOCUS_AREAS: FocusArea[] = ["jtbd", "disruption", "cpp", "resource-dependence"];
+
+const EMPTY_STRATEGY_RECORD: StrategyRecord = { assumptions: [], observations: [] };
+
+/**
+ * Most case matches carried into an analysis
+ */
+const MAX_CASE_MATCHES = 3;
+
+/**
+ * Build the context string from the optional organization and market details
  */
-function buildAnalysisPrompt(input: AnalyzeDecisionInput): string {
-  const focusAreas = input.focusAreas ?? [
-    "jtbd",
-    "disruption",
-    "cpp",
-    "resource-dependence",
-  ];
-
-  // Build context string
+function buildContextString(input: AnalyzeDecisionInput): string {
   let contextString = input.context ?? "";
   if (input.organization) {
     contextString += `\n\nOrganization: ${input.organization.type}`;
@@ -92,39 +191,101 @@ function buildAnalysisPrompt(input: AnalyzeDecisionInput): string {
       contextString += `\nTarget segments: ${input.market.customerSegments.join(", ")}`;
     }
   }
+  return contextString;
+}
+
+/**
+ * Build the individual framework prompts for the requested focus areas
+ */
+function buildFrameworkPrompts(
+  input: AnalyzeDecisionInput,
+  contextString: string
+): Partial<Record<FocusArea, string>> {
+  const focusAreas = input.focusAreas ?? DEFAULT_FOCUS_AREAS;
+  const stages = mapValueChain(input.valueChain ?? []);
+  const tracker = trackStrategy(input.strategyRecord ?? EMPTY_STRATEGY_RECORD);
+  const generators: Record<FocusArea, (situation: string, context?: string) => string> = {
+    jtbd: generateJTBDAnalysisPrompt,
+    disruption: generateDisruptionAnalysisPrompt,
+    cpp: generateCPPAnalysisPrompt,
+    "resource-dependence": generateResourceDependencePrompt,
+    modularity: generateModularityAnalysisPrompt,
+    "attractive-profits": (situation, context) => generateAttractiveProfitsAnalysisPrompt(situation, context, stages),
+    "emergent-strategy": (situation, context) => generateEmergentStrategyAnalysisPrompt(situation, context, tracker),
+  };
+
+  const prompts: Partial<Record<FocusArea, string>> = {};
+  for (const area of ALL_FOCUS_AREAS) {
+    if (focusAreas.includes(area)) {
+      prompts[area] = generators[area](input.decision, contextString);
+    }
+  }
+  return prompts;
+}
+
+/**
+ * Build the analysis prompt combining all frameworks
+ */
+export function buildAnalysisPrompt(input: AnalyzeDecisionInput): string {
+  const contextString = buildContextString(input);
+  const prompts = buildFrameworkPrompts(input, contextString);
 
   // Build framework prompts
   const frameworkPrompts: string[] = [];
 
-  if (focusAreas.includes("jtbd")) {
+  if (prompts.jtbd) {
     frameworkPrompts.push(`
 ## JOBS-TO-BE-DONE ANALYSIS
 
-${generateJTBDAnalysisPrompt(input.decision, contextString)}
+${prompts.jtbd}
 `);
   }
 
-  if (focusAreas.includes("disruption")) {
+  if (prompts.disruption) {
     frameworkPrompts.push(`
 ## DISRUPTION THEORY ANALYSIS
 
-${generateDisruptionAnalysisPrompt(input.decision, contextString)}
+${prompts.disruption}
 `);
   }
 
-  if (focusAreas.includes("cpp")) {
+  if (prompts.cpp) {
     frameworkPrompts.push(`
 ## CAPABILITIES-PROCESSES-PRIORITIES ANALYSIS
 
-${generateCPPAnalysisPrompt(input.decision, contextString)}
+${prompts.cpp}
 `);
   }
 
-  if (focusAreas.includes("resource-dependence")) {
+  if (prompts["resource-dependence"]) {
     frameworkPrompts.push(`
 ## RESOURCE DEPENDENCE ANALYSIS
 
-${generateResourceDependencePrompt(input.decision, contextString)}
+${prompts["resource-dependence"]}
+`);
+  }
+
+  if (prompts.modularity) {
+    frameworkPrompts.push(`
+## INTERDEPENDENCE VS MODULARITY ANALYSIS
+
+${prompts.modularity}
+`);
+  }
+
+  if (prompts["attractive-profits"]) {
+    frameworkPrompts.push(`
+## CONSERVATION OF ATTRACTIVE PROFITS ANALYSIS
+
+${prompts["attractive-profits"]}
+`);
+  }
+
+  if (prompts["emergent-strategy"]) {
+    frameworkPrompts.push(`
+## DELIBERATE VS EMERGENT STRATEGY ANALYSIS
+
+${prompts["emergent-strategy"]}
 `);
   }
 
@@ -150,8 +311,8 @@ After analyzing through each framework lens, provide:
 
 1. **The Key Insight**: What does theory reveal that might not be obvious?
 
-2. **The Historical Pattern**: Which case study (steel mini-mills, disk drives,
-   milkshake, Honda, Intel) most closely matches this situation and why?
+2. **The Historical Pattern**: Which case study (${listCases().map((c) => c.name).join(", ")})
+   most closely matches this situation and why?
 
 3. **The Prediction**: What does theory suggest will happen? Express with
    appropriate uncertainty - "The theory would predict..." not "This will..."
@@ -167,50 +328,147 @@ about predictions, grounded in theory and historical evidence.
 `.trim();
 }
 
+/**
+ * Build the analysis structure for a decision, populated with the
+ * case study matches, any described value chain and any strategy record;
+ * framework sections start empty, and optional sections are included
+ * only for their focus areas
+ */
+function buildAnalysisTemplate(
+  decision: string,
+  caseMatches: CaseStudyReference[],
+  focusAreas: FocusArea[],
+  valueChain: StageDescription[] = [],
+  strategyRecord: StrategyRecord = EMPTY_STRATEGY_RECORD
+): ChristensenAnalysis {
+  const [primaryCase, ...secondaryCases] = caseMatches;
+
+  return {
+    context: decision,
+    theJob: createEmptyJTBDAnalysis(),
+    theLandscape: {
+      ...createEmptyDisruptionAnalysis(),
+      caseStudyParallels: caseMatches,
+    },
+    theCapabilities: createEmptyCPPAnalysis(),
+    theConstraints: createEmptyResourceDependenceAnalysis(),
+    ...(focusAreas.includes("modularity") && { theArchitecture: createEmptyModularityAnalysis() }),
+    ...(focusAreas.includes("attractive-profits") && { theProfits: analyzeValueChain(valueChain) }),
+    ...(focusAreas.includes("emergent-strategy") && { theStrategy: analyzeStrategyRecord(strategyRecord) }),
+    thePattern: {
+      primaryCase: primaryCase ?? {
+        name: "",
+        pattern: "",
+        relevance: "",
+        matchStrength: "uncertain",
+      },
+      secondaryCases,
+      patternSummary: primaryCase
+        ? `${primaryCase.name}: ${primaryCase.pattern}`
+        : "",
+    },
+    thePrediction: {
+      mostLikelyOutcome: "",
+      confidence: "uncertain",
+      keyAssumptions: [],
+      whatCouldChange: [],
+    },
+    theConsideration: [],
+    narrativeSummary: "",
+  };
+}
+
+/**
+ * Render extracted signals with the input phrases behind them
+ */
+function renderSignals({ signals, negated }: SignalExtraction): string {
+  const found =
+    signals.length > 0
+      ? signals
+          .map(
+            (s) =>
+              `- **${s.signal}** (${s.family}) ← ${s.spans.map((span) => `"${span.text}" in ${span.field}`).join(", ")}`
+          )
+          .join("\n")
+      : "No disruption signals detected in the input.";
+
+  if (negated.length === 0) return found;
+  return `${found}
+
+Set aside (negated):
+${negated.map((n) => `- ${n.signal} ← "${n.negation} … ${n.span.text}" in ${n.span.field}`).join("\n")}`;
+}
+
 /**
  * Execute the analyze-decision tool
+ *
+ * With a sampler, the server runs each framework prompt through the
+ * client's model and returns a completed analysis. Without one, or if
+ * the client rejects a sampling request, it returns the prompt for the
+ * calling model to answer.
  */
 export async function analyzeDecision(
-  input: AnalyzeDecisionInput
-): Promise<string> {
+  input: AnalyzeDecisionInput,
+  options: AnalyzeDecisionOptions = {}
+): Promise<ToolOutput<AnalyzeDecisionOutput>> {
   // Validate input
   const validated = analyzeDecisionSchema.parse(input);
+  const focusAreas = validated.focusAreas ?? DEFAULT_FOCUS_AREAS;
+  const persona = validated.persona ?? DEFAULT_PERSONA_ID;
 
   // Get system prompt for persona
-  const systemPrompt = generateSystemPrompt();
+  const systemPrompt = generateSystemPrompt(persona);
+
+  // Find disruption signals in the input, then the case studies they point to
+  const signals = extractSignals(validated);
+
+  // Rank on the decision text as well, so cases can match by meaning
+  const caseMatches = (
+    await matchToCaseStudies([validated.decision, validated.context ?? "", ...getSignalTexts(signals)].filter(Boolean))
+  ).slice(0, MAX_CASE_MATCHES);
+  const template = buildAnalysisTemplate(
+    validated.decision,
+    caseMatches,
+    focusAreas,
+    validated.valueChain,
+    validated.strategyRecord
+  );
+
+  let samplingError: string | undefined;
+  if (options.sampler) {
+    try {
+      const { analysis, unparsed } = await runSampledAnalysis(options.sampler, template, {
+        systemPrompt,
+        frameworkPrompts: buildFrameworkPrompts(validated, buildContextString(validated)),
+      });
+
+      return {
+        text: renderCompletedAnalysis(analysis, focusAreas, unparsed),
+        structured: {
+          mode: "sampled",
+          decision: validated.decision,
+          persona,
+          focusAreas,
+          signals,
+          caseMatches,
+          analysis,
+          unparsed,
+        },
+      };
+    } catch (error) {
+      // Declined or timed out: the calling model can still do the analysis
+      samplingError = error instanceof Error ? error.message : String(error);
+    }
+  }
 
   // Build analysis prompt
   const analysisPrompt = buildAnalysisPrompt(validated);
 
-  // Find potentially relevant case studies based on any signals in the input
-  const inputText = `${validated.decision} ${validated.context ?? ""}`.toLowerCase();
-  const potentialSignals: string[] = [];
-
-  // Extract potential signals from input
-  if (inputText.includes("cheap") || inputText.includes("low cost") || inputText.includes("budget")) {
-    potentialSignals.push("Lower cost structure");
-  }
-  if (inputText.includes("simple") || inputText.includes("easier")) {
-    potentialSignals.push("Simpler solution");
-  }
-  if (inputText.includes("enterprise") || inputText.includes("upmarket")) {
-    potentialSignals.push("Moving upmarket");
-  }
-  if (inputText.includes("new market") || inputText.includes("non-consumer")) {
-    potentialSignals.push("Enables new use cases");
-  }
-  if (inputText.includes("incumbent") || inputText.includes("established")) {
-    potentialSignals.push("Incumbent has high-cost structure");
-  }
-
-  const caseMatches = matchToCaseStudies(potentialSignals);
-
-  // Build the response that would be sent to Claude
-  // In a real MCP server, this would be the prompt; Claude does the analysis
+  // Without sampling, return the prompt; the calling model does the analysis
   const response = `
 # Christensen Strategic Analysis Framework
 
-${getRandomPhrase()}
+${getRandomPhrase(persona)}
 
 ---
 
@@ -226,6 +484,12 @@ ${analysisPrompt}
 
 ---
 
+## Detected Signals
+
+${renderSignals(signals)}
+
+---
+
 ## Potentially Relevant Case Studies
 
 ${
@@ -252,11 +516,27 @@ Available frameworks for this analysis:
 - **Disruption Theory**: Classifying innovations and predicting competitive dynamics
 - **Capabilities-Processes-Priorities**: Assessing organizational capability
 - **Resource Dependence**: Understanding constraints from resource providers
+- **Interdependence vs Modularity**: Whether integrated or modular architectures win, given the performance gap (on request)
+- **Conservation of Attractive Profits**: Where profits migrate as value chain stages commoditize (on request)
+- **Deliberate vs Emergent Strategy**: Whether to stick to the plan or follow the market's signals (on request)
 
 Apply each relevant framework to provide Christensen-style strategic insight.
 `.trim();
 
-  return response;
+  return {
+    text: response,
+    structured: {
+      mode: "prompt",
+      decision: validated.decision,
+      persona,
+      focusAreas,
+      signals,
+      caseMatches,
+      analysis: template,
+      unparsed: [],
+      samplingError,
+    },
+  };
 }
 
 /**
@@ -268,7 +548,18 @@ export function getAnalyzeDecisionToolDefinition() {
     description: `Analyze a business decision using Clayton Christensen's frameworks.
 
 Applies Jobs-to-Be-Done, Disruption Theory, Capabilities-Processes-Priorities,
-and Resource Dependence analysis to provide strategic insight.
+and Resource Dependence analysis to provide strategic insight. Interdependence
+vs Modularity (value chain evolution) and the Conservation of Attractive
+Profits are applied when requested in focusAreas; for the latter, describe
+the value chain in valueChain and each stage is flagged as commoditizing or
+not good enough, with the predicted profit shifts. Deliberate vs Emergent
+Strategy is applied on request too; record the plan's assumptions and the
+market behavior observed since in strategyRecord, and each assumption is
+tracked as confirmed, contradicted, contested or untested.
+
+When the client supports sampling, the server runs each framework through
+the client's model and returns a completed analysis; otherwise it returns
+the analysis prompt for you to answer.
 
 Returns a structured analysis with:
 - Framework-specific insights
@@ -323,16 +614,80 @@ Use this when facing strategic decisions about:
             },
           },
         },
+        valueChain: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              stage: { type: "string", description: "Name of the stage" },
+              description: { type: "string", description: "What is known about the stage" },
+            },
+            required: ["stage"],
+          },
+          description: "Value chain stages in order, upstream first, for the attractive-profits focus area",
+        },
+        strategyRecord: {
+          type: "object",
+          properties: {
+            assumptions: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string", description: "Identifier observations refer to (default: A1, A2, ...)" },
+                  assumption: { type: "string", description: "An assumption the deliberate plan rests on" },
+                  expected: { type: "string", description: "What the market should do if the assumption holds" },
+                },
+                required: ["assumption"],
+              },
+            },
+            observations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  assumptionId: {
+                    type: "string",
+                    description: "The assumption this tests; leave out for behavior the plan did not anticipate",
+                  },
+                  observed: { type: "string", description: "Market behavior observed since the plan was made" },
+                  verdict: {
+                    type: "string",
+                    enum: ["supports", "contradicts", "inconclusive"],
+                    description: "Whether it supports or contradicts the assumption (default: inconclusive)",
+                  },
+                  observedAt: { type: "string", description: "When it was observed" },
+                },
+                required: ["observed"],
+              },
+            },
+          },
+          required: ["assumptions", "observations"],
+          description: "Plan assumptions and observed market behavior, for the emergent-strategy focus area",
+        },
         focusAreas: {
           type: "array",
           items: {
             type: "string",
-            enum: ["jtbd", "disruption", "cpp", "resource-dependence"],
+            enum: [
+              "jtbd",
+              "disruption",
+              "cpp",
+              "resource-dependence",
+              "modularity",
+              "attractive-profits",
+              "emergent-strategy",
+            ],
           },
-          description: "Specific frameworks to focus on (default: all)",
+          description: "Specific frameworks to focus on (default: jtbd, disruption, cpp, resource-dependence)",
+        },
+        persona: {
+          type: "string",
+          description: `Persona id to advise with (default: ${DEFAULT_PERSONA_ID}). Available: ${listPersonaIds().join(", ")}`,
         },
       },
       required: ["decision"],
     },
+    outputSchema: toOutputSchema(analyzeDecisionOutputSchema),
   };
 }
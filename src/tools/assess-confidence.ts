@@ -0,0 +1,235 @@
+/**
+ * Assess Confidence Tool
+ *
+ * Computes how much confidence a framework analysis - or a combined
+ * Christensen analysis - deserves from what it actually contains. Takes
+ * an analysis as JSON, filled in as far as it goes, and explains which
+ * missing fields and which contradictions held confidence down.
+ */
+
+import { z } from "zod";
+import {
+  assessAnalysisConfidence,
+  assessCPPConfidence,
+  assessDisruptionConfidence,
+  assessJobsToBeDoneConfidence,
+  assessResourceDependenceConfidence,
+  analysisConfidenceAssessmentSchema,
+  christensenAnalysisSchema,
+  confidenceAssessmentSchema,
+  confidenceLevelSchema,
+  cppAnalysisSchema,
+  disruptionAnalysisSchema,
+  jtbdAnalysisSchema,
+  resourceDependenceAnalysisSchema,
+} from "../frameworks/index.js";
+import type {
+  AnalysisConfidenceAssessment,
+  AnalysisSection,
+  ConfidenceAssessment,
+  ConfidenceIssue,
+  ConfidenceLevel,
+  OptionalAnalysisSection,
+} from "../frameworks/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+const assessedFrameworkSchema = z.enum(["combined", "jtbd", "disruption", "cpp", "resource-dependence"]);
+
+type AssessedFramework = z.infer<typeof assessedFrameworkSchema>;
+
+export const assessConfidenceSchema = z.object({
+  framework: assessedFrameworkSchema
+    .optional()
+    .describe("Which analysis shape the JSON follows (default: combined)"),
+  analysis: z
+    .record(z.unknown())
+    .describe("The analysis as JSON; any field may be left out"),
+});
+
+export type AssessConfidenceInput = z.infer<typeof assessConfidenceSchema>;
+
+export const assessConfidenceOutputSchema = z.object({
+  framework: assessedFrameworkSchema,
+  assessment: z.union([analysisConfidenceAssessmentSchema, confidenceAssessmentSchema]),
+  statedConfidence: confidenceLevelSchema
+    .optional()
+    .describe("Confidence the analysis claimed for itself, if any"),
+});
+
+export type AssessConfidenceOutput = z.infer<typeof assessConfidenceOutputSchema>;
+
+interface FrameworkAssessment {
+  assessment: ConfidenceAssessment | AnalysisConfidenceAssessment;
+  statedConfidence?: ConfidenceLevel;
+}
+
+/**
+ * Assessor for each analysis shape. The JSON is parsed against the
+ * framework schema with every field optional, so wrongly typed fields are
+ * rejected and unknown ones dropped before assessment.
+ */
+const ASSESSORS: Record<AssessedFramework, { title: string; assess: (analysis: unknown) => FrameworkAssessment }> = {
+  combined: {
+    title: "Combined Christensen Analysis",
+    assess: (analysis) => {
+      const parsed = christensenAnalysisSchema.deepPartial().parse(analysis);
+      return { assessment: assessAnalysisConfidence(parsed), statedConfidence: parsed.thePrediction?.confidence };
+    },
+  },
+  jtbd: {
+    title: "Jobs-to-Be-Done",
+    assess: (analysis) => {
+      const parsed = jtbdAnalysisSchema.deepPartial().parse(analysis);
+      return { assessment: assessJobsToBeDoneConfidence(parsed), statedConfidence: parsed.confidence };
+    },
+  },
+  disruption: {
+    title: "Disruption Theory",
+    assess: (analysis) => {
+      const parsed = disruptionAnalysisSchema.deepPartial().parse(analysis);
+      return { assessment: assessDisruptionConfidence(parsed), statedConfidence: parsed.confidence };
+    },
+  },
+  cpp: {
+    title: "Capabilities, Processes & Priorities",
+    assess: (analysis) => {
+      const parsed = cppAnalysisSchema.deepPartial().parse(analysis);
+      return { assessment: assessCPPConfidence(parsed), statedConfidence: parsed.confidence };
+    },
+  },
+  "resource-dependence": {
+    title: "Resource Dependence",
+    assess: (analysis) => {
+      const parsed = resourceDependenceAnalysisSchema.deepPartial().parse(analysis);
+      return { assessment: assessResourceDependenceConfidence(parsed), statedConfidence: parsed.confidence };
+    },
+  },
+};
+
+const SECTION_TITLES: Record<AnalysisSection | OptionalAnalysisSection, string> = {
+  theJob: "The Job",
+  theLandscape: "The Landscape",
+  theCapabilities: "The Capabilities",
+  theConstraints: "The Constraints",
+  theArchitecture: "The Architecture",
+  theProfits: "The Profits",
+  theStrategy: "The Strategy",
+};
+
+const LEVEL_ORDER: ConfidenceLevel[] = ["uncertain", "low", "medium", "high"];
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Render issues of one kind as a list
+ */
+function renderIssues(issues: ConfidenceIssue[], kind: ConfidenceIssue["kind"]): string {
+  const items = issues.filter((i) => i.kind === kind);
+  if (items.length === 0) return "_None._";
+  return items.map((i) => `- \`${i.field}\` (-${i.penalty}): ${i.message}`).join("\n");
+}
+
+/**
+ * Assess how much confidence an analysis deserves
+ */
+export async function assessConfidence(
+  input: AssessConfidenceInput
+): Promise<ToolOutput<AssessConfidenceOutput>> {
+  const validated = assessConfidenceSchema.parse(input);
+  const framework = validated.framework ?? "combined";
+  const { title, assess } = ASSESSORS[framework];
+  const { assessment, statedConfidence } = assess(validated.analysis);
+
+  const overstated =
+    statedConfidence !== undefined &&
+    LEVEL_ORDER.indexOf(statedConfidence) > LEVEL_ORDER.indexOf(assessment.confidence);
+
+  const sections = "sections" in assessment ? assessment.sections : undefined;
+
+  const text = `
+# Confidence Assessment
+
+## ${title}
+**Confidence**: ${assessment.confidence} (score ${assessment.score})
+${statedConfidence ? `**Stated confidence**: ${statedConfidence}${overstated ? " - higher than the analysis supports" : ""}\n` : ""}${
+  sections
+    ? `
+## By Section
+| Section | Confidence | Score | Issues |
+|---------|------------|-------|--------|
+${(Object.keys(SECTION_TITLES) as (AnalysisSection | OptionalAnalysisSection)[])
+  .flatMap((s) => {
+    const section = sections[s];
+    return section ? [`| ${SECTION_TITLES[s]} | ${section.confidence} | ${section.score} | ${section.issues.length} |`] : [];
+  })
+  .join("\n")}
+`
+    : ""
+}
+## What Lowered Confidence
+
+### Contradictions
+${renderIssues(assessment.issues, "contradiction")}
+
+### Missing
+${renderIssues(assessment.issues, "missing")}
+
+---
+
+*Confidence here measures how complete and consistent the analysis is, not whether it is right. Fill the costliest gaps first.*
+`.trim();
+
+  return {
+    text,
+    structured: { framework, assessment, statedConfidence },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getAssessConfidenceToolDefinition() {
+  return {
+    name: "assess_confidence",
+    description: `Assess how much confidence an analysis deserves, and why.
+
+Scores a jobs-to-be-done, disruption, CPP or resource dependence analysis -
+or a combined Christensen analysis - on completeness (which fields carry an
+answer) and consistency (whether the answers agree). Accepts a partially
+filled analysis as JSON and returns the confidence level, a 0-1 score, and
+every missing field or contradiction that lowered it, costliest first.
+
+For a combined analysis, each framework section is assessed on its own and
+the results roll up into the confidence for the prediction.
+
+Use this to:
+- Check whether an analysis's stated confidence is earned
+- Find which gaps to fill first
+- Catch answers that contradict each other`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        framework: {
+          type: "string",
+          enum: ["combined", "jtbd", "disruption", "cpp", "resource-dependence"],
+          description: "Which analysis shape the JSON follows (default: combined)",
+        },
+        analysis: {
+          type: "object",
+          description:
+            "The analysis as JSON, in the shape of the analyze_decision analysis output (combined) or one of its sections; any field may be left out",
+        },
+      },
+      required: ["analysis"],
+    },
+    outputSchema: toOutputSchema(assessConfidenceOutputSchema),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Classify Innovation Tool
+ *
+ * Reproducible baseline classification of an innovation as sustaining,
+ * low-end disruptive or new-market disruptive. Scores the disruption
+ * signal families locally from answers to the classification questions
+ * and free-text observations - no LLM involved, so the same input always
+ * gets the same answer.
+ */
+
+import { z } from "zod";
+import {
+  CLASSIFICATION_ANSWER_RULES,
+  classifyInnovationBySignals,
+  classificationAnswerSchema,
+  innovationClassificationSchema,
+} from "../frameworks/index.js";
+import type {
+  ClassificationQuestionId,
+  SignalEvidence,
+  SignalFamily,
+} from "../frameworks/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+const QUESTION_IDS = Object.keys(CLASSIFICATION_ANSWER_RULES) as ClassificationQuestionId[];
+
+export const classifyInnovationSchema = z.object({
+  innovation: z.string().describe("The innovation, product or entrant to classify"),
+  answers: z
+    .object({
+      improvesExistingDimensions: classificationAnswerSchema.optional(),
+      worseOnTraditionalMetrics: classificationAnswerSchema.optional(),
+      bestCustomersWantIt: classificationAnswerSchema.optional(),
+      needsDifferentBusinessModel: classificationAnswerSchema.optional(),
+    })
+    .optional()
+    .describe("Answers to the classification questions"),
+  observations: z
+    .array(z.string())
+    .optional()
+    .describe("Free-text observations about customers, pricing, incumbents and the market"),
+});
+
+export type ClassifyInnovationInput = z.infer<typeof classifyInnovationSchema>;
+
+export const classifyInnovationOutputSchema = z.object({
+  innovation: z.string(),
+  classification: innovationClassificationSchema,
+  unansweredQuestions: z
+    .array(z.string())
+    .describe("Classification questions without an answer; answering them firms up the result"),
+});
+
+export type ClassifyInnovationOutput = z.infer<typeof classifyInnovationOutputSchema>;
+
+const FAMILY_TITLES: Record<SignalFamily, string> = {
+  sustaining: "Sustaining",
+  "low-end": "Low-End Disruption",
+  "new-market": "New-Market Disruption",
+};
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Render evidence for one signal family
+ */
+function renderEvidence(family: SignalFamily, evidence: SignalEvidence[]): string {
+  const items = evidence.filter((e) => e.family === family);
+  if (items.length === 0) return "_No signals found._";
+  return items
+    .map((e) => `- **${e.signal}** (+${e.weight}, ${e.source}): ${e.evidence}`)
+    .join("\n");
+}
+
+/**
+ * Classify an innovation with the deterministic scoring engine
+ */
+export async function classifyInnovation(
+  input: ClassifyInnovationInput
+): Promise<ToolOutput<ClassifyInnovationOutput>> {
+  const validated = classifyInnovationSchema.parse(input);
+  const classification = classifyInnovationBySignals(validated);
+
+  const unansweredQuestions = QUESTION_IDS.filter((id) => {
+    const answer = validated.answers?.[id];
+    return !answer || answer === "unknown";
+  }).map((id) => CLASSIFICATION_ANSWER_RULES[id].question.question);
+
+  const { scores, evidence, negated } = classification;
+
+  const text = `
+# Innovation Classification
+
+## Innovation
+${validated.innovation}
+
+## Classification: ${classification.innovationType}
+**Confidence**: ${classification.confidence}
+
+${classification.rationale}
+
+## Signal Scores
+| Family | Score |
+|--------|-------|
+${(Object.keys(FAMILY_TITLES) as SignalFamily[]).map((f) => `| ${FAMILY_TITLES[f]} | ${scores[f]} |`).join("\n")}
+
+## Evidence
+
+### Sustaining
+${renderEvidence("sustaining", evidence)}
+
+### Low-End Disruption
+${renderEvidence("low-end", evidence)}
+
+### New-Market Disruption
+${renderEvidence("new-market", evidence)}
+${
+  negated.length > 0
+    ? `
+### Set Aside (negated)
+${negated.map((n) => `- ${n.signal} ← "${n.negation} … ${n.span.text}" in ${n.span.field}`).join("\n")}
+`
+    : ""
+}${
+  unansweredQuestions.length > 0
+    ? `
+## Questions to Answer
+${unansweredQuestions.map((q) => `- ${q}`).join("\n")}
+`
+    : ""
+}
+---
+
+*This is a signal-based baseline: it counts evidence, it doesn't understand your market. Use it to challenge - not replace - your own judgment.*
+`.trim();
+
+  return {
+    text,
+    structured: {
+      innovation: validated.innovation,
+      classification,
+      unansweredQuestions,
+    },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+const ANSWER_PROPERTY = {
+  type: "string",
+  enum: ["yes", "partly", "no", "unknown"],
+};
+
+export function getClassifyInnovationToolDefinition() {
+  return {
+    name: "classify_innovation",
+    description: `Classify an innovation as sustaining, low-end disruptive, new-market disruptive or hybrid.
+
+Deterministic and reproducible: scores the sustaining, low-end and new-market
+signal families from your answers to the classification questions and from
+keywords in your observations, then returns the classification with the
+evidence behind each score, a rationale and a confidence level.
+
+Use this to:
+- Get a stable baseline classification that doesn't vary run to run
+- See which signals drive the classification
+- Find which classification questions are still unanswered`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        innovation: {
+          type: "string",
+          description: "The innovation, product or entrant to classify",
+        },
+        answers: {
+          type: "object",
+          description: "Answers to the classification questions",
+          properties: {
+            improvesExistingDimensions: {
+              ...ANSWER_PROPERTY,
+              description: CLASSIFICATION_ANSWER_RULES.improvesExistingDimensions.question.question,
+            },
+            worseOnTraditionalMetrics: {
+              ...ANSWER_PROPERTY,
+              description: CLASSIFICATION_ANSWER_RULES.worseOnTraditionalMetrics.question.question,
+            },
+            bestCustomersWantIt: {
+              ...ANSWER_PROPERTY,
+              description: CLASSIFICATION_ANSWER_RULES.bestCustomersWantIt.question.question,
+            },
+            needsDifferentBusinessModel: {
+              ...ANSWER_PROPERTY,
+              description: CLASSIFICATION_ANSWER_RULES.needsDifferentBusinessModel.question.question,
+            },
+          },
+        },
+        observations: {
+          type: "array",
+          items: { type: "string" },
+          description: "Free-text observations about customers, pricing, incumbents and the market",
+        },
+      },
+      required: ["innovation"],
+    },
+    outputSchema: toOutputSchema(classifyInnovationOutputSchema),
+  };
+}
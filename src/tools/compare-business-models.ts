@@ -0,0 +1,168 @@
+/**
+ * Compare Business Models Tool
+ *
+ * Contrasts the incumbent's four-box business model with the one a new
+ * opportunity requires, field by field, and says whether the opportunity
+ * fits the incumbent model, stretches it, or needs a new one.
+ */
+
+import { z } from "zod";
+import {
+  businessModelComparisonSchema,
+  businessModelSchema,
+  compareBusinessModels,
+  createEmptyBusinessModel,
+} from "../frameworks/index.js";
+import type { BusinessModel } from "../frameworks/index.js";
+import { mergeWithTemplate } from "../sampling/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+export const compareBusinessModelsSchema = z.object({
+  incumbent: z.record(z.unknown()).describe("The organization's current business model; any field may be left out"),
+  required: z.record(z.unknown()).describe("The business model the opportunity requires; any field may be left out"),
+  opportunity: z.string().optional().describe("The opportunity being assessed"),
+});
+
+export type CompareBusinessModelsInput = z.infer<typeof compareBusinessModelsSchema>;
+
+export const compareBusinessModelsOutputSchema = z.object({
+  opportunity: z.string().optional(),
+  incumbent: businessModelSchema,
+  required: businessModelSchema,
+  comparison: businessModelComparisonSchema,
+});
+
+export type CompareBusinessModelsOutput = z.infer<typeof compareBusinessModelsOutputSchema>;
+
+const FIT_TITLES: Record<CompareBusinessModelsOutput["comparison"]["fit"], string> = {
+  fits: "Fits the incumbent model",
+  stretch: "Stretches the incumbent model",
+  "new-model": "Requires a new business model",
+  unclear: "Unclear",
+};
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Fill omitted model fields from the empty template and validate
+ */
+function parseModel(name: "incumbent" | "required", value: Record<string, unknown>): BusinessModel {
+  const result = businessModelSchema.safeParse(mergeWithTemplate(createEmptyBusinessModel(), value));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${[name, ...i.path].join(".")}: ${i.message}`);
+    throw new Error(`Invalid business model: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Escape user text for a markdown table cell
+ */
+function tableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Compare the incumbent business model with the one an opportunity requires
+ */
+export async function compareBusinessModelsTool(
+  input: CompareBusinessModelsInput
+): Promise<ToolOutput<CompareBusinessModelsOutput>> {
+  const validated = compareBusinessModelsSchema.parse(input);
+  const incumbent = parseModel("incumbent", validated.incumbent);
+  const required = parseModel("required", validated.required);
+  const comparison = compareBusinessModels(incumbent, required);
+
+  const newRequirements = comparison.differences.flatMap((d) =>
+    d.newRequirements.map((item) => `- ${item} (${d.field})`)
+  );
+
+  const text = `
+# Business Model Comparison
+${validated.opportunity ? `\n**Opportunity**: ${validated.opportunity}\n` : ""}
+**Verdict**: ${FIT_TITLES[comparison.fit]}
+
+${comparison.rationale}
+
+## Field by Field
+
+${
+  comparison.differences.length > 0
+    ? `| Field | Incumbent | Required | Similarity | Changed |
+|-------|-----------|----------|------------|---------|
+${comparison.differences
+  .map((d) => `| ${d.field} | ${tableCell(d.incumbent)} | ${tableCell(d.required)} | ${d.similarity} | ${d.changed ? "yes" : "no"} |`)
+  .join("\n")}`
+    : "_No field is filled in for both models._"
+}
+
+## New Requirements
+
+${newRequirements.length > 0 ? newRequirements.join("\n") : "_None: every required resource and process exists today._"}
+`.trim();
+
+  return {
+    text,
+    structured: {
+      opportunity: validated.opportunity,
+      incumbent,
+      required,
+      comparison,
+    },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getCompareBusinessModelsToolDefinition() {
+  return {
+    name: "compare_business_models",
+    description: `Contrast the incumbent business model with the one a new opportunity requires.
+
+Each model has four boxes: the customer value proposition (targetCustomer,
+jobToBeDone, offering), keyResources, keyProcesses, and the profit formula
+(revenueModel, costStructure, marginModel, resourceVelocity). Fields filled
+in for both models are compared by word overlap; required resources and
+processes the incumbent lacks are listed as new requirements.
+
+Verdict:
+- fits: nothing compared has changed
+- stretch: only the value proposition or resources change
+- new-model: the key processes or profit formula change, so the
+  opportunity likely needs a new business model, often in a separate unit
+
+Use this to:
+- Test whether an opportunity can run inside the existing business
+- See which boxes a new opportunity changes
+- Decide whether a separate unit is warranted`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        incumbent: {
+          type: "object",
+          description:
+            "Current business model: valueProposition {targetCustomer, jobToBeDone, offering}, keyResources [], keyProcesses [], profitFormula {revenueModel, costStructure, marginModel, resourceVelocity}; any field may be left out",
+        },
+        required: {
+          type: "object",
+          description: "Business model the opportunity requires, in the same shape; any field may be left out",
+        },
+        opportunity: {
+          type: "string",
+          description: "The opportunity being assessed",
+        },
+      },
+      required: ["incumbent", "required"],
+    },
+    outputSchema: toOutputSchema(compareBusinessModelsOutputSchema),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Diagnose Capabilities Tool
+ *
+ * Scores each layer of a capabilities-processes-priorities analysis as a
+ * blocker and shows the evidence behind every score, so "priorities is
+ * the primary blocker" comes with the reasons. Weights default to the
+ * theory, can be tuned per persona (scoring.capability_blockers in the
+ * persona YAML) and overridden per call.
+ */
+
+import { z } from "zod";
+import {
+  blockerWeightsSchema,
+  capabilityDiagnosisSchema,
+  cppAnalysisSchema,
+  createEmptyCPPAnalysis,
+  diagnoseCapabilities,
+  resolveBlockerWeights,
+} from "../frameworks/index.js";
+import type { BlockerWeights, CapabilityLayer, CPPAnalysis, DeepPartial } from "../frameworks/index.js";
+import { DEFAULT_PERSONA_ID, getScoring, listPersonaIds } from "../persona-loader.js";
+import type { CapabilityBlockerScoring } from "../persona-loader.js";
+import { mergeWithTemplate } from "../sampling/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+export const diagnoseCapabilitiesSchema = z.object({
+  analysis: z
+    .record(z.unknown())
+    .describe("Capabilities-processes-priorities analysis; any field may be left out"),
+  persona: z
+    .string()
+    .optional()
+    .describe(`Persona id whose scoring weights apply (default: ${DEFAULT_PERSONA_ID})`),
+  weights: blockerWeightsSchema
+    .deepPartial()
+    .optional()
+    .describe("Weights for this call, over the persona's"),
+});
+
+export type DiagnoseCapabilitiesInput = z.infer<typeof diagnoseCapabilitiesSchema>;
+
+export const diagnoseCapabilitiesOutputSchema = z.object({
+  persona: z.string().describe("Persona id whose scoring weights applied"),
+  diagnosis: capabilityDiagnosisSchema,
+});
+
+export type DiagnoseCapabilitiesOutput = z.infer<typeof diagnoseCapabilitiesOutputSchema>;
+
+const LAYER_TITLES: Record<CapabilityLayer, string> = {
+  resources: "Resources",
+  processes: "Processes",
+  priorities: "Priorities",
+};
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Map persona YAML scoring keys onto blocker weights
+ */
+function personaBlockerWeights(scoring: CapabilityBlockerScoring = {}): DeepPartial<BlockerWeights> {
+  const { items } = scoring;
+  return {
+    layers: scoring.layers,
+    items: items && {
+      missingResource: items.missing_resource,
+      acquirableResource: items.acquirable_resource,
+      hinderingProcess: items.hindering_process,
+      supportingProcess: items.supporting_process,
+      requiredProcessChange: items.required_process_change,
+      requiredPriorityShift: items.required_priority_shift,
+    },
+    flexibility: scoring.flexibility,
+    rigidity: scoring.rigidity,
+    alignment: scoring.alignment,
+    blockingThreshold: scoring.blocking_threshold,
+  };
+}
+
+/**
+ * Fill omitted analysis fields from the empty template and validate
+ */
+function parseAnalysis(value: Record<string, unknown>): CPPAnalysis {
+  const result = cppAnalysisSchema.safeParse(mergeWithTemplate(createEmptyCPPAnalysis(), value));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${["analysis", ...i.path].join(".")}: ${i.message}`);
+    throw new Error(`Invalid analysis: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Diagnose which capability layer blocks execution, and why
+ */
+export async function diagnoseCapabilityBlockers(
+  input: DiagnoseCapabilitiesInput
+): Promise<ToolOutput<DiagnoseCapabilitiesOutput>> {
+  const validated = diagnoseCapabilitiesSchema.parse(input);
+  const persona = validated.persona ?? DEFAULT_PERSONA_ID;
+  const analysis = parseAnalysis(validated.analysis);
+
+  const personaWeights = resolveBlockerWeights(personaBlockerWeights(getScoring(persona).capability_blockers));
+  const weights = resolveBlockerWeights(validated.weights, personaWeights);
+  const diagnosis = diagnoseCapabilities(analysis, weights);
+
+  const layers = Object.keys(LAYER_TITLES) as CapabilityLayer[];
+  const text = `
+# Capability Diagnosis
+
+**Primary blocker**: ${diagnosis.primaryBlocker}
+**Can execute**: ${diagnosis.canExecute ? "yes" : "not as currently organized"}
+
+${diagnosis.rationale}
+
+## Layer Scores
+
+| Layer | Raw | Weight | Score | Blocking |
+|-------|-----|--------|-------|----------|
+${layers
+  .map((l) => {
+    const d = diagnosis.layers[l];
+    return `| ${LAYER_TITLES[l]} | ${d.rawScore} | ${weights.layers[l]} | ${d.score} | ${d.blocking ? "yes" : "no"} |`;
+  })
+  .join("\n")}
+
+*Blocking threshold: ${weights.blockingThreshold}*
+
+## Evidence
+
+${layers
+  .map((l) => {
+    const evidence = diagnosis.layers[l].evidence;
+    const items =
+      evidence.length > 0
+        ? evidence.map((e) => `- ${e.evidence} (${e.weight > 0 ? "+" : ""}${e.weight}, \`${e.field}\`)`).join("\n")
+        : "_No evidence._";
+    return `### ${LAYER_TITLES[l]}\n${items}`;
+  })
+  .join("\n\n")}
+
+## Ranked Blockers
+
+${
+  diagnosis.blockers.length > 0
+    ? diagnosis.blockers.map((l, i) => `${i + 1}. **${LAYER_TITLES[l]}** (${diagnosis.layers[l].score})`).join("\n")
+    : "_No layer blocks execution._"
+}
+`.trim();
+
+  return {
+    text,
+    structured: { persona, diagnosis },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getDiagnoseCapabilitiesToolDefinition() {
+  return {
+    name: "diagnose_capabilities",
+    description: `Explain which capability layer blocks execution.
+
+Scores the resources, processes and priorities of a CPP analysis as
+blockers. Each piece of evidence - a missing resource, a hindering
+process, misaligned priorities - adds a weighted amount to its layer
+(supporting processes and acquirable resources subtract), the layer
+weight scales the total, and layers at or above the blocking threshold
+are ranked. The organization can execute when no layer blocks.
+
+Weights come from the defaults, then the persona's
+scoring.capability_blockers, then the weights passed in.
+
+Use this to:
+- See the evidence behind a primary blocker
+- Check whether the organization can execute as currently organized
+- Test how sensitive the verdict is to the weights`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        analysis: {
+          type: "object",
+          description: "CPP analysis, shaped like analyze_decision's analysis.theCapabilities; any field may be left out",
+        },
+        persona: {
+          type: "string",
+          description: `Persona id whose scoring weights apply (default: ${DEFAULT_PERSONA_ID}). Available: ${listPersonaIds().join(", ")}`,
+        },
+        weights: {
+          type: "object",
+          description:
+            "Weights for this call, any subset: layers {resources, processes, priorities}, items {missingResource, acquirableResource, hinderingProcess, supportingProcess, requiredProcessChange, requiredPriorityShift}, flexibility/rigidity {high, medium, low}, alignment {aligned, neutral, misaligned}, blockingThreshold",
+        },
+      },
+      required: ["analysis"],
+    },
+    outputSchema: toOutputSchema(diagnoseCapabilitiesOutputSchema),
+  };
+}
@@ -10,7 +10,7 @@ import {
   JTBD_DIAGNOSTIC_QUESTIONS,
   JTBD_FOLLOWUP_QUESTIONS,
   JTBD_VOICE_PHRASES,
-  MILKSHAKE_STORY,
+  MILKSHAKE_CASE_KEY,
   DISRUPTION_DIAGNOSTIC_QUESTIONS,
   SUSTAINING_SIGNALS,
   LOW_END_DISRUPTION_SIGNALS,
@@ -23,7 +23,28 @@ import {
   RESOURCE_DEPENDENCE_QUESTIONS,
   CPP_VOICE_PHRASES,
   RESOURCE_DEPENDENCE_VOICE_PHRASES,
+  MODULARITY_DIAGNOSTIC_QUESTIONS,
+  NOT_GOOD_ENOUGH_SIGNALS,
+  MORE_THAN_GOOD_ENOUGH_SIGNALS,
+  MODULARITY_VOICE_PHRASES,
+  ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS,
+  ATTRACTIVE_PROFITS_VOICE_PHRASES,
+  BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS,
+  PROFIT_FORMULA_QUESTIONS,
+  BUSINESS_MODEL_VOICE_PHRASES,
+  EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS,
+  RESOURCE_ALLOCATION_QUESTIONS,
+  EMERGENT_STRATEGY_VOICE_PHRASES,
+  HONDA_CASE_KEY,
+  DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS,
+  DISCOVERY_DRIVEN_VOICE_PHRASES,
+  DISCOVERY_MILESTONES,
+  diagnosticQuestionSchema,
 } from "../frameworks/index.js";
+import type { DiagnosticQuestion } from "../frameworks/index.js";
+import { getCase } from "../case-library/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
 
 // ============================================================
 // Tool Schema
@@ -31,7 +52,18 @@ import {
 
 export const getFrameworkSchema = z.object({
   framework: z
-    .enum(["jtbd", "disruption", "cpp", "resource-dependence", "all"])
+    .enum([
+      "jtbd",
+      "disruption",
+      "cpp",
+      "resource-dependence",
+      "modularity",
+      "attractive-profits",
+      "business-model",
+      "emergent-strategy",
+      "discovery-driven",
+      "all",
+    ])
     .describe("Which framework to retrieve information about"),
   detail: z
     .enum(["summary", "full", "questions-only"])
@@ -42,6 +74,35 @@ export const getFrameworkSchema = z.object({
 
 export type GetFrameworkInput = z.infer<typeof getFrameworkSchema>;
 
+const frameworkIdSchema = z.enum([
+  "jtbd",
+  "disruption",
+  "cpp",
+  "resource-dependence",
+  "modularity",
+  "attractive-profits",
+  "business-model",
+  "emergent-strategy",
+  "discovery-driven",
+]);
+
+export const getFrameworkOutputSchema = z.object({
+  framework: getFrameworkSchema.shape.framework,
+  detail: z.enum(["summary", "full", "questions-only"]),
+  frameworks: z
+    .array(
+      z.object({
+        id: frameworkIdSchema,
+        title: z.string(),
+        diagnosticQuestions: z.array(diagnosticQuestionSchema),
+        voicePhrases: z.array(z.string()),
+      })
+    )
+    .describe("Structured reference for each requested framework"),
+});
+
+export type GetFrameworkOutput = z.infer<typeof getFrameworkOutputSchema>;
+
 // ============================================================
 // Framework Descriptions
 // ============================================================
@@ -173,14 +234,201 @@ respond to - the rational thing is to ignore it.
 - Predicting what opportunities will be ignored
 - Designing strategies to navigate constraints
 - Creating separate units with different resource providers
+`,
+
+  modularity: `
+# Interdependence vs Modularity
+
+## Core Insight
+The right architecture depends on whether performance is good enough.
+Integration is not inherently better than modularity, or the reverse -
+the circumstance decides, and the circumstance changes.
+
+## Not Good Enough → Interdependence Wins
+- Customers pay for every improvement in functionality and reliability
+- Engineers must optimize across component boundaries
+- Interfaces can't be specified in advance, so firms must integrate
+
+## More Than Good Enough → Modularity Wins
+- Customers are overshot and won't pay for more performance
+- Competition shifts to speed, convenience and customization
+- Interfaces become specifiable, verifiable and predictable
+- Specialists build to standards and mix-and-match
+
+## Value Chain Evolution
+As one stage overshoots it modularizes, and performance becomes not good
+enough somewhere else in the chain. Integration - and the money - moves there.
+
+## When to Use
+- Deciding whether to integrate or outsource
+- Judging whether to build a platform or an integrated product
+- Predicting how an industry's structure will change
+`,
+
+  "attractive-profits": `
+# The Law of Conservation of Attractive Profits
+
+## Core Insight
+Profits don't disappear when a stage of the value chain commoditizes -
+they move. When one stage becomes more than good enough and modular,
+attractive profits shift to an adjacent stage where performance is not
+yet good enough and interdependence still matters.
+
+## How Profits Migrate
+- A stage overshoots what customers can use and modularizes
+- Suppliers become interchangeable; competition there shifts to price
+- An adjacent stage becomes the one that is hardest to get right
+- Whoever integrates across that stage captures the margin
+
+## Reading a Value Chain
+- Commoditizing: standard interfaces, many suppliers, price wars, eroding margins
+- Not good enough: customers pay for improvements, proprietary designs, bottlenecks
+
+## When to Use
+- "Where will the margin be in five years?"
+- Deciding which stage of the value chain to own
+- Anticipating profit migration before it shows up in the numbers
+`,
+
+  "business-model": `
+# Business Model: Four Boxes
+
+## Core Insight
+A business model is four interlocking boxes. Once established, the profit
+formula and processes decide which opportunities the organization can
+pursue - and opportunities that need a different model get reshaped to fit
+the old one.
+
+## The Four Boxes
+- **Customer Value Proposition**: The target customer, the job to be done, and the offering
+- **Key Resources**: People, technology, products, facilities, channels, brand
+- **Key Processes**: Recurring ways of working, rules and norms
+- **Profit Formula**: Revenue model, cost structure, margin model, resource velocity
+
+## When a New Model Is Needed
+- The opportunity needs a different profit formula (lower margins, different velocity)
+- The opportunity needs processes the organization doesn't run
+- Only resources or the value proposition change → the existing model can stretch
+
+## When to Use
+- Deciding whether a new opportunity can live inside the existing business
+- Designing a separate unit for a disruptive opportunity
+- Understanding why an incumbent keeps turning away an opportunity
+`,
+
+  "emergent-strategy": `
+# Deliberate vs Emergent Strategy
+
+## Core Insight
+Strategy is made by two processes at once. The deliberate strategy is the
+plan, built on assumptions about the market. The emergent strategy is made
+of the opportunities and problems nobody anticipated. The resource
+allocation process decides which one wins - what gets funded is the real
+strategy.
+
+## When Deliberate Strategy Works
+- The plan's details cover everything that matters
+- Everyone who must act on it shares the same view
+- Outside forces won't upset it: the future can be read
+
+## When to Follow the Emergent Signals
+- The market contradicts the plan's assumptions
+- Unexpected customers buy, or use the product in unexpected ways
+- The future can't be read yet - the market is still teaching you
+
+## When to Use
+- "Should we stick to the plan or follow the signals?"
+- Reviewing a plan's assumptions against what the market has done since
+- Checking whether resource allocation matches the stated strategy
+`,
+
+  "discovery-driven": `
+# Discovery-Driven Planning
+
+## Core Insight
+A new venture's plan is mostly assumptions, and conventional planning
+treats them as facts. Discovery-driven planning starts from the profit the
+venture must make, works backwards to what would have to be true, and tests
+the assumptions that matter most at milestones - before committing more.
+
+## The Reverse Income Statement
+- Required profit ÷ required return on sales = required revenue
+- Required revenue - required profit = allowable costs
+- Required revenue ÷ unit price = units to sell
+- Units to sell → the people, equipment and channels it takes
+
+## The Assumption Checklist
+- Every number behind the plan is an assumption
+- Rank them by how much the plan suffers if they're wrong
+- Test each at a milestone, and recalculate with what you learn
+
+## When to Use
+- Planning a new-growth venture in an unfamiliar market
+- "What would have to be true for this to work?"
+- Deciding what to learn before committing the next round of investment
 `,
 };
 
+/**
+ * Structured reference data for each framework
+ */
+const FRAMEWORK_REFERENCE: Record<
+  z.infer<typeof frameworkIdSchema>,
+  { title: string; diagnosticQuestions: DiagnosticQuestion[]; voicePhrases: string[] }
+> = {
+  jtbd: {
+    title: "Jobs-to-Be-Done",
+    diagnosticQuestions: JTBD_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: JTBD_VOICE_PHRASES,
+  },
+  disruption: {
+    title: "Disruption Theory",
+    diagnosticQuestions: DISRUPTION_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: DISRUPTION_VOICE_PHRASES,
+  },
+  cpp: {
+    title: "Capabilities-Processes-Priorities",
+    diagnosticQuestions: CPP_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: CPP_VOICE_PHRASES,
+  },
+  "resource-dependence": {
+    title: "Resource Dependence",
+    diagnosticQuestions: RESOURCE_DEPENDENCE_QUESTIONS,
+    voicePhrases: RESOURCE_DEPENDENCE_VOICE_PHRASES,
+  },
+  modularity: {
+    title: "Interdependence vs Modularity",
+    diagnosticQuestions: MODULARITY_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: MODULARITY_VOICE_PHRASES,
+  },
+  "attractive-profits": {
+    title: "Conservation of Attractive Profits",
+    diagnosticQuestions: ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: ATTRACTIVE_PROFITS_VOICE_PHRASES,
+  },
+  "business-model": {
+    title: "Business Model",
+    diagnosticQuestions: BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: BUSINESS_MODEL_VOICE_PHRASES,
+  },
+  "emergent-strategy": {
+    title: "Deliberate vs Emergent Strategy",
+    diagnosticQuestions: EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: EMERGENT_STRATEGY_VOICE_PHRASES,
+  },
+  "discovery-driven": {
+    title: "Discovery-Driven Planning",
+    diagnosticQuestions: DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS,
+    voicePhrases: DISCOVERY_DRIVEN_VOICE_PHRASES,
+  },
+};
+
 // ============================================================
 // Detailed Framework Information
 // ============================================================
 
 function getJTBDFull(): string {
+  const milkshake = getCase(MILKSHAKE_CASE_KEY);
   return `
 ${FRAMEWORK_SUMMARIES.jtbd}
 
@@ -208,9 +456,9 @@ ${JTBD_FOLLOWUP_QUESTIONS.circumstance.map((q) => `- ${q.question}`).join("\n")}
 
 ## Canonical Example: The Milkshake Story
 
-${MILKSHAKE_STORY.story}
+${milkshake?.story ?? ""}
 
-**Key Lesson**: ${MILKSHAKE_STORY.lesson}
+**Key Lesson**: ${milkshake?.lessonsForToday ?? ""}
 
 ---
 
@@ -297,6 +545,137 @@ ${RESOURCE_DEPENDENCE_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
 `.trim();
 }
 
+function getModularityFull(): string {
+  return `
+${FRAMEWORK_SUMMARIES.modularity}
+
+---
+
+## Performance Gap Signals
+
+### Not Good Enough (Interdependence Wins)
+${NOT_GOOD_ENOUGH_SIGNALS.map((s) => `- ${s}`).join("\n")}
+
+### More Than Good Enough (Modularity Wins)
+${MORE_THAN_GOOD_ENOUGH_SIGNALS.map((s) => `- ${s}`).join("\n")}
+
+---
+
+## Diagnostic Questions
+
+${MODULARITY_DIAGNOSTIC_QUESTIONS.map((q) => `- **[${q.importance}]** ${q.question}`).join("\n")}
+
+---
+
+## Christensen's Voice on Interdependence and Modularity
+
+${MODULARITY_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
+`.trim();
+}
+
+function getAttractiveProfitsFull(): string {
+  return `
+${FRAMEWORK_SUMMARIES["attractive-profits"]}
+
+---
+
+## Stage Signals
+
+### Commoditizing (Profits Leave)
+${MORE_THAN_GOOD_ENOUGH_SIGNALS.map((s) => `- ${s}`).join("\n")}
+
+### Not Good Enough (Profits Arrive)
+${NOT_GOOD_ENOUGH_SIGNALS.map((s) => `- ${s}`).join("\n")}
+
+---
+
+## Diagnostic Questions
+
+${ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS.map((q) => `- **[${q.importance}]** ${q.question}`).join("\n")}
+
+---
+
+## Christensen's Voice on Profit Migration
+
+${ATTRACTIVE_PROFITS_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
+`.trim();
+}
+
+function getBusinessModelFull(): string {
+  return `
+${FRAMEWORK_SUMMARIES["business-model"]}
+
+---
+
+## Diagnostic Questions
+
+${BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS.map((q) => `- **[${q.importance}]** ${q.question}`).join("\n")}
+
+### Profit Formula Questions
+${PROFIT_FORMULA_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+---
+
+## Christensen's Voice on Business Models
+
+${BUSINESS_MODEL_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
+`.trim();
+}
+
+function getEmergentStrategyFull(): string {
+  const honda = getCase(HONDA_CASE_KEY);
+  return `
+${FRAMEWORK_SUMMARIES["emergent-strategy"]}
+
+---
+
+## Diagnostic Questions
+
+${EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS.map((q) => `- **[${q.importance}]** ${q.question}`).join("\n")}
+
+### Resource Allocation Questions
+${RESOURCE_ALLOCATION_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+---
+
+## Canonical Example: Honda Motorcycles in America
+
+${honda?.story ?? ""}
+
+**Key Lesson**: ${honda?.lessonsForToday ?? ""}
+
+---
+
+## Christensen's Voice on Strategy Process
+
+${EMERGENT_STRATEGY_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
+`.trim();
+}
+
+function getDiscoveryDrivenFull(): string {
+  return `
+${FRAMEWORK_SUMMARIES["discovery-driven"]}
+
+---
+
+## Milestones
+
+${DISCOVERY_MILESTONES.map((m, i) => `${i + 1}. **${m.milestone}**: ${m.test}`).join("\n")}
+
+---
+
+## Diagnostic Questions
+
+${DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS.map((q) => `- **[${q.importance}]** ${q.question}`).join("\n")}
+
+---
+
+## Christensen's Voice on Planning New Ventures
+
+${DISCOVERY_DRIVEN_VOICE_PHRASES.map((p) => `> "${p}"`).join("\n\n")}
+`.trim();
+}
+
 function getQuestionsOnly(framework: string): string {
   switch (framework) {
     case "jtbd":
@@ -322,6 +701,36 @@ ${CPP_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
 # Resource Dependence: Key Questions
 
 ${RESOURCE_DEPENDENCE_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+`.trim();
+    case "modularity":
+      return `
+# Interdependence vs Modularity: Key Questions
+
+${MODULARITY_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+`.trim();
+    case "attractive-profits":
+      return `
+# Conservation of Attractive Profits: Key Questions
+
+${ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+`.trim();
+    case "business-model":
+      return `
+# Business Model: Key Questions
+
+${BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+`.trim();
+    case "emergent-strategy":
+      return `
+# Deliberate vs Emergent Strategy: Key Questions
+
+${EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+`.trim();
+    case "discovery-driven":
+      return `
+# Discovery-Driven Planning: Key Questions
+
+${DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
 `.trim();
     default:
       return "Unknown framework";
@@ -333,11 +742,9 @@ ${RESOURCE_DEPENDENCE_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
 // ============================================================
 
 /**
- * Get framework information
+ * Render framework information as markdown
  */
-export async function getFramework(input: GetFrameworkInput): Promise<string> {
-  const validated = getFrameworkSchema.parse(input);
-
+function renderFramework(validated: GetFrameworkInput): string {
   if (validated.framework === "all") {
     if (validated.detail === "questions-only") {
       return `
@@ -354,6 +761,21 @@ ${CPP_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
 
 ## Resource Dependence
 ${RESOURCE_DEPENDENCE_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+## Interdependence vs Modularity
+${MODULARITY_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+## Conservation of Attractive Profits
+${ATTRACTIVE_PROFITS_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+## Business Model
+${BUSINESS_MODEL_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+## Deliberate vs Emergent Strategy
+${EMERGENT_STRATEGY_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
+
+## Discovery-Driven Planning
+${DISCOVERY_DRIVEN_DIAGNOSTIC_QUESTIONS.map((q) => `- ${q.question}`).join("\n")}
 `.trim();
     }
 
@@ -371,6 +793,26 @@ ${FRAMEWORK_SUMMARIES.cpp}
 ---
 
 ${FRAMEWORK_SUMMARIES["resource-dependence"]}
+
+---
+
+${FRAMEWORK_SUMMARIES.modularity}
+
+---
+
+${FRAMEWORK_SUMMARIES["attractive-profits"]}
+
+---
+
+${FRAMEWORK_SUMMARIES["business-model"]}
+
+---
+
+${FRAMEWORK_SUMMARIES["emergent-strategy"]}
+
+---
+
+${FRAMEWORK_SUMMARIES["discovery-driven"]}
 `.trim();
   }
 
@@ -388,6 +830,16 @@ ${FRAMEWORK_SUMMARIES["resource-dependence"]}
         return getCPPFull();
       case "resource-dependence":
         return getResourceDependenceFull();
+      case "modularity":
+        return getModularityFull();
+      case "attractive-profits":
+        return getAttractiveProfitsFull();
+      case "business-model":
+        return getBusinessModelFull();
+      case "emergent-strategy":
+        return getEmergentStrategyFull();
+      case "discovery-driven":
+        return getDiscoveryDrivenFull();
     }
   }
 
@@ -395,6 +847,26 @@ ${FRAMEWORK_SUMMARIES["resource-dependence"]}
   return FRAMEWORK_SUMMARIES[validated.framework] ?? "Unknown framework";
 }
 
+/**
+ * Get framework information
+ */
+export async function getFramework(
+  input: GetFrameworkInput
+): Promise<ToolOutput<GetFrameworkOutput>> {
+  const validated = getFrameworkSchema.parse(input);
+  const ids =
+    validated.framework === "all" ? frameworkIdSchema.options : [validated.framework];
+
+  return {
+    text: renderFramework(validated),
+    structured: {
+      framework: validated.framework,
+      detail: validated.detail,
+      frameworks: ids.map((id) => ({ id, ...FRAMEWORK_REFERENCE[id] })),
+    },
+  };
+}
+
 /**
  * Get the tool definition for MCP
  */
@@ -408,6 +880,11 @@ Available frameworks:
 - disruption: Disruption Theory
 - cpp: Capabilities-Processes-Priorities
 - resource-dependence: Resource Dependence Theory
+- modularity: Interdependence vs Modularity (value chain evolution)
+- attractive-profits: Law of Conservation of Attractive Profits
+- business-model: Business Model (value proposition, resources, processes, profit formula)
+- emergent-strategy: Deliberate vs Emergent Strategy (stick to the plan or follow the signals)
+- discovery-driven: Discovery-Driven Planning (reverse income statement, assumption checklist)
 - all: Overview of all frameworks
 
 Detail levels:
@@ -419,7 +896,18 @@ Detail levels:
       properties: {
         framework: {
           type: "string",
-          enum: ["jtbd", "disruption", "cpp", "resource-dependence", "all"],
+          enum: [
+            "jtbd",
+            "disruption",
+            "cpp",
+            "resource-dependence",
+            "modularity",
+            "attractive-profits",
+            "business-model",
+            "emergent-strategy",
+            "discovery-driven",
+            "all",
+          ],
           description: "Which framework to retrieve",
         },
         detail: {
@@ -430,5 +918,6 @@ Detail levels:
       },
       required: ["framework"],
     },
+    outputSchema: toOutputSchema(getFrameworkOutputSchema),
   };
 }
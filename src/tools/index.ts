@@ -7,21 +7,115 @@
 export {
   analyzeDecision,
   analyzeDecisionSchema,
+  analyzeDecisionOutputSchema,
+  buildAnalysisPrompt,
   getAnalyzeDecisionToolDefinition,
 } from "./analyze-decision.js";
-export type { AnalyzeDecisionInput } from "./analyze-decision.js";
+export type {
+  AnalyzeDecisionInput,
+  AnalyzeDecisionOutput,
+} from "./analyze-decision.js";
 
 export {
   findCaseStudy,
   listCaseStudies,
+  getCaseStudyDetail,
   caseStudySchema,
+  caseStudyOutputSchema,
   getCaseStudyToolDefinition,
 } from "./case-study.js";
-export type { CaseStudyInput } from "./case-study.js";
+export type {
+  CaseStudyInput,
+  CaseStudyOutput,
+  CaseStudyDetail,
+} from "./case-study.js";
 
 export {
   getFramework,
   getFrameworkSchema,
+  getFrameworkOutputSchema,
   getFrameworkToolDefinition,
 } from "./get-framework.js";
-export type { GetFrameworkInput } from "./get-framework.js";
+export type { GetFrameworkInput, GetFrameworkOutput } from "./get-framework.js";
+
+export {
+  classifyInnovation,
+  classifyInnovationSchema,
+  classifyInnovationOutputSchema,
+  getClassifyInnovationToolDefinition,
+} from "./classify-innovation.js";
+export type {
+  ClassifyInnovationInput,
+  ClassifyInnovationOutput,
+} from "./classify-innovation.js";
+
+export {
+  assessConfidence,
+  assessConfidenceSchema,
+  assessConfidenceOutputSchema,
+  getAssessConfidenceToolDefinition,
+} from "./assess-confidence.js";
+export type {
+  AssessConfidenceInput,
+  AssessConfidenceOutput,
+} from "./assess-confidence.js";
+
+export {
+  synthesizeAnalysis,
+  synthesizeAnalysisSchema,
+  synthesizeAnalysisOutputSchema,
+  getSynthesizeAnalysisToolDefinition,
+} from "./synthesize-analysis.js";
+export type {
+  SynthesizeAnalysisInput,
+  SynthesizeAnalysisOutput,
+} from "./synthesize-analysis.js";
+
+export {
+  parseFrameworkAnswer,
+  parseFrameworkAnswerSchema,
+  parseFrameworkAnswerOutputSchema,
+  getParseFrameworkAnswerToolDefinition,
+} from "./parse-framework-answer.js";
+export type {
+  ParseFrameworkAnswerInput,
+  ParseFrameworkAnswerOutput,
+} from "./parse-framework-answer.js";
+
+export {
+  diagnoseCapabilityBlockers,
+  diagnoseCapabilitiesSchema,
+  diagnoseCapabilitiesOutputSchema,
+  getDiagnoseCapabilitiesToolDefinition,
+} from "./diagnose-capabilities.js";
+export type {
+  DiagnoseCapabilitiesInput,
+  DiagnoseCapabilitiesOutput,
+} from "./diagnose-capabilities.js";
+
+export {
+  compareBusinessModelsTool,
+  compareBusinessModelsSchema,
+  compareBusinessModelsOutputSchema,
+  getCompareBusinessModelsToolDefinition,
+} from "./compare-business-models.js";
+export type {
+  CompareBusinessModelsInput,
+  CompareBusinessModelsOutput,
+} from "./compare-business-models.js";
+
+export {
+  planDiscovery,
+  planDiscoverySchema,
+  planDiscoveryOutputSchema,
+  getPlanDiscoveryToolDefinition,
+} from "./plan-discovery.js";
+export type {
+  PlanDiscoveryInput,
+  PlanDiscoveryOutput,
+} from "./plan-discovery.js";
+
+export { renderCompletedAnalysis } from "./render-analysis.js";
+
+export { toOutputSchema } from "./structured-output.js";
+export type { ToolOutput } from "./structured-output.js";
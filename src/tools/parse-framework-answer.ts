@@ -0,0 +1,166 @@
+/**
+ * Parse Framework Answer Tool
+ *
+ * Turns the free-text answer to one of the framework prompts - the
+ * markdown a model writes for jtbd_analysis, disruption_analysis and
+ * the rest - into the typed framework analysis, so results can be
+ * stored or passed to synthesize_analysis without copying by hand.
+ */
+
+import { z } from "zod";
+import {
+  cppAnalysisSchema,
+  disruptionAnalysisSchema,
+  jtbdAnalysisSchema,
+  parseCPPAnswer,
+  parseDisruptionAnswer,
+  parseJTBDAnswer,
+  parseResourceDependenceAnswer,
+  resourceDependenceAnalysisSchema,
+  unparsedSectionSchema,
+} from "../frameworks/index.js";
+import type { ParsedFrameworkAnswer } from "../frameworks/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+const answerFrameworkSchema = z.enum(["jtbd", "disruption", "cpp", "resource-dependence"]);
+
+type AnswerFramework = z.infer<typeof answerFrameworkSchema>;
+
+export const parseFrameworkAnswerSchema = z.object({
+  framework: answerFrameworkSchema.describe("Which framework prompt the answer responds to"),
+  answer: z.string().min(1).describe("The free-text answer, as written"),
+});
+
+export type ParseFrameworkAnswerInput = z.infer<typeof parseFrameworkAnswerSchema>;
+
+export const parseFrameworkAnswerOutputSchema = z.object({
+  framework: answerFrameworkSchema,
+  analysis: z.union([
+    jtbdAnalysisSchema,
+    disruptionAnalysisSchema,
+    cppAnalysisSchema,
+    resourceDependenceAnalysisSchema,
+  ]),
+  parsed: z.array(z.string()).describe("Prompt sections that filled at least one field"),
+  unparsed: z
+    .array(unparsedSectionSchema)
+    .describe("Sections that were missing, empty or not part of the prompt"),
+});
+
+export type ParseFrameworkAnswerOutput = z.infer<typeof parseFrameworkAnswerOutputSchema>;
+
+/**
+ * Parser for each framework prompt, with the analysis key
+ * synthesize_analysis expects it under
+ */
+const PARSERS: Record<
+  AnswerFramework,
+  {
+    title: string;
+    section: string;
+    parse: (text: string) => ParsedFrameworkAnswer<ParseFrameworkAnswerOutput["analysis"]>;
+  }
+> = {
+  jtbd: { title: "Jobs-to-Be-Done", section: "theJob", parse: (text) => parseJTBDAnswer(text) },
+  disruption: { title: "Disruption Theory", section: "theLandscape", parse: (text) => parseDisruptionAnswer(text) },
+  cpp: {
+    title: "Capabilities, Processes & Priorities",
+    section: "theCapabilities",
+    parse: (text) => parseCPPAnswer(text),
+  },
+  "resource-dependence": {
+    title: "Resource Dependence",
+    section: "theConstraints",
+    parse: (text) => parseResourceDependenceAnswer(text),
+  },
+};
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Parse a free-text framework answer into its typed analysis
+ */
+export async function parseFrameworkAnswer(
+  input: ParseFrameworkAnswerInput
+): Promise<ToolOutput<ParseFrameworkAnswerOutput>> {
+  const validated = parseFrameworkAnswerSchema.parse(input);
+  const { title, section, parse } = PARSERS[validated.framework];
+  const { analysis, parsed, unparsed } = parse(validated.answer);
+
+  if (parsed.length === 0) {
+    throw new Error(
+      `No ${title} prompt sections found in the answer. Expected headings like: ${unparsed.map((u) => u.section).join(", ")}`
+    );
+  }
+
+  const text = `
+# Parsed ${title} Answer
+
+**Sections parsed**: ${parsed.join(", ")}
+**Confidence**: ${analysis.confidence}
+
+## Not Parsed
+${unparsed.length > 0 ? unparsed.map((u) => `- **${u.section}**: ${u.reason}`).join("\n") : "_Every section was parsed._"}
+
+## Analysis
+
+\`\`\`json
+${JSON.stringify(analysis, null, 2)}
+\`\`\`
+
+---
+
+*Pass this as \`${section}\` to synthesize_analysis to combine it with other frameworks.*
+`.trim();
+
+  return {
+    text,
+    structured: { framework: validated.framework, analysis, parsed, unparsed },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getParseFrameworkAnswerToolDefinition() {
+  return {
+    name: "parse_framework_answer",
+    description: `Turn a free-text framework answer into a structured analysis.
+
+Takes the markdown answer to one of the framework prompts (jtbd_analysis,
+disruption_analysis, cpp_analysis, resource_dependence_analysis) and
+extracts the typed analysis: numbered or titled sections like "1. THE JOB"
+or "LAYER 2: PROCESSES", labeled lines and bullet lists. Tolerates
+formatting drift - markdown headings, bold, missing numbers - and reports
+every section it could not parse instead of guessing.
+
+Use this to:
+- Store framework answers without copying them by hand
+- Feed answers to synthesize_analysis or assess_confidence
+- See which parts of the prompt an answer skipped`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        framework: {
+          type: "string",
+          enum: ["jtbd", "disruption", "cpp", "resource-dependence"],
+          description: "Which framework prompt the answer responds to",
+        },
+        answer: {
+          type: "string",
+          description: "The free-text answer, as written",
+        },
+      },
+      required: ["framework", "answer"],
+    },
+    outputSchema: toOutputSchema(parseFrameworkAnswerOutputSchema),
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Plan Discovery Tool
+ *
+ * Discovery-driven planning for a new-growth venture: works the income
+ * statement backwards from the target profit, derives what the venture
+ * must put in place, and ranks the assumptions to test at each
+ * milestone. Updated assumptions recalculate the plan.
+ */
+
+import { z } from "zod";
+import {
+  assumptionUpdateSchema,
+  buildDiscoveryDrivenPlan,
+  discoveryDrivenPlanSchema,
+  discoveryPlanInputSchema,
+  fixedCostSchema,
+  operationalDriverSchema,
+  reviseAssumptions,
+  unitEconomicsSchema,
+} from "../frameworks/index.js";
+import type { DiscoveryDrivenPlan, DiscoveryPlanInput } from "../frameworks/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+export const planDiscoverySchema = z.object({
+  targetProfit: z.number().describe("Profit the venture must make to be worth doing"),
+  returnOnSales: z.number().describe("Required return on sales (0-1)"),
+  unitEconomics: unitEconomicsSchema.describe("Price and variable cost per unit"),
+  operations: z
+    .array(operationalDriverSchema)
+    .optional()
+    .describe("Resources the venture needs more of as volume grows"),
+  fixedCosts: z.array(fixedCostSchema).optional().describe("Costs that do not grow with volume"),
+  updates: z
+    .array(assumptionUpdateSchema)
+    .optional()
+    .describe("New values for checklist assumptions, learned at milestones"),
+  venture: z.string().optional().describe("The venture being planned"),
+});
+
+export type PlanDiscoveryInput = z.infer<typeof planDiscoverySchema>;
+
+export const planDiscoveryOutputSchema = z.object({
+  venture: z.string().optional(),
+  input: discoveryPlanInputSchema.describe("The plan's assumptions, with any updates applied"),
+  plan: discoveryDrivenPlanSchema,
+  revisions: z
+    .array(
+      z.object({
+        id: z.string(),
+        previousValue: z.number(),
+        value: z.number(),
+      })
+    )
+    .describe("Updated assumptions and the values they replaced"),
+  previousHeadroom: z.number().optional().describe("Headroom before the updates"),
+});
+
+export type PlanDiscoveryOutput = z.infer<typeof planDiscoveryOutputSchema>;
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+const amount = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+/**
+ * Validate a plan's assumptions, naming the field that failed
+ */
+function parsePlan(label: string, value: DiscoveryPlanInput): DiscoveryPlanInput {
+  const result = discoveryPlanInputSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid ${label}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Render the reverse income statement as a table
+ */
+function renderStatement(plan: DiscoveryDrivenPlan): string {
+  const s = plan.statement;
+  return `| Line | Amount |
+|------|--------|
+| Required profit | ${amount(s.requiredProfit)} |
+| Required return on sales | ${Math.round(s.returnOnSales * 100)}% |
+| Required revenue | ${amount(s.requiredRevenue)} |
+| Allowable costs | ${amount(s.allowableCosts)} |
+| Units to sell | ${amount(s.requiredUnits)} |
+| Variable costs | ${amount(s.variableCosts)} |
+| Operating costs | ${amount(s.operatingCosts)} |
+| Fixed costs | ${amount(s.fixedCosts)} |
+| Total costs | ${amount(s.totalCosts)} |
+| Headroom | ${amount(s.headroom)} |`;
+}
+
+/**
+ * Build a discovery-driven plan, recalculated with any updated assumptions
+ */
+export async function planDiscovery(input: PlanDiscoveryInput): Promise<ToolOutput<PlanDiscoveryOutput>> {
+  const validated = planDiscoverySchema.parse(input);
+  const original = parsePlan("plan", {
+    targetProfit: validated.targetProfit,
+    returnOnSales: validated.returnOnSales,
+    unitEconomics: validated.unitEconomics,
+    operations: validated.operations ?? [],
+    fixedCosts: validated.fixedCosts ?? [],
+  });
+  const revised = reviseAssumptions(original, validated.updates ?? []);
+  const updated = parsePlan("update", revised.input);
+  const revisions = revised.revisions;
+
+  const before = buildDiscoveryDrivenPlan(original);
+  const plan = revisions.length > 0 ? buildDiscoveryDrivenPlan(updated) : before;
+
+  const requirements = plan.requirements.map(
+    (r) => `| ${r.resource} | ${amount(r.required)} | ${amount(r.cost)} | ${r.derivation} |`
+  );
+  const checklist = plan.checklist.map(
+    (item) => `| ${item.rank} | ${item.assumption} | \`${item.id}\` | ${amount(item.impact)} | ${item.milestone} |`
+  );
+
+  const text = `
+# Discovery-Driven Plan
+${validated.venture ? `\n**Venture**: ${validated.venture}\n` : ""}
+**Verdict**: ${plan.viable ? "The assumptions can deliver the target" : "The assumptions fall short of the target"}
+
+${plan.rationale}
+${
+  revisions.length > 0
+    ? `
+## Recalculated
+
+${revisions.map((r) => `- \`${r.id}\`: ${amount(r.previousValue)} → ${amount(r.value)}`).join("\n")}
+
+Headroom: ${amount(before.statement.headroom)} → ${amount(plan.statement.headroom)}
+`
+    : ""
+}
+## Reverse Income Statement
+
+${renderStatement(plan)}
+
+## Operational Requirements
+
+${
+  requirements.length > 0
+    ? `| Resource | Required | Cost | Derivation |
+|----------|----------|------|------------|
+${requirements.join("\n")}`
+    : "_No operational drivers given._"
+}
+
+## Assumption Checklist
+
+Ranked by the headroom lost if each assumption turns out 10% worse.
+
+| Rank | Assumption | Id | Impact | Tested at |
+|------|------------|----|--------|-----------|
+${checklist.join("\n")}
+
+## Milestones
+
+${plan.milestones
+  .map((m, i) => `${i + 1}. **${m.milestone}**: ${m.test} (${m.assumptions.map((id) => `\`${id}\``).join(", ")})`)
+  .join("\n")}
+`.trim();
+
+  return {
+    text,
+    structured: {
+      venture: validated.venture,
+      input: updated,
+      plan,
+      revisions,
+      previousHeadroom: revisions.length > 0 ? before.statement.headroom : undefined,
+    },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getPlanDiscoveryToolDefinition() {
+  return {
+    name: "plan_discovery",
+    description: `Plan a new-growth venture the discovery-driven way.
+
+Starts from the profit the venture must make and works the income statement
+backwards: the revenue the required return on sales implies, the costs it
+allows, the units to sell at the assumed price, and the resources needed to
+deliver them. Every number behind the plan is an assumption; the checklist
+ranks them by the headroom lost if each turns out 10% worse and names the
+milestone that tests it (market test, prototype, pilot, launch).
+
+Pass updates ({id, value}, using checklist ids) with the same plan to
+recalculate it with what a milestone taught you.
+
+Use this to:
+- Check whether a venture's assumptions can deliver the profit it needs
+- Decide which assumptions to test first, and when
+- Recalculate the plan as assumptions are confirmed or revised`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        targetProfit: {
+          type: "number",
+          description: "Profit the venture must make to be worth doing",
+        },
+        returnOnSales: {
+          type: "number",
+          description: "Required return on sales, between 0 and 1 (e.g. 0.1 for 10%)",
+        },
+        unitEconomics: {
+          type: "object",
+          properties: {
+            unitPrice: { type: "number", description: "Revenue per unit sold" },
+            unitCost: { type: "number", description: "Variable cost to deliver one unit" },
+          },
+          required: ["unitPrice", "unitCost"],
+        },
+        operations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              resource: { type: "string", description: "What the venture needs more of as volume grows" },
+              unitsPerResource: { type: "number", description: "Units each one can handle" },
+              costPerResource: { type: "number", description: "Cost of each one" },
+            },
+            required: ["resource", "unitsPerResource", "costPerResource"],
+          },
+          description: "Resources the venture needs more of as volume grows",
+        },
+        fixedCosts: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              item: { type: "string" },
+              amount: { type: "number" },
+            },
+            required: ["item", "amount"],
+          },
+          description: "Costs that do not grow with volume",
+        },
+        updates: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "Checklist id of the assumption" },
+              value: { type: "number", description: "New value learned at a milestone" },
+            },
+            required: ["id", "value"],
+          },
+          description: "New values for checklist assumptions, to recalculate the plan",
+        },
+        venture: {
+          type: "string",
+          description: "The venture being planned",
+        },
+      },
+      required: ["targetProfit", "returnOnSales", "unitEconomics"],
+    },
+    outputSchema: toOutputSchema(planDiscoveryOutputSchema),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Analysis Rendering
+ *
+ * Markdown for a completed ChristensenAnalysis, shared by the tools that
+ * produce one: analyze_decision in sampled mode and synthesize_analysis.
+ */
+
+import type { ChristensenAnalysis } from "../frameworks/index.js";
+import type { FocusArea, SampledAnalysisResult } from "../sampling/index.js";
+
+/**
+ * Render a completed analysis as markdown
+ */
+export function renderCompletedAnalysis(
+  analysis: ChristensenAnalysis,
+  focusAreas: FocusArea[],
+  unparsed: SampledAnalysisResult["unparsed"] = []
+): string {
+  const list = (items: string[]) =>
+    items.length > 0 ? items.map((i) => `- ${i}`).join("\n") : "- (none identified)";
+
+  const sections: string[] = [];
+
+  if (focusAreas.includes("jtbd")) {
+    const job = analysis.theJob;
+    sections.push(`
+## The Job
+
+${job.job}
+
+- **Functional**: ${job.dimensions.functional}
+- **Emotional**: ${job.dimensions.emotional}
+- **Social**: ${job.dimensions.social}
+
+**Circumstance**: ${job.circumstance.situation}${job.circumstance.trigger ? ` (triggered by: ${job.circumstance.trigger})` : ""}
+
+**What they fire to hire this**:
+${list(job.firingFrom)}
+
+**Underserved**:
+${list(job.underservedSegments)}
+
+*Confidence: ${job.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("disruption")) {
+    const landscape = analysis.theLandscape;
+    sections.push(`
+## The Landscape
+
+**Innovation type**: ${landscape.innovationType}
+
+${landscape.classificationRationale}
+
+**Why incumbents won't respond**: ${landscape.asymmetricMotivation.incumbentMotivation}
+
+**Trajectory**: ${landscape.trajectory.projectedPath}
+
+*Confidence: ${landscape.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("cpp")) {
+    const capabilities = analysis.theCapabilities;
+    sections.push(`
+## The Capabilities
+
+**Can execute**: ${capabilities.overallAssessment.canExecute ? "yes" : "not as currently organized"}
+**Primary blocker**: ${capabilities.overallAssessment.primaryBlocker}
+
+${capabilities.overallAssessment.explanation}
+
+**Recommendations**:
+${list(capabilities.recommendations)}
+
+*Confidence: ${capabilities.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("resource-dependence")) {
+    const constraints = analysis.theConstraints;
+    sections.push(`
+## The Constraints
+
+**Risk level**: ${constraints.riskLevel}
+
+**Conflicts with resource providers**:
+${list(constraints.conflicts)}
+
+**Navigation strategy**: ${constraints.navigationStrategy}
+
+*Confidence: ${constraints.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("modularity") && analysis.theArchitecture) {
+    const architecture = analysis.theArchitecture;
+    sections.push(`
+## The Architecture
+
+**Performance**: ${architecture.performanceGap}
+**Architecture**: ${architecture.currentArchitecture} today, ${architecture.favoredArchitecture} favored
+
+${architecture.gapRationale}
+
+**Basis of competition**: ${architecture.basisOfCompetition}
+
+**Interdependent interfaces**:
+${list(architecture.interfaces.interdependent)}
+
+**Value chain evolution**: ${architecture.valueChainEvolution}
+
+**Implications**:
+${list(architecture.strategicImplications)}
+
+*Confidence: ${architecture.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("attractive-profits") && analysis.theProfits) {
+    const profits = analysis.theProfits;
+    sections.push(`
+## The Profits
+
+**Value chain**:
+${list(profits.stages.map((s) => `${s.stage}: ${s.status}`))}
+
+**Profits today**: ${profits.currentProfitPool}
+**Profits heading to**: ${profits.futureProfitPool}
+
+**Predicted shifts**:
+${list(profits.profitShifts.map((s) => `${s.from} → ${s.to}`))}
+
+**Implications**:
+${list(profits.positioningImplications)}
+
+*Confidence: ${profits.confidence}*
+`);
+  }
+
+  if (focusAreas.includes("emergent-strategy") && analysis.theStrategy) {
+    const strategy = analysis.theStrategy;
+    sections.push(`
+## The Strategy
+
+**Intended strategy**: ${strategy.intendedStrategy}
+
+**Plan assumptions vs the market**:
+${list(strategy.tracker.assumptions.map((a) => `${a.assumption}: ${a.status}`))}
+
+**Unanticipated opportunities**:
+${list(strategy.unanticipatedOpportunities)}
+
+**Where resources actually go**:
+${list(strategy.resourceAllocation.actualAllocation)}
+
+**Recommended process**: ${strategy.tracker.recommendedMode} - ${strategy.tracker.rationale}
+
+**Implications**:
+${list(strategy.strategicImplications)}
+
+*Confidence: ${strategy.confidence}*
+`);
+  }
+
+  return `
+# Christensen Strategic Analysis
+
+## THE DECISION
+
+${analysis.context}
+
+---
+${sections.join("\n---\n")}
+---
+
+## The Pattern
+
+**${analysis.thePattern.primaryCase.name || "No clear case match"}**${analysis.thePattern.primaryCase.pattern ? ` - ${analysis.thePattern.primaryCase.pattern}` : ""}
+
+${analysis.thePattern.patternSummary}
+
+## The Prediction
+
+${analysis.thePrediction.mostLikelyOutcome}
+
+*Confidence: ${analysis.thePrediction.confidence}*
+
+**Key assumptions**:
+${list(analysis.thePrediction.keyAssumptions)}
+
+## The Consideration
+
+${list(analysis.theConsideration)}
+
+---
+
+${analysis.narrativeSummary}
+${
+  unparsed.length > 0
+    ? `
+---
+
+*Some sections could not be parsed from the sampled answers and were left as templates: ${unparsed.map((u) => u.section).join(", ")}*
+`
+    : ""
+}`.trim();
+}
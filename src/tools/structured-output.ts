@@ -0,0 +1,30 @@
+/**
+ * Structured Tool Output
+ *
+ * Every tool returns markdown for humans alongside structured content
+ * for downstream agents. The structured half is described by a zod
+ * schema that doubles as the tool's MCP outputSchema.
+ */
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * Result of a tool call: markdown text plus structured content
+ */
+export interface ToolOutput<T> {
+  text: string;
+  structured: T;
+}
+
+/**
+ * Convert a zod object schema into an MCP tool outputSchema
+ */
+export function toOutputSchema(schema: z.ZodTypeAny) {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  return { ...jsonSchema, type: "object" as const };
+}
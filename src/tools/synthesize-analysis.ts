@@ -0,0 +1,195 @@
+/**
+ * Synthesize Analysis Tool
+ *
+ * Combines finished framework analyses - jobs-to-be-done, disruption,
+ * CPP and resource dependence - into one Christensen analysis: the
+ * tensions between them, the historical pattern, a prediction with
+ * computed confidence, and a narrative summary in the persona's voice.
+ */
+
+import { z } from "zod";
+import {
+  analysisConfidenceAssessmentSchema,
+  analysisTensionSchema,
+  christensenAnalysisSchema,
+  cppAnalysisSchema,
+  createEmptyCPPAnalysis,
+  createEmptyDisruptionAnalysis,
+  createEmptyJTBDAnalysis,
+  createEmptyResourceDependenceAnalysis,
+  disruptionAnalysisSchema,
+  jtbdAnalysisSchema,
+  resourceDependenceAnalysisSchema,
+  synthesizeFrameworkAnalyses,
+} from "../frameworks/index.js";
+import type { AnalysisSection, SynthesisInput } from "../frameworks/index.js";
+import { DEFAULT_PERSONA_ID, getVoice, listPersonaIds } from "../persona-loader.js";
+import { mergeWithTemplate } from "../sampling/index.js";
+import type { FocusArea } from "../sampling/index.js";
+import { toOutputSchema } from "./structured-output.js";
+import type { ToolOutput } from "./structured-output.js";
+import { renderCompletedAnalysis } from "./render-analysis.js";
+
+// ============================================================
+// Tool Schema
+// ============================================================
+
+export const synthesizeAnalysisSchema = z.object({
+  decision: z.string().describe("The decision or situation being analyzed"),
+  theJob: z.record(z.unknown()).optional().describe("Jobs-to-be-done analysis"),
+  theLandscape: z.record(z.unknown()).optional().describe("Disruption analysis"),
+  theCapabilities: z.record(z.unknown()).optional().describe("Capabilities-processes-priorities analysis"),
+  theConstraints: z.record(z.unknown()).optional().describe("Resource dependence analysis"),
+  persona: z
+    .string()
+    .optional()
+    .describe(`Persona id whose voice narrates the summary (default: ${DEFAULT_PERSONA_ID})`),
+});
+
+export type SynthesizeAnalysisInput = z.infer<typeof synthesizeAnalysisSchema>;
+
+export const synthesizeAnalysisOutputSchema = z.object({
+  persona: z.string().describe("Persona id that narrated the summary"),
+  analysis: christensenAnalysisSchema,
+  tensions: z.array(analysisTensionSchema).describe("Findings from different frameworks that pull against each other"),
+  confidence: analysisConfidenceAssessmentSchema.describe("Confidence roll-up behind thePrediction.confidence"),
+});
+
+export type SynthesizeAnalysisOutput = z.infer<typeof synthesizeAnalysisOutputSchema>;
+
+/**
+ * Template, schema and focus area for each framework section
+ */
+const SECTIONS: Record<AnalysisSection, { template: () => unknown; schema: z.ZodTypeAny; focusArea: FocusArea }> = {
+  theJob: { template: createEmptyJTBDAnalysis, schema: jtbdAnalysisSchema, focusArea: "jtbd" },
+  theLandscape: { template: createEmptyDisruptionAnalysis, schema: disruptionAnalysisSchema, focusArea: "disruption" },
+  theCapabilities: { template: createEmptyCPPAnalysis, schema: cppAnalysisSchema, focusArea: "cpp" },
+  theConstraints: {
+    template: createEmptyResourceDependenceAnalysis,
+    schema: resourceDependenceAnalysisSchema,
+    focusArea: "resource-dependence",
+  },
+};
+
+/** Issues listed under "What Would Raise Confidence" */
+const MAX_LISTED_ISSUES = 5;
+
+// ============================================================
+// Tool Implementation
+// ============================================================
+
+/**
+ * Fill a section's omitted fields from its empty template and validate it
+ */
+function parseSection(section: AnalysisSection, value: Record<string, unknown>): unknown {
+  const { template, schema } = SECTIONS[section];
+  const result = schema.safeParse(mergeWithTemplate(template(), value));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${[section, ...i.path].join(".")}: ${i.message}`);
+    throw new Error(`Invalid ${section}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Synthesize framework analyses into a complete Christensen analysis
+ */
+export async function synthesizeAnalysis(
+  input: SynthesizeAnalysisInput
+): Promise<ToolOutput<SynthesizeAnalysisOutput>> {
+  const validated = synthesizeAnalysisSchema.parse(input);
+  const persona = validated.persona ?? DEFAULT_PERSONA_ID;
+
+  const provided = (Object.keys(SECTIONS) as AnalysisSection[]).filter((s) => validated[s] !== undefined);
+  if (provided.length === 0) {
+    throw new Error("Provide at least one framework analysis: theJob, theLandscape, theCapabilities or theConstraints");
+  }
+
+  const sections = Object.fromEntries(provided.map((s) => [s, parseSection(s, validated[s] ?? {})]));
+  const { analysis, tensions, confidence } = await synthesizeFrameworkAnalyses(
+    { context: validated.decision, ...sections } as SynthesisInput,
+    { voicePhrases: getVoice(persona).characteristic_phrases }
+  );
+
+  const gaps = confidence.issues.slice(0, MAX_LISTED_ISSUES);
+
+  const text = `
+${renderCompletedAnalysis(analysis, provided.map((s) => SECTIONS[s].focusArea))}
+
+---
+
+## Tensions to Resolve
+
+${
+  tensions.length > 0
+    ? tensions.map((t) => `- **${t.description}** ${t.question}`).join("\n")
+    : "_The frameworks tell a consistent story._"
+}
+
+## What Would Raise Confidence
+
+${gaps.length > 0 ? gaps.map((i) => `- \`${i.field}\` (${i.kind}): ${i.message}`).join("\n") : "_Nothing - every framework is complete and consistent._"}
+`.trim();
+
+  return {
+    text,
+    structured: { persona, analysis, tensions, confidence },
+  };
+}
+
+// ============================================================
+// Tool Definition
+// ============================================================
+
+export function getSynthesizeAnalysisToolDefinition() {
+  return {
+    name: "synthesize_analysis",
+    description: `Combine framework analyses into one Christensen analysis.
+
+Takes the jobs-to-be-done, disruption, CPP and resource dependence
+analyses you have (any subset, fields may be left out) and assembles the
+full analysis: detects tensions between the frameworks (e.g. a new-market
+disruption rated aligned with current priorities), picks the primary case
+study from the case library, derives a prediction whose confidence is
+computed from completeness and consistency, and writes a narrative summary
+in the persona's voice.
+
+Deterministic: the same analyses always synthesize the same way.
+
+Use this to:
+- Turn separate framework answers into one coherent analysis
+- Surface contradictions between frameworks before acting on them
+- See which gaps most limit confidence in the prediction`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        decision: {
+          type: "string",
+          description: "The decision or situation being analyzed",
+        },
+        theJob: {
+          type: "object",
+          description: "Jobs-to-be-done analysis, shaped like analyze_decision's analysis.theJob",
+        },
+        theLandscape: {
+          type: "object",
+          description: "Disruption analysis, shaped like analyze_decision's analysis.theLandscape",
+        },
+        theCapabilities: {
+          type: "object",
+          description: "Capabilities-processes-priorities analysis, shaped like analyze_decision's analysis.theCapabilities",
+        },
+        theConstraints: {
+          type: "object",
+          description: "Resource dependence analysis, shaped like analyze_decision's analysis.theConstraints",
+        },
+        persona: {
+          type: "string",
+          description: `Persona id whose voice narrates the summary (default: ${DEFAULT_PERSONA_ID}). Available: ${listPersonaIds().join(", ")}`,
+        },
+      },
+      required: ["decision"],
+    },
+    outputSchema: toOutputSchema(synthesizeAnalysisOutputSchema),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Hosts the Christensen server over MCP Streamable HTTP so one shared
+ * instance can serve web clients and multiple agents. Each MCP session
+ * gets its own server instance, keyed by the Mcp-Session-Id header;
+ * sessions idle for longer than the idle timeout are closed.
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp   MCP Streamable HTTP endpoint
+ * - GET /health            Liveness check with session count
+ */
+
+import { createServer as createHttpServer } from "http";
+import type { IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, SERVER_NAME, SERVER_VERSION } from "../server.js";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Close sessions with no requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+export const MCP_PATH = "/mcp";
+export const HEALTH_PATH = "/health";
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * A session's transport and when it was last used
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Requests still being answered, e.g. an open GET event stream */
+  openRequests: number;
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+// ============================================================
+// HTTP Helpers
+// ============================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    // Keep draining an oversized body so the client gets the 413, but stop buffering it
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > MAX_BODY_BYTES) {
+    throw new BodyTooLargeError();
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+// ============================================================
+// HTTP Server
+// ============================================================
+
+/**
+ * Start the Streamable HTTP server and resolve once it is listening
+ */
+export async function startHttpServer(options: HttpTransportOptions): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const idleTimeout = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Only enforce Host header checks when bound to loopback, where DNS
+  // rebinding is the main risk; remote deployments sit behind a proxy
+  const isLoopback = LOOPBACK_HOSTS.includes(options.host);
+
+  const createSessionTransport = (port: number): StreamableHTTPServerTransport => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, lastActive: Date.now(), openRequests: 0 });
+      },
+      enableDnsRebindingProtection: isLoopback,
+      allowedHosts: isLoopback
+        ? LOOPBACK_HOSTS.map((h) => (h.includes(":") ? `[${h}]:${port}` : `${h}:${port}`))
+        : undefined,
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    return transport;
+  };
+
+  /**
+   * Let a session's transport answer a request, keeping the session
+   * from being evicted while the response is open
+   */
+  const handleSessionRequest = async (
+    session: Session,
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown
+  ): Promise<void> => {
+    session.openRequests++;
+    res.once("close", () => {
+      session.openRequests--;
+      session.lastActive = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  };
+
+  // Close sessions the client abandoned without a DELETE
+  const evictIdleSessions = () => {
+    const cutoff = Date.now() - idleTimeout;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastActive < cutoff) {
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  };
+  const evictionTimer = setInterval(evictIdleSessions, Math.min(idleTimeout, 60_000));
+  evictionTimer.unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (url.pathname === HEALTH_PATH && req.method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          name: SERVER_NAME,
+          version: SERVER_VERSION,
+          sessions: sessions.size,
+        });
+        return;
+      }
+
+      if (url.pathname !== MCP_PATH) {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      const sessionHeader = req.headers["mcp-session-id"];
+      const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+      // An unknown id may be a session that was closed or evicted; 404 tells
+      // the client to start a new one
+      if (sessionId && !existing) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+
+      if (req.method === "POST") {
+        let body: unknown;
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          if (error instanceof BodyTooLargeError) {
+            sendJsonRpcError(res, 413, -32600, error.message);
+            return;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          sendJsonRpcError(res, 400, -32700, `Parse error: ${message}`);
+          return;
+        }
+
+        if (existing) {
+          await handleSessionRequest(existing, req, res, body);
+          return;
+        }
+
+        if (isInitializeRequest(body)) {
+          const address = httpServer.address();
+          const port = typeof address === "object" && address ? address.port : options.port;
+          const transport = createSessionTransport(port);
+          await createServer().connect(transport);
+          await transport.handleRequest(req, res, body);
+          // Rejected before a session started (e.g. a bad Host header)
+          if (!transport.sessionId) {
+            await transport.close();
+          }
+          return;
+        }
+
+        sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+        return;
+      }
+
+      if (req.method === "GET" || req.method === "DELETE") {
+        if (!existing) {
+          sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+          return;
+        }
+        await handleSessionRequest(existing, req, res);
+        return;
+      }
+
+      res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+    } catch (error) {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => {
+    clearInterval(evictionTimer);
+    for (const { transport } of sessions.values()) {
+      transport.close().catch(() => undefined);
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,198 @@
+/**
+ * Answer Parsing Check - Validate free-text framework answer parsing
+ *
+ * Parses markdown answers to each framework prompt, written with the
+ * formatting drift models produce (markdown headings, bold labels,
+ * "LAYER 2:" numbering, inline lists), and checks the extracted fields,
+ * negation handling and the sections reported as unparsed.
+ */
+
+import {
+  createEmptyJTBDAnalysis,
+  parseCPPAnswer,
+  parseDisruptionAnswer,
+  parseJTBDAnswer,
+  parseResourceDependenceAnswer,
+} from "../frameworks/index.js";
+import { parseFrameworkAnswer } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const JTBD_ANSWER = `
+Here is my analysis.
+
+## 1. THE JOB
+Commuters hire the milkshake to make a long, boring drive more interesting.
+
+## 2. Job Dimensions
+- **Functional:** Stay full until lunch
+- **Emotional:** Feel less bored
+- **Social:** Not look messy in the car
+
+**3. CIRCUMSTANCE**
+Situation: Early morning commute, alone in the car
+- Trigger: Getting in the car with 40 minutes ahead
+- Constraints: one free hand; no time to sit down
+
+### 4) Competition
+What are they currently "hiring" to do this job? Bagels, bananas, boredom
+
+5. UNDERSERVED
+- Commuters without a drive-through on their route
+
+## Summary
+It is about the job, not the customer.
+
+Confidence: medium
+`;
+
+const DISRUPTION_ANSWER = `
+**1. CLASSIFICATION**
+This is not a sustaining innovation - it is a low-end disruption.
+- Rationale: cheaper, good-enough steel for rebar
+
+**2. MARKET POSITION**
+- Segment: low-end customers who buy rebar
+- Over-served: purity, quality certification
+
+**3. TRUE COMPETITION**
+- Integrated mills
+- Is non-consumption a competitor? No.
+
+**6. CASE STUDY PARALLELS**
+- Kodak vs digital: a partial analogy
+- The steel minimills story is the textbook case.
+`;
+
+const CPP_ANSWER = `
+LAYER 1: RESOURCES (What you have)
+- Available: engineering team, brand
+- Missing: ML researchers
+- How easily could missing resources be acquired? Fairly easily - we can hire
+
+LAYER 2: PROCESSES (How you work)
+- Hindering: annual planning cycle; enterprise sales process
+- How hard would process changes be? Very hard
+
+LAYER 3: PRIORITIES (What you want)
+- Current priorities: 40% gross margin
+- Does it meet the margin/size thresholds for attention? No - it doesn't fit our margin targets
+`;
+
+const RESOURCE_DEPENDENCE_ANSWER = `
+1. WHO PROVIDES RESOURCES?
+- Key customers: Enterprise banks, Insurers
+- Investors: growth capital
+
+2. WHAT DO THEY WANT?
+- Enterprise banks: custom features, security
+
+3. HOW DOES THIS OPPORTUNITY AFFECT THEM?
+- Enterprise banks: would be concerned it distracts the roadmap
+- Risk: high
+
+4. CAN YOU NAVIGATE THE DEPENDENCE?
+Set up a separate unit with its own P&L and different customers.
+`;
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Parse the fixture answers and check fields and unparsed reporting
+ */
+export async function runAnswerParsingCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: free-text framework answer parsing");
+  console.log("=".repeat(60));
+
+  const jtbd = parseJTBDAnswer(JTBD_ANSWER);
+  const disruption = parseDisruptionAnswer(DISRUPTION_ANSWER);
+  const cpp = parseCPPAnswer(CPP_ANSWER);
+  const constraints = parseResourceDependenceAnswer(RESOURCE_DEPENDENCE_ANSWER);
+  const partial = parseJTBDAnswer("1. THE JOB\nGet through the commute", {
+    ...createEmptyJTBDAnalysis(),
+    underservedSegments: ["Kept from template"],
+  });
+
+  const tool = await parseFrameworkAnswer({ framework: "cpp", answer: CPP_ANSWER });
+  let rejectsUnstructured = false;
+  try {
+    await parseFrameworkAnswer({ framework: "jtbd", answer: "Sounds like a good idea to me." });
+  } catch (error) {
+    rejectsUnstructured = error instanceof Error && error.message.includes("THE JOB");
+  }
+
+  const banks = constraints.analysis.providers.find((p) => p.provider === "Enterprise banks");
+  const checks: [string, boolean][] = [
+    [
+      "JTBD: every prompt section parsed despite heading drift",
+      jtbd.parsed.length === 5 &&
+        jtbd.analysis.dimensions.social === "Not look messy in the car" &&
+        jtbd.analysis.circumstance.constraints.length === 2 &&
+        jtbd.analysis.firingFrom.includes("bananas"),
+    ],
+    [
+      "JTBD: extra heading reported, stated confidence kept",
+      jtbd.unparsed.some((u) => u.section === "Summary") && jtbd.analysis.confidence === "medium",
+    ],
+    [
+      "disruption: negated type skipped (not sustaining → low-end)",
+      disruption.analysis.innovationType === "low-end-disruptive" &&
+        disruption.analysis.marketPosition.segment === "low-end",
+    ],
+    [
+      "disruption: non-consumption answered no is not a competitor",
+      disruption.analysis.trueCompetitors.join() === "Integrated mills",
+    ],
+    [
+      "disruption: library case matched first, with its pattern",
+      disruption.analysis.caseStudyParallels[0]?.name === "Steel Mini-Mills" &&
+        disruption.analysis.caseStudyParallels[0].pattern !== "",
+    ],
+    [
+      "disruption: skipped sections reported as not found",
+      ["ASYMMETRIC MOTIVATION", "TRAJECTORY"].every((name) =>
+        disruption.unparsed.some((u) => u.section === name && u.reason === "section not found")
+      ),
+    ],
+    [
+      "CPP: question labels routed (acquirable, rigidity, alignment)",
+      cpp.analysis.resources.missing.join() === "ML researchers" &&
+        cpp.analysis.resources.acquirable.length === 1 &&
+        cpp.analysis.processes.rigidity === "high" &&
+        cpp.analysis.priorities.alignment === "misaligned",
+    ],
+    [
+      "CPP: primary blocker derived without an overall section",
+      cpp.analysis.overallAssessment.primaryBlocker === "priorities" &&
+        !cpp.analysis.overallAssessment.canExecute,
+    ],
+    [
+      "resource dependence: providers, expectations, impact and risk",
+      constraints.analysis.providers.length === 3 &&
+        banks?.expectations.join() === "custom features,security" &&
+        banks.impactOnRelationship === "negative" &&
+        constraints.analysis.riskLevel === "high",
+    ],
+    [
+      "partial answer starts from the template",
+      partial.analysis.job === "Get through the commute" &&
+        partial.analysis.underservedSegments[0] === "Kept from template" &&
+        partial.unparsed.some((u) => u.section === "UNDERSERVED"),
+    ],
+    ["tool: structured CPP analysis", tool.structured.parsed.length === 3],
+    ["tool: answer without prompt sections rejected", rejectsUnstructured],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
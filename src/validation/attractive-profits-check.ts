@@ -0,0 +1,109 @@
+/**
+ * Attractive Profits Check - Validate value chain mapping and profit shifts
+ *
+ * Flags the stages of the PC value chain from their descriptions, checks
+ * the predicted profit shifts (adjacent and distant), negated phrases,
+ * and the framework through analyze_decision and get_framework.
+ */
+
+import { flagValueChainStage, mapValueChain, predictProfitShifts } from "../frameworks/index.js";
+import type { StageDescription } from "../frameworks/index.js";
+import { analyzeDecision, getFramework } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const PC_VALUE_CHAIN: StageDescription[] = [
+  {
+    stage: "Microprocessors",
+    description: "Customers pay a premium for every speed gain; proprietary designs made in-house.",
+  },
+  {
+    stage: "PC assembly",
+    description:
+      "Assembled from off-the-shelf, industry-standard components. Many vendors compete on price and margins are shrinking.",
+  },
+  {
+    stage: "Operating system",
+    description: "Tightly coupled to the applications, and its interfaces keep changing.",
+  },
+  { stage: "Retail", description: "Sold through stores and online." },
+];
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Map the fixture value chain and check flags, shifts and tool wiring
+ */
+export async function runAttractiveProfitsCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: conservation of attractive profits");
+  console.log("=".repeat(60));
+
+  const stages = mapValueChain(PC_VALUE_CHAIN);
+  const shifts = predictProfitShifts(stages);
+  const overshot = flagValueChainStage({ stage: "Memory", description: "Customers won't pay a premium anymore" });
+  const unwilling = flagValueChainStage({ stage: "Memory", description: "Customers are unwilling to pay extra" });
+  const negated = flagValueChainStage({ stage: "Memory", description: "The design is not modular" });
+  const distant = predictProfitShifts(
+    mapValueChain([
+      { stage: "Components", description: "A commodity with many suppliers" },
+      { stage: "Assembly" },
+      { stage: "Software", description: "Proprietary and tightly coupled" },
+    ])
+  );
+
+  const analysis = await analyzeDecision({
+    decision: "Where will the margin be in the PC business in five years?",
+    focusAreas: ["attractive-profits"],
+    valueChain: PC_VALUE_CHAIN,
+  });
+  const profits = analysis.structured.analysis.theProfits;
+  const reference = await getFramework({ framework: "attractive-profits", detail: "full" });
+
+  const checks: [string, boolean][] = [
+    [
+      "stages flagged from their descriptions",
+      stages.map((s) => s.status).join() === "not-good-enough,commoditizing,not-good-enough,unclear" &&
+        stages[1].evidence.length === 5,
+    ],
+    [
+      "commoditizing assembly sends profits to both neighbors",
+      shifts.map((s) => `${s.from}→${s.to}`).join() === "PC assembly→Microprocessors,PC assembly→Operating system" &&
+        shifts[0].rationale.includes("adjacent upstream stage"),
+    ],
+    ["negated premium counts for commoditizing", overshot.status === "commoditizing" && overshot.evidence.length === 1],
+    [
+      `"unwilling to pay extra" counts for commoditizing (got ${unwilling.status})`,
+      unwilling.status === "commoditizing" && unwilling.evidence.length === 1,
+    ],
+    ["negated phrase skipped", negated.status === "unclear" && negated.evidence.length === 0],
+    [
+      "no not-good-enough neighbor → nearest stage",
+      distant.length === 1 && distant[0].to === "Software" && distant[0].rationale.includes("2 stages downstream"),
+    ],
+    [
+      "analyze_decision: mapped chain in prompt and template",
+      analysis.text.includes("## CONSERVATION OF ATTRACTIVE PROFITS ANALYSIS") &&
+        analysis.text.includes("2. PC assembly - commoditizing") &&
+        profits?.stages.length === 4 &&
+        profits.futureProfitPool === "Microprocessors, Operating system",
+    ],
+    [
+      "get_framework: stage signals and questions",
+      reference.text.includes("### Commoditizing (Profits Leave)") &&
+        reference.structured.frameworks[0].title === "Conservation of Attractive Profits",
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
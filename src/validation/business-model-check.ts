@@ -0,0 +1,128 @@
+/**
+ * Business Model Check - Validate the business model comparison
+ *
+ * Compares an enterprise software business with the self-serve model a
+ * small-business opportunity requires, then checks the stretch, fit and
+ * unclear verdicts, the compare_business_models tool and the prompts.
+ */
+
+import { compareBusinessModels, createEmptyBusinessModel } from "../frameworks/index.js";
+import type { BusinessModel } from "../frameworks/index.js";
+import { getPrompt } from "../prompts/index.js";
+import { compareBusinessModelsTool } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const ENTERPRISE_SOFTWARE: BusinessModel = {
+  valueProposition: {
+    targetCustomer: "Large enterprise IT departments",
+    jobToBeDone: "Manage customer data securely",
+    offering: "On-premise CRM suite",
+  },
+  keyResources: ["Enterprise sales team", "Brand trusted by banks", "CRM codebase"],
+  keyProcesses: ["Enterprise sales cycle", "Annual release planning"],
+  profitFormula: {
+    revenueModel: "Perpetual licenses at $500k per deal",
+    costStructure: "High sales and support costs",
+    marginModel: "60% gross margin on licenses",
+    resourceVelocity: "A few large deals per quarter",
+  },
+};
+
+const SELF_SERVE: BusinessModel = {
+  valueProposition: {
+    targetCustomer: "Small businesses without IT staff",
+    jobToBeDone: "Manage customer data securely",
+    offering: "Hosted CRM app",
+  },
+  keyResources: ["CRM codebase", "Online marketing"],
+  keyProcesses: ["Self-serve online signup", "Weekly release cadence"],
+  profitFormula: {
+    revenueModel: "Monthly subscriptions at $50 per seat",
+    costStructure: "Low-touch support, hosting costs",
+    marginModel: "15% margin on monthly subscriptions",
+    resourceVelocity: "Thousands of small accounts turning over monthly",
+  },
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Compare the fixtures and check verdicts, requirements and tool output
+ */
+export async function runBusinessModelCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: business model comparison");
+  console.log("=".repeat(60));
+
+  const comparison = compareBusinessModels(ENTERPRISE_SOFTWARE, SELF_SERVE);
+  const job = comparison.differences.find((d) => d.field === "valueProposition.jobToBeDone");
+  const resources = comparison.differences.find((d) => d.field === "keyResources");
+  const stretch = compareBusinessModels(ENTERPRISE_SOFTWARE, {
+    ...ENTERPRISE_SOFTWARE,
+    keyResources: [...ENTERPRISE_SOFTWARE.keyResources, "Data center in Europe"],
+  });
+  const fits = compareBusinessModels(ENTERPRISE_SOFTWARE, ENTERPRISE_SOFTWARE);
+  const unclear = compareBusinessModels(ENTERPRISE_SOFTWARE, createEmptyBusinessModel());
+
+  const tool = await compareBusinessModelsTool({
+    opportunity: "A CRM for small businesses",
+    incumbent: { keyProcesses: ["Enterprise sales cycle"] },
+    required: { keyProcesses: ["Self-serve online signup"] },
+  });
+  const escaped = await compareBusinessModelsTool({
+    incumbent: { profitFormula: { marginModel: "80% gross | 20% net" } },
+    required: { profitFormula: { marginModel: "Thin margins\nmade up on volume" } },
+  });
+  let rejectsInvalidModel = false;
+  try {
+    await compareBusinessModelsTool({ incumbent: { keyResources: "Sales team" }, required: {} });
+  } catch (error) {
+    rejectsInvalidModel = error instanceof Error && error.message.includes("incumbent.keyResources");
+  }
+  const comparisonPrompt = getPrompt("business_model_comparison", { situation: "A CRM for small businesses" });
+
+  const checks: [string, boolean][] = [
+    [
+      "new profit formula and processes → new model",
+      comparison.fit === "new-model" &&
+        comparison.changedElements.includes("profitFormula") &&
+        comparison.changedElements.includes("keyProcesses") &&
+        comparison.rationale.includes("separate unit"),
+    ],
+    ["shared job to be done unchanged", job?.similarity === 1 && !job.changed],
+    [
+      "missing resource listed, shared one carried over",
+      resources?.newRequirements.join() === "Online marketing" && resources.similarity === 0.5,
+    ],
+    [
+      "only resources change → stretch",
+      stretch.fit === "stretch" && stretch.changedElements.join() === "keyResources",
+    ],
+    ["identical models → fits", fits.fit === "fits" && fits.differences.length === 9],
+    ["empty required model → unclear", unclear.fit === "unclear" && unclear.differences.length === 0],
+    [
+      "tool: partial models compared, with a field table",
+      tool.structured.comparison.fit === "new-model" &&
+        tool.text.includes("| keyProcesses | Enterprise sales cycle | Self-serve online signup | 0 | yes |"),
+    ],
+    [
+      "tool: pipes and newlines escaped in table cells",
+      escaped.text.includes("| profitFormula.marginModel | 80% gross \\| 20% net | Thin margins<br>made up on volume |"),
+    ],
+    ["tool: invalid model rejected with its path", rejectsInvalidModel],
+    ["prompt: comparison asks for both models", comparisonPrompt.messages[0].content.text.includes("For BOTH")],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,132 @@
+/**
+ * Capability Check - Validate capability blocker diagnosis
+ *
+ * Diagnoses a CPP analysis with missing resources and rigid, hindering
+ * processes, then checks the ranked blockers, the evidence behind each
+ * score, weight overrides, and persona scoring loaded from a temporary
+ * persona directory, directly and through diagnose_capabilities.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createEmptyCPPAnalysis,
+  diagnoseCapabilities,
+  resolveBlockerWeights,
+} from "../frameworks/index.js";
+import type { CPPAnalysis } from "../frameworks/index.js";
+import { DEFAULT_PERSONA_ID, loadPersonaSource, setPersonaOverrideDirectory } from "../persona-loader.js";
+import { parsePersonaDefinition } from "../persona-schema.js";
+import { diagnoseCapabilityBlockers } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const INCUMBENT: CPPAnalysis = {
+  ...createEmptyCPPAnalysis(),
+  resources: { available: ["Brand"], missing: ["ML researchers", "Data platform"], acquirable: [], flexibility: "low" },
+  processes: {
+    supporting: [],
+    hindering: ["Annual planning cycle", "Enterprise sales process"],
+    rigidity: "high",
+    requiredChanges: [],
+  },
+  priorities: { currentPriorities: ["Gross margin"], alignment: "aligned", alignmentRationale: "", requiredShifts: [] },
+};
+
+/** Scoring section appended to the default persona for the override test */
+const PERSONA_SCORING = `
+scoring:
+  capability_blockers:
+    blocking_threshold: 10
+`;
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Diagnose the fixture and check ranking, evidence and weight sources
+ */
+export async function runCapabilityCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: capability blocker diagnosis");
+  console.log("=".repeat(60));
+
+  const diagnosis = diagnoseCapabilities(INCUMBENT);
+  const empty = diagnoseCapabilities(createEmptyCPPAnalysis());
+  const resourceHeavy = diagnoseCapabilities(INCUMBENT, resolveBlockerWeights({ layers: { resources: 2 } }));
+  const tool = await diagnoseCapabilityBlockers({ analysis: { priorities: { alignment: "misaligned" } } });
+
+  let rejectsInvalidWeights = false;
+  try {
+    await diagnoseCapabilityBlockers({ analysis: {}, weights: { blockingThreshold: -1 } });
+  } catch {
+    rejectsInvalidWeights = true;
+  }
+
+  const source = loadPersonaSource(DEFAULT_PERSONA_ID);
+  let rejectsInvalidScoring = false;
+  try {
+    parsePersonaDefinition(`${source}\nscoring:\n  capability_blockers:\n    layers:\n      culture: 1\n`, "broken.yaml");
+  } catch (error) {
+    rejectsInvalidScoring = error instanceof Error && error.message.includes("scoring.capability_blockers.layers");
+  }
+
+  const personaDir = mkdtempSync(join(tmpdir(), "christensen-personas-"));
+  let personaScoringApplies = false;
+  let callWeightsOverride = false;
+  try {
+    writeFileSync(join(personaDir, "tuned.yaml"), `${source}${PERSONA_SCORING}`);
+    setPersonaOverrideDirectory(personaDir);
+    const tuned = await diagnoseCapabilityBlockers({ analysis: { ...INCUMBENT }, persona: "tuned" });
+    const overridden = await diagnoseCapabilityBlockers({
+      analysis: { ...INCUMBENT },
+      persona: "tuned",
+      weights: { blockingThreshold: 4 },
+    });
+    personaScoringApplies =
+      tuned.structured.diagnosis.canExecute && tuned.structured.diagnosis.weights.blockingThreshold === 10;
+    callWeightsOverride = overridden.structured.diagnosis.blockers.join() === "processes";
+  } finally {
+    setPersonaOverrideDirectory(undefined);
+    rmSync(personaDir, { recursive: true, force: true });
+  }
+
+  const checks: [string, boolean][] = [
+    [
+      "blockers ranked by weighted score (processes 4.5 > resources 3)",
+      diagnosis.blockers.join() === "processes,resources" &&
+        diagnosis.primaryBlocker === "processes" &&
+        !diagnosis.canExecute,
+    ],
+    [
+      "every score explained by its evidence",
+      diagnosis.layers.processes.rawScore === 3 &&
+        diagnosis.layers.processes.evidence.some(
+          (e) => e.field === "processes.hindering[1]" && e.evidence.includes("Enterprise sales process")
+        ) &&
+        diagnosis.rationale.includes("Processes is the primary blocker"),
+    ],
+    ["empty analysis → no blocker, can execute", empty.primaryBlocker === "none" && empty.canExecute],
+    ["layer weight override changes the ranking", resourceHeavy.primaryBlocker === "resources"],
+    [
+      "tool: misaligned priorities block, with a score table",
+      tool.structured.diagnosis.primaryBlocker === "priorities" && tool.text.includes("| Priorities | 3 | 2 | 6 | yes |"),
+    ],
+    ["persona scoring applies (threshold 10 → can execute)", personaScoringApplies],
+    ["call weights override persona scoring", callWeightsOverride],
+    ["tool: invalid weights rejected", rejectsInvalidWeights],
+    ["persona: unknown scoring key rejected with its path", rejectsInvalidScoring],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
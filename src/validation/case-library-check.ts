@@ -0,0 +1,217 @@
+/**
+ * Case Library Check - Validate case study files and directory layering
+ *
+ * Loads every bundled case through the case schema, checks that case
+ * ranking (lexical and semantic) puts textbook situations on the right
+ * case and that the build's precomputed vectors are used, then layers a
+ * temporary user directory on top to check that JSON cases are picked up,
+ * that a user file replaces the bundled case with the same key, and that
+ * a broken file is rejected with its path and line/column.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getCase,
+  getCaseKeys,
+  getEmbeddingProvider,
+  listCases,
+  rankCases,
+  searchCases,
+  semanticCaseSearch,
+  setCaseDirectories,
+  setEmbeddingProvider,
+} from "../case-library/index.js";
+import type { EmbeddingProvider } from "../case-library/index.js";
+import { matchToCaseStudies } from "../frameworks/index.js";
+import { findCaseStudy } from "../tools/case-study.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const USER_CASE = {
+  name: "User Case",
+  pattern: "A case supplied from a user directory",
+  story: "Loaded from JSON.",
+  signals: ["Entrant starts with non-consumers"],
+  lessonsForToday: "User cases sit alongside the bundled ones.",
+  keyTakeaways: ["JSON works too"],
+  commonMisapplications: ["None"],
+  questionsToAsk: ["Did it load?"],
+  industries: ["testing"],
+  year: 2024,
+  innovationType: "new-market-disruptive",
+};
+
+const OVERRIDE_CASE = `
+name: Overridden Milkshake
+pattern: Replaced by a user file
+story: The user directory wins.
+signals: [Same key as a bundled case]
+lessonsForToday: Later directories take precedence.
+keyTakeaways: [Overrides work]
+commonMisapplications: [None]
+questionsToAsk: [Which file won?]
+`;
+
+const BROKEN_CASE = `
+name: Broken
+pattern: Missing fields
+story: ""
+signals: [One]
+`;
+
+/**
+ * Situations and the case they should rank first
+ */
+const RETRIEVAL_CASES: [string, string][] = [
+  ["We're a low-cost entrant being ignored by incumbents", "steel_minimills"],
+  ["Customers hire our product to get a job done on their morning commute", "milkshake"],
+  ["Nurse practitioners in pharmacies treating simple conditions", "retail_clinics"],
+  ["Our streaming service competes with video rental stores and their late fees", "netflix_blockbuster"],
+  ["Our customers are overserved by prestige features that push our prices up", "community_colleges"],
+];
+
+/**
+ * Hiring people, not hiring a product for a job
+ */
+const HIRING_SITUATION = "Should we hire a new sales team for our enterprise accounts?";
+
+/**
+ * A situation that shares everyday words with the theories but none of
+ * their meaning, and the most semantic similarity it may have to a case
+ */
+const UNRELATED_SITUATION =
+  "The office manager will exit in March, so we need to hire for the job and fix the fire alarm before the margin review";
+const UNRELATED_MAX_SIMILARITY = 0.2;
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Capture the error message thrown while loading the library, if any
+ */
+function loadError(): string {
+  try {
+    listCases();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Validate bundled cases and user directory layering
+ */
+export async function runCaseLibraryCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: case library");
+  console.log("=".repeat(60));
+
+  const checks: [string, boolean][] = [];
+
+  const bundledError = loadError();
+  if (bundledError) console.log(bundledError);
+  checks.push(["bundled cases are valid", bundledError === ""]);
+
+  const bundledKeys = bundledError ? [] : getCaseKeys();
+  const details = await Promise.all(
+    bundledKeys.map((caseName) => findCaseStudy({ situation: "", caseName }))
+  );
+  checks.push([
+    `case_study serves all ${bundledKeys.length} bundled cases`,
+    details.every((d, i) => d.structured.cases[0]?.key === bundledKeys[i]),
+  ]);
+
+  // Count texts embedded at runtime; precomputed case vectors need none
+  const defaultProvider = getEmbeddingProvider();
+  let embeddedTexts = 0;
+  const countingProvider: EmbeddingProvider = {
+    id: defaultProvider.id,
+    async embed(texts) {
+      embeddedTexts += texts.length;
+      return defaultProvider.embed(texts);
+    },
+  };
+  setEmbeddingProvider(countingProvider);
+
+  try {
+    for (const [situation, expected] of RETRIEVAL_CASES) {
+      const top = (await rankCases(situation))[0]?.caseStudy.key;
+      checks.push([`"${situation}" → ${expected} (got ${top ?? "no match"})`, top === expected]);
+    }
+    checks.push([
+      "precomputed case vectors used (only queries embedded)",
+      embeddedTexts === RETRIEVAL_CASES.length,
+    ]);
+
+    const overshooting = (await semanticCaseSearch("performance oversupply in the mainstream market"))[0];
+    checks.push([
+      "semantic match links performance oversupply to overserved customers",
+      overshooting !== undefined && overshooting.similarity > 0 && /overserved/.test(overshooting.closestSignal),
+    ]);
+
+    // Everyday uses of words like "job", "fire", "exit" and "margin" are not theory concepts
+    const unrelated = (await semanticCaseSearch(UNRELATED_SITUATION))[0];
+    checks.push([
+      `unrelated situation gets no semantic pull (closest ${unrelated?.caseStudy.key}: ${unrelated?.similarity})`,
+      unrelated !== undefined && unrelated.similarity < UNRELATED_MAX_SIMILARITY,
+    ]);
+    const unrelatedMatches = await matchToCaseStudies([UNRELATED_SITUATION]);
+    checks.push([
+      `unrelated situation matches no case in the tools' ranking (got ${unrelatedMatches.map((m) => `${m.name}: ${m.score}`).join(", ") || "none"})`,
+      unrelatedMatches.length === 0,
+    ]);
+  } finally {
+    setEmbeddingProvider(defaultProvider);
+  }
+
+  const [cheaperRival] = searchCases("pricing pressure from a cheaper rival");
+  checks.push([
+    `synonyms rank steel mini-mills first for a cheaper rival (got ${cheaperRival?.caseStudy.key ?? "no match"})`,
+    cheaperRival?.caseStudy.key === "steel_minimills" && cheaperRival.matchedTerms.some((t) => t.viaSynonym),
+  ]);
+
+  const hiring = await rankCases(HIRING_SITUATION);
+  checks.push([
+    "everyday hiring language doesn't match the jobs-to-be-done case",
+    !hiring.some((m) => m.caseStudy.key === "milkshake"),
+  ]);
+
+  const userDir = mkdtempSync(join(tmpdir(), "christensen-cases-"));
+  const brokenDir = mkdtempSync(join(tmpdir(), "christensen-cases-"));
+  try {
+    writeFileSync(join(userDir, "user_case.json"), JSON.stringify(USER_CASE, null, 2));
+    writeFileSync(join(userDir, "milkshake.yaml"), OVERRIDE_CASE);
+    writeFileSync(join(brokenDir, "broken.yaml"), BROKEN_CASE);
+
+    setCaseDirectories([userDir]);
+    checks.push(
+      ["JSON case loaded from user directory", getCase("user_case")?.innovationType === "new-market-disruptive"],
+      ["user file overrides bundled case", getCase("milkshake")?.name === "Overridden Milkshake"],
+      ["bundled cases still available", getCaseKeys().length === bundledKeys.length + 1]
+    );
+
+    setCaseDirectories([brokenDir]);
+    const broken = loadError();
+    checks.push(
+      ["empty field reported with path and position", /story: must not be empty \(line \d+, column \d+\)/.test(broken)],
+      ["missing field reported", /lessonsForToday: Required/.test(broken)]
+    );
+  } finally {
+    setCaseDirectories([]);
+    rmSync(userDir, { recursive: true, force: true });
+    rmSync(brokenDir, { recursive: true, force: true });
+  }
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
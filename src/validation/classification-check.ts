@@ -0,0 +1,109 @@
+/**
+ * Classification Check - Validate the deterministic innovation classifier
+ *
+ * Runs classify_innovation on textbook cases and checks that each lands
+ * on the expected innovation type and that repeated runs are identical.
+ */
+
+import { classifyInnovation } from "../tools/index.js";
+import type { ClassifyInnovationInput } from "../tools/index.js";
+import type { InnovationType } from "../frameworks/index.js";
+
+// ============================================================
+// Textbook Cases
+// ============================================================
+
+const CASES: { label: string; input: ClassifyInnovationInput; expected: InnovationType }[] = [
+  {
+    label: "steel mini-mills",
+    input: {
+      innovation: "Mini-mills making cheaper rebar with a lower cost structure",
+      answers: {
+        improvesExistingDimensions: "no",
+        worseOnTraditionalMetrics: "yes",
+        bestCustomersWantIt: "no",
+        needsDifferentBusinessModel: "yes",
+      },
+      observations: ["Integrated mills were relieved to exit the low-margin rebar segment"],
+    },
+    expected: "low-end-disruptive",
+  },
+  {
+    label: "faster enterprise disk drive",
+    input: {
+      innovation: "A faster, higher-performance drive for existing enterprise customers at a premium price",
+      answers: { improvesExistingDimensions: "yes", bestCustomersWantIt: "yes" },
+    },
+    expected: "sustaining",
+  },
+  {
+    label: "simpler, easier upgrade for existing customers",
+    input: {
+      innovation: "A faster release of our flagship analytics suite",
+      observations: [
+        "Setup is easier than in the last release",
+        "The admin console is simpler",
+        "Reporting workflows are simplified for power users",
+      ],
+    },
+    expected: "sustaining",
+  },
+  {
+    label: "personal computers",
+    input: {
+      innovation: "Personal computers that let non-consumers compute for the first time",
+      observations: ["Mainframe vendors dismissed it as a toy", "Ease of use mattered more than power"],
+    },
+    expected: "new-market-disruptive",
+  },
+  {
+    label: "negated price signal",
+    input: { innovation: "It is not cheaper than rivals" },
+    expected: "unclear",
+  },
+  {
+    label: "no evidence",
+    input: { innovation: "A new product" },
+    expected: "unclear",
+  },
+];
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Classify the textbook cases and check reproducibility
+ */
+export async function runClassificationCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: classify_innovation scoring engine");
+  console.log("=".repeat(60));
+
+  const checks: [string, boolean][] = [];
+
+  for (const { label, input, expected } of CASES) {
+    const first = await classifyInnovation(input);
+    const second = await classifyInnovation(input);
+    const actual = first.structured.classification.innovationType;
+    checks.push(
+      [`${label} → ${expected} (got ${actual})`, actual === expected],
+      [`${label} is reproducible`, JSON.stringify(first) === JSON.stringify(second)]
+    );
+  }
+
+  const notCheaper = await classifyInnovation({ innovation: "It is not cheaper than rivals" });
+  const { evidence, negated } = notCheaper.structured.classification;
+  checks.push([
+    `"not cheaper" is reported as negated evidence, not scored (${negated.map((n) => n.span.text).join(", ") || "none"})`,
+    evidence.length === 0 && negated.some((n) => n.family === "low-end" && n.negation === "not"),
+  ]);
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
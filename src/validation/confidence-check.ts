@@ -0,0 +1,187 @@
+/**
+ * Confidence Check - Validate the confidence assessors
+ *
+ * Assesses complete, empty, partial and self-contradicting analyses and
+ * checks the confidence levels, the issues reported for them and the
+ * roll-up of a combined analysis, directly and through assess_confidence.
+ */
+
+import {
+  assessAnalysisConfidence,
+  assessCPPConfidence,
+  assessDisruptionConfidence,
+  assessJobsToBeDoneConfidence,
+  assessJTBDConfidence,
+  assessModularityConfidence,
+  assessResourceDependenceConfidence,
+  createEmptyCPPAnalysis,
+  createEmptyJTBDAnalysis,
+} from "../frameworks/index.js";
+import type { DisruptionAnalysis, JTBDAnalysis, ModularityAnalysis } from "../frameworks/index.js";
+import { assessConfidence } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const MINIMILLS: DisruptionAnalysis = {
+  innovationType: "low-end-disruptive",
+  classificationRationale: "Worse steel at a lower cost, sold to customers the integrated mills were glad to lose",
+  marketPosition: {
+    segment: "low-end",
+    incumbentFocus: "High-margin sheet steel for demanding customers",
+    overservedDimensions: ["Quality of rebar"],
+    underservedDimensions: ["Price"],
+  },
+  trueCompetitors: ["Integrated mills' rebar lines"],
+  trajectory: {
+    currentPosition: "Rebar",
+    projectedPath: "Angle iron, then structural steel, then sheet",
+    timeframe: "Decades",
+    keyFactors: ["Electric arc furnace quality improvements"],
+  },
+  asymmetricMotivation: {
+    incumbentMotivation: "Exiting rebar raises their gross margins",
+    entrantMotivation: "Rebar margins are attractive at their cost structure",
+  },
+  caseStudyParallels: [{ name: "Steel Minimills", pattern: "Low-end disruption", relevance: "Textbook", matchStrength: "high" }],
+  confidence: "high",
+};
+
+const MILKSHAKE: JTBDAnalysis = {
+  job: "Make a long, boring commute more interesting and stave off hunger until lunch",
+  dimensions: {
+    functional: "Something that lasts the whole drive",
+    emotional: "Less bored on the road",
+    social: "Nobody at the office sees what they had on the way in",
+  },
+  circumstance: {
+    situation: "Driving alone to work early in the morning",
+    trigger: "Getting in the car",
+    constraints: ["One free hand"],
+  },
+  firingFrom: ["Bagels", "Bananas"],
+  firingRisks: ["A thinner shake that runs out before the office"],
+  underservedSegments: [],
+  openQuestions: [],
+  confidence: "high",
+};
+
+const MAINFRAMES: ModularityAnalysis = {
+  performanceGap: "not-good-enough",
+  gapRationale: "Customers still need more processing power than any machine offers",
+  basisOfCompetition: "Functionality and reliability",
+  notGoodEnoughDimensions: ["Processing power"],
+  overshotDimensions: [],
+  interfaces: { modular: [], interdependent: ["Operating system and processor design"] },
+  currentArchitecture: "interdependent",
+  favoredArchitecture: "modular",
+  valueChainEvolution: "Integrated makers control every stage",
+  strategicImplications: ["Stay integrated while performance falls short"],
+  confidence: "high",
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Assess the fixtures and check levels, issues and the roll-up
+ */
+export async function runConfidenceCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: confidence assessment");
+  console.log("=".repeat(60));
+
+  const complete = assessDisruptionConfidence(MINIMILLS);
+  const contradicted = assessDisruptionConfidence({
+    ...MINIMILLS,
+    innovationType: "sustaining",
+    marketPosition: { ...MINIMILLS.marketPosition, segment: "non-consumers" },
+  });
+  const cpp = assessCPPConfidence({
+    ...createEmptyCPPAnalysis(),
+    overallAssessment: { canExecute: false, primaryBlocker: "none", explanation: "" },
+  });
+  const dependence = assessResourceDependenceConfidence({
+    providers: [{ provider: "Largest customers", resources: ["Revenue"], expectations: ["Better sheet steel"], impactOnRelationship: "threatening" }],
+    riskLevel: "low",
+  });
+  const combined = assessAnalysisConfidence({ context: "Enter the rebar market", theLandscape: MINIMILLS });
+  const modularity = assessModularityConfidence(MAINFRAMES);
+  const withArchitecture = assessAnalysisConfidence({ context: "Build our own chips", theArchitecture: MAINFRAMES });
+
+  const tool = await assessConfidence({
+    framework: "disruption",
+    analysis: { innovationType: "low-end-disruptive", unknownField: true, confidence: "high" },
+  });
+  let rejectsWrongTypes = false;
+  try {
+    await assessConfidence({ framework: "jtbd", analysis: { firingFrom: "not a list" } });
+  } catch {
+    rejectsWrongTypes = true;
+  }
+
+  const checks: [string, boolean][] = [
+    ["complete, consistent analysis → high, no issues", complete.confidence === "high" && complete.issues.length === 0],
+    [
+      "empty JTBD analysis → uncertain, every field missing",
+      assessJobsToBeDoneConfidence(createEmptyJTBDAnalysis()).confidence === "uncertain" &&
+        assessJobsToBeDoneConfidence({}).issues.length === 9,
+    ],
+    [
+      "completeness level: original 10-point scale, 9 points → high",
+      assessJTBDConfidence(MILKSHAKE) === "high" && assessJTBDConfidence(createEmptyJTBDAnalysis()) === "uncertain",
+    ],
+    [
+      "sustaining aimed at non-consumers → contradiction, capped at medium",
+      contradicted.confidence === "medium" &&
+        contradicted.issues.some((i) => i.kind === "contradiction" && i.field === "marketPosition.segment"),
+    ],
+    [
+      "can't execute with no blocker → contradiction",
+      cpp.issues.some((i) => i.kind === "contradiction" && i.field === "overallAssessment.primaryBlocker"),
+    ],
+    [
+      "low risk with a threatened provider → contradiction",
+      dependence.issues.some((i) => i.kind === "contradiction" && i.field === "riskLevel"),
+    ],
+    [
+      "roll-up: absent sections reported missing, prefixed paths",
+      combined.sections.theJob.confidence === "uncertain" &&
+        combined.issues.some((i) => i.field === "theJob" && i.kind === "missing") &&
+        combined.issues.some((i) => i.field === "thePrediction.mostLikelyOutcome"),
+    ],
+    [
+      "roll-up: one complete section doesn't carry the analysis",
+      combined.sections.theLandscape.confidence === "high" && combined.confidence === "uncertain",
+    ],
+    [
+      "modular architecture favored while not good enough → contradiction",
+      modularity.confidence !== "high" &&
+        modularity.issues.some((i) => i.kind === "contradiction" && i.field === "favoredArchitecture"),
+    ],
+    [
+      "roll-up: optional sections assessed only when present",
+      withArchitecture.sections.theArchitecture?.score === modularity.score &&
+        withArchitecture.sections.theProfits === undefined &&
+        combined.sections.theArchitecture === undefined &&
+        withArchitecture.issues.some((i) => i.field === "theArchitecture.favoredArchitecture"),
+    ],
+    [
+      "tool: partial JSON assessed, stated confidence reported as overstated",
+      tool.structured.statedConfidence === "high" &&
+        tool.structured.assessment.confidence !== "high" &&
+        tool.text.includes("higher than the analysis supports"),
+    ],
+    ["tool: wrongly typed fields rejected", rejectsWrongTypes],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
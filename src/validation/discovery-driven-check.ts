@@ -0,0 +1,159 @@
+/**
+ * Discovery-Driven Check - Validate the reverse income statement and checklist
+ *
+ * Plans a delivery venture backwards from its target profit, then checks
+ * the statement, the operational requirements, the assumption ranking
+ * and milestones, recalculation after updates, the rationale at break-even
+ * unit economics, and the plan_discovery and get_framework tools.
+ */
+
+import { applyAssumptionUpdates, buildDiscoveryDrivenPlan } from "../frameworks/index.js";
+import type { DiscoveryPlanInput } from "../frameworks/index.js";
+import { getFramework, planDiscovery } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const DELIVERY_VENTURE: DiscoveryPlanInput = {
+  targetProfit: 1_000_000,
+  returnOnSales: 0.1,
+  unitEconomics: { unitPrice: 250, unitCost: 150 },
+  operations: [
+    { resource: "Salespeople", unitsPerResource: 2000, costPerResource: 80_000 },
+    { resource: "Delivery vans", unitsPerResource: 5000, costPerResource: 40_000 },
+  ],
+  fixedCosts: [
+    { item: "Marketing", amount: 500_000 },
+    { item: "Software platform", amount: 300_000 },
+  ],
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Plan the fixture venture and check the statement, checklist and tools
+ */
+export async function runDiscoveryDrivenCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: discovery-driven planning");
+  console.log("=".repeat(60));
+
+  const plan = buildDiscoveryDrivenPlan(DELIVERY_VENTURE);
+  const { statement } = plan;
+  const repriced = buildDiscoveryDrivenPlan(applyAssumptionUpdates(DELIVERY_VENTURE, [{ id: "unit-price", value: 220 }]));
+  const thinMargin = buildDiscoveryDrivenPlan({ ...DELIVERY_VENTURE, unitEconomics: { unitPrice: 100, unitCost: 95 } });
+  const breakEven = buildDiscoveryDrivenPlan({
+    targetProfit: 100,
+    returnOnSales: 0.5,
+    unitEconomics: { unitPrice: 10, unitCost: 5 },
+    operations: [],
+    fixedCosts: [],
+  });
+  const unitResource = buildDiscoveryDrivenPlan({
+    ...DELIVERY_VENTURE,
+    operations: [{ resource: "Unit", unitsPerResource: 1000, costPerResource: 10 }],
+  });
+
+  let rejectsUnknownAssumption = false;
+  try {
+    applyAssumptionUpdates(DELIVERY_VENTURE, [{ id: "warehouse-cost", value: 1 }]);
+  } catch (error) {
+    rejectsUnknownAssumption = error instanceof Error && error.message.includes("Unknown assumption: warehouse-cost");
+  }
+
+  const tool = await planDiscovery({
+    ...DELIVERY_VENTURE,
+    venture: "Same-day delivery for small retailers",
+    updates: [{ id: "unit-price", value: 220 }],
+  });
+  const repeated = await planDiscovery({
+    ...DELIVERY_VENTURE,
+    updates: [
+      { id: "unit-price", value: 240 },
+      { id: "unit-price", value: 230 },
+    ],
+  });
+  let rejectsInvalidUpdate = false;
+  try {
+    await planDiscovery({ ...DELIVERY_VENTURE, updates: [{ id: "unit-price", value: 0 }] });
+  } catch (error) {
+    rejectsInvalidUpdate = error instanceof Error && error.message.includes("Invalid update: unitEconomics.unitPrice");
+  }
+  const reference = await getFramework({ framework: "discovery-driven", detail: "full" });
+
+  const checks: [string, boolean][] = [
+    [
+      "statement worked back from the target profit",
+      statement.requiredRevenue === 10_000_000 &&
+        statement.allowableCosts === 9_000_000 &&
+        statement.requiredUnits === 40_000 &&
+        statement.totalCosts === 8_720_000 &&
+        statement.headroom === 280_000 &&
+        plan.viable,
+    ],
+    [
+      "resources scaled to the required units",
+      plan.requirements.map((r) => `${r.resource}:${r.required}`).join() === "Salespeople:20,Delivery vans:8" &&
+        plan.requirements[0].derivation === "40,000 units ÷ 2,000 units each",
+    ],
+    [
+      "assumptions ranked by headroom lost at 10% worse",
+      plan.checklist.slice(0, 5).map((item) => item.id).join() ===
+        "unit-price,unit-cost,resource-salespeople-capacity,resource-salespeople-cost,fixed-marketing" &&
+        plan.checklist[0].impact === 946_750 &&
+        plan.checklist[0].rank === 1,
+    ],
+    [
+      "milestones in order, each testing its assumptions",
+      plan.milestones.map((m) => `${m.milestone}:${m.assumptions.length}`).join() ===
+        "Market test:1,Prototype:1,Pilot:4,Launch:2",
+    ],
+    [
+      "lower price recalculated → target out of reach",
+      repriced.statement.requiredUnits === 45_455 && repriced.statement.headroom === -858_250 && !repriced.viable,
+    ],
+    ["unit margin below return on sales explained", !thinMargin.viable && thinMargin.rationale.includes("no volume")],
+    [
+      "contribution equal to return on sales: viable, rationale agrees",
+      breakEven.viable &&
+        breakEven.statement.headroom === 0 &&
+        !breakEven.rationale.includes("no volume") &&
+        breakEven.rationale.includes("leave 0 of the 100 allowable costs"),
+    ],
+    [
+      "resource ids namespaced apart from the unit economics",
+      unitResource.checklist.map((item) => item.id).filter((id) => id.includes("unit-")).sort().join() ===
+        "resource-unit-capacity,resource-unit-cost,unit-cost,unit-price",
+    ],
+    ["unknown assumption id rejected", rejectsUnknownAssumption],
+    [
+      "tool: update revised and headroom compared",
+      tool.structured.revisions[0]?.previousValue === 250 &&
+        tool.structured.previousHeadroom === 280_000 &&
+        tool.text.includes("Headroom: 280,000 → -858,250") &&
+        tool.text.includes("| 1 | Price: 220 per unit | `unit-price` |"),
+    ],
+    [
+      "tool: repeated updates chain their previous values",
+      repeated.structured.revisions.map((r) => `${r.previousValue}→${r.value}`).join() === "250→240,240→230" &&
+        repeated.text.includes("- `unit-price`: 250 → 240\n- `unit-price`: 240 → 230"),
+    ],
+    ["tool: invalid update rejected with its path", rejectsInvalidUpdate],
+    [
+      "get_framework: milestones and questions",
+      reference.text.includes("**Market test**") &&
+        reference.structured.frameworks[0].title === "Discovery-Driven Planning",
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
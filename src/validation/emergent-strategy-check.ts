@@ -0,0 +1,143 @@
+/**
+ * Emergent Strategy Check - Validate the strategy-process tracker
+ *
+ * Tracks Honda's plan for America against what the market did, then
+ * checks assumption statuses, each recommended strategy process, an
+ * updated record, and the framework through analyze_decision and
+ * get_framework.
+ */
+
+import { assessAssumption, trackStrategy } from "../frameworks/index.js";
+import type { StrategyRecord } from "../frameworks/index.js";
+import { analyzeDecision, getFramework } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const HONDA_PLAN: StrategyRecord = {
+  assumptions: [
+    {
+      assumption: "Americans will buy large Honda motorcycles",
+      expected: "Big bikes sell alongside Harley-Davidson",
+    },
+    {
+      assumption: "Honda bikes hold up on long highway rides",
+    },
+    {
+      id: "dealers",
+      assumption: "Motorcycle dealers are the channel",
+    },
+  ],
+  observations: [
+    { assumptionId: "A1", observed: "Sales of the large bikes were poor", verdict: "contradicts", observedAt: "1960" },
+    { assumptionId: "A2", observed: "Bikes leaked oil on the highway", verdict: "contradicts" },
+    { assumptionId: "dealers", observed: "A few dealers took the bikes", verdict: "inconclusive" },
+    { observed: "People kept asking where to buy the 50cc Supercub" },
+    { observed: "Sears wanted to carry the Supercub" },
+  ],
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Track the fixture plan and check statuses, modes and tool wiring
+ */
+export async function runEmergentStrategyCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: deliberate vs emergent strategy");
+  console.log("=".repeat(60));
+
+  const tracker = trackStrategy(HONDA_PLAN);
+  const holding = trackStrategy({
+    assumptions: HONDA_PLAN.assumptions,
+    observations: [{ assumptionId: "A1", observed: "Big bikes sold well", verdict: "supports" }],
+  });
+  const mixed = trackStrategy({
+    assumptions: HONDA_PLAN.assumptions,
+    observations: [
+      { assumptionId: "A1", observed: "Big bikes sold well", verdict: "supports" },
+      { assumptionId: "A2", observed: "No breakdowns reported", verdict: "supports" },
+      { assumptionId: "dealers", observed: "Dealers turned the bikes away", verdict: "contradicts" },
+    ],
+  });
+  const untested = trackStrategy({ assumptions: HONDA_PLAN.assumptions, observations: [] });
+  const updated = trackStrategy({
+    ...HONDA_PLAN,
+    observations: [
+      ...HONDA_PLAN.observations,
+      { assumptionId: "A1", observed: "Big bikes sold once reliability improved", verdict: "supports" },
+    ],
+  });
+
+  let rejectsUnknownAssumption = false;
+  try {
+    trackStrategy({ assumptions: [], observations: [{ assumptionId: "A9", observed: "Anything" }] });
+  } catch (error) {
+    rejectsUnknownAssumption = error instanceof Error && error.message.includes("unknown assumption: A9");
+  }
+
+  const analysis = await analyzeDecision({
+    decision: "Should Honda keep pushing large motorcycles in America, or follow the Supercub demand?",
+    focusAreas: ["emergent-strategy"],
+    strategyRecord: HONDA_PLAN,
+  });
+  const strategy = analysis.structured.analysis.theStrategy;
+  const reference = await getFramework({ framework: "emergent-strategy", detail: "full" });
+
+  const checks: [string, boolean][] = [
+    [
+      "assumptions tracked against observations",
+      tracker.assumptions.map((a) => `${a.id}:${a.status}`).join() === "A1:contradicted,A2:contradicted,dealers:untested" &&
+        tracker.assumptions[0].expected === "Big bikes sell alongside Harley-Davidson",
+    ],
+    [
+      "contradicted plan with surprises → emergent",
+      tracker.recommendedMode === "emergent" &&
+        tracker.unanticipated.length === 2 &&
+        tracker.rationale.includes("2 of 2 tested assumptions contradicted, 2 observations the plan did not anticipate"),
+    ],
+    [
+      "mixed verdicts contested, inconclusive ignored",
+      assessAssumption([
+        { observed: "Sold well in Ohio", verdict: "supports" },
+        { observed: "Flopped in Texas", verdict: "contradicts" },
+      ]) === "contested" && assessAssumption([{ observed: "Hard to say" }]) === "untested",
+    ],
+    [
+      "holding plan → deliberate",
+      holding.recommendedMode === "deliberate" && holding.rationale.includes("with 2 still untested"),
+    ],
+    ["one doubt in three → balanced", mixed.recommendedMode === "balanced"],
+    ["nothing observed → unclear", untested.recommendedMode === "unclear"],
+    [
+      "updated record recalculated",
+      updated.assumptions[0].status === "contested" && updated.assumptions[0].observations.length === 2,
+    ],
+    ["unknown assumption id rejected", rejectsUnknownAssumption],
+    [
+      "analyze_decision: tracked record in prompt and template",
+      analysis.text.includes("## DELIBERATE VS EMERGENT STRATEGY ANALYSIS") &&
+        analysis.text.includes("- A1: Americans will buy large Honda motorcycles - contradicted") &&
+        strategy?.tracker.recommendedMode === "emergent" &&
+        strategy.unanticipatedOpportunities.join() ===
+          "People kept asking where to buy the 50cc Supercub,Sears wanted to carry the Supercub",
+    ],
+    [
+      "get_framework: Honda story and resource allocation questions",
+      reference.text.includes("Supercub") &&
+        reference.text.includes("### Resource Allocation Questions") &&
+        reference.structured.frameworks[0].title === "Deliberate vs Emergent Strategy",
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
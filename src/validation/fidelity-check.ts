@@ -1,169 +1,140 @@
 /**
- * Fidelity Check - Validate Christensen Persona Outputs
+ * Fidelity Check - Validate Persona Outputs
  *
- * Checks that outputs meet the persona's fidelity markers:
- * - Must include: Framework references, JTBD questions, humility, case studies
- * - Should include: Stories, uncertainty, multiple frameworks
- * - Must avoid: Overconfidence, dismissiveness, generic advice
+ * Checks that outputs meet the persona's fidelity markers. The rubric -
+ * categories, patterns, weights and pass thresholds - is compiled from
+ * the persona's validation.fidelity_markers section, so each persona
+ * carries its own:
+ * - Must include: markers that count toward passing (e.g. framework references, humility)
+ * - Should include: markers that only add to the score (e.g. stories, multiple frameworks)
+ * - Must avoid: markers that subtract, and fail the check when blocking (e.g. overconfidence)
  */
 
-import { getValidationMarkers } from "../persona-loader.js";
+import { DEFAULT_PERSONA_ID, getValidationMarkers } from "../persona-loader.js";
+import type { FidelityMarker, ValidationMarkers } from "../persona-loader.js";
 
 // ============================================================
-// Fidelity Markers
+// Fidelity Rubric
 // ============================================================
 
+/** Points a marker adds (or subtracts) when its YAML gives no weight */
+const DEFAULT_MARKER_WEIGHT = 10;
+
+export interface CompiledFidelityMarker {
+  id: string;
+  marker: string;
+  patterns: RegExp[];
+  minMatches: number;
+  requires: string[];
+  unless: RegExp[];
+  weight: number;
+  blocking: boolean;
+  /** False for guidance-only markers with neither patterns nor requires */
+  checked: boolean;
+}
+
+export interface FidelityRubric {
+  mustInclude: CompiledFidelityMarker[];
+  shouldInclude: CompiledFidelityMarker[];
+  mustAvoid: CompiledFidelityMarker[];
+  minMustInclude: number;
+  minScore: number;
+}
+
+function compileMarker(marker: FidelityMarker): CompiledFidelityMarker {
+  return {
+    id: marker.id,
+    marker: marker.marker,
+    patterns: (marker.patterns ?? []).map((p) => new RegExp(p, "i")),
+    minMatches: marker.min_matches ?? 1,
+    requires: marker.requires ?? [],
+    unless: (marker.unless ?? []).map((p) => new RegExp(p, "gi")),
+    weight: marker.weight ?? DEFAULT_MARKER_WEIGHT,
+    blocking: marker.blocking ?? false,
+    checked: marker.patterns !== undefined || marker.requires !== undefined,
+  };
+}
+
+/**
+ * Compile a persona's fidelity markers into a rubric
+ */
+export function compileFidelityRubric(markers: ValidationMarkers): FidelityRubric {
+  const mustInclude = markers.must_include.map(compileMarker);
+  return {
+    mustInclude,
+    shouldInclude: markers.should_include.map(compileMarker),
+    mustAvoid: markers.must_avoid.map(compileMarker),
+    minMustInclude: markers.pass?.min_must_include ?? mustInclude.filter((m) => m.checked).length,
+    minScore: markers.pass?.min_score ?? 0,
+  };
+}
+
 /**
- * Patterns that indicate high-fidelity Christensen output
+ * Compiled rubrics, keyed by the markers object so a reloaded persona
+ * is recompiled
  */
-export const POSITIVE_PATTERNS = {
-  // Framework references
-  frameworkReference: [
-    /jobs?[- ]to[- ]be[- ]done/i,
-    /jtbd/i,
-    /disruption/i,
-    /disruptive/i,
-    /sustaining/i,
-    /capabilities[,\s]+processes[,\s]+(?:and\s+)?priorities/i,
-    /cpp/i,
-    /resource dependence/i,
-  ],
-
-  // Questions about job to be done
-  jtbdQuestion: [
-    /what job/i,
-    /hiring.*(?:product|solution|this)/i,
-    /functional.*emotional.*social/i,
-    /circumstance/i,
-    /what are they firing/i,
-  ],
-
-  // Humility markers
-  humility: [
-    /theory (?:would |might )?(?:suggest|predict)/i,
-    /I'?ve seen this pattern/i,
-    /help me understand/i,
-    /the question (?:is|might be)/i,
-    /appropriate uncertainty/i,
-    /might be different/i,
-    /depends on/i,
-  ],
-
-  // Case study references
-  caseStudy: [
-    /mini[- ]?mills?/i,
-    /steel/i,
-    /disk drive/i,
-    /milkshake/i,
-    /honda/i,
-    /intel/i,
-    /microprocessor/i,
-  ],
-
-  // Organizational constraints
-  constraints: [
-    /resource provider/i,
-    /business model/i,
-    /priorit(?:y|ies)/i,
-    /process(?:es)?/i,
-    /what would need to change/i,
-  ],
-
-  // Stories/examples
-  story: [
-    /let me (?:tell you|share)/i,
-    /story/i,
-    /example/i,
-    /I'?m reminded of/i,
-    /consider (?:the case|how)/i,
-  ],
-};
+const rubricCache = new WeakMap<ValidationMarkers, FidelityRubric>();
 
 /**
- * Patterns that indicate LOW-fidelity (anti-patterns)
- *
- * Note: Some words like "stupid" appear in Christensen's empathetic phrases
- * like "It's not that managers are stupid - they're rational"
- * These are excluded from anti-pattern matching.
+ * Get the compiled fidelity rubric for a persona
  */
-export const NEGATIVE_PATTERNS = {
-  // Overconfidence
-  overconfidence: [
-    /\bwill definitely\b/i,
-    /\bwill certainly\b/i,
-    /\bguaranteed\b/i,
-    /\bwill always\b/i,
-    /\bno doubt\b/i,
-    /\b100%\b/,
-  ],
-
-  // Dismissiveness - exclude Christensen's empathetic usage
-  dismissive: [
-    /(?<!not that[^.]*)\bstupid\b(?![^.]*rational)/i, // Exclude "not that...stupid...rational"
-    /\bobviously wrong\b/i,
-    /\bterrible idea\b/i,
-    /\bthat'?s (?:dumb|idiotic)\b/i,
-    /\byou'?re wrong\b/i,
-  ],
-
-  // Generic advice (without theory grounding)
-  generic: [
-    /\bjust focus on execution\b/i,
-    /\bhere'?s a \d+[- ]step plan\b/i,
-    /\bbest practices say\b/i,
-    /\bindustry standard\b/i,
-  ],
-};
+export function getFidelityRubric(personaId: string = DEFAULT_PERSONA_ID): FidelityRubric {
+  const markers = getValidationMarkers(personaId);
+  let rubric = rubricCache.get(markers);
+  if (!rubric) {
+    rubric = compileFidelityRubric(markers);
+    rubricCache.set(markers, rubric);
+  }
+  return rubric;
+}
 
 // ============================================================
 // Fidelity Scoring
 // ============================================================
 
+export interface MarkerResult {
+  id: string;
+  marker: string;
+  checked: boolean;
+  found: boolean;
+  matches: string[];
+  weight: number;
+  blocking: boolean;
+}
+
 export interface FidelityScore {
+  persona: string;
   overall: number; // 0-100
-  breakdown: {
-    frameworkReference: { found: boolean; matches: string[] };
-    jtbdQuestion: { found: boolean; matches: string[] };
-    humility: { found: boolean; matches: string[] };
-    caseStudy: { found: boolean; matches: string[] };
-    constraints: { found: boolean; matches: string[] };
-    story: { found: boolean; matches: string[] };
-  };
-  antiPatterns: {
-    overconfidence: { found: boolean; matches: string[] };
-    dismissive: { found: boolean; matches: string[] };
-    generic: { found: boolean; matches: string[] };
-  };
-  mustIncludeScore: number; // 0-5 (5 required markers)
-  shouldIncludeScore: number; // 0-4 (4 recommended markers)
-  antiPatternPenalty: number; // 0-30 (penalty for bad patterns)
+  mustInclude: MarkerResult[];
+  shouldInclude: MarkerResult[];
+  mustAvoid: MarkerResult[];
+  mustIncludeScore: number; // must-include markers found
+  requiredMustInclude: number; // must-include markers needed to pass
+  shouldIncludeScore: number; // should-include markers found
+  antiPatternPenalty: number; // points subtracted for must-avoid markers
   passed: boolean;
 }
 
 /**
- * Check if "stupid" appears in Christensen's empathetic context
- * "It's not that managers are stupid - they're rational"
+ * Whether a match lies inside a match of an excusing pattern
+ * (e.g. "stupid" in "it's not that managers are stupid - they're rational")
  */
-function isChristensenStupidContext(text: string): boolean {
-  const empathyPattern = /not that[^.]*stupid[^.]*rational/i;
-  const validationPattern = /dismissing[^.]*stupid/i;
-  return empathyPattern.test(text) || validationPattern.test(text);
+function isExcused(text: string, match: RegExpMatchArray, unless: RegExp[]): boolean {
+  const start = match.index ?? 0;
+  const end = start + match[0].length;
+  return unless.some((pattern) =>
+    [...text.matchAll(pattern)].some((m) => (m.index ?? 0) <= start && (m.index ?? 0) + m[0].length >= end)
+  );
 }
 
 /**
- * Find all matches for a set of patterns
+ * Find the first unexcused match of each pattern
  */
-function findMatches(text: string, patterns: RegExp[], category?: string): string[] {
+function findMatches(text: string, marker: CompiledFidelityMarker): string[] {
   const matches: string[] = [];
-  for (const pattern of patterns) {
+  for (const pattern of marker.patterns) {
     const match = text.match(pattern);
-    if (match) {
-      // Special case: "stupid" in Christensen's empathetic context is OK
-      if (category === "dismissive" && match[0].toLowerCase().includes("stupid")) {
-        if (isChristensenStupidContext(text)) {
-          continue; // Skip this match - it's in valid context
-        }
-      }
+    if (match && !isExcused(text, match, marker.unless)) {
       matches.push(match[0]);
     }
   }
@@ -171,146 +142,104 @@ function findMatches(text: string, patterns: RegExp[], category?: string): strin
 }
 
 /**
- * Calculate fidelity score for an output
+ * Score one category of markers. Markers named in `requires` are looked
+ * up among the pattern results of every category.
  */
-export function calculateFidelityScore(output: string): FidelityScore {
-  // Check positive patterns
-  const breakdown = {
-    frameworkReference: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.frameworkReference),
-    },
-    jtbdQuestion: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.jtbdQuestion),
-    },
-    humility: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.humility),
-    },
-    caseStudy: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.caseStudy),
-    },
-    constraints: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.constraints),
-    },
-    story: {
-      found: false,
-      matches: findMatches(output, POSITIVE_PATTERNS.story),
-    },
-  };
-
-  // Mark as found if any matches
-  for (const key of Object.keys(breakdown) as (keyof typeof breakdown)[]) {
-    breakdown[key].found = breakdown[key].matches.length > 0;
-  }
-
-  // Check anti-patterns (pass category for special handling)
-  const antiPatterns = {
-    overconfidence: {
-      found: false,
-      matches: findMatches(output, NEGATIVE_PATTERNS.overconfidence, "overconfidence"),
-    },
-    dismissive: {
-      found: false,
-      matches: findMatches(output, NEGATIVE_PATTERNS.dismissive, "dismissive"),
-    },
-    generic: {
-      found: false,
-      matches: findMatches(output, NEGATIVE_PATTERNS.generic),
-    },
-  };
-
-  for (const key of Object.keys(antiPatterns) as (keyof typeof antiPatterns)[]) {
-    antiPatterns[key].found = antiPatterns[key].matches.length > 0;
-  }
+function scoreMarkers(
+  markers: CompiledFidelityMarker[],
+  matchesById: Map<string, string[]>,
+  foundById: Map<string, boolean>
+): MarkerResult[] {
+  return markers.map((m) => {
+    const matches = matchesById.get(m.id) ?? [];
+    const found =
+      m.checked &&
+      (m.patterns.length === 0 || matches.length >= m.minMatches) &&
+      m.requires.every((id) => foundById.get(id) === true);
+    return { id: m.id, marker: m.marker, checked: m.checked, found, matches, weight: m.weight, blocking: m.blocking };
+  });
+}
 
-  // Calculate scores
-  // Must include (5 items, 10 points each = 50 max)
-  const mustIncludeItems = [
-    breakdown.frameworkReference.found,
-    breakdown.jtbdQuestion.found,
-    breakdown.humility.found,
-    breakdown.caseStudy.found,
-    breakdown.constraints.found,
-  ];
-  const mustIncludeScore = mustIncludeItems.filter(Boolean).length;
-
-  // Should include (story, multiple frameworks, uncertainty = 4 items, 10 points each)
-  const shouldIncludeItems = [
-    breakdown.story.found,
-    breakdown.frameworkReference.matches.length > 1, // Multiple frameworks
-    breakdown.humility.matches.length > 1, // Multiple humility markers
-    breakdown.jtbdQuestion.matches.length > 0 && breakdown.constraints.found,
-  ];
-  const shouldIncludeScore = shouldIncludeItems.filter(Boolean).length;
-
-  // Anti-pattern penalty (10 points each)
-  const antiPatternPenalty =
-    (antiPatterns.overconfidence.found ? 10 : 0) +
-    (antiPatterns.dismissive.found ? 15 : 0) + // Dismissive is worse
-    (antiPatterns.generic.found ? 5 : 0);
-
-  // Calculate overall score
-  const rawScore = mustIncludeScore * 10 + shouldIncludeScore * 10;
-  const overall = Math.max(0, Math.min(100, rawScore - antiPatternPenalty));
-
-  // Pass if: all must-includes present AND no major anti-patterns
+/**
+ * Calculate fidelity score for an output against a persona's rubric
+ */
+export function calculateFidelityScore(output: string, personaId: string = DEFAULT_PERSONA_ID): FidelityScore {
+  const rubric = getFidelityRubric(personaId);
+  const all = [...rubric.mustInclude, ...rubric.shouldInclude, ...rubric.mustAvoid];
+
+  // Pattern results first, so requires can refer to any marker with patterns
+  const matchesById = new Map(all.map((m) => [m.id, findMatches(output, m)]));
+  const foundById = new Map(
+    all
+      .filter((m) => m.patterns.length > 0)
+      .map((m) => [m.id, (matchesById.get(m.id) ?? []).length >= m.minMatches])
+  );
+
+  const mustInclude = scoreMarkers(rubric.mustInclude, matchesById, foundById);
+  const shouldInclude = scoreMarkers(rubric.shouldInclude, matchesById, foundById);
+  const mustAvoid = scoreMarkers(rubric.mustAvoid, matchesById, foundById);
+
+  const points = (results: MarkerResult[]) =>
+    results.filter((r) => r.found).reduce((sum, r) => sum + r.weight, 0);
+  const antiPatternPenalty = points(mustAvoid);
+  const overall = Math.max(0, Math.min(100, points(mustInclude) + points(shouldInclude) - antiPatternPenalty));
+
+  const mustIncludeScore = mustInclude.filter((r) => r.found).length;
   const passed =
-    mustIncludeScore >= 4 && // At least 4 of 5 must-includes
-    !antiPatterns.dismissive.found && // Never dismissive
-    !antiPatterns.overconfidence.found; // Never overconfident
+    mustIncludeScore >= rubric.minMustInclude &&
+    overall >= rubric.minScore &&
+    !mustAvoid.some((r) => r.found && r.blocking);
 
   return {
+    persona: personaId,
     overall,
-    breakdown,
-    antiPatterns,
+    mustInclude,
+    shouldInclude,
+    mustAvoid,
     mustIncludeScore,
-    shouldIncludeScore,
+    requiredMustInclude: rubric.minMustInclude,
+    shouldIncludeScore: shouldInclude.filter((r) => r.found).length,
     antiPatternPenalty,
     passed,
   };
 }
 
+/**
+ * Format one category of marker results as a table
+ */
+function formatMarkerTable(results: MarkerResult[], found: string, missing: string): string {
+  const rows = results.map((r) => {
+    const status = !r.checked ? "-" : r.found ? found : missing;
+    const examples = r.matches.slice(0, 2).join(", ") || (r.checked ? "-" : "_not checked_");
+    return `| ${r.marker} | ${status} | ${examples} |`;
+  });
+  return ["| Marker | Found | Examples |", "|--------|-------|----------|", ...rows].join("\n");
+}
+
 /**
  * Format fidelity score for display
  */
 export function formatFidelityReport(score: FidelityScore): string {
   const status = score.passed ? "✓ PASSED" : "✗ FAILED";
+  const checked = (results: MarkerResult[]) => results.filter((r) => r.checked).length;
 
-  let report = `
+  const report = `
 # Fidelity Check: ${status}
 
+**Persona**: ${score.persona}
 **Overall Score**: ${score.overall}/100
 
-## Must Include (${score.mustIncludeScore}/5)
+## Must Include (${score.mustIncludeScore}/${checked(score.mustInclude)}, ${score.requiredMustInclude} required)
 
-| Marker | Found | Examples |
-|--------|-------|----------|
-| Framework Reference | ${score.breakdown.frameworkReference.found ? "✓" : "✗"} | ${score.breakdown.frameworkReference.matches.slice(0, 2).join(", ") || "-"} |
-| JTBD Question | ${score.breakdown.jtbdQuestion.found ? "✓" : "✗"} | ${score.breakdown.jtbdQuestion.matches.slice(0, 2).join(", ") || "-"} |
-| Humility | ${score.breakdown.humility.found ? "✓" : "✗"} | ${score.breakdown.humility.matches.slice(0, 2).join(", ") || "-"} |
-| Case Study | ${score.breakdown.caseStudy.found ? "✓" : "✗"} | ${score.breakdown.caseStudy.matches.slice(0, 2).join(", ") || "-"} |
-| Constraints | ${score.breakdown.constraints.found ? "✓" : "✗"} | ${score.breakdown.constraints.matches.slice(0, 2).join(", ") || "-"} |
+${formatMarkerTable(score.mustInclude, "✓", "✗")}
 
-## Should Include (${score.shouldIncludeScore}/4)
+## Should Include (${score.shouldIncludeScore}/${checked(score.shouldInclude)})
 
-| Marker | Found |
-|--------|-------|
-| Story/Example | ${score.breakdown.story.found ? "✓" : "✗"} |
-| Multiple Frameworks | ${score.breakdown.frameworkReference.matches.length > 1 ? "✓" : "✗"} |
-| Multiple Humility Markers | ${score.breakdown.humility.matches.length > 1 ? "✓" : "✗"} |
-| Combined Analysis | ${score.breakdown.jtbdQuestion.found && score.breakdown.constraints.found ? "✓" : "✗"} |
+${formatMarkerTable(score.shouldInclude, "✓", "✗")}
 
 ## Anti-Patterns (${score.antiPatternPenalty} point penalty)
 
-| Pattern | Found | Examples |
-|---------|-------|----------|
-| Overconfidence | ${score.antiPatterns.overconfidence.found ? "⚠️" : "✓"} | ${score.antiPatterns.overconfidence.matches.join(", ") || "-"} |
-| Dismissive | ${score.antiPatterns.dismissive.found ? "⚠️" : "✓"} | ${score.antiPatterns.dismissive.matches.join(", ") || "-"} |
-| Generic Advice | ${score.antiPatterns.generic.found ? "⚠️" : "✓"} | ${score.antiPatterns.generic.matches.join(", ") || "-"} |
+${formatMarkerTable(score.mustAvoid, "⚠️", "✓")}
 `.trim();
 
   return report;
@@ -319,6 +248,6 @@ export function formatFidelityReport(score: FidelityScore): string {
 /**
  * Quick check if output passes fidelity requirements
  */
-export function checkFidelity(output: string): boolean {
-  return calculateFidelityScore(output).passed;
+export function checkFidelity(output: string, personaId?: string): boolean {
+  return calculateFidelityScore(output, personaId).passed;
 }
@@ -0,0 +1,223 @@
+/**
+ * Fidelity Rubric Check - Validate the persona-driven fidelity rubric
+ *
+ * Compiles the Christensen rubric from its persona YAML and scores the
+ * persona's own sample responses, excused and dismissive phrasing and
+ * composite markers, and checks its patterns against the ones the checker
+ * used to hard-code. Then scores a second persona with its own rubric
+ * from a temporary persona directory, loads a persona with plain string
+ * markers, and checks broken rubrics are rejected with their YAML paths.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_PERSONA_ID,
+  generateSystemPrompt,
+  getSampleResponses,
+  loadPersonaSource,
+  setPersonaOverrideDirectory,
+} from "../persona-loader.js";
+import { parsePersonaDefinition } from "../persona-schema.js";
+import { calculateFidelityScore, getFidelityRubric } from "./fidelity-check.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+/** Fidelity markers for a persona that only cares about unit economics */
+const UNIT_ECONOMICS_MARKERS = `  fidelity_markers:
+    must_include:
+      - id: unit_economics
+        marker: "Talks about unit economics"
+        patterns: ['unit economics', 'contribution margin']
+        weight: 60
+    should_include: []
+    must_avoid:
+      - id: hype
+        marker: "Hype"
+        blocking: true
+        patterns: ['\\bgame[- ]chang']
+    pass:
+      min_score: 50
+`;
+
+/** Plain string markers, as personas wrote them before markers had patterns */
+const GUIDANCE_MARKERS = `  fidelity_markers:
+    must_include:
+      - "Reference to specific framework (JTBD, disruption, CPP)"
+      - id: humility
+        marker: "Humility about predictions"
+        patterns: ['depends on']
+    should_include:
+      - "Story or example to illustrate point"
+    must_avoid:
+      - "Overconfident predictions about specific outcomes"
+`;
+
+/**
+ * The patterns the checker hard-coded before the rubric moved into the
+ * persona YAML, by the marker id that now carries them
+ */
+const HARD_CODED_PATTERNS: Record<string, RegExp[]> = {
+  framework_reference: [
+    /jobs?[- ]to[- ]be[- ]done/i,
+    /jtbd/i,
+    /disruption/i,
+    /disruptive/i,
+    /sustaining/i,
+    /capabilities[,\s]+processes[,\s]+(?:and\s+)?priorities/i,
+    /cpp/i,
+    /resource dependence/i,
+  ],
+  jtbd_question: [
+    /what job/i,
+    /hiring.*(?:product|solution|this)/i,
+    /functional.*emotional.*social/i,
+    /circumstance/i,
+    /what are they firing/i,
+  ],
+  humility: [
+    /theory (?:would |might )?(?:suggest|predict)/i,
+    /I'?ve seen this pattern/i,
+    /help me understand/i,
+    /the question (?:is|might be)/i,
+    /appropriate uncertainty/i,
+    /might be different/i,
+    /depends on/i,
+  ],
+  case_study: [/mini[- ]?mills?/i, /steel/i, /disk drive/i, /milkshake/i, /honda/i, /intel/i, /microprocessor/i],
+  constraints: [/resource provider/i, /business model/i, /priorit(?:y|ies)/i, /process(?:es)?/i, /what would need to change/i],
+  story: [/let me (?:tell you|share)/i, /story/i, /example/i, /I'?m reminded of/i, /consider (?:the case|how)/i],
+  overconfidence: [/\bwill definitely\b/i, /\bwill certainly\b/i, /\bguaranteed\b/i, /\bwill always\b/i, /\bno doubt\b/i, /\b100%\b/],
+  dismissive: [
+    /(?<!not that[^.]*)\bstupid\b(?![^.]*rational)/i,
+    /\bobviously wrong\b/i,
+    /\bterrible idea\b/i,
+    /\bthat'?s (?:dumb|idiotic)\b/i,
+    /\byou'?re wrong\b/i,
+  ],
+  generic_advice: [/\bjust focus on execution\b/i, /\bhere'?s a \d+[- ]step plan\b/i, /\bbest practices say\b/i, /\bindustry standard\b/i],
+};
+
+/**
+ * Swap the default persona's fidelity markers for others
+ */
+function withMarkers(source: string, markers: string): string {
+  return source.replace(/ {2}fidelity_markers:\n[\s\S]*?(?=\n {2}sample_prompts_and_responses:)/, markers);
+}
+
+/**
+ * Capture the error message thrown for a persona source, if any
+ */
+function rejectionOf(source: string): string {
+  try {
+    parsePersonaDefinition(source, "broken.yaml");
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Score outputs against compiled rubrics and check rubric validation
+ */
+export async function runFidelityRubricCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: persona-driven fidelity rubric");
+  console.log("=".repeat(60));
+
+  const rubric = getFidelityRubric();
+  const samples = Object.values(getSampleResponses());
+  const empathetic = calculateFidelityScore("It's not that managers are stupid - they're rational.");
+  const dismissive = calculateFidelityScore("Their managers are stupid and slow.");
+  const jtbdOnly = calculateFidelityScore("What job is the customer hiring this product to do?");
+  const jtbdAndConstraints = calculateFidelityScore("What job is the customer hiring this product to do? Check your priorities.");
+
+  const source = loadPersonaSource(DEFAULT_PERSONA_ID);
+  const badPattern = rejectionOf(source.replace("- 'what job'", "- 'what (job'"));
+  const badRequires = rejectionOf(source.replace("requires: [jtbd_question, constraints]", "requires: [jtbd_question, single_framework]"));
+
+  const compiled = [...rubric.mustInclude, ...rubric.shouldInclude, ...rubric.mustAvoid];
+  const sameAsHardCoded = Object.entries(HARD_CODED_PATTERNS).every(([id, patterns]) => {
+    const marker = compiled.find((m) => m.id === id);
+    return (
+      marker !== undefined &&
+      marker.patterns.length === patterns.length &&
+      marker.patterns.every((p, i) => p.source === patterns[i].source)
+    );
+  });
+
+  const personaDir = mkdtempSync(join(tmpdir(), "christensen-personas-"));
+  let ownRubric = false;
+  let blockingMarker = false;
+  let guidanceMarkers = false;
+  try {
+    writeFileSync(join(personaDir, "analyst.yaml"), withMarkers(source, UNIT_ECONOMICS_MARKERS));
+    writeFileSync(join(personaDir, "legacy.yaml"), withMarkers(source, GUIDANCE_MARKERS));
+    setPersonaOverrideDirectory(personaDir);
+    const analyst = calculateFidelityScore("Start from the unit economics, not the disk drive story.", "analyst");
+    const hyped = calculateFidelityScore("The unit economics are a game-changer.", "analyst");
+    ownRubric = analyst.passed && analyst.overall === 60 && analyst.mustInclude.length === 1;
+    blockingMarker = !hyped.passed && hyped.mustAvoid[0].found;
+
+    const legacy = getFidelityRubric("legacy");
+    guidanceMarkers =
+      legacy.mustInclude[0].id === "reference_to_specific_framework_jtbd_disruption_cpp" &&
+      !legacy.mustInclude[0].checked &&
+      !legacy.mustAvoid[0].checked &&
+      legacy.minMustInclude === 1 &&
+      generateSystemPrompt("legacy").includes("- Overconfident predictions about specific outcomes");
+  } finally {
+    setPersonaOverrideDirectory(undefined);
+    rmSync(personaDir, { recursive: true, force: true });
+  }
+
+  const checks: [string, boolean][] = [
+    [
+      "rubric compiled from persona YAML",
+      rubric.mustInclude.length === 5 && rubric.minMustInclude === 4 && rubric.mustAvoid.some((m) => !m.checked),
+    ],
+    ["patterns match the ones previously hard-coded", sameAsHardCoded],
+    [
+      "each sample's good response outscores its bad one",
+      samples.every((s) => calculateFidelityScore(s.good_response).overall > calculateFidelityScore(s.bad_response).overall),
+    ],
+    ["excused context: empathetic \"stupid\" not flagged", !empathetic.mustAvoid.some((r) => r.found)],
+    [
+      "blocking anti-pattern flagged and penalized",
+      dismissive.mustAvoid.some((r) => r.id === "dismissive" && r.found) &&
+        dismissive.antiPatternPenalty === 15 &&
+        !dismissive.passed,
+    ],
+    [
+      "requires: diagnostic questions need both markers",
+      !jtbdOnly.shouldInclude.find((r) => r.id === "diagnostic_questions")?.found &&
+        jtbdAndConstraints.shouldInclude.find((r) => r.id === "diagnostic_questions")?.found === true,
+    ],
+    ["second persona scored with its own rubric and threshold", ownRubric],
+    ["second persona's blocking marker fails the check", blockingMarker],
+    ["plain string markers load as guidance only", guidanceMarkers],
+    [
+      "invalid pattern rejected with its path",
+      /validation\.fidelity_markers\.must_include\[1\]\.patterns\[0\]: not a valid regular expression/.test(badPattern),
+    ],
+    [
+      "requires naming an unchecked marker rejected",
+      /should_include\[3\]\.requires\[1\]: "single_framework" is not a marker with patterns/.test(badRequires),
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,185 @@
+/**
+ * HTTP Check - Validate the Streamable HTTP transport
+ *
+ * Starts the HTTP server on an ephemeral loopback port, then checks that
+ * a client session is created, reused and closed with DELETE, that
+ * unknown session ids, foreign Host headers and oversized bodies are
+ * rejected, that /health counts sessions, and that idle sessions are
+ * evicted.
+ */
+
+import { request as httpRequest } from "http";
+import type { AddressInfo } from "net";
+import type { Server as HttpServer } from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { HEALTH_PATH, MCP_PATH, startHttpServer } from "../transports/http.js";
+
+// ============================================================
+// HTTP Helpers
+// ============================================================
+
+interface RawResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: "http-check-client", version: "0.0.0" },
+  },
+};
+
+/**
+ * Send a raw HTTP request; unlike fetch, this can set the Host header
+ */
+function send(
+  port: number,
+  method: string,
+  path: string,
+  options: { headers?: Record<string, string>; body?: string } = {}
+): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(
+      {
+        host: "127.0.0.1",
+        port,
+        method,
+        path,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...options.headers,
+        },
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString("utf-8") })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+async function sessionCount(port: number): Promise<number> {
+  const { body } = await send(port, "GET", HEALTH_PATH);
+  return (JSON.parse(body) as { sessions: number }).sessions;
+}
+
+function portOf(server: HttpServer): number {
+  return (server.address() as AddressInfo).port;
+}
+
+function close(server: HttpServer): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Exercise sessions, rejections and eviction against a live HTTP server
+ */
+export async function runHttpCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: Streamable HTTP transport");
+  console.log("=".repeat(60));
+
+  const server = await startHttpServer({ host: "127.0.0.1", port: 0 });
+  const port = portOf(server);
+
+  const health = JSON.parse((await send(port, "GET", HEALTH_PATH)).body) as { status: string; sessions: number };
+
+  const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}${MCP_PATH}`));
+  const client = new Client({ name: "http-check-client", version: "0.0.0" });
+  await client.connect(transport);
+  const sessionId = transport.sessionId;
+  const { tools } = await client.listTools();
+  const { prompts } = await client.listPrompts();
+  const sessionsOpen = await sessionCount(port);
+  await transport.terminateSession();
+  const sessionsAfterDelete = await sessionCount(port);
+  await client.close();
+
+  const deleted = await send(port, "POST", MCP_PATH, {
+    headers: { "Mcp-Session-Id": sessionId ?? "" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  const noSession = await send(port, "POST", MCP_PATH, {
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  const foreignHost = await send(port, "POST", MCP_PATH, {
+    headers: { Host: `evil.example:${port}` },
+    body: JSON.stringify(INITIALIZE_REQUEST),
+  });
+  const sessionsAfterForeignHost = await sessionCount(port);
+  const oversized = await send(port, "POST", MCP_PATH, { body: " ".repeat(5 * 1024 * 1024) });
+  const malformed = await send(port, "POST", MCP_PATH, { body: "{not json" });
+  const unknownPath = await send(port, "GET", "/nowhere");
+  await close(server);
+
+  // A short idle timeout, and a session opened without an event stream
+  const idleServer = await startHttpServer({ host: "127.0.0.1", port: 0, sessionIdleTimeoutMs: 100 });
+  const idlePort = portOf(idleServer);
+  const initialized = await send(idlePort, "POST", MCP_PATH, { body: JSON.stringify(INITIALIZE_REQUEST) });
+  const idleSessionId = String(initialized.headers["mcp-session-id"] ?? "");
+  const sessionsBeforeIdle = await sessionCount(idlePort);
+  await new Promise((resolve) => setTimeout(resolve, 400));
+  const sessionsAfterIdle = await sessionCount(idlePort);
+  const evicted = await send(idlePort, "POST", MCP_PATH, {
+    headers: { "Mcp-Session-Id": idleSessionId },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  await close(idleServer);
+
+  const errorCode = (response: RawResponse) => {
+    try {
+      return (JSON.parse(response.body) as { error?: { code: number } }).error?.code;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const checks: [string, boolean][] = [
+    ["health endpoint reports no sessions at start", health.status === "ok" && health.sessions === 0],
+    ["client session created", Boolean(sessionId) && sessionsOpen === 1],
+    ["session reused across requests", tools.some((t) => t.name === "analyze_decision") && prompts.length > 0],
+    ["DELETE closes the session", sessionsAfterDelete === 0],
+    ["closed session id → 404", deleted.status === 404 && errorCode(deleted) === -32001],
+    ["request without a session → 400", noSession.status === 400],
+    [
+      "foreign Host header rejected without leaving a session",
+      foreignHost.status === 403 && sessionsAfterForeignHost === 0,
+    ],
+    ["oversized body → 413", oversized.status === 413 && errorCode(oversized) === -32600],
+    ["malformed JSON → parse error", malformed.status === 400 && errorCode(malformed) === -32700],
+    ["unknown path → 404", unknownPath.status === 404],
+    [
+      "idle session evicted",
+      initialized.status === 200 && sessionsBeforeIdle === 1 && sessionsAfterIdle === 0 && evicted.status === 404,
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -6,10 +6,15 @@ export {
   calculateFidelityScore,
   formatFidelityReport,
   checkFidelity,
-  POSITIVE_PATTERNS,
-  NEGATIVE_PATTERNS,
+  compileFidelityRubric,
+  getFidelityRubric,
+} from "./fidelity-check.js";
+export type {
+  CompiledFidelityMarker,
+  FidelityRubric,
+  FidelityScore,
+  MarkerResult,
 } from "./fidelity-check.js";
-export type { FidelityScore } from "./fidelity-check.js";
 
 export {
   DECISION_1_ANTHROPIC,
@@ -19,3 +24,31 @@ export {
   runAllTests,
 } from "./test-decisions.js";
 export type { TestDecision } from "./test-decisions.js";
+
+export { runSamplingCheck } from "./sampling-check.js";
+
+export { runPersonaCheck } from "./persona-check.js";
+
+export { runClassificationCheck } from "./classification-check.js";
+
+export { runCaseLibraryCheck } from "./case-library-check.js";
+
+export { runSignalCheck } from "./signal-check.js";
+
+export { runConfidenceCheck } from "./confidence-check.js";
+
+export { runSynthesisCheck } from "./synthesis-check.js";
+export { runAnswerParsingCheck } from "./answer-parsing-check.js";
+export { runCapabilityCheck } from "./capability-check.js";
+export { runFidelityRubricCheck } from "./fidelity-rubric-check.js";
+export { runModularityCheck } from "./modularity-check.js";
+export { runAttractiveProfitsCheck } from "./attractive-profits-check.js";
+export { runBusinessModelCheck } from "./business-model-check.js";
+export { runEmergentStrategyCheck } from "./emergent-strategy-check.js";
+export { runDiscoveryDrivenCheck } from "./discovery-driven-check.js";
+export { runPromptCheck } from "./prompt-check.js";
+export { runResourceCheck } from "./resource-check.js";
+export { runHttpCheck } from "./http-check.js";
+export { runPersonaSelectionCheck } from "./persona-selection-check.js";
+export { runPersonaOverrideCheck } from "./persona-override-check.js";
+export { runPersonaWatcherCheck } from "./persona-watcher-check.js";
@@ -0,0 +1,105 @@
+/**
+ * Modularity Check - Validate the interdependence vs modularity framework
+ *
+ * Checks the framework through get_framework, analyze_decision in prompt
+ * and sampled mode (with a fake sampler that answers the modularity
+ * prompt in JSON and the others not at all), and the MCP prompts, and
+ * that the default focus areas still leave it out.
+ */
+
+import { getPrompt, listPrompts } from "../prompts/index.js";
+import type { Sampler } from "../sampling/index.js";
+import { analyzeDecision, getFramework } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const DECISION = "Should we keep designing our own battery packs, or buy standard modules from suppliers?";
+
+/**
+ * Sampler that answers the modularity prompt and nothing else
+ */
+const FAKE_SAMPLER: Sampler = {
+  async sample({ prompt }) {
+    if (!prompt.includes("Interdependence vs Modularity lens")) return "No answer.";
+    return JSON.stringify({
+      performanceGap: "not-good-enough",
+      gapRationale: "Range still limits which customers can buy",
+      notGoodEnoughDimensions: ["Range", "Charging time"],
+      interfaces: { interdependent: ["Cell chemistry ↔ thermal management"] },
+      currentArchitecture: "interdependent",
+      favoredArchitecture: "interdependent",
+      confidence: "medium",
+    });
+  },
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Exercise the framework through the tools and prompts that expose it
+ */
+export async function runModularityCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: interdependence vs modularity framework");
+  console.log("=".repeat(60));
+
+  const reference = await getFramework({ framework: "modularity", detail: "full" });
+  const all = await getFramework({ framework: "all", detail: "summary" });
+  const prompted = await analyzeDecision({ decision: DECISION, focusAreas: ["modularity"] });
+  const defaults = await analyzeDecision({ decision: DECISION });
+  const sampled = await analyzeDecision(
+    { decision: DECISION, focusAreas: ["cpp", "modularity"] },
+    { sampler: FAKE_SAMPLER }
+  );
+  const architecture = sampled.structured.analysis.theArchitecture;
+  const inquiry = getPrompt("modularity_inquiry", { situation: DECISION });
+
+  const checks: [string, boolean][] = [
+    [
+      "get_framework: signal lists, questions and voice",
+      reference.text.includes("### More Than Good Enough (Modularity Wins)") &&
+        reference.structured.frameworks[0].diagnosticQuestions.length > 0 &&
+        all.structured.frameworks.some((f) => f.id === "modularity"),
+    ],
+    [
+      "analyze_decision: modularity prompt section and template",
+      prompted.text.includes("## INTERDEPENDENCE VS MODULARITY ANALYSIS") &&
+        !prompted.text.includes("## JOBS-TO-BE-DONE ANALYSIS") &&
+        prompted.structured.analysis.theArchitecture?.performanceGap === "unclear",
+    ],
+    [
+      "default focus areas leave modularity out",
+      !defaults.structured.focusAreas.includes("modularity") &&
+        defaults.structured.analysis.theArchitecture === undefined,
+    ],
+    [
+      "sampled: architecture filled from the JSON answer",
+      architecture?.performanceGap === "not-good-enough" &&
+        architecture.interfaces.interdependent.length === 1 &&
+        architecture.interfaces.modular.length === 0 &&
+        sampled.text.includes("## The Architecture"),
+    ],
+    [
+      "sampled: unanswered CPP prompt reported, not filled",
+      sampled.structured.unparsed.some((u) => u.section === "cpp") &&
+        !sampled.structured.unparsed.some((u) => u.section === "modularity"),
+    ],
+    [
+      "prompts: modularity analysis and inquiry",
+      listPrompts().some((p) => p.name === "modularity_analysis") &&
+        inquiry.messages[0].content.text.includes("good enough"),
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,67 @@
+/**
+ * Persona Check - Validate persona YAML against the persona schema
+ *
+ * Loads every persona in the persona directory through the schema, then
+ * checks that a broken definition is rejected with its YAML path and
+ * line/column so authoring mistakes stay actionable.
+ */
+
+import { listPersonaIds, loadPersona, loadPersonaSource, DEFAULT_PERSONA_ID } from "../persona-loader.js";
+import { parsePersonaDefinition } from "../persona-schema.js";
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Capture the error message thrown for a persona source, if any
+ */
+function rejectionOf(yamlSource: string): string {
+  try {
+    parsePersonaDefinition(yamlSource, "broken.yaml");
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Validate bundled personas and the error reporting for broken ones
+ */
+export function runPersonaCheck(): boolean {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: persona schema validation");
+  console.log("=".repeat(60));
+
+  const checks: [string, boolean][] = [];
+
+  for (const id of listPersonaIds()) {
+    let valid = true;
+    try {
+      loadPersona(id);
+    } catch (error) {
+      valid = false;
+      console.log(error instanceof Error ? error.message : String(error));
+    }
+    checks.push([`${id}.yaml is valid`, valid]);
+  }
+
+  const source = loadPersonaSource(DEFAULT_PERSONA_ID);
+  const typo = rejectionOf(source.replace("  case_study_matching:", "  case_study_matchng:"));
+  const missing = rejectionOf(source.replace(/\n {4}must_avoid:(\n {6,}.*)+/, ""));
+  const syntax = rejectionOf(source.replace(/name: ".*"/, "name: [unterminated"));
+
+  checks.push(
+    ["misspelled key reported with path and position", /analysis_patterns\.case_study_matchng: .*\(line \d+, column \d+\)/.test(typo)],
+    ["missing key reported with path and position", /validation\.fidelity_markers\.must_avoid: Required \(line \d+, column \d+\)/.test(missing)],
+    ["YAML syntax error reported with position", /\(line \d+, column \d+\)/.test(syntax)]
+  );
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
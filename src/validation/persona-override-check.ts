@@ -0,0 +1,107 @@
+/**
+ * Persona Override Check - Validate bundled personas and the override directory
+ *
+ * Checks that personas load from the bundled directory in the build, then
+ * layers a temporary override directory on top to check that a file there
+ * replaces the bundled persona and a new file adds one, that persona ids
+ * cannot reach files outside the persona directories, and that removing
+ * the override restores the bundled persona.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_PERSONA_ID,
+  getBundledPersonaDirectory,
+  getPersona,
+  getPersonaDirectories,
+  listPersonaIds,
+  loadPersonaSource,
+  setPersonaOverrideDirectory,
+} from "../persona-loader.js";
+import { readResource } from "../resources/index.js";
+import { analyzeDecision } from "../tools/analyze-decision.js";
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Capture the error message a call throws or rejects with, if any
+ */
+async function rejectionOf(run: () => unknown): Promise<string> {
+  try {
+    await run();
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Layer an override directory over the bundled personas and check precedence
+ */
+export async function runPersonaOverrideCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: persona override directory");
+  console.log("=".repeat(60));
+
+  const bundledRole = getPersona().identity.role;
+  const source = loadPersonaSource(DEFAULT_PERSONA_ID);
+
+  // The override directory sits next to a persona file it must not expose
+  const root = mkdtempSync(join(tmpdir(), "christensen-override-"));
+  const directory = join(root, "personas");
+  mkdirSync(directory);
+  writeFileSync(join(root, "outside.yaml"), source);
+  writeFileSync(
+    join(directory, `${DEFAULT_PERSONA_ID}.yaml`),
+    source.replace(`role: "${bundledRole}"`, 'role: "Overridden Advisor"')
+  );
+  writeFileSync(join(directory, "sibling.yaml"), source);
+
+  const checks: [string, boolean][] = [
+    [
+      "bundled personas ship in the build",
+      existsSync(join(getBundledPersonaDirectory(), `${DEFAULT_PERSONA_ID}.yaml`)),
+    ],
+  ];
+
+  try {
+    const missing = await rejectionOf(() => setPersonaOverrideDirectory(join(root, "missing")));
+    setPersonaOverrideDirectory(directory);
+
+    const resource = await readResource(`christensen://persona/${DEFAULT_PERSONA_ID}`);
+    const traversal = await rejectionOf(() => loadPersonaSource("../outside"));
+    const absolute = await rejectionOf(() => loadPersonaSource(join(root, "outside")));
+    const viaTool = await rejectionOf(() => analyzeDecision({ decision: "Should we?", persona: "../outside" }));
+    const viaResource = await rejectionOf(() => readResource("christensen://persona/..%2Foutside"));
+
+    checks.push(
+      ["missing override directory rejected", missing.includes("Persona directory not found")],
+      ["override directory searched first", getPersonaDirectories()[0] === directory],
+      ["override file replaces the bundled persona", getPersona().identity.role === "Overridden Advisor"],
+      ["persona resource serves the override", resource.contents[0].text.includes("Overridden Advisor")],
+      ["new file adds a persona", listPersonaIds().includes("sibling") && !listPersonaIds().includes("outside")],
+      [
+        "persona ids cannot leave the persona directories",
+        [traversal, absolute, viaTool].every((message) => message.includes("Persona not found")) &&
+          viaResource.includes("Unknown persona"),
+      ]
+    );
+  } finally {
+    setPersonaOverrideDirectory(undefined);
+    rmSync(root, { recursive: true, force: true });
+  }
+
+  checks.push(["bundled persona restored without the override", getPersona().identity.role === bundledRole]);
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,89 @@
+/**
+ * Persona Selection Check - Validate per-call persona selection
+ *
+ * Adds a sibling persona from a temporary directory, then checks that it
+ * is listed, cached separately from the default persona, and selected per
+ * call by analyze_decision and the christensen_persona prompt, and that an
+ * unknown persona id is rejected.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_PERSONA_ID,
+  getPersona,
+  listPersonaIds,
+  listPersonas,
+  loadPersonaSource,
+  setPersonaOverrideDirectory,
+} from "../persona-loader.js";
+import { getPrompt } from "../prompts/index.js";
+import { analyzeDecision } from "../tools/analyze-decision.js";
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Select a sibling persona per call and check that the default is unaffected
+ */
+export async function runPersonaSelectionCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: persona selection");
+  console.log("=".repeat(60));
+
+  const directory = mkdtempSync(join(tmpdir(), "christensen-personas-"));
+  writeFileSync(
+    join(directory, "drucker.yaml"),
+    loadPersonaSource(DEFAULT_PERSONA_ID).replace('name: "Clayton Christensen"', 'name: "Peter Drucker"')
+  );
+
+  const checks: [string, boolean][] = [];
+  try {
+    setPersonaOverrideDirectory(directory);
+
+    const decision = "Should we launch a cheaper product for customers who can't afford ours?";
+    const sibling = await analyzeDecision({ decision, persona: "drucker" });
+    const standard = await analyzeDecision({ decision });
+    const prompt = getPrompt("christensen_persona", { persona: "drucker" }).messages[0].content.text;
+
+    let unknown = "";
+    try {
+      await analyzeDecision({ decision, persona: "nobody" });
+    } catch (error) {
+      unknown = error instanceof Error ? error.message : String(error);
+    }
+
+    checks.push(
+      ["sibling persona listed", listPersonaIds().includes("drucker") && listPersonaIds().includes(DEFAULT_PERSONA_ID)],
+      ["summaries name each persona", listPersonas().some((p) => p.id === "drucker" && p.name === "Peter Drucker")],
+      [
+        "each persona cached separately",
+        getPersona("drucker") === getPersona("drucker") &&
+          getPersona("drucker") !== getPersona(DEFAULT_PERSONA_ID),
+      ],
+      [
+        "analyze_decision advises as the selected persona",
+        sibling.structured.persona === "drucker" && sibling.text.includes("You are Peter Drucker"),
+      ],
+      [
+        "default persona when none is selected",
+        standard.structured.persona === DEFAULT_PERSONA_ID && standard.text.includes("You are Clayton Christensen"),
+      ],
+      ["persona prompt renders the selected persona", prompt.includes("You are Peter Drucker")],
+      ["unknown persona rejected", unknown.includes("Persona not found: nobody")]
+    );
+  } finally {
+    setPersonaOverrideDirectory(undefined);
+    rmSync(directory, { recursive: true, force: true });
+  }
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.length > 0 && checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
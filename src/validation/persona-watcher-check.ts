@@ -0,0 +1,113 @@
+/**
+ * Persona Watcher Check - Validate persona hot reload
+ *
+ * Watches a temporary override directory, edits a persona file there and
+ * checks that the cached persona is reloaded and a connected client is
+ * told to refetch prompts and resources, then writes an invalid edit and
+ * checks that it is rejected while the last good persona keeps serving.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_PERSONA_ID, getPersona, loadPersonaSource, setPersonaOverrideDirectory } from "../persona-loader.js";
+import { watchPersonas } from "../persona-watcher.js";
+import { createServer } from "../server.js";
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const PERSONA_ID = "watched";
+
+/**
+ * Poll until a condition holds or the timeout passes
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Edit a watched persona file and check reloads, rejections and notifications
+ */
+export async function runPersonaWatcherCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: persona hot reload");
+  console.log("=".repeat(60));
+
+  const source = loadPersonaSource(DEFAULT_PERSONA_ID);
+  const role = getPersona().identity.role;
+  const directory = mkdtempSync(join(tmpdir(), "christensen-watch-"));
+  const path = join(directory, `${PERSONA_ID}.yaml`);
+  writeFileSync(path, source);
+
+  const notifications = { prompts: 0, resources: 0 };
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "watcher-check-client", version: "0.0.0" });
+  client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+    notifications.prompts++;
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+    notifications.resources++;
+  });
+
+  const checks: [string, boolean][] = [];
+  let stopWatching = () => {};
+  try {
+    setPersonaOverrideDirectory(directory);
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+    const original = getPersona(PERSONA_ID);
+    stopWatching = watchPersonas();
+
+    writeFileSync(path, source.replace(`role: "${role}"`, 'role: "Reloaded Advisor"'));
+    const reloaded = await waitFor(() => getPersona(PERSONA_ID).identity.role === "Reloaded Advisor");
+    const notified = await waitFor(() => notifications.prompts > 0 && notifications.resources > 0);
+    const good = getPersona(PERSONA_ID);
+    const notificationsBefore = { ...notifications };
+
+    console.log("  (an invalid edit follows; the rejection logged below is expected)");
+    writeFileSync(path, source.replace("identity:", "identity:\n  unexpected_key: true"));
+    // Give the debounced reload time to run and reject the edit
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    checks.push(
+      ["valid edit reloads the cached persona", reloaded && getPersona(PERSONA_ID) !== original],
+      ["prompts and resources list_changed sent", notified],
+      ["invalid edit rejected, last good persona kept", getPersona(PERSONA_ID) === good],
+      [
+        "no notifications for a rejected edit",
+        notifications.prompts === notificationsBefore.prompts &&
+          notifications.resources === notificationsBefore.resources,
+      ]
+    );
+  } finally {
+    stopWatching();
+    await client.close();
+    setPersonaOverrideDirectory(undefined);
+    rmSync(directory, { recursive: true, force: true });
+  }
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.length > 0 && checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
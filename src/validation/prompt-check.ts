@@ -0,0 +1,97 @@
+/**
+ * Prompt Check - Validate prompts/list and prompts/get over MCP
+ *
+ * Connects the real server to an in-memory client, then checks that the
+ * persona and framework prompts are listed with their arguments, render
+ * the situation they are given, and that unknown prompts and missing
+ * required arguments are rejected.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Capture the error message a request rejects with, if any
+ */
+async function rejectionOf(request: Promise<unknown>): Promise<string> {
+  try {
+    await request;
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Text of the first message of a prompts/get result
+ */
+function promptText(result: { messages: { content: { type: string; text?: unknown } }[] }): string {
+  const content = result.messages[0]?.content;
+  return content?.type === "text" ? String(content.text) : "";
+}
+
+/**
+ * List and render prompts through an in-memory client
+ */
+export async function runPromptCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: MCP prompts");
+  console.log("=".repeat(60));
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "prompt-check-client", version: "0.0.0" });
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const { prompts } = await client.listPrompts();
+  const persona = await client.getPrompt({ name: "christensen_persona" });
+  const jtbd = await client.getPrompt({
+    name: "jtbd_analysis",
+    arguments: { situation: "Commuters buying milkshakes at 8am" },
+  });
+  const decision = await client.getPrompt({
+    name: "decision_analysis",
+    arguments: { decision: "Should we launch a low-end product?", focusAreas: "jtbd, disruption" },
+  });
+  const unknown = await rejectionOf(client.getPrompt({ name: "no_such_prompt" }));
+  const missing = await rejectionOf(client.getPrompt({ name: "jtbd_analysis", arguments: {} }));
+  await client.close();
+
+  const jtbdDefinition = prompts.find((p) => p.name === "jtbd_analysis");
+
+  const checks: [string, boolean][] = [
+    [
+      "persona, decision and framework prompts listed",
+      ["christensen_persona", "decision_analysis", "jtbd_analysis", "jtbd_inquiry"].every((name) =>
+        prompts.some((p) => p.name === name)
+      ),
+    ],
+    [
+      "prompt arguments listed with required flags",
+      jtbdDefinition?.arguments?.find((a) => a.name === "situation")?.required === true &&
+        jtbdDefinition?.arguments?.find((a) => a.name === "context")?.required === false,
+    ],
+    ["persona prompt rendered without arguments", promptText(persona).includes("Clayton Christensen")],
+    ["framework prompt includes the situation", promptText(jtbd).includes("Commuters buying milkshakes at 8am")],
+    [
+      "comma-separated focus areas accepted",
+      promptText(decision).includes("## DISRUPTION THEORY ANALYSIS") &&
+        !promptText(decision).includes("## RESOURCE DEPENDENCE ANALYSIS"),
+    ],
+    ["unknown prompt rejected", unknown.includes("Unknown prompt: no_such_prompt")],
+    ["missing required argument rejected", missing.includes("Missing required argument for prompt jtbd_analysis: situation")],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,89 @@
+/**
+ * Resource Check - Validate resources/list and resources/read over MCP
+ *
+ * Connects the real server to an in-memory client, then checks that case,
+ * framework and persona resources are listed with their templates, read
+ * back with the right content and MIME type, and that unknown or
+ * malformed URIs are rejected.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { getFramework } from "../tools/index.js";
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Capture the error message a request rejects with, if any
+ */
+async function rejectionOf(request: Promise<unknown>): Promise<string> {
+  try {
+    await request;
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * List and read resources through an in-memory client
+ */
+export async function runResourceCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: MCP resources");
+  console.log("=".repeat(60));
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "resource-check-client", version: "0.0.0" });
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const { resources } = await client.listResources();
+  const { resourceTemplates } = await client.listResourceTemplates();
+  const [milkshake] = (await client.readResource({ uri: "christensen://case/milkshake" })).contents;
+  const [framework] = (await client.readResource({ uri: "christensen://framework/jtbd/questions-only" })).contents;
+  const [persona] = (await client.readResource({ uri: "christensen://persona/christensen" })).contents;
+  const unknownCase = await rejectionOf(client.readResource({ uri: "christensen://case/no_such_case" }));
+  const unknownDetail = await rejectionOf(client.readResource({ uri: "christensen://framework/jtbd/verbose" }));
+  const escapingPersona = await rejectionOf(
+    client.readResource({ uri: "christensen://persona/..%2F..%2Fpackage" })
+  );
+  const otherScheme = await rejectionOf(client.readResource({ uri: "file:///etc/passwd" }));
+  await client.close();
+
+  const questions = await getFramework({ framework: "jtbd", detail: "questions-only" });
+
+  const uris = resources.map((r) => r.uri);
+  const textOf = (content: typeof milkshake) => ("text" in content ? String(content.text) : "");
+
+  const checks: [string, boolean][] = [
+    [
+      "case, framework and persona resources listed",
+      uris.includes("christensen://case/milkshake") &&
+        uris.includes("christensen://framework/disruption/full") &&
+        uris.includes("christensen://persona/christensen"),
+    ],
+    ["a template per resource kind", resourceTemplates.length === 3],
+    ["case read as markdown", milkshake.mimeType === "text/markdown" && textOf(milkshake).includes("Milkshake")],
+    ["framework read at the requested detail", textOf(framework) === questions.text],
+    [
+      "persona read as raw YAML",
+      persona.mimeType === "application/yaml" && textOf(persona).includes("fidelity_markers:"),
+    ],
+    ["unknown case rejected", unknownCase.includes("Unknown case study: no_such_case")],
+    ["unknown framework detail rejected", unknownDetail.includes("Unknown framework resource: jtbd/verbose")],
+    ["persona path outside the directory rejected", escapingPersona.includes("Unknown persona")],
+    ["other URI schemes rejected", otherScheme.includes("Unknown resource: file:///etc/passwd")],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -0,0 +1,242 @@
+/**
+ * Sampling Check - Validate sampled analyze_decision against a fake client
+ *
+ * Connects the real server to an in-memory client whose sampling handler
+ * returns canned framework answers, then checks that analyze_decision
+ * parses them into a completed ChristensenAnalysis, including an answer
+ * written as markdown instead of JSON. Also checks that a client without
+ * sampling, or one that rejects the sampling request, still gets the
+ * prompt-return mode.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CreateMessageRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../server.js";
+import type { AnalyzeDecisionOutput } from "../tools/index.js";
+
+// ============================================================
+// Canned Sampling Responses
+// ============================================================
+
+/**
+ * Canned answers keyed by a phrase that identifies each framework prompt,
+ * with an optional markdown version of the answer
+ */
+const FAKE_RESPONSES: { match: string; response: unknown; prose?: string }[] = [
+  {
+    match: "Jobs-to-Be-Done lens",
+    response: {
+      job: "Help small teams get strategic advice without hiring a consultant",
+      dimensions: {
+        functional: "Structure a decision quickly",
+        emotional: "Feel confident in the choice",
+        social: "Look rigorous to investors",
+      },
+      circumstance: {
+        situation: "Facing a decision with no advisor available",
+        trigger: "A board meeting on the calendar",
+        constraints: ["No budget for consultants"],
+      },
+      firingFrom: ["Generic blog posts"],
+      firingRisks: ["Advice that ignores their context"],
+      underservedSegments: ["Solo founders"],
+      openQuestions: [],
+      confidence: "medium",
+    },
+    prose: [
+      "## 1. The Job",
+      "Help small teams get strategic advice without hiring a consultant",
+      "## 2. Job Dimensions",
+      "- **Functional:** Structure a decision quickly",
+      "- **Emotional:** Feel confident in the choice",
+      "- **Social:** Look rigorous to investors",
+      "## 3. Circumstance",
+      "- Situation: Facing a decision with no advisor available",
+      "- Trigger: A board meeting on the calendar",
+      "## 4. Competition",
+      "- Currently hiring: Generic blog posts",
+      "## 5. Underserved",
+      "- Solo founders",
+    ].join("\n"),
+  },
+  {
+    match: "disruption theory lens",
+    response: {
+      innovationType: "new-market-disruptive",
+      classificationRationale: "Serves people who cannot afford consultants today",
+      marketPosition: {
+        segment: "non-consumers",
+        incumbentFocus: "Enterprise consulting engagements",
+        overservedDimensions: ["Bespoke research"],
+        underservedDimensions: ["Speed", "Affordability"],
+      },
+      trueCompetitors: ["Non-consumption"],
+      confidence: "medium",
+    },
+  },
+  {
+    match: "Capabilities-Processes-Priorities framework",
+    response: {
+      resources: { available: ["Persona definitions"], missing: ["Sales team"], flexibility: "high" },
+      processes: { supporting: ["Persona build process"], hindering: [], rigidity: "low" },
+      priorities: { alignment: "aligned", alignmentRationale: "Core to current focus" },
+      overallAssessment: {
+        canExecute: true,
+        primaryBlocker: "none",
+        explanation: "Processes already exist",
+      },
+      recommendations: ["Invest in the factory process"],
+      confidence: "medium",
+    },
+  },
+  {
+    match: "resource dependence constraints",
+    response: {
+      providers: [
+        {
+          provider: "Early users",
+          resources: ["Feedback"],
+          expectations: ["Better individual agents"],
+          impactOnRelationship: "neutral",
+        },
+      ],
+      conflicts: ["Users want polish, not a factory"],
+      riskLevel: "low",
+      navigationStrategy: "Keep one flagship agent while building the factory",
+      confidence: "low",
+    },
+  },
+  {
+    match: "Synthesize these findings",
+    response: {
+      thePattern: {
+        primaryCase: {
+          name: "Intel's Pivot to Microprocessors",
+          pattern: "Capability migration through process investment",
+          relevance: "The build process is the transferable capability",
+          matchStrength: "medium",
+        },
+        secondaryCases: [],
+        patternSummary: "Processes transfer more reliably than resources",
+      },
+      thePrediction: {
+        mostLikelyOutcome: "The theory would predict the factory process compounds",
+        confidence: "medium",
+        keyAssumptions: ["Demand for persona agents exists"],
+        whatCouldChange: ["Platforms ship their own factories"],
+      },
+      theConsideration: ["The market for persona agents is unproven"],
+      narrativeSummary: "Let me tell you what I've seen with Intel...",
+    },
+  },
+];
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Connect an in-memory client to a fresh server
+ */
+async function connectClient(withSampling: boolean, prose = false, decline = false): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client(
+    { name: "fake-sampling-client", version: "0.0.0" },
+    { capabilities: withSampling ? { sampling: {} } : {} }
+  );
+
+  if (withSampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      if (decline) {
+        throw new Error("User declined the sampling request");
+      }
+      const prompt = request.params.messages
+        .flatMap((m) => (Array.isArray(m.content) ? m.content : [m.content]))
+        .map((c) => (c.type === "text" ? c.text : ""))
+        .join("\n");
+      const canned = FAKE_RESPONSES.find((r) => prompt.includes(r.match));
+      return {
+        model: "fake-model",
+        role: "assistant" as const,
+        content: {
+          type: "text" as const,
+          text: !canned
+            ? ""
+            : prose && canned.prose
+              ? canned.prose
+              : `\`\`\`json\n${JSON.stringify(canned.response)}\n\`\`\``,
+        },
+      };
+    });
+  }
+
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Run analyze_decision through a fake sampling client and a plain client
+ */
+export async function runSamplingCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: analyze_decision sampling mode");
+  console.log("=".repeat(60));
+
+  const args = {
+    name: "analyze_decision",
+    arguments: {
+      decision: "Should I build individual persona agents or a factory for creating them?",
+    },
+  };
+
+  const samplingClient = await connectClient(true);
+  const sampled = (await samplingClient.callTool(args)).structuredContent as AnalyzeDecisionOutput;
+  await samplingClient.close();
+
+  const proseClient = await connectClient(true, true);
+  const fromProse = (await proseClient.callTool(args)).structuredContent as AnalyzeDecisionOutput;
+  await proseClient.close();
+
+  const decliningClient = await connectClient(true, false, true);
+  const declinedResult = await decliningClient.callTool(args);
+  const declined = declinedResult.structuredContent as AnalyzeDecisionOutput;
+  await decliningClient.close();
+
+  const plainClient = await connectClient(false);
+  const prompted = (await plainClient.callTool(args)).structuredContent as AnalyzeDecisionOutput;
+  await plainClient.close();
+
+  const checks: [string, boolean][] = [
+    ["sampled mode used when client supports sampling", sampled.mode === "sampled"],
+    ["all sections parsed", sampled.unparsed.length === 0],
+    ["job parsed", sampled.analysis.theJob.job.length > 0],
+    ["innovation type parsed", sampled.analysis.theLandscape.innovationType === "new-market-disruptive"],
+    ["omitted fields keep template values", sampled.analysis.theLandscape.trajectory.keyFactors.length === 0],
+    ["primary blocker parsed", sampled.analysis.theCapabilities.overallAssessment.primaryBlocker === "none"],
+    ["risk level parsed", sampled.analysis.theConstraints.riskLevel === "low"],
+    ["synthesis parsed", sampled.analysis.thePattern.primaryCase.name.startsWith("Intel")],
+    [
+      "markdown answer parsed when no JSON comes back",
+      fromProse.analysis.theJob.job === sampled.analysis.theJob.job &&
+        fromProse.analysis.theJob.firingFrom[0] === "Generic blog posts" &&
+        !fromProse.unparsed.some((u) => u.section.startsWith("jtbd")),
+    ],
+    ["prompt mode without sampling", prompted.mode === "prompt"],
+    [
+      "prompt mode when the client rejects sampling",
+      !declinedResult.isError &&
+        declined.mode === "prompt" &&
+        declined.samplingError?.includes("User declined the sampling request") === true,
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
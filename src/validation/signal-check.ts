@@ -0,0 +1,83 @@
+/**
+ * Signal Check - Validate signal extraction for analyze_decision
+ *
+ * Runs the extractor on phrasings the old keyword checks missed and
+ * checks the canonical signals found, the spans reported for them and
+ * that negated phrases are set aside.
+ */
+
+import {
+  LOW_END_DISRUPTION_SIGNALS,
+  NEW_MARKET_DISRUPTION_SIGNALS,
+  SUSTAINING_SIGNALS,
+  extractSignals,
+} from "../frameworks/index.js";
+import type { SignalExtractionInput } from "../frameworks/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const INPUT: SignalExtractionInput = {
+  decision: "Should we launch a no-frills version for customers who could not afford our product?",
+  context: "We are not cheaper than the incumbents today, but our costs are much lower.",
+  organization: { type: "startup", currentFocus: "Selling to enterprise customers" },
+  market: { customerSegments: ["price-sensitive freelancers"] },
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Extract signals from the fixture and check signals, spans and negation
+ */
+export function runSignalCheck(): boolean {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: signal extraction");
+  console.log("=".repeat(60));
+
+  const { signals, negated } = extractSignals(INPUT);
+  const find = (signal: string) => signals.find((s) => s.signal === signal);
+
+  const noFrills = find(LOW_END_DISRUPTION_SIGNALS[1]);
+  const noFrillsSpan = noFrills?.spans.find((span) => span.field === "decision");
+  const lowerCosts = find(LOW_END_DISRUPTION_SIGNALS[2]);
+
+  const checks: [string, boolean][] = [
+    ["synonym: \"no-frills\" → good enough at lower price", noFrillsSpan?.text === "no-frills"],
+    [
+      "span offsets point at the phrase",
+      noFrillsSpan !== undefined && INPUT.decision.slice(noFrillsSpan.start, noFrillsSpan.end) === "no-frills",
+    ],
+    ["multi-word: \"could not afford\" → non-consumers", find(NEW_MARKET_DISRUPTION_SIGNALS[0]) !== undefined],
+    ["\"costs are much lower\" → lower cost structure", lowerCosts?.spans[0]?.field === "context"],
+    ["organization field: enterprise customers", find(SUSTAINING_SIGNALS[1])?.spans[0]?.field === "organization.currentFocus"],
+    ["market field: price-sensitive segment", find(LOW_END_DISRUPTION_SIGNALS[0])?.spans[0]?.field === "market.customerSegments[0]"],
+    [
+      "negation: \"not cheaper\" set aside",
+      negated.some((n) => n.span.text === "cheaper" && n.negation === "not") &&
+        !(noFrills?.spans.some((span) => span.text === "cheaper") ?? false),
+    ],
+    [
+      "negation stops at the clause boundary",
+      extractSignals({ decision: "Not a luxury brand, but far cheaper" }).signals.some(
+        (s) => s.signal === LOW_END_DISRUPTION_SIGNALS[1]
+      ),
+    ],
+    [
+      "trade-off pairing stays within its clause: \"simpler for novices\" kept after \"not cheaper, but\"",
+      extractSignals({ decision: "We are not cheaper, but we are simpler for novices" }).signals.some(
+        (s) => s.signal === NEW_MARKET_DISRUPTION_SIGNALS[4] && s.spans.some((span) => span.text === "simpler for novices")
+      ),
+    ],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
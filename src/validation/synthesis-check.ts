@@ -0,0 +1,116 @@
+/**
+ * Synthesis Check - Validate cross-framework synthesis
+ *
+ * Synthesizes framework sections for a textbook low-end disruption and
+ * for a new-market disruption with contradicting findings, then checks
+ * the tensions detected, the primary case, the computed confidence and
+ * the narrative, directly and through synthesize_analysis.
+ */
+
+import {
+  createEmptyCPPAnalysis,
+  createEmptyDisruptionAnalysis,
+  synthesizeFrameworkAnalyses,
+} from "../frameworks/index.js";
+import type { DisruptionAnalysis, SynthesisInput } from "../frameworks/index.js";
+import { getVoice } from "../persona-loader.js";
+import { synthesizeAnalysis } from "../tools/index.js";
+
+// ============================================================
+// Fixtures
+// ============================================================
+
+const MINIMILLS_LANDSCAPE: DisruptionAnalysis = {
+  ...createEmptyDisruptionAnalysis(),
+  innovationType: "low-end-disruptive",
+  classificationRationale: "Cheaper, lower-quality steel that undercuts the integrated mills on price",
+  marketPosition: {
+    segment: "low-end",
+    incumbentFocus: "High-margin sheet steel",
+    overservedDimensions: ["Rebar quality"],
+    underservedDimensions: [],
+  },
+};
+
+const CONSISTENT: SynthesisInput = {
+  context: "Should a mini-mill enter the rebar market with electric arc furnaces?",
+  theLandscape: MINIMILLS_LANDSCAPE,
+};
+
+const CONTRADICTING: SynthesisInput = {
+  context: "Should we launch a simple, cheap product for people who could never afford our service?",
+  theLandscape: { ...createEmptyDisruptionAnalysis(), innovationType: "new-market-disruptive" },
+  theCapabilities: {
+    ...createEmptyCPPAnalysis(),
+    priorities: { currentPriorities: ["Gross margin"], alignment: "aligned", alignmentRationale: "", requiredShifts: [] },
+  },
+};
+
+// ============================================================
+// Check Runner
+// ============================================================
+
+/**
+ * Synthesize the fixtures and check tensions, pattern, confidence and voice
+ */
+export async function runSynthesisCheck(): Promise<boolean> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("Testing: cross-framework synthesis");
+  console.log("=".repeat(60));
+
+  const voicePhrases = getVoice().characteristic_phrases;
+  const consistent = await synthesizeFrameworkAnalyses(CONSISTENT, { voicePhrases });
+  const again = await synthesizeFrameworkAnalyses(CONSISTENT, { voicePhrases });
+  const contradicting = await synthesizeFrameworkAnalyses(CONTRADICTING, { voicePhrases });
+  const tensionIds = contradicting.tensions.map((t) => t.id);
+
+  const tool = await synthesizeAnalysis({
+    decision: CONSISTENT.context,
+    theLandscape: { innovationType: "low-end-disruptive", marketPosition: { segment: "low-end" } },
+  });
+  let rejectsInvalidSection = false;
+  try {
+    await synthesizeAnalysis({ decision: "x", theCapabilities: { priorities: { alignment: "sideways" } } });
+  } catch (error) {
+    rejectsInvalidSection = error instanceof Error && error.message.includes("theCapabilities.priorities.alignment");
+  }
+
+  const checks: [string, boolean][] = [
+    [
+      "primary case from case matching: Steel Mini-Mills",
+      consistent.analysis.thePattern.primaryCase.name === "Steel Mini-Mills" &&
+        consistent.analysis.thePattern.patternSummary.startsWith("Like this decision"),
+    ],
+    ["consistent findings → no tensions", consistent.tensions.length === 0],
+    ["new-market disruption rated aligned → tension", tensionIds.includes("disruption-vs-priorities")],
+    [
+      "tensions need every section they compare (no theJob → no non-consumer tension)",
+      !tensionIds.includes("new-market-without-nonconsumers"),
+    ],
+    [
+      "confidence computed: sections assessed, prediction capped by tensions",
+      contradicting.analysis.theCapabilities.confidence === contradicting.confidence.sections.theCapabilities.confidence &&
+        contradicting.analysis.thePrediction.confidence !== "high" &&
+        contradicting.confidence.issues.some((i) => i.field === "theJob"),
+    ],
+    [
+      "narrative in the persona's voice",
+      consistent.analysis.narrativeSummary.includes("Steel Mini-Mills") &&
+        voicePhrases.some((p) => consistent.analysis.narrativeSummary.includes(p.replace(/\.\.\.$/, ""))),
+    ],
+    ["deterministic", JSON.stringify(consistent) === JSON.stringify(again)],
+    [
+      "tool: partial sections filled from templates",
+      tool.structured.analysis.theLandscape.trueCompetitors.length === 0 && tool.text.includes("## Tensions to Resolve"),
+    ],
+    ["tool: invalid section rejected with its path", rejectsInvalidSection],
+  ];
+
+  for (const [label, ok] of checks) {
+    console.log(`  ${ok ? "✓" : "✗"} ${label}`);
+  }
+
+  const passed = checks.every(([, ok]) => ok);
+  console.log(`Status: ${passed ? "PASSED" : "FAILED"}`);
+  return passed;
+}
@@ -8,6 +8,27 @@
 import { analyzeDecision } from "../tools/analyze-decision.js";
 import { findCaseStudy } from "../tools/case-study.js";
 import { calculateFidelityScore, formatFidelityReport } from "./fidelity-check.js";
+import { runSamplingCheck } from "./sampling-check.js";
+import { runPersonaCheck } from "./persona-check.js";
+import { runClassificationCheck } from "./classification-check.js";
+import { runCaseLibraryCheck } from "./case-library-check.js";
+import { runSignalCheck } from "./signal-check.js";
+import { runConfidenceCheck } from "./confidence-check.js";
+import { runSynthesisCheck } from "./synthesis-check.js";
+import { runAnswerParsingCheck } from "./answer-parsing-check.js";
+import { runCapabilityCheck } from "./capability-check.js";
+import { runFidelityRubricCheck } from "./fidelity-rubric-check.js";
+import { runModularityCheck } from "./modularity-check.js";
+import { runAttractiveProfitsCheck } from "./attractive-profits-check.js";
+import { runBusinessModelCheck } from "./business-model-check.js";
+import { runEmergentStrategyCheck } from "./emergent-strategy-check.js";
+import { runDiscoveryDrivenCheck } from "./discovery-driven-check.js";
+import { runPromptCheck } from "./prompt-check.js";
+import { runResourceCheck } from "./resource-check.js";
+import { runHttpCheck } from "./http-check.js";
+import { runPersonaSelectionCheck } from "./persona-selection-check.js";
+import { runPersonaOverrideCheck } from "./persona-override-check.js";
+import { runPersonaWatcherCheck } from "./persona-watcher-check.js";
 
 // ============================================================
 // Test Decision Definitions
@@ -155,7 +176,7 @@ export async function runTestDecision(
   console.log("=".repeat(60));
 
   // Run the analysis
-  const output = await analyzeDecision({
+  const { text: output } = await analyzeDecision({
     decision: testCase.decision,
     context: testCase.context,
     organization: testCase.organization,
@@ -195,6 +216,28 @@ export async function runAllTests(): Promise<void> {
     results.push(result);
   }
 
+  const samplingPassed = await runSamplingCheck();
+  const personaPassed = runPersonaCheck();
+  const classificationPassed = await runClassificationCheck();
+  const caseLibraryPassed = await runCaseLibraryCheck();
+  const signalPassed = runSignalCheck();
+  const confidencePassed = await runConfidenceCheck();
+  const synthesisPassed = await runSynthesisCheck();
+  const answerParsingPassed = await runAnswerParsingCheck();
+  const capabilityPassed = await runCapabilityCheck();
+  const fidelityRubricPassed = await runFidelityRubricCheck();
+  const modularityPassed = await runModularityCheck();
+  const attractiveProfitsPassed = await runAttractiveProfitsCheck();
+  const businessModelPassed = await runBusinessModelCheck();
+  const emergentStrategyPassed = await runEmergentStrategyCheck();
+  const discoveryDrivenPassed = await runDiscoveryDrivenCheck();
+  const promptPassed = await runPromptCheck();
+  const resourcePassed = await runResourceCheck();
+  const httpPassed = await runHttpCheck();
+  const personaSelectionPassed = await runPersonaSelectionCheck();
+  const personaOverridePassed = await runPersonaOverrideCheck();
+  const personaWatcherPassed = await runPersonaWatcherCheck();
+
   // Summary
   console.log("\n" + "=".repeat(60));
   console.log("SUMMARY");
@@ -206,8 +249,29 @@ export async function runAllTests(): Promise<void> {
   for (const result of results) {
     console.log(`  ${result.passed ? "✓" : "✗"} ${result.name}: ${result.fidelityScore.overall}/100`);
   }
+  console.log(`  ${samplingPassed ? "✓" : "✗"} Sampling mode against fake client`);
+  console.log(`  ${personaPassed ? "✓" : "✗"} Persona schema validation`);
+  console.log(`  ${classificationPassed ? "✓" : "✗"} Deterministic innovation classification`);
+  console.log(`  ${caseLibraryPassed ? "✓" : "✗"} Case library loading, retrieval and overrides`);
+  console.log(`  ${signalPassed ? "✓" : "✗"} Signal extraction`);
+  console.log(`  ${confidencePassed ? "✓" : "✗"} Confidence assessment`);
+  console.log(`  ${synthesisPassed ? "✓" : "✗"} Cross-framework synthesis`);
+  console.log(`  ${answerParsingPassed ? "✓" : "✗"} Free-text answer parsing`);
+  console.log(`  ${capabilityPassed ? "✓" : "✗"} Capability blocker diagnosis`);
+  console.log(`  ${fidelityRubricPassed ? "✓" : "✗"} Persona-driven fidelity rubric`);
+  console.log(`  ${modularityPassed ? "✓" : "✗"} Interdependence vs modularity framework`);
+  console.log(`  ${attractiveProfitsPassed ? "✓" : "✗"} Conservation of attractive profits`);
+  console.log(`  ${businessModelPassed ? "✓" : "✗"} Business model comparison`);
+  console.log(`  ${emergentStrategyPassed ? "✓" : "✗"} Deliberate vs emergent strategy`);
+  console.log(`  ${discoveryDrivenPassed ? "✓" : "✗"} Discovery-driven planning`);
+  console.log(`  ${promptPassed ? "✓" : "✗"} MCP prompts`);
+  console.log(`  ${resourcePassed ? "✓" : "✗"} MCP resources`);
+  console.log(`  ${httpPassed ? "✓" : "✗"} Streamable HTTP transport`);
+  console.log(`  ${personaSelectionPassed ? "✓" : "✗"} Persona selection`);
+  console.log(`  ${personaOverridePassed ? "✓" : "✗"} Persona override directory`);
+  console.log(`  ${personaWatcherPassed ? "✓" : "✗"} Persona hot reload`);
 
-  if (passed === results.length) {
+  if (passed === results.length && samplingPassed && personaPassed && classificationPassed && caseLibraryPassed && signalPassed && confidencePassed && synthesisPassed && answerParsingPassed && capabilityPassed && fidelityRubricPassed && modularityPassed && attractiveProfitsPassed && businessModelPassed && emergentStrategyPassed && discoveryDrivenPassed && promptPassed && resourcePassed && httpPassed && personaSelectionPassed && personaOverridePassed && personaWatcherPassed) {
     console.log("\n✓ All tests passed! Agent is ready for real-world use.");
   } else {
     console.log("\n⚠ Some tests failed. Review outputs for missing fidelity markers.");
@@ -0,0 +1,123 @@
+/**
+ * YAML Schema Validation
+ *
+ * Parses YAML data files and validates them against a zod schema,
+ * reporting every problem with its YAML path and line/column so
+ * authors of persona and case files can fix them directly.
+ */
+
+import type { z } from "zod";
+import { isMap, isNode, isScalar, LineCounter, parseDocument } from "yaml";
+import type { Document, ParsedNode } from "yaml";
+
+// ============================================================
+// Error Reporting
+// ============================================================
+
+export interface YamlIssue {
+  /** Dotted YAML path, e.g. validation.fidelity_markers.must_include[2]; empty for syntax errors */
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+type PathSegment = string | number;
+
+/**
+ * Render a zod issue path as a dotted YAML path
+ */
+function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>(
+    (out, segment) =>
+      typeof segment === "number" ? `${out}[${segment}]` : out ? `${out}.${segment}` : segment,
+    ""
+  );
+}
+
+/**
+ * Find the source offset for an issue: the node at the path, or the closest
+ * ancestor that exists (missing keys are reported at their parent mapping).
+ * Unrecognized keys are reported at the offending key itself.
+ */
+function locateIssue(
+  doc: Document.Parsed<ParsedNode>,
+  path: PathSegment[],
+  unrecognizedKey?: string
+): number | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(path.slice(0, depth), true);
+    if (!isNode(node) || !node.range) continue;
+
+    if (unrecognizedKey !== undefined && depth === path.length && isMap(node)) {
+      const pair = node.items.find((item) => isScalar(item.key) && item.key.value === unrecognizedKey);
+      if (isScalar(pair?.key) && pair.key.range) return pair.key.range[0];
+    }
+
+    return node.range[0];
+  }
+  return undefined;
+}
+
+/**
+ * Format issues as an indented list under a heading
+ */
+function formatIssues(heading: string, issues: YamlIssue[]): string {
+  const lines = issues.map((issue) => {
+    const where = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : "";
+    return `  - ${issue.path ? `${issue.path}: ` : ""}${issue.message}${where}`;
+  });
+  return `${heading}:\n${lines.join("\n")}`;
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse YAML and validate it against a schema. `heading` introduces the
+ * error message (e.g. `Invalid persona christensen.yaml`). Throws with
+ * every YAML syntax or schema issue listed.
+ */
+export function parseYamlWithSchema<T>(
+  yamlSource: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  heading: string
+): T {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yamlSource, { lineCounter, prettyErrors: true });
+
+  if (doc.errors.length > 0) {
+    throw new Error(
+      formatIssues(
+        heading,
+        doc.errors.map((error) => ({
+          path: "",
+          message: error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+          line: error.linePos?.[0].line,
+          column: error.linePos?.[0].col,
+        }))
+      )
+    );
+  }
+
+  const result = schema.safeParse(doc.toJS());
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue): YamlIssue => {
+    const keys = issue.code === "unrecognized_keys" ? issue.keys : [];
+    const offset = locateIssue(doc, issue.path, keys[0]);
+    const position = offset === undefined ? undefined : lineCounter.linePos(offset);
+    const path = keys.length === 1 ? [...issue.path, keys[0]] : issue.path;
+    return {
+      path: formatPath(path),
+      message: issue.message,
+      line: position?.line,
+      column: position?.col,
+    };
+  });
+
+  throw new Error(formatIssues(heading, issues));
+}